@@ -0,0 +1,107 @@
+import Decimal from 'decimal.js';
+import type { EngineOpportunity } from '../engine/detection';
+
+/**
+ * A detected opportunity as alert sinks see it; amounts are in the pair's quote token
+ */
+export interface OpportunityAlert {
+  scanner: string;
+  pair: string;
+  buyVenue: string;
+  sellVenue: string;
+  buyPrice: number;
+  sellPrice: number;
+  spreadPercent: number;
+  profit: number;
+  netProfit: number | null; // After gas, when the profile prices it
+  tradeSize: number | null; // Quote token input the profit was sized for
+  strategy: string;
+  confidence: string;
+  detectedAt: number;
+}
+
+/**
+ * Placeholders a template may use, as `{{name}}`
+ */
+export const ALERT_TEMPLATE_FIELDS = [
+  'scanner', 'pair', 'baseToken', 'quoteToken', 'buyVenue', 'sellVenue', 'buyPrice', 'sellPrice',
+  'spreadPercent', 'profit', 'netProfit', 'tradeSize', 'strategy', 'confidence', 'detectedAt'
+] as const;
+
+export type AlertTemplateField = typeof ALERT_TEMPLATE_FIELDS[number];
+
+export const DEFAULT_ALERT_TEMPLATE =
+  '🚨 {{pair}} {{spreadPercent}}%: buy {{buyVenue}} @ {{buyPrice}}, sell {{sellVenue}} @ {{sellPrice}} | ' +
+  'net {{netProfit}} {{quoteToken}} ({{strategy}}, {{confidence}} confidence, {{scanner}})';
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function alertFromOpportunity(opportunity: EngineOpportunity, scanner: string, detectedAt: number): OpportunityAlert {
+  return {
+    scanner,
+    pair: opportunity.pair,
+    buyVenue: opportunity.buyDex,
+    sellVenue: opportunity.sellDex,
+    buyPrice: opportunity.buyPrice.toNumber(),
+    sellPrice: opportunity.sellPrice.toNumber(),
+    spreadPercent: opportunity.profitPercentage.toNumber(),
+    profit: opportunity.profit.toNumber(),
+    netProfit: opportunity.netProfitAfterGas?.toNumber() ?? null,
+    tradeSize: opportunity.tradeSize?.toNumber() ?? null,
+    strategy: opportunity.strategy,
+    confidence: opportunity.confidence,
+    detectedAt
+  };
+}
+
+/**
+ * Alerts for the same pair bought and sold on the same venues share a key
+ */
+export function alertKey(alert: OpportunityAlert): string {
+  return `${alert.pair}:${alert.buyVenue}->${alert.sellVenue}`;
+}
+
+/**
+ * Throw on placeholders render() would not know, so a typo fails at startup instead of in every alert
+ */
+export function validateTemplate(template: string): string {
+  const unknown = Array.from(template.matchAll(PLACEHOLDER), match => match[1])
+    .filter(name => !(ALERT_TEMPLATE_FIELDS as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown alert template field(s) ${unknown.join(', ')}; expected any of ${ALERT_TEMPLATE_FIELDS.join(', ')}`);
+  }
+  return template;
+}
+
+export function renderAlert(template: string, alert: OpportunityAlert): string {
+  const fields = templateFields(alert);
+  return template.replace(PLACEHOLDER, (placeholder, name: string) =>
+    name in fields ? fields[name as AlertTemplateField] : placeholder
+  );
+}
+
+function templateFields(alert: OpportunityAlert): Record<AlertTemplateField, string> {
+  const [baseToken, quoteToken] = alert.pair.split('/');
+  return {
+    scanner: alert.scanner,
+    pair: alert.pair,
+    baseToken,
+    quoteToken,
+    buyVenue: alert.buyVenue,
+    sellVenue: alert.sellVenue,
+    buyPrice: significant(alert.buyPrice),
+    sellPrice: significant(alert.sellPrice),
+    spreadPercent: alert.spreadPercent.toFixed(4),
+    profit: significant(alert.profit),
+    netProfit: alert.netProfit === null ? 'n/a' : significant(alert.netProfit),
+    tradeSize: alert.tradeSize === null ? 'n/a' : significant(alert.tradeSize),
+    strategy: alert.strategy,
+    confidence: alert.confidence,
+    detectedAt: new Date(alert.detectedAt).toISOString()
+  };
+}
+
+// Enough digits for BONK-sized prices without printing float noise
+function significant(value: number): string {
+  return new Decimal(value).toSignificantDigits(8).toString();
+}
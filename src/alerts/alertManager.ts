@@ -0,0 +1,171 @@
+import { Logger, rootLogger } from '../logging/logger';
+import { DEFAULT_ALERT_TEMPLATE, OpportunityAlert, alertKey, renderAlert, validateTemplate } from './alert';
+import { AlertSink, DiscordSink, SlackSink, TelegramSink, WebhookSink } from './sinks';
+
+export interface AlertRoute {
+  sink: AlertSink;
+  template?: string; // Defaults to the manager's template
+  maxAlerts?: number; // Per rateWindowMs; defaults to the manager's limit
+}
+
+export interface AlertManagerOptions {
+  template?: string;
+  maxAlertsPerWindow?: number; // Sent to each sink; further alerts in the window are dropped
+  rateWindowMs?: number;
+  dedupWindowMs?: number; // A pair and route already delivered to a sink is not sent to it again within this
+  now?: () => number;
+  logger?: Logger; // Defaults to an 'alerts' child of the root logger
+}
+
+export type AlertOutcome = 'sent' | 'duplicate' | 'rate_limited' | 'failed';
+
+export interface AlertSinkStats {
+  sent: number;
+  duplicates: number;
+  rateLimited: number;
+  failed: number;
+  lastError: string | null;
+}
+
+interface SinkState {
+  route: AlertRoute;
+  template: string;
+  maxAlerts: number;
+  sentAt: number[]; // Delivery times inside the current rate window
+  lastSent: Map<string, number>; // Alert key -> last delivery
+  stats: AlertSinkStats;
+}
+
+const DEFAULT_MAX_ALERTS = 10;
+const DEFAULT_RATE_WINDOW_MS = 60000;
+const DEFAULT_DEDUP_WINDOW_MS = 300000;
+
+/**
+ * Fans alerts out to every sink, each with its own template, rate limit and deduplication.
+ * Delivery failures are counted and logged, never thrown, so they cannot stop a scanner.
+ */
+export class AlertManager {
+  private sinks: SinkState[];
+  private rateWindowMs: number;
+  private dedupWindowMs: number;
+  private now: () => number;
+  private logger: Logger;
+
+  constructor(routes: AlertRoute[], options: AlertManagerOptions = {}) {
+    const template = validateTemplate(options.template ?? DEFAULT_ALERT_TEMPLATE);
+    this.rateWindowMs = options.rateWindowMs ?? DEFAULT_RATE_WINDOW_MS;
+    this.dedupWindowMs = options.dedupWindowMs ?? DEFAULT_DEDUP_WINDOW_MS;
+    this.now = options.now ?? Date.now;
+    this.logger = options.logger ?? rootLogger().child({ component: 'alerts' });
+    this.sinks = routes.map(route => ({
+      route,
+      template: route.template !== undefined ? validateTemplate(route.template) : template,
+      maxAlerts: route.maxAlerts ?? options.maxAlertsPerWindow ?? DEFAULT_MAX_ALERTS,
+      sentAt: [],
+      lastSent: new Map(),
+      stats: { sent: 0, duplicates: 0, rateLimited: 0, failed: 0, lastError: null }
+    }));
+  }
+
+  /**
+   * Manager for the sinks configured in the environment; null when none is
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): AlertManager | null {
+    const routes: AlertRoute[] = [];
+    if (env.ALERT_DISCORD_WEBHOOK) {
+      routes.push({ sink: new DiscordSink(env.ALERT_DISCORD_WEBHOOK) });
+    }
+    if (env.ALERT_TELEGRAM_BOT_TOKEN || env.ALERT_TELEGRAM_CHAT_ID) {
+      if (!env.ALERT_TELEGRAM_BOT_TOKEN || !env.ALERT_TELEGRAM_CHAT_ID) {
+        throw new Error('Telegram alerts need both ALERT_TELEGRAM_BOT_TOKEN and ALERT_TELEGRAM_CHAT_ID');
+      }
+      routes.push({
+        sink: new TelegramSink(env.ALERT_TELEGRAM_BOT_TOKEN, env.ALERT_TELEGRAM_CHAT_ID, { apiUrl: env.ALERT_TELEGRAM_API_URL || undefined })
+      });
+    }
+    if (env.ALERT_SLACK_WEBHOOK) {
+      routes.push({ sink: new SlackSink(env.ALERT_SLACK_WEBHOOK) });
+    }
+    if (env.ALERT_WEBHOOK_URL) {
+      routes.push({ sink: new WebhookSink(env.ALERT_WEBHOOK_URL) });
+    }
+    if (routes.length === 0) return null;
+
+    return new AlertManager(routes, {
+      template: env.ALERT_TEMPLATE || undefined,
+      maxAlertsPerWindow: positiveNumber(env, 'ALERT_RATE_LIMIT_PER_MINUTE'),
+      dedupWindowMs: secondsToMs(positiveNumber(env, 'ALERT_DEDUP_SECONDS', true))
+    });
+  }
+
+  get sinkNames(): string[] {
+    return this.sinks.map(state => state.route.sink.name);
+  }
+
+  /**
+   * Deliver one alert to every sink; resolves once each has answered, with what happened per sink
+   */
+  async notify(alert: OpportunityAlert): Promise<Record<string, AlertOutcome>> {
+    const outcomes = await Promise.all(this.sinks.map(async state => [state.route.sink.name, await this.deliver(state, alert)] as const));
+    return Object.fromEntries(outcomes);
+  }
+
+  getStats(): Record<string, AlertSinkStats> {
+    return Object.fromEntries(this.sinks.map(state => [state.route.sink.name, { ...state.stats }]));
+  }
+
+  private async deliver(state: SinkState, alert: OpportunityAlert): Promise<AlertOutcome> {
+    const now = this.now();
+    const key = alertKey(alert);
+
+    const lastSent = state.lastSent.get(key);
+    if (lastSent !== undefined && now - lastSent < this.dedupWindowMs) {
+      state.stats.duplicates++;
+      return 'duplicate';
+    }
+
+    state.sentAt = state.sentAt.filter(sentAt => now - sentAt < this.rateWindowMs);
+    if (state.sentAt.length >= state.maxAlerts) {
+      state.stats.rateLimited++;
+      return 'rate_limited';
+    }
+
+    // Claimed before sending so concurrent notify() calls cannot both pass the checks
+    state.sentAt.push(now);
+    state.lastSent.set(key, now);
+    try {
+      await state.route.sink.send(renderAlert(state.template, alert), alert);
+      state.stats.sent++;
+      return 'sent';
+    } catch (error) {
+      // A failed alert may be retried by the next detection of the same opportunity
+      state.lastSent.delete(key);
+      state.stats.failed++;
+      state.stats.lastError = (error as Error).message;
+      this.logger.error(`❌ ${state.route.sink.name} alert failed: ${(error as Error).message}`, { sink: state.route.sink.name, alert: key });
+      return 'failed';
+    } finally {
+      this.pruneDeduplication(state, now);
+    }
+  }
+
+  private pruneDeduplication(state: SinkState, now: number): void {
+    for (const [key, sentAt] of state.lastSent) {
+      if (now - sentAt >= this.dedupWindowMs) state.lastSent.delete(key);
+    }
+  }
+}
+
+function positiveNumber(env: NodeJS.ProcessEnv, name: string, allowZero: boolean = false): number | undefined {
+  const raw = env[name];
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0 || (!allowZero && value === 0)) {
+    throw new Error(`${name} must be a ${allowZero ? 'non-negative' : 'positive'} number, got "${raw}"`);
+  }
+  return value;
+}
+
+function secondsToMs(seconds: number | undefined): number | undefined {
+  return seconds === undefined ? undefined : seconds * 1000;
+}
@@ -0,0 +1,99 @@
+import axios from 'axios';
+import { OpportunityAlert } from './alert';
+
+/**
+ * A channel alerts are delivered to. send() rejects when the service did not accept the message.
+ */
+export interface AlertSink {
+  readonly name: string;
+  send(message: string, alert: OpportunityAlert): Promise<void>;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// Longest message each service accepts
+const DISCORD_MAX_LENGTH = 2000;
+const TELEGRAM_MAX_LENGTH = 4096;
+
+/**
+ * Discord channel webhook
+ */
+export class DiscordSink implements AlertSink {
+  readonly name = 'discord';
+
+  constructor(private webhookUrl: string, private options: { username?: string; timeoutMs?: number } = {}) {}
+
+  async send(message: string): Promise<void> {
+    await postJson(this.name, this.webhookUrl, {
+      content: truncate(message, DISCORD_MAX_LENGTH),
+      ...(this.options.username ? { username: this.options.username } : {})
+    }, this.options.timeoutMs);
+  }
+}
+
+/**
+ * Telegram bot posting to one chat. apiUrl points at a self-hosted Bot API server or a test stub.
+ */
+export class TelegramSink implements AlertSink {
+  readonly name = 'telegram';
+
+  constructor(
+    private botToken: string,
+    private chatId: string,
+    private options: { apiUrl?: string; timeoutMs?: number } = {}
+  ) {}
+
+  async send(message: string): Promise<void> {
+    const apiUrl = (this.options.apiUrl ?? 'https://api.telegram.org').replace(/\/+$/, '');
+    await postJson(this.name, `${apiUrl}/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: truncate(message, TELEGRAM_MAX_LENGTH),
+      disable_web_page_preview: true
+    }, this.options.timeoutMs);
+  }
+}
+
+/**
+ * Slack incoming webhook
+ */
+export class SlackSink implements AlertSink {
+  readonly name = 'slack';
+
+  constructor(private webhookUrl: string, private options: { timeoutMs?: number } = {}) {}
+
+  async send(message: string): Promise<void> {
+    await postJson(this.name, this.webhookUrl, { text: message }, this.options.timeoutMs);
+  }
+}
+
+/**
+ * Any HTTP endpoint; receives the rendered message and the alert's fields as JSON
+ */
+export class WebhookSink implements AlertSink {
+  readonly name = 'webhook';
+
+  constructor(private url: string, private options: { headers?: Record<string, string>; timeoutMs?: number } = {}) {}
+
+  async send(message: string, alert: OpportunityAlert): Promise<void> {
+    await postJson(this.name, this.url, { message, alert }, this.options.timeoutMs, this.options.headers);
+  }
+}
+
+async function postJson(
+  sink: string,
+  url: string,
+  body: object,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+  headers: Record<string, string> = {}
+): Promise<void> {
+  // Error statuses are reported with the service's reason rather than axios' generic message
+  const response = await axios.post(url, body, { timeout: timeoutMs, headers, validateStatus: () => true });
+  if (response.status < 200 || response.status >= 300) {
+    const reason = typeof response.data === 'string' ? response.data : response.data?.description ?? response.data?.message;
+    throw new Error(`${sink} returned HTTP ${response.status}${reason ? `: ${reason}` : ''}`);
+  }
+}
+
+function truncate(message: string, maxLength: number): string {
+  return message.length <= maxLength ? message : `${message.slice(0, maxLength - 1)}…`;
+}
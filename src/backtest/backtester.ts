@@ -0,0 +1,346 @@
+import Decimal from 'decimal.js';
+import { HistoricalQuote, QuoteSnapshot, QuoteStream } from './historicalQuotes';
+
+export interface BacktestOptions {
+  minProfitThreshold: Decimal; // Minimum spread as a fraction, as in ArbitrageOptions
+  maxPriceImpact: Decimal; // Per leg, fraction
+  tradeSize: Decimal; // Base token units per trade
+  feeRate: number; // Per leg, fraction of notional
+  dexFeeRates: Record<string, number>; // Overrides feeRate for named venues
+  latencyMs: number; // Detection to fill
+  gasCostSol: Decimal; // Per trade (both legs)
+}
+
+/**
+ * One detected opportunity and what executing it would have returned
+ */
+export interface BacktestTrade {
+  timestamp: number;
+  source: string;
+  pair: string;
+  quoteToken: string;
+  buyDex: string;
+  sellDex: string;
+  buyPrice: Decimal; // At detection
+  sellPrice: Decimal;
+  spreadPercentage: Decimal;
+  fillBuyPrice: Decimal; // After latency
+  fillSellPrice: Decimal;
+  theoreticalPnl: Decimal; // Quote token, at detection prices with no costs
+  fees: Decimal;
+  gas: Decimal;
+  realizedPnl: Decimal;
+  extrapolated: boolean; // No later scan to drift the fill towards
+}
+
+export interface PnlSummary {
+  trades: number;
+  winners: number;
+  theoreticalPnl: Decimal;
+  latencyCost: Decimal;
+  fees: Decimal;
+  gas: Decimal;
+  realizedPnl: Decimal;
+}
+
+export interface BacktestReport {
+  options: BacktestOptions;
+  files: string[];
+  period: { start: number; end: number };
+  quotes: number;
+  rejectedQuotes: number;
+  snapshots: number;
+  trades: BacktestTrade[];
+  byQuoteToken: Record<string, PnlSummary>; // PnL is only summed within one quote currency
+  byPair: Record<string, PnlSummary>;
+  warnings: string[];
+}
+
+export interface ThresholdSweepRow {
+  minProfitThreshold: Decimal;
+  trades: number;
+  winRate: number;
+  byQuoteToken: Record<string, PnlSummary>;
+}
+
+const DEFAULT_OPTIONS: BacktestOptions = {
+  minProfitThreshold: new Decimal(0.001), // 0.1%
+  maxPriceImpact: new Decimal(0.05), // 5%
+  tradeSize: new Decimal(1),
+  feeRate: 0.0025,
+  dexFeeRates: {},
+  latencyMs: 400,
+  gasCostSol: new Decimal(0.005) // Matches ArbitrageAnalyzer's default gas estimate
+};
+
+/**
+ * Replay a historical quote stream through direct cross-venue detection and
+ * compare what each opportunity promised with what it would have realized
+ * after latency, trading fees and gas.
+ */
+export function runBacktest(stream: QuoteStream, options: Partial<BacktestOptions> = {}): BacktestReport {
+  const opts: BacktestOptions = { ...DEFAULT_OPTIONS, ...options };
+  const warnings: string[] = [];
+  const trades: BacktestTrade[] = [];
+  const solPrices = new Map<string, Decimal>(); // Latest SOL price in each quote token
+  const unpricedGas = new Set<string>();
+
+  // Each scan's successor for the same pair in the same file, for latency drift
+  const successors = new Map<QuoteSnapshot, QuoteSnapshot>();
+  const lastSeen = new Map<string, QuoteSnapshot>();
+  for (const snapshot of stream.snapshots) {
+    const key = `${snapshot.source}|${snapshot.pair}`;
+    const previous = lastSeen.get(key);
+    if (previous) successors.set(previous, snapshot);
+    lastSeen.set(key, snapshot);
+  }
+
+  for (const snapshot of stream.snapshots) {
+    const [baseToken, quoteToken] = snapshot.pair.split('/');
+    recordSolPrice(snapshot, baseToken, quoteToken, solPrices);
+
+    const opportunity = findBestOpportunity(snapshot.quotes, opts);
+    if (!opportunity) continue;
+
+    const next = successors.get(snapshot);
+    const fillBuyPrice = priceAfterLatency(opportunity.buy, snapshot, next, opts.latencyMs);
+    const fillSellPrice = priceAfterLatency(opportunity.sell, snapshot, next, opts.latencyMs);
+
+    const buyCost = fillBuyPrice.mul(opts.tradeSize);
+    const sellProceeds = fillSellPrice.mul(opts.tradeSize);
+    const fees = buyCost.mul(feeRateFor(opportunity.buy.dex, opts))
+      .add(sellProceeds.mul(feeRateFor(opportunity.sell.dex, opts)));
+
+    const solPrice = quoteToken === 'SOL' ? new Decimal(1) : solPrices.get(quoteToken);
+    if (!solPrice) unpricedGas.add(quoteToken);
+    const gas = solPrice ? opts.gasCostSol.mul(solPrice) : new Decimal(0);
+
+    trades.push({
+      timestamp: snapshot.timestamp,
+      source: snapshot.source,
+      pair: snapshot.pair,
+      quoteToken,
+      buyDex: opportunity.buy.dex,
+      sellDex: opportunity.sell.dex,
+      buyPrice: opportunity.buy.price,
+      sellPrice: opportunity.sell.price,
+      spreadPercentage: opportunity.spreadPercentage,
+      fillBuyPrice,
+      fillSellPrice,
+      theoreticalPnl: opportunity.sell.price.sub(opportunity.buy.price).mul(opts.tradeSize),
+      fees,
+      gas,
+      realizedPnl: sellProceeds.sub(buyCost).sub(fees).sub(gas),
+      extrapolated: opts.latencyMs > 0 && !next
+    });
+  }
+
+  if (unpricedGas.size > 0) {
+    warnings.push(`No SOL price seen for ${Array.from(unpricedGas).join(', ')}; gas was not charged on those pairs`);
+  }
+  const extrapolated = trades.filter(trade => trade.extrapolated).length;
+  if (extrapolated > 0) {
+    warnings.push(`${extrapolated} trades had no later scan and filled at detection prices`);
+  }
+
+  const timestamps = stream.snapshots.map(snapshot => snapshot.timestamp);
+
+  return {
+    options: opts,
+    files: stream.files,
+    period: {
+      start: timestamps.length > 0 ? timestamps[0] : 0,
+      end: timestamps.length > 0 ? timestamps[timestamps.length - 1] : 0
+    },
+    quotes: stream.quotes,
+    rejectedQuotes: stream.rejectedQuotes,
+    snapshots: stream.snapshots.length,
+    trades,
+    byQuoteToken: summarizeBy(trades, trade => trade.quoteToken),
+    byPair: summarizeBy(trades, trade => trade.pair),
+    warnings
+  };
+}
+
+/**
+ * Re-run the backtest at each threshold to see where realized PnL peaks
+ */
+export function sweepThresholds(
+  stream: QuoteStream,
+  thresholds: Decimal[],
+  options: Partial<BacktestOptions> = {}
+): ThresholdSweepRow[] {
+  return thresholds.map(minProfitThreshold => {
+    const report = runBacktest(stream, { ...options, minProfitThreshold });
+    const winners = report.trades.filter(trade => trade.realizedPnl.gt(0)).length;
+
+    return {
+      minProfitThreshold,
+      trades: report.trades.length,
+      winRate: report.trades.length > 0 ? winners / report.trades.length : 0,
+      byQuoteToken: report.byQuoteToken
+    };
+  });
+}
+
+/**
+ * Cheapest buy and richest sell in a scan, the way ArbitrageAnalyzer pairs venues
+ */
+function findBestOpportunity(
+  quotes: HistoricalQuote[],
+  options: BacktestOptions
+): { buy: HistoricalQuote; sell: HistoricalQuote; spreadPercentage: Decimal } | null {
+  let best: { buy: HistoricalQuote; sell: HistoricalQuote; spreadPercentage: Decimal } | null = null;
+
+  for (const buy of quotes) {
+    for (const sell of quotes) {
+      if (buy === sell || sell.price.lte(buy.price)) continue;
+      if (buy.priceImpact.gt(options.maxPriceImpact) || sell.priceImpact.gt(options.maxPriceImpact)) continue;
+
+      const spreadPercentage = sell.price.sub(buy.price).div(buy.price);
+      if (spreadPercentage.lt(options.minProfitThreshold)) continue;
+
+      if (!best || spreadPercentage.gt(best.spreadPercentage)) {
+        best = { buy, sell, spreadPercentage };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Venue price `latencyMs` after detection, interpolated towards the pair's next scan
+ */
+function priceAfterLatency(
+  quote: HistoricalQuote,
+  snapshot: QuoteSnapshot,
+  next: QuoteSnapshot | undefined,
+  latencyMs: number
+): Decimal {
+  const later = next?.quotes.find(candidate => candidate.dex === quote.dex);
+  if (latencyMs <= 0 || !next || !later) return quote.price;
+
+  const elapsed = next.timestamp - snapshot.timestamp;
+  const weight = elapsed > 0 ? Math.min(1, latencyMs / elapsed) : 1;
+  return quote.price.add(later.price.sub(quote.price).mul(weight));
+}
+
+function feeRateFor(dex: string, options: BacktestOptions): number {
+  return options.dexFeeRates[dex] ?? options.feeRate;
+}
+
+/**
+ * Track SOL's price in every quote token the stream has shown it against
+ */
+function recordSolPrice(
+  snapshot: QuoteSnapshot,
+  baseToken: string,
+  quoteToken: string,
+  solPrices: Map<string, Decimal>
+): void {
+  if (baseToken !== 'SOL' && quoteToken !== 'SOL') return;
+
+  const mean = snapshot.quotes
+    .reduce((sum, quote) => sum.add(quote.price), new Decimal(0))
+    .div(snapshot.quotes.length);
+
+  if (baseToken === 'SOL') {
+    solPrices.set(quoteToken, mean);
+  } else {
+    solPrices.set(baseToken, new Decimal(1).div(mean));
+  }
+}
+
+function summarizeBy(trades: BacktestTrade[], keyOf: (trade: BacktestTrade) => string): Record<string, PnlSummary> {
+  const summaries: Record<string, PnlSummary> = {};
+
+  for (const trade of trades) {
+    const key = keyOf(trade);
+    const summary = summaries[key] || (summaries[key] = {
+      trades: 0,
+      winners: 0,
+      theoreticalPnl: new Decimal(0),
+      latencyCost: new Decimal(0),
+      fees: new Decimal(0),
+      gas: new Decimal(0),
+      realizedPnl: new Decimal(0)
+    });
+
+    summary.trades++;
+    if (trade.realizedPnl.gt(0)) summary.winners++;
+    summary.theoreticalPnl = summary.theoreticalPnl.add(trade.theoreticalPnl);
+    summary.fees = summary.fees.add(trade.fees);
+    summary.gas = summary.gas.add(trade.gas);
+    summary.realizedPnl = summary.realizedPnl.add(trade.realizedPnl);
+    // Whatever the costs do not explain was lost to prices moving before the fill
+    summary.latencyCost = summary.theoreticalPnl.sub(summary.fees).sub(summary.gas).sub(summary.realizedPnl);
+  }
+
+  return summaries;
+}
+
+/**
+ * Human-readable realized-vs-theoretical PnL report
+ */
+export function formatBacktestReport(report: BacktestReport, sweep: ThresholdSweepRow[] = []): string {
+  const lines: string[] = [];
+  const opts = report.options;
+
+  lines.push('📊 Backtest Report');
+  lines.push('='.repeat(70));
+  lines.push(`Files: ${report.files.length} | Quotes: ${report.quotes} (${report.rejectedQuotes} rejected) | Scans: ${report.snapshots}`);
+  if (report.snapshots > 0) {
+    lines.push(`Period: ${new Date(report.period.start).toISOString()} → ${new Date(report.period.end).toISOString()}`);
+  }
+  lines.push(
+    `Settings: threshold ${opts.minProfitThreshold.mul(100).toFixed(3)}%, size ${opts.tradeSize.toString()}, ` +
+    `fee ${(opts.feeRate * 100).toFixed(2)}%/leg, latency ${opts.latencyMs}ms, gas ${opts.gasCostSol.toString()} SOL`
+  );
+
+  lines.push('');
+  lines.push('💰 PnL by quote token (theoretical → realized)');
+  const quoteTokens = Object.keys(report.byQuoteToken).sort();
+  if (quoteTokens.length === 0) {
+    lines.push('   No opportunities above the threshold');
+  }
+  for (const token of quoteTokens) {
+    const summary = report.byQuoteToken[token];
+    lines.push(
+      `   ${token}: ${summary.trades} trades, ${summary.winners} profitable | ` +
+      `theoretical ${summary.theoreticalPnl.toFixed(4)} → realized ${summary.realizedPnl.toFixed(4)} ` +
+      `(fees ${summary.fees.toFixed(4)}, gas ${summary.gas.toFixed(4)}, latency ${summary.latencyCost.toFixed(4)})`
+    );
+  }
+
+  const pairs = Object.entries(report.byPair)
+    .sort(([, a], [, b]) => b.realizedPnl.comparedTo(a.realizedPnl));
+  if (pairs.length > 0) {
+    lines.push('');
+    lines.push('📈 By pair');
+    for (const [pair, summary] of pairs) {
+      lines.push(`   ${pair}: ${summary.trades} trades, realized ${summary.realizedPnl.toFixed(4)} of ${summary.theoreticalPnl.toFixed(4)}`);
+    }
+  }
+
+  if (sweep.length > 0) {
+    lines.push('');
+    lines.push('🎯 minProfitThreshold sweep');
+    for (const row of sweep) {
+      const realized = Object.entries(row.byQuoteToken)
+        .map(([token, summary]) => `${summary.realizedPnl.toFixed(4)} ${token}`)
+        .join(', ');
+      lines.push(
+        `   ${row.minProfitThreshold.mul(100).toFixed(3)}%: ${row.trades} trades, ` +
+        `${(row.winRate * 100).toFixed(1)}% win rate${realized ? `, realized ${realized}` : ''}`
+      );
+    }
+  }
+
+  if (report.warnings.length > 0) {
+    lines.push('');
+    report.warnings.forEach(warning => lines.push(`⚠️  ${warning}`));
+  }
+
+  return lines.join('\n');
+}
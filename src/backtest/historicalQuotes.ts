@@ -0,0 +1,255 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Decimal from 'decimal.js';
+
+/**
+ * One venue's recorded price for a pair, as written by the scanners
+ */
+export interface HistoricalQuote {
+  timestamp: number;
+  source: string; // CSV file name
+  pair: string; // BASE/QUOTE
+  dex: string;
+  price: Decimal; // Quote per base
+  inputAmount: Decimal;
+  priceImpact: Decimal; // Fraction, not percent
+}
+
+/**
+ * Every venue quote for one pair from one scan of one file
+ */
+export interface QuoteSnapshot {
+  timestamp: number;
+  source: string;
+  pair: string;
+  quotes: HistoricalQuote[];
+}
+
+export interface LoadQuotesOptions {
+  excludeDexes?: string[]; // e.g. 'Synthetic DEX' rows from the conservative scanner
+  maxPriceDeviation?: number; // Drop quotes this far (fraction) from their snapshot median
+}
+
+export interface QuoteStream {
+  snapshots: QuoteSnapshot[]; // Time-ordered
+  files: string[];
+  quotes: number;
+  rejectedQuotes: number;
+}
+
+// Header names used across the scanners' CSV outputs, legacy titles first, then the shared record schema
+const COLUMN_ALIASES = {
+  timestamp: ['Timestamp', 'timestamp'],
+  pair: ['Trading Pair', 'pair'],
+  dex: ['DEX', 'DEX Name', 'DEX Protocol', 'venue'],
+  price: ['Price', 'Exchange Rate', 'price'],
+  inputAmount: ['Input Amount', 'inputAmount'],
+  priceImpact: ['Price Impact (%)', 'priceImpactPercent']
+};
+
+// Wide-format files carry one "<Venue> Price" column per venue instead of one row per venue
+const WIDE_PRICE_COLUMN = /^(.+) Price$/;
+
+/**
+ * Split CSV text into rows of fields, honouring double-quoted fields
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some(value => value !== '')) rows.push(row);
+
+  return rows;
+}
+
+function findColumn(header: string[], aliases: string[]): number {
+  return header.findIndex(name => aliases.includes(name.trim()));
+}
+
+function toDecimal(value: string | undefined): Decimal | null {
+  if (value === undefined || value.trim() === '') return null;
+  try {
+    const parsed = new Decimal(value.trim());
+    return parsed.isFinite() ? parsed : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Read the venue quotes out of one scanner CSV, in either row-per-venue or wide format
+ */
+export function parseQuoteCsv(text: string, source: string): HistoricalQuote[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = {
+    timestamp: findColumn(header, COLUMN_ALIASES.timestamp),
+    pair: findColumn(header, COLUMN_ALIASES.pair),
+    dex: findColumn(header, COLUMN_ALIASES.dex),
+    price: findColumn(header, COLUMN_ALIASES.price),
+    inputAmount: findColumn(header, COLUMN_ALIASES.inputAmount),
+    priceImpact: findColumn(header, COLUMN_ALIASES.priceImpact)
+  };
+
+  if (columns.timestamp < 0 || columns.pair < 0) {
+    throw new Error(`Unrecognized quote CSV format in ${source}: missing Timestamp or Trading Pair`);
+  }
+
+  // Row-per-venue when there is a DEX and a price column, otherwise "<Venue> Price" columns
+  const venueColumns: Array<{ dex: string | null; price: number }> = columns.dex >= 0 && columns.price >= 0
+    ? [{ dex: null, price: columns.price }]
+    : header
+        .map((name, index) => ({ match: WIDE_PRICE_COLUMN.exec(name.trim()), index }))
+        .filter(column => column.match)
+        .map(column => ({ dex: column.match![1], price: column.index }));
+
+  if (venueColumns.length === 0) {
+    throw new Error(`Unrecognized quote CSV format in ${source}: no venue price columns`);
+  }
+
+  const quotes: HistoricalQuote[] = [];
+
+  for (const row of rows) {
+    const timestamp = Date.parse(row[columns.timestamp]);
+    const pair = row[columns.pair]?.trim();
+    if (isNaN(timestamp) || !pair || !pair.includes('/')) continue;
+
+    for (const column of venueColumns) {
+      const dex = column.dex ?? row[columns.dex]?.trim();
+      const price = toDecimal(row[column.price]);
+      if (!dex || !price || price.lte(0)) continue;
+
+      // Wide rows only record the 1-unit quote
+      const inputAmount = column.dex === null ? toDecimal(row[columns.inputAmount]) : null;
+      const priceImpact = column.dex === null ? toDecimal(row[columns.priceImpact]) : null;
+
+      quotes.push({
+        timestamp,
+        source,
+        pair,
+        dex,
+        price,
+        inputAmount: inputAmount || new Decimal(1),
+        priceImpact: priceImpact ? priceImpact.div(100) : new Decimal(0)
+      });
+    }
+  }
+
+  return quotes;
+}
+
+/**
+ * Group quotes into per-pair scans and drop venues that disagree wildly with their peers
+ */
+export function buildQuoteStream(
+  quotes: HistoricalQuote[],
+  options: LoadQuotesOptions = {}
+): Omit<QuoteStream, 'files'> {
+  const excluded = new Set((options.excludeDexes || []).map(dex => dex.toLowerCase()));
+  const maxDeviation = options.maxPriceDeviation ?? 0.2;
+  const groups = new Map<string, QuoteSnapshot>();
+  let rejectedQuotes = 0;
+
+  for (const quote of quotes) {
+    if (excluded.has(quote.dex.toLowerCase())) {
+      rejectedQuotes++;
+      continue;
+    }
+
+    const key = `${quote.source}|${quote.timestamp}|${quote.pair}`;
+    let snapshot = groups.get(key);
+    if (!snapshot) {
+      snapshot = { timestamp: quote.timestamp, source: quote.source, pair: quote.pair, quotes: [] };
+      groups.set(key, snapshot);
+    }
+
+    // A venue listed twice in a scan keeps its first quote
+    if (snapshot.quotes.some(existing => existing.dex === quote.dex)) {
+      rejectedQuotes++;
+      continue;
+    }
+    snapshot.quotes.push(quote);
+  }
+
+  const snapshots: QuoteSnapshot[] = [];
+
+  groups.forEach(snapshot => {
+    const sorted = snapshot.quotes.map(quote => quote.price).sort((a, b) => a.comparedTo(b));
+    const median = sorted.length % 2 === 1
+      ? sorted[(sorted.length - 1) / 2]
+      : sorted[sorted.length / 2 - 1].add(sorted[sorted.length / 2]).div(2);
+
+    // Outliers only mean something with at least three venues to compare
+    const kept = sorted.length >= 3
+      ? snapshot.quotes.filter(quote => quote.price.sub(median).abs().div(median).lte(maxDeviation))
+      : snapshot.quotes;
+
+    rejectedQuotes += snapshot.quotes.length - kept.length;
+    if (kept.length > 0) {
+      snapshots.push({ ...snapshot, quotes: kept });
+    }
+  });
+
+  snapshots.sort((a, b) => a.timestamp - b.timestamp || a.source.localeCompare(b.source));
+
+  return {
+    snapshots,
+    quotes: quotes.length,
+    rejectedQuotes
+  };
+}
+
+/**
+ * Load scanner CSVs (files or directories of *.csv) into one time-ordered quote stream
+ */
+export function loadQuoteStream(paths: string[], options: LoadQuotesOptions = {}): QuoteStream {
+  const files = paths.flatMap(target =>
+    fs.statSync(target).isDirectory()
+      ? fs.readdirSync(target)
+          .filter(name => name.endsWith('.csv'))
+          .sort()
+          .map(name => path.join(target, name))
+      : [target]
+  );
+
+  const quotes = files.flatMap(file =>
+    parseQuoteCsv(fs.readFileSync(file, 'utf8'), path.basename(file))
+  );
+
+  return {
+    ...buildQuoteStream(quotes, options),
+    files: files.map(file => path.basename(file))
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Exit codes of the arb CLI, for scripts that branch on the outcome
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  failed: 1, // The command ran into an error
+  usage: 2, // Unknown command or option, or a malformed value
+  noResults: 3 // The command ran but had nothing to show, e.g. no venue quoted the pair
+} as const;
+
+/**
+ * A bad command line; reported with the command's usage and EXIT_CODES.usage
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export type OptionType = 'string' | 'number' | 'boolean' | 'list';
+
+export interface OptionSpec {
+  type: OptionType;
+  description: string;
+  value?: string; // Placeholder shown in help, e.g. "BASE/QUOTE,..."
+  alias?: string; // Single-letter short form
+}
+
+export type OptionValue = string | number | boolean | string[];
+
+export interface ParsedArgs {
+  positionals: string[];
+  options: Record<string, OptionValue>;
+}
+
+/**
+ * Parse `--name value`, `--name=value`, `-a value` and bare `--flag` options against a spec.
+ * List options split on commas and accumulate when repeated; `--` ends option parsing.
+ */
+export function parseArgs(argv: string[], specs: Record<string, OptionSpec>): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], options: {} };
+  const aliases = new Map(Object.entries(specs).filter(([, spec]) => spec.alias).map(([name, spec]) => [spec.alias!, name]));
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      parsed.positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-' || /^-\d/.test(arg)) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    const [flag, inline] = splitInlineValue(arg);
+    const name = flag.startsWith('--') ? flag.slice(2) : aliases.get(flag.slice(1));
+    const spec = name !== undefined ? specs[name] : undefined;
+    if (!name || !spec) {
+      throw new UsageError(`Unknown option ${flag}`);
+    }
+
+    if (spec.type === 'boolean') {
+      if (inline !== undefined) throw new UsageError(`${flag} takes no value`);
+      parsed.options[name] = true;
+      continue;
+    }
+
+    const raw = inline ?? argv[++i];
+    if (raw === undefined || (inline === undefined && raw.startsWith('--'))) {
+      throw new UsageError(`Missing value for ${flag}`);
+    }
+    parsed.options[name] = optionValue(flag, spec, raw, parsed.options[name]);
+  }
+
+  return parsed;
+}
+
+function splitInlineValue(arg: string): [string, string | undefined] {
+  const equals = arg.indexOf('=');
+  return arg.startsWith('--') && equals > 0 ? [arg.slice(0, equals), arg.slice(equals + 1)] : [arg, undefined];
+}
+
+function optionValue(flag: string, spec: OptionSpec, raw: string, previous: OptionValue | undefined): OptionValue {
+  switch (spec.type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        throw new UsageError(`${flag} expects a number, got "${raw}"`);
+      }
+      return value;
+    }
+    case 'list': {
+      const items = raw.split(',').map(item => item.trim()).filter(item => item.length > 0);
+      return [...((previous as string[] | undefined) ?? []), ...items];
+    }
+    default:
+      return raw;
+  }
+}
+
+export function stringOption(args: ParsedArgs, name: string): string | undefined {
+  return args.options[name] as string | undefined;
+}
+
+export function numberOption(args: ParsedArgs, name: string): number | undefined {
+  return args.options[name] as number | undefined;
+}
+
+export function listOption(args: ParsedArgs, name: string): string[] | undefined {
+  return args.options[name] as string[] | undefined;
+}
+
+export function flagOption(args: ParsedArgs, name: string): boolean {
+  return args.options[name] === true;
+}
+
+/**
+ * Option table for help output, one option per line
+ */
+export function formatOptions(specs: Record<string, OptionSpec>): string {
+  const rows = Object.entries(specs).map(([name, spec]) => [
+    `${spec.alias ? `-${spec.alias}, ` : '    '}--${name}${spec.type === 'boolean' ? '' : ` <${spec.value ?? spec.type}>`}`,
+    spec.description
+  ]);
+  const width = Math.max(0, ...rows.map(([flag]) => flag.length));
+  return rows.map(([flag, description]) => `  ${flag.padEnd(width)}  ${description}`).join('\n');
+}
@@ -0,0 +1,20 @@
+import { ScanEngineDependencies } from '../engine/scanEngine';
+import { OptionSpec, ParsedArgs } from './args';
+
+/**
+ * What every command may be handed besides its arguments; tests pass offline collaborators
+ */
+export interface CliContext {
+  engine: Partial<ScanEngineDependencies>; // Passed to every ScanEngine the command creates
+}
+
+/**
+ * One `arb` subcommand. run() resolves to an EXIT_CODES value; UsageErrors it throws exit with usage.
+ */
+export interface CliCommand {
+  name: string;
+  summary: string; // One line for `arb help`
+  usage: string; // Arguments after the command name, e.g. "<BASE/QUOTE> [options]"
+  options: Record<string, OptionSpec>;
+  run(args: ParsedArgs, context: CliContext): Promise<number>;
+}
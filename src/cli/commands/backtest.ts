@@ -0,0 +1,57 @@
+import * as path from 'path';
+import Decimal from 'decimal.js';
+import { BacktestOptions, formatBacktestReport, runBacktest, sweepThresholds } from '../../backtest/backtester';
+import { loadQuoteStream } from '../../backtest/historicalQuotes';
+import { EXIT_CODES, flagOption, listOption, numberOption } from '../args';
+import { CliCommand } from '../command';
+import { COMMON_OPTIONS, toTokenPairs } from '../options';
+
+const SWEEP_THRESHOLDS = [0, 0.0005, 0.001, 0.0025, 0.005, 0.01].map(value => new Decimal(value));
+
+export const backtestCommand: CliCommand = {
+  name: 'backtest',
+  summary: 'Replay recorded quotes through simulated execution and report realized PnL',
+  usage: '[paths...] [options]   paths default to data/',
+  options: {
+    pairs: { ...COMMON_OPTIONS.pairs, description: 'Only trade these pairs' },
+    threshold: { type: 'number', value: 'fraction', description: 'Minimum spread to trade, e.g. 0.001 for 0.1%' },
+    fee: { type: 'number', value: 'fraction', description: 'Fee per leg as a fraction of notional' },
+    latency: { type: 'number', value: 'ms', description: 'Delay from detection to fill' },
+    gas: { type: 'number', value: 'SOL', description: 'Gas per trade, both legs' },
+    size: { type: 'number', description: 'Base token units per trade' },
+    exclude: { type: 'list', value: 'venue,...', description: 'Venues to leave out, e.g. "Synthetic DEX"' },
+    sweep: { type: 'boolean', description: 'Also report a sweep over several thresholds' }
+  },
+
+  async run(args) {
+    const options: Partial<BacktestOptions> = {};
+    const threshold = numberOption(args, 'threshold');
+    const fee = numberOption(args, 'fee');
+    const latency = numberOption(args, 'latency');
+    const gas = numberOption(args, 'gas');
+    const size = numberOption(args, 'size');
+    if (threshold !== undefined) options.minProfitThreshold = new Decimal(threshold);
+    if (fee !== undefined) options.feeRate = fee;
+    if (latency !== undefined) options.latencyMs = latency;
+    if (gas !== undefined) options.gasCostSol = new Decimal(gas);
+    if (size !== undefined) options.tradeSize = new Decimal(size);
+
+    const stream = loadQuoteStream(
+      args.positionals.length > 0 ? args.positionals : [path.join(process.cwd(), 'data')],
+      { excludeDexes: listOption(args, 'exclude') ?? [] }
+    );
+
+    const pairs = listOption(args, 'pairs');
+    if (pairs) {
+      const wanted = toTokenPairs(pairs, undefined).map(pair => `${pair.from}/${pair.to}`);
+      stream.snapshots = stream.snapshots.filter(snapshot => wanted.includes(snapshot.pair));
+      stream.quotes = stream.snapshots.reduce((total, snapshot) => total + snapshot.quotes.length, 0);
+    }
+
+    const report = runBacktest(stream, options);
+    const rows = flagOption(args, 'sweep') ? sweepThresholds(stream, SWEEP_THRESHOLDS, options) : [];
+    console.log(formatBacktestReport(report, rows));
+
+    return stream.snapshots.length > 0 ? EXIT_CODES.ok : EXIT_CODES.noResults;
+  }
+};
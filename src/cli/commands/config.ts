@@ -0,0 +1,28 @@
+import { formatScannerConfig, scannerConfigToRaw } from '../../config/configLoader';
+import { EXIT_CODES, UsageError, flagOption } from '../args';
+import { CliCommand } from '../command';
+import { COMMON_OPTIONS, SCANNER_CONFIG_OPTIONS, scannerConfigFor } from '../options';
+import { printJson } from '../output';
+
+export const configCommand: CliCommand = {
+  name: 'config',
+  summary: 'Print the effective scanner config: defaults, then the config file, env vars and flags',
+  usage: '[options]',
+  options: {
+    ...SCANNER_CONFIG_OPTIONS,
+    json: COMMON_OPTIONS.json
+  },
+
+  async run(args) {
+    if (args.positionals.length > 0) throw new UsageError(`Unexpected argument ${args.positionals[0]}`);
+
+    const loaded = scannerConfigFor(args);
+    if (flagOption(args, 'json')) {
+      printJson(scannerConfigToRaw(loaded.config));
+    } else {
+      console.log(`# Effective scanner config${loaded.file ? ` (file: ${loaded.file})` : ''}; values not from the defaults name their source`);
+      console.log(formatScannerConfig(loaded).trimEnd());
+    }
+    return EXIT_CODES.ok;
+  }
+};
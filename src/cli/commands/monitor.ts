@@ -0,0 +1,54 @@
+import { SCAN_PROFILE_NAMES } from '../../engine/profiles';
+import { UsageError, listOption, numberOption } from '../args';
+import { CliCommand } from '../command';
+import { COMMON_OPTIONS, applyProfileOptions, metricsPortFor } from '../options';
+import { createEngine, loadProfile, runEngine } from './scan';
+
+export const monitorCommand: CliCommand = {
+  name: 'monitor',
+  summary: 'Stream pool account updates and detect opportunities as prices move',
+  usage: '[profile] [options]   profile defaults to real-time',
+  options: {
+    pairs: { ...COMMON_OPTIONS.pairs, description: 'Only stream the pools of these pairs' },
+    'min-spread': COMMON_OPTIONS['min-spread'],
+    'min-size': COMMON_OPTIONS['min-size'],
+    'max-size': COMMON_OPTIONS['max-size'],
+    'min-liquidity': { type: 'number', description: 'Ignore updates from pools with less liquidity, in the quote token' },
+    'max-age': { type: 'number', value: 'seconds', description: 'Oldest pool price still compared against' },
+    duration: { type: 'number', value: 'seconds', description: 'Stop after this long; runs until Ctrl+C otherwise' },
+    out: COMMON_OPTIONS.out,
+    format: COMMON_OPTIONS.format,
+    'log-level': COMMON_OPTIONS['log-level'],
+    'log-format': COMMON_OPTIONS['log-format'],
+    'metrics-port': COMMON_OPTIONS['metrics-port']
+  },
+
+  async run(args, context) {
+    const [name = 'real-time', ...extra] = args.positionals;
+    if (extra.length > 0) throw new UsageError(`Unexpected argument ${extra[0]}`);
+
+    const profile = applyProfileOptions(loadProfile(name), args);
+    if (!profile.stream) {
+      const streaming = SCAN_PROFILE_NAMES.filter(candidate => loadProfile(candidate).stream);
+      throw new UsageError(`Profile ${profile.name} polls quotes; run it with "arb scan ${profile.name}" or monitor ${streaming.join(', ')}`);
+    }
+
+    if (listOption(args, 'pairs')) {
+      const wanted = profile.pairs.map(pair => `${pair.from}/${pair.to}`);
+      profile.stream.pools = profile.stream.pools.filter(pool => wanted.includes(`${pool.baseToken}/${pool.quoteToken}`));
+      if (profile.stream.pools.length === 0) {
+        throw new UsageError(`Profile ${profile.name} streams no pools for ${wanted.join(', ')}`);
+      }
+    }
+
+    const minLiquidity = numberOption(args, 'min-liquidity');
+    const maxAge = numberOption(args, 'max-age');
+    const duration = numberOption(args, 'duration');
+    if (minLiquidity !== undefined) profile.stream.minLiquidity = minLiquidity;
+    if (maxAge !== undefined) profile.stream.maxQuoteAgeMs = maxAge * 1000;
+    if (duration !== undefined && duration <= 0) throw new UsageError(`--duration must be positive, got ${duration}`);
+
+    const metricsPort = metricsPortFor(args);
+    return runEngine(createEngine(profile, args, context), duration !== undefined ? duration * 1000 : undefined, metricsPort);
+  }
+};
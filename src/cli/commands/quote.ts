@@ -0,0 +1,101 @@
+import { ScanEngine } from '../../engine/scanEngine';
+import { ScanRecorder } from '../../storage/scanRecorder';
+import { EXIT_CODES, UsageError, flagOption, listOption, numberOption } from '../args';
+import { CliCommand } from '../command';
+import { COMMON_OPTIONS, applyProfileOptions } from '../options';
+import { formatTable, printJson } from '../output';
+import { loadProfile } from './scan';
+
+export const quoteCommand: CliCommand = {
+  name: 'quote',
+  summary: 'Quote one pair on every venue once and show the spreads between them',
+  usage: '<BASE/QUOTE> [options]',
+  options: {
+    amount: COMMON_OPTIONS.amount,
+    venues: COMMON_OPTIONS.venues,
+    routes: { type: 'list', value: 'bps,...', description: 'Also read venues from Jupiter routes at these slippages' },
+    'min-spread': { ...COMMON_OPTIONS['min-spread'], description: 'Smallest spread reported as an opportunity (default 0)' },
+    gas: { type: 'boolean', description: 'Net opportunities of an estimated transaction fee' },
+    json: COMMON_OPTIONS.json
+  },
+
+  async run(args, context) {
+    const [pairName, ...extra] = args.positionals;
+    if (!pairName) throw new UsageError('Which pair? e.g. arb quote SOL/USDC');
+    if (extra.length > 0) throw new UsageError(`Unexpected argument ${extra[0]}`);
+
+    // The optimized profile quotes every price source; only its quoting is used here
+    const profile = applyProfileOptions(loadProfile('optimized'), { ...args, options: { ...args.options, pairs: [pairName] } });
+    const routes = listOption(args, 'routes')?.map(Number);
+    if (routes?.some(bps => !Number.isInteger(bps) || bps < 0)) {
+      throw new UsageError(`--routes takes slippages in whole basis points, got ${listOption(args, 'routes')!.join(',')}`);
+    }
+    if (routes) profile.routeSplitting = { slippagesBps: routes };
+    profile.detection.minSpreadPercent = numberOption(args, 'min-spread') ?? 0;
+    profile.detection.estimateGas = flagOption(args, 'gas');
+    profile.output.logLevel = 'quiet';
+
+    const engine = new ScanEngine(profile, {
+      recorder: new ScanRecorder(null, 'quote'),
+      simulation: null,
+      paperTrader: null,
+      ...context.engine
+    });
+    const tokenPair = profile.pairs[0];
+    const pair = `${tokenPair.from}/${tokenPair.to}`;
+
+    try {
+      const { quotes, opportunities, sourceHealth } = await engine.quotePair(tokenPair);
+      const failures = sourceHealth.filter(check => !check.success);
+
+      if (flagOption(args, 'json')) {
+        printJson({
+          pair,
+          amount: tokenPair.amount,
+          quotes: quotes
+            .map(({ dex, source, price, outputAmount, priceImpact, responseTimeMs }) => ({ venue: dex, source, price, outputAmount, priceImpact, responseTimeMs }))
+            .sort((a, b) => b.price.cmp(a.price)),
+          opportunities: opportunities.map(opportunity => ({
+            buyVenue: opportunity.buyDex,
+            sellVenue: opportunity.sellDex,
+            strategy: opportunity.strategy,
+            spreadPercent: opportunity.profitPercentage,
+            grossProfit: opportunity.profit,
+            netProfit: opportunity.netProfitAfterGas ?? null
+          })),
+          errors: failures.map(check => ({ venue: check.venue, error: check.error }))
+        });
+      } else {
+        console.log(`💱 ${tokenPair.amount.toString()} ${tokenPair.from} → ${tokenPair.to}`);
+        console.log(formatTable(
+          ['Venue', 'Source', 'Price', `Output (${tokenPair.to})`, 'Impact %', 'ms'],
+          [...quotes]
+            .sort((a, b) => b.price.cmp(a.price))
+            .map(quote => [
+              quote.dex,
+              quote.source,
+              quote.price.toFixed(8),
+              quote.outputAmount.toFixed(6),
+              quote.priceImpact.toFixed(4),
+              quote.responseTimeMs ?? null
+            ])
+        ));
+        failures.forEach(check => console.log(`⚠️  ${check.venue}: ${check.error}`));
+
+        console.log('');
+        if (opportunities.length === 0) {
+          console.log(quotes.length < 2 ? '⚪ Fewer than two venues quoted - nothing to compare' : '⚪ No spread above the threshold');
+        }
+        for (const opportunity of opportunities) {
+          const net = opportunity.netProfitAfterGas ? `, net ${opportunity.netProfitAfterGas.toFixed(6)}` : '';
+          console.log(`💰 ${opportunity.buyDex} → ${opportunity.sellDex}: ${opportunity.profitPercentage.toFixed(4)}%, ` +
+            `gross ${opportunity.profit.toFixed(6)} ${tokenPair.to}${net} (${opportunity.strategy})`);
+        }
+      }
+
+      return quotes.length > 0 ? EXIT_CODES.ok : EXIT_CODES.noResults;
+    } finally {
+      await engine.stop();
+    }
+  }
+};
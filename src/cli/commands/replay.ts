@@ -0,0 +1,176 @@
+import Decimal from 'decimal.js';
+import { EngineOpportunity, EngineQuote, findOpportunities } from '../../engine/detection';
+import { readRecords } from '../../records/recordReader';
+import { ArbitrageRecord } from '../../records/schema';
+import { ScanContext, markBestOfScan, opportunityRecords, venueQuoteRecords } from '../../records/scannerRecords';
+import { EXIT_CODES, UsageError, flagOption, listOption, numberOption, stringOption } from '../args';
+import { CliCommand } from '../command';
+import { COMMON_OPTIONS, recordWriterFor, toTokenPairs } from '../options';
+import { formatTable, printJson } from '../output';
+
+const DEFAULT_MIN_SPREAD_PERCENT = 0.01;
+const QUOTE_SOURCES: Array<EngineQuote['source']> = ['direct', 'aggregator', 'route'];
+
+/**
+ * The quotes one scan recorded for one pair, and the opportunities it reported for them
+ */
+interface RecordedPair {
+  context: ScanContext;
+  quotes: EngineQuote[];
+  recordedOpportunities: number;
+}
+
+export const replayCommand: CliCommand = {
+  name: 'replay',
+  summary: 'Run recorded quotes through the current detector and compare with what was reported',
+  usage: '<record files...> [options]',
+  options: {
+    pairs: { ...COMMON_OPTIONS.pairs, description: 'Only replay these pairs' },
+    'min-spread': { ...COMMON_OPTIONS['min-spread'], description: `Smallest spread reported as an opportunity (default ${DEFAULT_MIN_SPREAD_PERCENT})` },
+    limit: { type: 'number', description: 'Opportunities to list, widest first (default 20)' },
+    out: { ...COMMON_OPTIONS.out, description: 'Write the replayed quotes and opportunities as records to this file or directory' },
+    format: COMMON_OPTIONS.format,
+    json: COMMON_OPTIONS.json
+  },
+
+  async run(args) {
+    if (args.positionals.length === 0) {
+      throw new UsageError('Which record files? e.g. arb replay data/legitimate_arbitrage_2026-10-01.csv');
+    }
+    const limit = numberOption(args, 'limit') ?? 20;
+    if (!Number.isInteger(limit) || limit <= 0) throw new UsageError(`--limit must be a positive integer, got ${limit}`);
+    const minSpreadPercent = numberOption(args, 'min-spread') ?? DEFAULT_MIN_SPREAD_PERCENT;
+    const pairs = listOption(args, 'pairs');
+    const wanted = pairs ? toTokenPairs(pairs, undefined).map(pair => `${pair.from}/${pair.to}`) : null;
+
+    const records: ArbitrageRecord[] = [];
+    for (const file of args.positionals) {
+      try {
+        records.push(...await readRecords(file));
+      } catch (error) {
+        throw new Error(`${(error as Error).message}. Scanner CSVs from before the shared schema need "npm run migrate-records" first`);
+      }
+    }
+
+    const recorded = groupByScanAndPair(records.filter(record => wanted === null || wanted.includes(record.pair)));
+    const replayed = recorded.map(group => ({
+      group,
+      opportunities: findOpportunities(group.context.pair, group.quotes, { minSpreadPercent })
+    }));
+
+    const writer = stringOption(args, 'out') !== undefined ? recordWriterFor(args, 'replay') : undefined;
+    if (writer) {
+      try {
+        for (const { group, opportunities } of replayed) {
+          const output = [...venueQuoteRecords(group.context, group.quotes, opportunities), ...opportunityRecords(group.context, opportunities)];
+          markBestOfScan(output);
+          await writer.write(output);
+        }
+      } finally {
+        await writer.close();
+      }
+    }
+
+    const quotes = recorded.reduce((total, group) => total + group.quotes.length, 0);
+    const recordedOpportunities = recorded.reduce((total, group) => total + group.recordedOpportunities, 0);
+    const opportunities = replayed.flatMap(({ group, opportunities }) =>
+      opportunities.map(opportunity => ({ scanner: group.context.scanner, opportunity })));
+    const widest = [...opportunities]
+      .sort((a, b) => b.opportunity.profitPercentage.cmp(a.opportunity.profitPercentage))
+      .slice(0, limit);
+
+    if (flagOption(args, 'json')) {
+      printJson({
+        files: args.positionals,
+        scans: recorded.length,
+        quotes,
+        recordedOpportunities,
+        replayedOpportunities: opportunities.length,
+        minSpreadPercent,
+        opportunities: widest.map(({ scanner, opportunity }) => opportunityJson(scanner, opportunity)),
+        output: writer?.path ?? null
+      });
+    } else {
+      console.log(`🔁 Replayed ${quotes} quotes from ${recorded.length} pair scans in ${args.positionals.length} files`);
+      console.log(`   Opportunities: ${recordedOpportunities} recorded → ${opportunities.length} at ≥ ${minSpreadPercent}% with the current detector`);
+      if (widest.length > 0) {
+        console.log('');
+        console.log(formatTable(
+          ['Time', 'Scanner', 'Pair', 'Buy', 'Sell', 'Spread %', 'Gross profit', 'Strategy'],
+          widest.map(({ scanner, opportunity }) => [
+            new Date(opportunity.buyQuote.timestamp).toISOString(),
+            scanner,
+            opportunity.pair,
+            opportunity.buyDex,
+            opportunity.sellDex,
+            Number(opportunity.profitPercentage.toFixed(4)),
+            Number(opportunity.profit.toFixed(6)),
+            opportunity.strategy
+          ])
+        ));
+      }
+      if (writer) console.log(`📁 Records saved to: ${writer.path}`);
+    }
+
+    return quotes > 0 ? EXIT_CODES.ok : EXIT_CODES.noResults;
+  }
+};
+
+/**
+ * Quote records regrouped into the scans that wrote them; streamed records group by timestamp
+ */
+function groupByScanAndPair(records: ArbitrageRecord[]): RecordedPair[] {
+  const groups = new Map<string, RecordedPair>();
+
+  for (const record of records) {
+    const key = `${record.scanner}|${record.scanNumber ?? record.timestamp}|${record.pair}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        context: { scanner: record.scanner, timestamp: record.timestamp, scanNumber: record.scanNumber, pair: record.pair },
+        quotes: [],
+        recordedOpportunities: 0
+      };
+      groups.set(key, group);
+    }
+
+    if (record.kind === 'opportunity') {
+      group.recordedOpportunities++;
+    } else if (record.venue && record.price !== null && record.price > 0) {
+      group.quotes.push(recordQuote(record));
+    }
+  }
+
+  return Array.from(groups.values()).filter(group => group.quotes.length > 0);
+}
+
+function recordQuote(record: ArbitrageRecord): EngineQuote {
+  const inputAmount = new Decimal(record.inputAmount ?? 1);
+  const price = new Decimal(record.price!);
+  return {
+    dex: record.venue!,
+    price,
+    inputAmount,
+    outputAmount: record.outputAmount !== null ? new Decimal(record.outputAmount) : price.mul(inputAmount),
+    priceImpact: new Decimal(record.priceImpactPercent ?? 0),
+    // Recorded sources other than these, and missing ones, cannot be executed pool to pool
+    source: QUOTE_SOURCES.includes(record.source as EngineQuote['source']) ? record.source as EngineQuote['source'] : 'route',
+    responseTimeMs: record.responseTimeMs ?? undefined,
+    liquidityAvailable: record.liquidityAvailable ?? undefined,
+    timestamp: Date.parse(record.timestamp)
+  };
+}
+
+function opportunityJson(scanner: string, opportunity: EngineOpportunity) {
+  return {
+    timestamp: new Date(opportunity.buyQuote.timestamp).toISOString(),
+    scanner,
+    pair: opportunity.pair,
+    buyVenue: opportunity.buyDex,
+    sellVenue: opportunity.sellDex,
+    strategy: opportunity.strategy,
+    spreadPercent: opportunity.profitPercentage,
+    grossProfit: opportunity.profit,
+    confidence: opportunity.confidence
+  };
+}
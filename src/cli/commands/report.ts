@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import { OpportunityStore, defaultStorePath } from '../../storage/opportunityStore';
+import { ScannerSummary, StoredOpportunity, TimeRange, findOpportunities, summarizeScanners, venueUptimeByHour } from '../../storage/queries';
+import { EXIT_CODES, UsageError, flagOption, listOption, numberOption, stringOption } from '../args';
+import { CliCommand } from '../command';
+import { COMMON_OPTIONS, toTime, toTokenPairs } from '../options';
+import { formatTable, printJson } from '../output';
+
+interface VenueHealth {
+  venue: string;
+  checks: number;
+  uptime: number;
+  averageLatencyMs: number | null;
+}
+
+export const reportCommand: CliCommand = {
+  name: 'report',
+  summary: 'Summarize recorded scans, venue health and the latest opportunities from the scan store',
+  usage: '[options]',
+  options: {
+    db: { type: 'string', value: 'path', description: 'Scan store; defaults to STORE_PATH, then data/arbitrage.db' },
+    since: { type: 'string', value: 'time', description: 'ISO date or age such as 24h or 7d' },
+    until: { type: 'string', value: 'time', description: 'ISO date or age; defaults to now' },
+    scanner: { type: 'string', description: 'Only this scanner, e.g. legitimate or realtime' },
+    pairs: { ...COMMON_OPTIONS.pairs, description: 'Only opportunities on these pairs' },
+    venue: { type: 'string', description: 'Only opportunities buying or selling on this venue' },
+    'min-spread': COMMON_OPTIONS['min-spread'],
+    viable: { type: 'boolean', description: 'Only opportunities that survived simulation or paper trading' },
+    limit: { type: 'number', description: 'Opportunities to list (default 20)' },
+    json: COMMON_OPTIONS.json
+  },
+
+  async run(args) {
+    if (args.positionals.length > 0) throw new UsageError(`Unexpected argument ${args.positionals[0]}`);
+    const limit = numberOption(args, 'limit') ?? 20;
+    if (!Number.isInteger(limit) || limit <= 0) throw new UsageError(`--limit must be a positive integer, got ${limit}`);
+
+    const since = stringOption(args, 'since');
+    const until = stringOption(args, 'until');
+    const range: TimeRange = {
+      ...(since !== undefined ? { from: toTime(since) } : {}),
+      ...(until !== undefined ? { to: toTime(until) } : {})
+    };
+    const scanner = stringOption(args, 'scanner');
+    const pairs = listOption(args, 'pairs');
+    const pairNames = pairs ? toTokenPairs(pairs, undefined).map(pair => `${pair.from}/${pair.to}`) : [undefined];
+
+    const dbPath = stringOption(args, 'db') ?? defaultStorePath();
+    if (!fs.existsSync(dbPath)) {
+      throw new Error(`No scan store at ${dbPath}; scans record to it as they run`);
+    }
+
+    const store = new OpportunityStore(dbPath);
+    try {
+      const scanners = summarizeScanners(store, range).filter(summary => scanner === undefined || summary.scanner === scanner);
+      const venues = venueHealth(store, range);
+      const opportunities = pairNames
+        .flatMap(pair => findOpportunities(store, {
+          ...range,
+          pair,
+          scanner,
+          venue: stringOption(args, 'venue'),
+          minSpreadPercent: numberOption(args, 'min-spread'),
+          viableOnly: flagOption(args, 'viable'),
+          limit
+        }))
+        .sort((a, b) => b.timestamp - a.timestamp || b.id - a.id)
+        .slice(0, limit);
+
+      if (flagOption(args, 'json')) {
+        printJson({ scanners, venues, opportunities });
+      } else {
+        printReport(scanners, venues, opportunities);
+      }
+      return scanners.length > 0 ? EXIT_CODES.ok : EXIT_CODES.noResults;
+    } finally {
+      store.close();
+    }
+  }
+};
+
+/**
+ * Uptime per venue over the whole window, from the hourly buckets
+ */
+function venueHealth(store: OpportunityStore, range: TimeRange): VenueHealth[] {
+  const totals = new Map<string, { checks: number; successes: number; latencySum: number; latencyCount: number }>();
+
+  for (const hour of venueUptimeByHour(store, range)) {
+    const total = totals.get(hour.venue) ?? { checks: 0, successes: 0, latencySum: 0, latencyCount: 0 };
+    total.checks += hour.checks;
+    total.successes += hour.successes;
+    if (hour.averageLatencyMs !== null) {
+      total.latencySum += hour.averageLatencyMs * hour.successes;
+      total.latencyCount += hour.successes;
+    }
+    totals.set(hour.venue, total);
+  }
+
+  return Array.from(totals, ([venue, total]) => ({
+    venue,
+    checks: total.checks,
+    uptime: total.successes / total.checks,
+    averageLatencyMs: total.latencyCount > 0 ? Math.round(total.latencySum / total.latencyCount) : null
+  })).sort((a, b) => a.venue.localeCompare(b.venue));
+}
+
+function printReport(
+  scanners: ScannerSummary[],
+  venues: VenueHealth[],
+  opportunities: StoredOpportunity[]
+): void {
+  console.log('📊 Scans by scanner');
+  if (scanners.length === 0) {
+    console.log('   No scans recorded in this window');
+    return;
+  }
+  console.log(formatTable(
+    ['Scanner', 'Scans', 'Quotes', 'Opportunities', 'Best spread %', 'First scan', 'Last scan'],
+    scanners.map(summary => [
+      summary.scanner,
+      summary.scans,
+      summary.quotes,
+      summary.opportunities,
+      summary.bestSpreadPercent === null ? null : Number(summary.bestSpreadPercent.toFixed(4)),
+      new Date(summary.firstScanAt).toISOString(),
+      new Date(summary.lastScanAt).toISOString()
+    ])
+  ));
+
+  if (venues.length > 0) {
+    console.log('\n📡 Venue health');
+    console.log(formatTable(
+      ['Venue', 'Checks', 'Uptime %', 'Avg latency ms'],
+      venues.map(venue => [venue.venue, venue.checks, Number((venue.uptime * 100).toFixed(1)), venue.averageLatencyMs])
+    ));
+  }
+
+  console.log('\n💰 Latest opportunities');
+  if (opportunities.length === 0) {
+    console.log('   None matched');
+    return;
+  }
+  console.log(formatTable(
+    ['Time', 'Scanner', 'Pair', 'Buy', 'Sell', 'Spread %', 'Net profit', 'Viable'],
+    opportunities.map(opportunity => [
+      new Date(opportunity.timestamp).toISOString(),
+      opportunity.scanner,
+      opportunity.pair,
+      opportunity.buyVenue,
+      opportunity.sellVenue,
+      Number(opportunity.spreadPercent.toFixed(4)),
+      opportunity.netProfit,
+      opportunity.viable === null ? null : opportunity.viable ? 'yes' : 'no'
+    ])
+  ));
+}
@@ -0,0 +1,111 @@
+import { SCAN_PROFILE_NAMES, ScanProfile, getScanProfile } from '../../engine/profiles';
+import { ScanEngine } from '../../engine/scanEngine';
+import { Logger, rootLogger, setRootLogger } from '../../logging/logger';
+import { MetricsServer } from '../../metrics/metricsServer';
+import { EXIT_CODES, ParsedArgs, UsageError, flagOption, numberOption } from '../args';
+import { CliCommand, CliContext } from '../command';
+import { COMMON_OPTIONS, applyProfileOptions, logFormatOption, metricsPortFor, recordWriterFor } from '../options';
+
+/**
+ * A built-in profile by name, with unknown names reported as usage errors
+ */
+export function loadProfile(name: string): ScanProfile {
+  try {
+    return getScanProfile(name);
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+/**
+ * Run an engine to completion. SIGINT and SIGTERM, or `durationMs` passing, stop it cleanly.
+ * With a metrics port, the engine's metrics are served at /metrics while it runs.
+ */
+export async function runEngine(engine: ScanEngine, durationMs?: number, metricsPort?: number): Promise<number> {
+  let metricsServer: MetricsServer | null = null;
+  if (metricsPort !== undefined) {
+    try {
+      metricsServer = await MetricsServer.start(engine.metrics.registry, metricsPort);
+    } catch (error) {
+      await engine.stop(); // Closes the outputs the engine opened
+      throw new Error(`Cannot serve metrics on port ${metricsPort}: ${(error as Error).message}`);
+    }
+    rootLogger().info(`📈 Metrics: ${metricsServer.url}`, { url: metricsServer.url });
+  }
+
+  const stop = (signal: string) => {
+    rootLogger().info(`\n⏹️  Received ${signal}, shutting down gracefully...`, { signal });
+    engine.stop();
+  };
+  const onSigint = () => stop('SIGINT');
+  const onSigterm = () => stop('SIGTERM');
+  process.once('SIGINT', onSigint);
+  process.once('SIGTERM', onSigterm);
+  const timer = durationMs !== undefined ? setTimeout(() => engine.stop(), durationMs) : null;
+
+  try {
+    await engine.start();
+    return EXIT_CODES.ok;
+  } finally {
+    if (timer) clearTimeout(timer);
+    process.removeListener('SIGINT', onSigint);
+    process.removeListener('SIGTERM', onSigterm);
+    await metricsServer?.close();
+  }
+}
+
+/**
+ * The engine for a profile, writing to --out when given. --log-format switches the
+ * process-wide logger, so every component of the run logs the same way.
+ */
+export function createEngine(profile: ScanProfile, args: ParsedArgs, context: CliContext): ScanEngine {
+  const logFormat = logFormatOption(args);
+  if (logFormat !== undefined) setRootLogger(new Logger({ level: rootLogger().level, format: logFormat }));
+  const recordWriter = recordWriterFor(args, profile.output.scanner) ?? context.engine.recordWriter;
+  return new ScanEngine(profile, { ...context.engine, ...(recordWriter ? { recordWriter } : {}) });
+}
+
+export const scanCommand: CliCommand = {
+  name: 'scan',
+  summary: 'Poll the pairs of a scan profile and record the opportunities found',
+  usage: `[profile] [options]   profiles: ${SCAN_PROFILE_NAMES.join(', ')} (default legitimate)`,
+  options: {
+    pairs: COMMON_OPTIONS.pairs,
+    venues: COMMON_OPTIONS.venues,
+    amount: COMMON_OPTIONS.amount,
+    'min-spread': COMMON_OPTIONS['min-spread'],
+    interval: { type: 'number', value: 'seconds', description: 'Pause between scans' },
+    'max-scans': { type: 'number', description: 'Stop after this many scans' },
+    'target-records': { type: 'number', description: 'Stop once this many records are written' },
+    once: { type: 'boolean', description: 'Scan every pair once and exit; same as --max-scans 1' },
+    out: COMMON_OPTIONS.out,
+    format: COMMON_OPTIONS.format,
+    'log-level': COMMON_OPTIONS['log-level'],
+    'log-format': COMMON_OPTIONS['log-format'],
+    'metrics-port': COMMON_OPTIONS['metrics-port']
+  },
+
+  async run(args, context) {
+    const [name = 'legitimate', ...extra] = args.positionals;
+    if (extra.length > 0) throw new UsageError(`Unexpected argument ${extra[0]}`);
+
+    const profile = applyProfileOptions(loadProfile(name), args);
+    if (profile.stream) {
+      throw new UsageError(`Profile ${profile.name} streams pool updates; run it with "arb monitor ${profile.name}"`);
+    }
+
+    const interval = numberOption(args, 'interval');
+    const maxScans = flagOption(args, 'once') ? 1 : numberOption(args, 'max-scans');
+    const targetRecords = numberOption(args, 'target-records');
+    for (const [flag, value] of [['--interval', interval], ['--max-scans', maxScans], ['--target-records', targetRecords]] as const) {
+      if (value !== undefined && value < 0) throw new UsageError(`${flag} cannot be negative, got ${value}`);
+    }
+    if (interval !== undefined) profile.schedule.scanIntervalMs = interval * 1000;
+    if (maxScans !== undefined) profile.schedule.maxScans = maxScans;
+    if (targetRecords !== undefined) profile.schedule.targetRecords = targetRecords;
+    if (profile.pairs.length === 0) throw new UsageError(`Profile ${profile.name} has no pairs; pass --pairs`);
+
+    const metricsPort = metricsPortFor(args);
+    return runEngine(createEngine(profile, args, context), undefined, metricsPort);
+  }
+};
@@ -0,0 +1,43 @@
+import { KNOWN_POOLS } from '../../config/pools';
+import { KNOWN_TOKENS } from '../../utils/tokenUtils';
+import { EXIT_CODES, flagOption } from '../args';
+import { CliCommand } from '../command';
+import { COMMON_OPTIONS } from '../options';
+import { formatTable, printJson } from '../output';
+
+export const tokensCommand: CliCommand = {
+  name: 'tokens',
+  summary: 'List the tokens pairs can be built from, and the pools quoted directly for each',
+  usage: '[SYMBOL...] [options]',
+  options: {
+    json: COMMON_OPTIONS.json
+  },
+
+  async run(args) {
+    const wanted = args.positionals.map(symbol => symbol.toUpperCase());
+    const tokens = Object.values(KNOWN_TOKENS)
+      .filter(token => wanted.length === 0 || wanted.includes(token.symbol))
+      .map(token => ({
+        symbol: token.symbol,
+        name: token.name ?? null,
+        decimals: token.decimals,
+        mint: token.mint.toBase58(),
+        pools: KNOWN_POOLS
+          .filter(pool => pool.tokenA === token.symbol || pool.tokenB === token.symbol)
+          .map(pool => `${pool.dex} ${pool.tokenA}/${pool.tokenB}`)
+      }));
+
+    if (flagOption(args, 'json')) {
+      printJson(tokens);
+    } else if (tokens.length > 0) {
+      console.log(formatTable(
+        ['Symbol', 'Name', 'Decimals', 'Mint', 'Direct pools'],
+        tokens.map(token => [token.symbol, token.name, token.decimals, token.mint, token.pools.join(', ') || null])
+      ));
+    }
+
+    const missing = wanted.filter(symbol => !tokens.some(token => token.symbol === symbol));
+    missing.forEach(symbol => console.error(`❌ Unknown token ${symbol}`));
+    return tokens.length > 0 && missing.length === 0 ? EXIT_CODES.ok : EXIT_CODES.noResults;
+  }
+};
@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { EXIT_CODES, UsageError, formatOptions, parseArgs } from './args';
+import { CliCommand, CliContext } from './command';
+import { backtestCommand } from './commands/backtest';
+import { configCommand } from './commands/config';
+import { monitorCommand } from './commands/monitor';
+import { quoteCommand } from './commands/quote';
+import { replayCommand } from './commands/replay';
+import { reportCommand } from './commands/report';
+import { scanCommand } from './commands/scan';
+import { tokensCommand } from './commands/tokens';
+
+export const COMMANDS: CliCommand[] = [
+  scanCommand,
+  monitorCommand,
+  backtestCommand,
+  quoteCommand,
+  tokensCommand,
+  reportCommand,
+  replayCommand,
+  configCommand
+];
+
+const HELP_OPTION = { type: 'boolean' as const, alias: 'h', description: 'Show help for the command' };
+
+export function formatHelp(command?: CliCommand): string {
+  if (command) {
+    return [
+      `Usage: arb ${command.name} ${command.usage}`,
+      '',
+      command.summary,
+      '',
+      'Options:',
+      formatOptions({ ...command.options, help: HELP_OPTION })
+    ].join('\n');
+  }
+
+  const width = Math.max(...COMMANDS.map(candidate => candidate.name.length));
+  return [
+    'Usage: arb <command> [options]',
+    '',
+    'Commands:',
+    ...COMMANDS.map(candidate => `  ${candidate.name.padEnd(width)}  ${candidate.summary}`),
+    '',
+    'Run "arb <command> --help" for the options of a command.',
+    `Exit codes: ${EXIT_CODES.ok} ok, ${EXIT_CODES.failed} failed, ${EXIT_CODES.usage} bad usage, ${EXIT_CODES.noResults} nothing found`
+  ].join('\n');
+}
+
+/**
+ * Run one command line and resolve to its exit code; never throws
+ */
+export async function runCli(argv: string[], context: CliContext = { engine: {} }): Promise<number> {
+  const [name, ...rest] = argv;
+  if (name === undefined || name === 'help' || name === '--help' || name === '-h') {
+    const command = COMMANDS.find(candidate => candidate.name === rest[0]);
+    console.log(formatHelp(command));
+    return name === undefined ? EXIT_CODES.usage : EXIT_CODES.ok;
+  }
+
+  const command = COMMANDS.find(candidate => candidate.name === name);
+  if (!command) {
+    console.error(`❌ Unknown command "${name}"\n`);
+    console.error(formatHelp());
+    return EXIT_CODES.usage;
+  }
+
+  try {
+    const args = parseArgs(rest, { ...command.options, help: HELP_OPTION });
+    if (args.options.help) {
+      console.log(formatHelp(command));
+      return EXIT_CODES.ok;
+    }
+    return await command.run(args, context);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}\n`);
+      console.error(formatHelp(command));
+      return EXIT_CODES.usage;
+    }
+    console.error(`❌ arb ${command.name} failed:`, (error as Error).message);
+    return EXIT_CODES.failed;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => process.exit(code));
+}
@@ -0,0 +1,226 @@
+import * as path from 'path';
+import Decimal from 'decimal.js';
+import { ConfigLayer, DEX_KEYS, LoadedScannerConfig, RawConfig, loadScannerConfig } from '../config/configLoader';
+import { LogLevel, ScanProfile } from '../engine/profiles';
+import { LogFormat, toLogFormat } from '../logging/logger';
+import { recordFormatOf } from '../records/recordReader';
+import { RecordFormat, RecordWriter, createRecordWriter, openRecordWriter, toRecordFormat } from '../records/recordWriter';
+import { DEFAULT_PRICE_SOURCE_IDS } from '../sources/defaultSources';
+import type { TokenPair } from '../utils/optimizedPriceCollector';
+import { getTokenBySymbol } from '../utils/tokenUtils';
+import { OptionSpec, ParsedArgs, UsageError, listOption, numberOption, stringOption } from './args';
+
+const LOG_LEVELS: LogLevel[] = ['verbose', 'normal', 'quiet'];
+
+// Options several commands share, so they read the same everywhere
+export const COMMON_OPTIONS: Record<string, OptionSpec> = {
+  pairs: { type: 'list', value: 'BASE/QUOTE,...', alias: 'p', description: 'Pairs to quote, e.g. SOL/USDC,RAY/SOL' },
+  venues: { type: 'list', value: 'id,...', description: `Price sources to quote: ${DEFAULT_PRICE_SOURCE_IDS.join(', ')}` },
+  amount: { type: 'number', alias: 'a', description: 'Input amount of the base token per quote' },
+  'min-spread': { type: 'number', value: 'percent', description: 'Smallest spread reported as an opportunity' },
+  'min-size': { type: 'number', description: 'Smallest trade sized against pool curves, in base token units' },
+  'max-size': { type: 'number', description: 'Largest trade sized against pool curves, in base token units' },
+  out: { type: 'string', value: 'path', alias: 'o', description: 'Record file (.csv, .jsonl, .parquet) or directory to write to' },
+  format: { type: 'string', value: 'csv|jsonl|parquet', description: 'Record format; defaults to RECORD_FORMAT, then csv' },
+  'log-level': { type: 'string', value: 'verbose|normal|quiet', description: 'How much progress to print' },
+  'log-format': { type: 'string', value: 'pretty|json', description: 'Console messages or one JSON object per line; defaults to LOG_FORMAT, then pretty' },
+  json: { type: 'boolean', description: 'Print machine-readable JSON instead of tables' },
+  'metrics-port': { type: 'number', value: 'port', description: 'Serve Prometheus metrics at :<port>/metrics; defaults to METRICS_PORT' }
+};
+
+// ScannerConfig layered over the config file and env vars by `arb config` and the service entry point
+export const SCANNER_CONFIG_OPTIONS: Record<string, OptionSpec> = {
+  config: { type: 'string', value: 'path', alias: 'c', description: 'YAML or JSON scanner config; defaults to SCANNER_CONFIG' },
+  'rpc-url': { type: 'string', value: 'url', description: 'Solana RPC endpoint; overrides SOLANA_RPC_URL' },
+  'ws-url': { type: 'string', value: 'url', description: 'Solana WebSocket endpoint; overrides SOLANA_WS_URL' },
+  'min-profit': { type: 'number', value: 'percent', description: 'Smallest profit reported; overrides MIN_PROFIT_THRESHOLD' },
+  'max-slippage': { type: 'number', value: 'percent', description: 'Slippage tolerated on quotes; overrides MAX_SLIPPAGE' },
+  'price-interval': { type: 'number', value: 'ms', description: 'Pause between price scans; overrides PRICE_UPDATE_INTERVAL' },
+  pairs: { type: 'list', value: 'BASE/QUOTE,...', alias: 'p', description: 'Pairs to monitor; overrides MONITORED_PAIRS' },
+  dexes: { type: 'list', value: 'id,...', description: `Enable only these DEXes: ${DEX_KEYS.join(', ')}` }
+};
+
+const SCANNER_CONFIG_FLAGS: Record<string, string> = {
+  'rpc-url': 'rpcEndpoint',
+  'ws-url': 'rpcWsEndpoint',
+  'min-profit': 'minProfitThreshold',
+  'max-slippage': 'maxSlippage',
+  'price-interval': 'priceUpdateInterval',
+  pairs: 'monitoredPairs'
+};
+
+/**
+ * The config values given as SCANNER_CONFIG_OPTIONS flags
+ */
+export function scannerConfigFlags(args: ParsedArgs): ConfigLayer {
+  const layer: ConfigLayer = { source: 'command line', values: {}, names: {} };
+  for (const [flag, key] of Object.entries(SCANNER_CONFIG_FLAGS)) {
+    const value = args.options[flag];
+    if (value === undefined) continue;
+    layer.values[key] = key === 'monitoredPairs' ? (value as string[]).map(pair => pair.toUpperCase()) : value;
+    layer.names![key] = `--${flag}`;
+  }
+
+  const dexes = listOption(args, 'dexes')?.map(dex => dex.toLowerCase());
+  if (dexes) {
+    const entries: RawConfig = {};
+    for (const dex of new Set([...DEX_KEYS, ...dexes])) {
+      entries[dex] = { enabled: dexes.includes(dex) };
+      layer.names![`dexes.${dex}.enabled`] = '--dexes';
+    }
+    layer.values.dexes = entries;
+  }
+  return layer;
+}
+
+/**
+ * ScannerConfig from the defaults, --config (or SCANNER_CONFIG), the environment and the flags
+ */
+export function scannerConfigFor(args: ParsedArgs, env: NodeJS.ProcessEnv = process.env): LoadedScannerConfig {
+  return loadScannerConfig({ file: stringOption(args, 'config'), env, flags: scannerConfigFlags(args) });
+}
+
+/**
+ * "SOL/USDC" style pairs; a pair the profile already scans keeps its amount unless one is given
+ */
+export function toTokenPairs(values: string[], amount: number | undefined, known: TokenPair[] = []): TokenPair[] {
+  if (amount !== undefined && amount <= 0) {
+    throw new UsageError(`--amount must be positive, got ${amount}`);
+  }
+
+  return values.map(value => {
+    const [from, to, ...rest] = value.toUpperCase().split('/');
+    if (!from || !to || rest.length > 0) {
+      throw new UsageError(`Pairs are written BASE/QUOTE, got "${value}"`);
+    }
+    for (const symbol of [from, to]) {
+      if (!getTokenBySymbol(symbol)) throw new UsageError(`Unknown token ${symbol}; see "arb tokens"`);
+    }
+
+    const existing = known.find(pair => pair.from === from && pair.to === to);
+    return { from, to, amount: new Decimal(amount ?? existing?.amount ?? 1) };
+  });
+}
+
+/**
+ * --min-size and --max-size, over the profile's range for whichever is not given
+ */
+export function toTradeSize(min: number, max: number): ScanProfile['detection']['tradeSize'] {
+  if (min <= 0 || max <= 0) {
+    throw new UsageError(`Trade sizes must be positive, got ${min} - ${max}`);
+  }
+  if (max < min) {
+    throw new UsageError(`--max-size (${max}) must not be below --min-size (${min})`);
+  }
+  return { min, max };
+}
+
+export function toVenues(values: string[]): string[] {
+  const venues = values.map(value => value.toLowerCase());
+  const unknown = venues.filter(venue => !DEFAULT_PRICE_SOURCE_IDS.includes(venue));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown venue ${unknown.join(', ')}; expected one of ${DEFAULT_PRICE_SOURCE_IDS.join(', ')}`);
+  }
+  return venues;
+}
+
+export function toLogLevel(value: string): LogLevel {
+  const level = value.toLowerCase() as LogLevel;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new UsageError(`Unknown log level "${value}"; expected one of ${LOG_LEVELS.join(', ')}`);
+  }
+  return level;
+}
+
+export function formatOption(args: ParsedArgs): RecordFormat | undefined {
+  const value = stringOption(args, 'format');
+  if (value === undefined) return undefined;
+  try {
+    return toRecordFormat(value);
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+/**
+ * Writer for --out: a file with a record extension is written as is, anything else is
+ * a directory that gets the usual timestamped file. Undefined without --out.
+ */
+export function recordWriterFor(args: ParsedArgs, scanner: string): RecordWriter | undefined {
+  const out = stringOption(args, 'out');
+  const format = formatOption(args);
+  if (out === undefined) return undefined;
+
+  if (['.csv', '.jsonl', '.parquet'].includes(path.extname(out).toLowerCase())) {
+    return openRecordWriter(path.resolve(out), format ?? recordFormatOf(out));
+  }
+  return createRecordWriter({ scanner, format, directory: path.resolve(out) });
+}
+
+export function logFormatOption(args: ParsedArgs): LogFormat | undefined {
+  const value = stringOption(args, 'log-format');
+  if (value === undefined) return undefined;
+  try {
+    return toLogFormat(value, '--log-format');
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+/**
+ * Port for the /metrics endpoint from --metrics-port, then METRICS_PORT; undefined serves none
+ */
+export function metricsPortFor(args: ParsedArgs, env: NodeJS.ProcessEnv = process.env): number | undefined {
+  const option = numberOption(args, 'metrics-port');
+  const port = option ?? (env.METRICS_PORT ? Number(env.METRICS_PORT) : undefined);
+  if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+    throw new UsageError(`${option !== undefined ? '--metrics-port' : 'METRICS_PORT'} must be a port number, got ${option ?? env.METRICS_PORT}`);
+  }
+  return port;
+}
+
+/**
+ * An instant given as an ISO date or as an age before now: 30m, 12h, 7d
+ */
+export function toTime(value: string, now: number = Date.now()): number {
+  const age = /^(\d+(?:\.\d+)?)([smhd])$/.exec(value.trim());
+  if (age) {
+    const unitMs = { s: 1000, m: 60000, h: 3600000, d: 86400000 }[age[2] as 's' | 'm' | 'h' | 'd'];
+    return now - Number(age[1]) * unitMs;
+  }
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new UsageError(`Expected an ISO date or an age like 30m, 12h or 7d, got "${value}"`);
+  }
+  return time;
+}
+
+/**
+ * Apply the common options to a copy of a built-in profile
+ */
+export function applyProfileOptions(profile: ScanProfile, args: ParsedArgs): ScanProfile {
+  const pairs = listOption(args, 'pairs');
+  const venues = listOption(args, 'venues');
+  const amount = numberOption(args, 'amount');
+  const minSpread = numberOption(args, 'min-spread');
+  const minSize = numberOption(args, 'min-size');
+  const maxSize = numberOption(args, 'max-size');
+  const logLevel = stringOption(args, 'log-level');
+  const format = formatOption(args);
+
+  if (pairs) {
+    profile.pairs = toTokenPairs(pairs, amount, profile.pairs);
+  } else if (amount !== undefined) {
+    profile.pairs = toTokenPairs(profile.pairs.map(pair => `${pair.from}/${pair.to}`), amount);
+  }
+  if (venues) profile.venues = toVenues(venues);
+  if (minSpread !== undefined) profile.detection.minSpreadPercent = minSpread;
+  if (minSize !== undefined || maxSize !== undefined) {
+    profile.detection.tradeSize = toTradeSize(minSize ?? profile.detection.tradeSize.min, maxSize ?? profile.detection.tradeSize.max);
+  }
+  if (logLevel !== undefined) profile.output.logLevel = toLogLevel(logLevel);
+  if (format !== undefined) profile.output.format = format;
+
+  return profile;
+}
@@ -0,0 +1,23 @@
+/**
+ * Left-aligned text table; numbers are right-aligned
+ */
+export function formatTable(headers: string[], rows: Array<Array<string | number | null>>): string {
+  const cells = rows.map(row => row.map(cell => (cell === null ? '-' : String(cell))));
+  const widths = headers.map((header, column) => Math.max(header.length, ...cells.map(row => row[column].length)));
+  const line = (row: string[], numeric: boolean[]) =>
+    row.map((cell, column) => (numeric[column] ? cell.padStart(widths[column]) : cell.padEnd(widths[column]))).join('  ').trimEnd();
+
+  const numeric = headers.map((_, column) => rows.length > 0 && rows.every(row => typeof row[column] === 'number' || row[column] === null));
+  return [
+    line(headers, numeric),
+    widths.map(width => '-'.repeat(width)).join('  '),
+    ...cells.map(row => line(row, numeric))
+  ].join('\n');
+}
+
+/**
+ * JSON for --json output; Decimals and other objects with toJSON serialize as strings
+ */
+export function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
@@ -0,0 +1,100 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { endpointLabel } from '../metrics/arbMetrics';
+import { ConfigChange, scannerConfigToRaw } from './configLoader';
+import { ConfigReloader } from './configReloader';
+
+// Keys whose URLs often carry an RPC provider's API key; served as scheme and host only
+const REDACTED_KEYS = ['rpcEndpoint', 'rpcWsEndpoint'];
+
+export interface AdminServerOptions {
+  token?: string; // When set, requests must carry "Authorization: Bearer <token>"
+}
+
+/**
+ * A small admin API over a ConfigReloader: GET /config shows the running config and
+ * POST /reload re-reads it. Binds to localhost unless told otherwise.
+ */
+export class AdminServer {
+  private constructor(private server: http.Server, private reloader: ConfigReloader, private options: AdminServerOptions) {
+    this.server.on('request', (request, response) => this.handleRequest(request, response));
+  }
+
+  /**
+   * Listen on `port` (0 picks a free one); resolves once the socket is bound. Any host
+   * but loopback needs a token, since POST /reload is otherwise open to the network.
+   */
+  static async start(reloader: ConfigReloader, port: number, host: string = '127.0.0.1', options: AdminServerOptions = {}): Promise<AdminServer> {
+    if (!options.token && !isLoopback(host)) {
+      throw new Error(`Refusing to serve the admin API on ${host} without a token; set ADMIN_TOKEN or bind to 127.0.0.1`);
+    }
+    const server = http.createServer();
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.removeListener('error', reject);
+        resolve();
+      });
+    });
+    return new AdminServer(server, reloader, options);
+  }
+
+  get url(): string {
+    const { address, port } = this.server.address() as AddressInfo;
+    return `http://${address === '0.0.0.0' || address === '::' ? '127.0.0.1' : address}:${port}`;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const path = (request.url || '/').split('?')[0];
+    const method = path === '/config' ? 'GET' : path === '/reload' ? 'POST' : null;
+    if (!method) {
+      this.send(response, 404, { error: 'Not found; try GET /config or POST /reload' });
+      return;
+    }
+    if (this.options.token && request.headers.authorization !== `Bearer ${this.options.token}`) {
+      this.send(response, 401, { error: 'Missing or wrong bearer token' });
+      return;
+    }
+    if (request.method !== method) {
+      response.writeHead(405, { Allow: method });
+      response.end();
+      return;
+    }
+
+    try {
+      if (path === '/config') {
+        const { config, file } = this.reloader.current;
+        const raw = scannerConfigToRaw(config);
+        REDACTED_KEYS.forEach(key => {
+          if (typeof raw[key] === 'string') raw[key] = endpointLabel(raw[key] as string);
+        });
+        this.send(response, 200, { file, config: raw });
+        return;
+      }
+      const { changes, error } = this.reloader.reload('admin');
+      this.send(response, error ? 422 : 200, error ? { error } : { changes: changes.map(redactChange) });
+    } catch (error) {
+      this.send(response, 500, { error: (error as Error).message });
+    }
+  }
+
+  private send(response: http.ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(`${JSON.stringify(body)}\n`);
+  }
+}
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+function redactChange(change: ConfigChange): ConfigChange {
+  if (!REDACTED_KEYS.includes(change.key)) return change;
+  const redact = (value: unknown) => (typeof value === 'string' ? endpointLabel(value) : value);
+  return { key: change.key, from: redact(change.from), to: redact(change.to) };
+}
@@ -22,12 +22,19 @@ export interface ScannerConfig {
   // Maximum slippage tolerance
   maxSlippage: number;
   
-  // DEX configurations
+  // Range searched by the trade size solver, in units of each pair's first token
+  tradeSizeRange: {
+    min: number;
+    max: number;
+  };
+  
+  // DEX configurations, keyed by price source id
   dexes: {
     raydium: DexConfig;
     orca: DexConfig;
     meteora: DexConfig;
     phoenix: DexConfig;
+    [sourceId: string]: DexConfig;
   };
   
   // Token pairs to monitor
@@ -40,9 +47,16 @@ export interface ScannerConfig {
   };
 }
 
+export const DEFAULT_RPC_ENDPOINT = 'https://api.mainnet-beta.solana.com';
+export const DEFAULT_WS_ENDPOINT = 'wss://api.mainnet-beta.solana.com';
+
+/**
+ * Built-in settings with the RPC endpoints from the environment; loadScannerConfig()
+ * in configLoader.ts layers a config file, every env var and CLI flags on top
+ */
 export const defaultConfig: ScannerConfig = {
-  rpcEndpoint: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
-  rpcWsEndpoint: process.env.SOLANA_WS_URL || 'wss://api.mainnet-beta.solana.com',
+  rpcEndpoint: process.env.SOLANA_RPC_URL || DEFAULT_RPC_ENDPOINT,
+  rpcWsEndpoint: process.env.SOLANA_WS_URL || DEFAULT_WS_ENDPOINT,
   
   priceUpdateInterval: 1000, // 1 second
   poolStateUpdateInterval: 5000, // 5 seconds
@@ -50,6 +64,11 @@ export const defaultConfig: ScannerConfig = {
   minProfitThreshold: 0.5, // 0.5%
   maxSlippage: 1.0, // 1%
   
+  tradeSizeRange: {
+    min: 0.01,
+    max: 1000,
+  },
+  
   dexes: {
     raydium: {
       name: 'Raydium',
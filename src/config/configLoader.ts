@@ -0,0 +1,371 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import { Document, isNode, isSeq, parse as parseYaml } from 'yaml';
+import { DEFAULT_PRICE_SOURCE_IDS } from '../sources/defaultSources';
+import { getTokenBySymbol } from '../utils/tokenUtils';
+import { DEFAULT_RPC_ENDPOINT, DEFAULT_WS_ENDPOINT, DexConfig, ScannerConfig, defaultConfig } from './config';
+
+/**
+ * ScannerConfig as written in a file, the environment or on the command line:
+ * plain values, program ids as base58 strings, any key may be left out
+ */
+export type RawConfig = Record<string, unknown>;
+
+/**
+ * One source of config values; later layers override earlier ones key by key
+ */
+export interface ConfigLayer {
+  source: string; // 'defaults', the file path, 'environment', 'command line'
+  values: RawConfig;
+  names?: Record<string, string>; // Dotted key -> the env var or flag that set it
+}
+
+export interface LoadedScannerConfig {
+  config: ScannerConfig;
+  origins: Record<string, string>; // Dotted key of every value -> where it came from
+  file: string | null;
+}
+
+export interface ConfigSources {
+  file?: string; // Defaults to SCANNER_CONFIG
+  env?: NodeJS.ProcessEnv;
+  flags?: ConfigLayer;
+}
+
+// Sources priced through `dexes`; Jupiter has its own `jupiter` block
+export const DEX_KEYS = DEFAULT_PRICE_SOURCE_IDS.filter(id => id !== 'jupiter');
+
+const TOP_LEVEL_KEYS = [
+  'rpcEndpoint', 'rpcWsEndpoint', 'priceUpdateInterval', 'poolStateUpdateInterval', 'minProfitThreshold',
+  'maxSlippage', 'tradeSizeRange', 'dexes', 'monitoredPairs', 'jupiter'
+];
+
+// Environment variable -> dotted config key
+export const CONFIG_ENV_VARS: Record<string, string> = {
+  SOLANA_RPC_URL: 'rpcEndpoint',
+  SOLANA_WS_URL: 'rpcWsEndpoint',
+  PRICE_UPDATE_INTERVAL: 'priceUpdateInterval',
+  POOL_STATE_UPDATE_INTERVAL: 'poolStateUpdateInterval',
+  MIN_PROFIT_THRESHOLD: 'minProfitThreshold',
+  MAX_SLIPPAGE: 'maxSlippage',
+  MONITORED_PAIRS: 'monitoredPairs',
+  JUPITER_API_URL: 'jupiter.apiEndpoint'
+};
+
+const LIST_KEYS = ['monitoredPairs'];
+const NUMBER_KEYS = ['priceUpdateInterval', 'poolStateUpdateInterval', 'minProfitThreshold', 'maxSlippage'];
+
+/**
+ * ScannerConfig from the built-in defaults, then a YAML or JSON file, then the environment,
+ * then command line flags. Every problem found is reported at once, with where the value came from.
+ */
+export function loadScannerConfig(sources: ConfigSources = {}): LoadedScannerConfig {
+  const env = sources.env ?? process.env;
+  const file = sources.file ?? (env.SCANNER_CONFIG || undefined);
+
+  const layers: ConfigLayer[] = [{ source: 'defaults', values: scannerConfigToRaw(builtInConfig()) }];
+  if (file) layers.push({ source: file, values: readConfigFile(file) });
+  layers.push(configFromEnv(env));
+  if (sources.flags) layers.push(sources.flags);
+
+  const { values, origins } = mergeConfigLayers(layers);
+  return { config: validateScannerConfig(values, origins), origins, file: file ?? null };
+}
+
+/**
+ * Parse a .yaml, .yml or .json config file into raw values
+ */
+export function readConfigFile(file: string): RawConfig {
+  const extension = path.extname(file).toLowerCase();
+  if (!['.yaml', '.yml', '.json'].includes(extension)) {
+    throw new Error(`Config file ${file} must be .yaml, .yml or .json`);
+  }
+
+  let parsed: unknown;
+  try {
+    const text = fs.readFileSync(file, 'utf8');
+    parsed = extension === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Cannot read config file ${file}: ${(error as Error).message}`);
+  }
+
+  if (parsed === null || parsed === undefined) return {};
+  if (!isPlainObject(parsed)) {
+    throw new Error(`Config file ${file} must hold a mapping of config keys`);
+  }
+  return parsed;
+}
+
+/**
+ * The config values set by environment variables; see CONFIG_ENV_VARS
+ */
+export function configFromEnv(env: NodeJS.ProcessEnv = process.env): ConfigLayer {
+  const layer: ConfigLayer = { source: 'environment', values: {}, names: {} };
+
+  for (const [name, key] of Object.entries(CONFIG_ENV_VARS)) {
+    const value = env[name]?.trim();
+    if (!value) continue;
+
+    let parsed: unknown = value;
+    if (LIST_KEYS.includes(key)) parsed = value.split(',').map(item => item.trim()).filter(Boolean);
+    // Left a string when malformed, so validation can say which variable is wrong
+    else if (NUMBER_KEYS.includes(key) && !Number.isNaN(Number(value))) parsed = Number(value);
+
+    setPath(layer.values, key, parsed);
+    layer.names![key] = name;
+  }
+  return layer;
+}
+
+/**
+ * Merge layers key by key; objects merge, lists and values replace
+ */
+export function mergeConfigLayers(layers: ConfigLayer[]): { values: RawConfig; origins: Record<string, string> } {
+  const values: RawConfig = {};
+  const origins: Record<string, string> = {};
+
+  const apply = (target: RawConfig, source: RawConfig, layer: ConfigLayer, prefix: string) => {
+    for (const [key, value] of Object.entries(source)) {
+      const dotted = prefix ? `${prefix}.${key}` : key;
+      if (isPlainObject(value)) {
+        if (!isPlainObject(target[key])) target[key] = {};
+        apply(target[key] as RawConfig, value, layer, dotted);
+      } else {
+        target[key] = value;
+        origins[dotted] = layer.names?.[dotted] ?? layer.source;
+      }
+    }
+  };
+
+  layers.forEach(layer => apply(values, layer.values, layer, ''));
+  return { values, origins };
+}
+
+/**
+ * Check raw config values and build the ScannerConfig they describe
+ */
+export function validateScannerConfig(values: RawConfig, origins: Record<string, string> = {}): ScannerConfig {
+  const issues: string[] = [];
+  const problem = (key: string, message: string) => {
+    const origin = originOf(key, origins);
+    issues.push(`${key}${origin && origin !== 'defaults' ? ` (${origin})` : ''}: ${message}`);
+  };
+
+  const unknownKeys = (key: string, value: RawConfig, known: string[]) => Object.keys(value)
+    .filter(name => !known.includes(name))
+    .forEach(name => problem(key ? `${key}.${name}` : name, `unknown key; expected one of ${known.join(', ')}`));
+
+  const url = (key: string, protocols: string[]): string => {
+    const value = valueAt(values, key);
+    if (typeof value !== 'string' || !protocols.some(protocol => value.startsWith(`${protocol}://`))) {
+      problem(key, `must be a ${protocols.join(' or ')} URL, got ${describe(value)}`);
+    }
+    return value as string;
+  };
+
+  const number = (key: string, check: (value: number) => boolean, expected: string): number => {
+    const value = valueAt(values, key);
+    if (typeof value !== 'number' || !Number.isFinite(value) || !check(value)) {
+      problem(key, `must be ${expected}, got ${describe(value)}`);
+    }
+    return value as number;
+  };
+
+  const boolean = (key: string): boolean => {
+    const value = valueAt(values, key);
+    if (typeof value !== 'boolean') problem(key, `must be true or false, got ${describe(value)}`);
+    return value as boolean;
+  };
+
+  const object = (key: string): RawConfig => {
+    const value = valueAt(values, key);
+    if (isPlainObject(value)) return value;
+    problem(key, `must be a mapping, got ${describe(value)}`);
+    return {};
+  };
+
+  unknownKeys('', values, TOP_LEVEL_KEYS);
+
+  const rpcEndpoint = url('rpcEndpoint', ['http', 'https']);
+  const rpcWsEndpoint = url('rpcWsEndpoint', ['ws', 'wss']);
+  const priceUpdateInterval = number('priceUpdateInterval', value => Number.isInteger(value) && value > 0, 'a positive whole number of milliseconds');
+  const poolStateUpdateInterval = number('poolStateUpdateInterval', value => Number.isInteger(value) && value > 0, 'a positive whole number of milliseconds');
+  const minProfitThreshold = number('minProfitThreshold', value => value >= 0, 'a percentage of 0 or more');
+  const maxSlippage = number('maxSlippage', value => value >= 0 && value <= 100, 'a percentage between 0 and 100');
+
+  const tradeSizeRange = object('tradeSizeRange');
+  unknownKeys('tradeSizeRange', tradeSizeRange, ['min', 'max']);
+  const minTradeSize = number('tradeSizeRange.min', value => value > 0, 'a positive number');
+  const maxTradeSize = number('tradeSizeRange.max', value => value > 0, 'a positive number');
+  if (minTradeSize > 0 && maxTradeSize > 0 && maxTradeSize < minTradeSize) {
+    problem('tradeSizeRange.max', `must not be below tradeSizeRange.min (${minTradeSize}), got ${maxTradeSize}`);
+  }
+
+  const dexes: Record<string, DexConfig> = {};
+  for (const [id, entry] of Object.entries(object('dexes'))) {
+    const key = `dexes.${id}`;
+    if (!DEX_KEYS.includes(id)) {
+      problem(key, `unknown DEX; expected one of ${DEX_KEYS.join(', ')}` + (id === 'jupiter' ? ' (Jupiter is configured under jupiter)' : ''));
+      continue;
+    }
+    if (!isPlainObject(entry)) {
+      problem(key, `must be a mapping, got ${describe(entry)}`);
+      continue;
+    }
+    unknownKeys(key, entry, ['name', 'enabled', 'endpoint', 'programId']);
+
+    const dex: DexConfig = { name: entry.name as string, enabled: boolean(`${key}.enabled`) };
+    if (typeof entry.name !== 'string' || entry.name.trim() === '') {
+      problem(`${key}.name`, `must be a non-empty string, got ${describe(entry.name)}`);
+    }
+    if (entry.endpoint !== undefined) dex.endpoint = url(`${key}.endpoint`, ['http', 'https', 'ws', 'wss']);
+    if (entry.programId !== undefined) {
+      const programId = publicKey(entry.programId);
+      if (programId) dex.programId = programId;
+      else problem(`${key}.programId`, `must be a base58 public key, got ${describe(entry.programId)}`);
+    }
+    dexes[id] = dex;
+  }
+
+  const monitoredPairs = valueAt(values, 'monitoredPairs');
+  if (!Array.isArray(monitoredPairs)) {
+    problem('monitoredPairs', `must be a list of BASE/QUOTE pairs, got ${describe(monitoredPairs)}`);
+  } else {
+    monitoredPairs.forEach((pair, index) => {
+      const symbols = typeof pair === 'string' ? pair.split('/') : [];
+      if (symbols.length !== 2 || symbols.some(symbol => !symbol)) {
+        problem(`monitoredPairs[${index}]`, `must be written BASE/QUOTE, got ${describe(pair)}`);
+        return;
+      }
+      const unknown = symbols.filter(symbol => !getTokenBySymbol(symbol));
+      if (unknown.length > 0) problem(`monitoredPairs[${index}]`, `unknown token ${unknown.join(', ')} in ${pair}`);
+    });
+  }
+
+  unknownKeys('jupiter', object('jupiter'), ['apiEndpoint', 'enabled']);
+
+  const config: ScannerConfig = {
+    rpcEndpoint,
+    rpcWsEndpoint,
+    priceUpdateInterval,
+    poolStateUpdateInterval,
+    minProfitThreshold,
+    maxSlippage,
+    tradeSizeRange: { min: minTradeSize, max: maxTradeSize },
+    dexes: dexes as ScannerConfig['dexes'],
+    monitoredPairs: (Array.isArray(monitoredPairs) ? monitoredPairs : []) as string[],
+    jupiter: {
+      apiEndpoint: url('jupiter.apiEndpoint', ['http', 'https']),
+      enabled: boolean('jupiter.enabled')
+    }
+  };
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid scanner config:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+  }
+  return config;
+}
+
+/**
+ * A ScannerConfig as the plain values a config file holds
+ */
+export function scannerConfigToRaw(config: ScannerConfig): RawConfig {
+  return {
+    ...config,
+    tradeSizeRange: { ...config.tradeSizeRange },
+    dexes: Object.fromEntries(Object.entries(config.dexes).map(([id, dex]) => [id, {
+      ...dex,
+      ...(dex.programId ? { programId: dex.programId.toBase58() } : {})
+    }])),
+    monitoredPairs: [...config.monitoredPairs],
+    jupiter: { ...config.jupiter }
+  };
+}
+
+/**
+ * One setting that differs between two configs, as plain values; `undefined` where a side lacks it
+ */
+export interface ConfigChange {
+  key: string; // Dotted, e.g. dexes.phoenix.enabled
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Every setting that differs from `previous` in `next`; lists compare as a whole
+ */
+export function diffScannerConfig(previous: ScannerConfig, next: ScannerConfig): ConfigChange[] {
+  const before = flatten(scannerConfigToRaw(previous));
+  const after = flatten(scannerConfigToRaw(next));
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => ({ key, from: before[key], to: after[key] }));
+}
+
+/**
+ * The effective config as YAML, each value not from the defaults commented with its origin
+ */
+export function formatScannerConfig(loaded: LoadedScannerConfig): string {
+  const document = new Document(scannerConfigToRaw(loaded.config));
+  for (const [key, origin] of Object.entries(loaded.origins)) {
+    if (origin === 'defaults') continue;
+    const node = document.getIn(key.split('.'), true);
+    if (isSeq(node)) node.flow = true;
+    if (isNode(node)) node.comment = ` ${origin}`;
+  }
+  return document.toString();
+}
+
+// The built-in values, without the RPC endpoints defaultConfig takes from the environment
+function builtInConfig(): ScannerConfig {
+  return { ...defaultConfig, rpcEndpoint: DEFAULT_RPC_ENDPOINT, rpcWsEndpoint: DEFAULT_WS_ENDPOINT };
+}
+
+function flatten(values: RawConfig, prefix: string = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const dotted = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) Object.assign(flat, flatten(value, dotted));
+    else if (value !== undefined) flat[dotted] = value;
+  }
+  return flat;
+}
+
+function originOf(key: string, origins: Record<string, string>): string | undefined {
+  const base = key.replace(/\[\d+\]$/, '');
+  if (origins[base]) return origins[base];
+  const nested = Object.keys(origins).find(candidate => candidate.startsWith(`${base}.`));
+  return nested ? origins[nested] : undefined;
+}
+
+function valueAt(values: RawConfig, key: string): unknown {
+  return key.split('.').reduce<unknown>((value, part) => isPlainObject(value) ? value[part] : undefined, values);
+}
+
+function setPath(values: RawConfig, key: string, value: unknown): void {
+  const parts = key.split('.');
+  let target = values;
+  parts.slice(0, -1).forEach(part => {
+    if (!isPlainObject(target[part])) target[part] = {};
+    target = target[part] as RawConfig;
+  });
+  target[parts[parts.length - 1]] = value;
+}
+
+function publicKey(value: unknown): PublicKey | null {
+  if (typeof value !== 'string') return null;
+  try {
+    return new PublicKey(value);
+  } catch {
+    return null;
+  }
+}
+
+function isPlainObject(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger, rootLogger } from '../logging/logger';
+import { ScannerConfig } from './config';
+import { ConfigChange, LoadedScannerConfig } from './configLoader';
+
+export interface ConfigReloaderOptions {
+  load: () => LoadedScannerConfig; // Re-reads every layer; loadScannerConfig with the original sources
+  apply: (config: ScannerConfig) => ConfigChange[];
+  initial: LoadedScannerConfig;
+  debounceMs?: number; // Editors write a file in several steps; wait this long after the last one
+  logger?: Logger;
+}
+
+export interface ReloadResult {
+  trigger: string; // file, SIGHUP, admin...
+  changes: ConfigChange[];
+  error: string | null; // Set when the new config was rejected; the running one is kept
+}
+
+/**
+ * Re-loads the scanner config when its file changes, on SIGHUP or when asked, and hands
+ * every valid result to `apply`. An invalid config is logged and the running one kept.
+ */
+export class ConfigReloader {
+  private loaded: LoadedScannerConfig;
+  private watcher: fs.FSWatcher | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private signalHandlers: Array<[NodeJS.Signals, () => void]> = [];
+  private debounceMs: number;
+  private logger: Logger;
+
+  constructor(private options: ConfigReloaderOptions) {
+    this.loaded = options.initial;
+    this.debounceMs = options.debounceMs ?? 250;
+    this.logger = options.logger ?? rootLogger().child({ component: 'config' });
+  }
+
+  /**
+   * The config last applied
+   */
+  get current(): LoadedScannerConfig {
+    return this.loaded;
+  }
+
+  reload(trigger: string): ReloadResult {
+    let loaded: LoadedScannerConfig;
+    try {
+      loaded = this.options.load();
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.error(`❌ Config reload (${trigger}) rejected, keeping the running config: ${message}`, { trigger });
+      return { trigger, changes: [], error: message };
+    }
+
+    const changes = this.options.apply(loaded.config);
+    this.loaded = loaded;
+    if (changes.length === 0) {
+      this.logger.info(`🔁 Config reload (${trigger}): nothing changed`, { trigger });
+    } else {
+      this.logger.info(`🔁 Config reload (${trigger}): ${changes.map(change => change.key).join(', ')}`, { trigger, changes });
+    }
+    return { trigger, changes, error: null };
+  }
+
+  /**
+   * Reload whenever `file` is written. The directory is watched, so editors that
+   * replace the file rather than write into it are picked up too.
+   */
+  watch(file: string): void {
+    if (this.watcher) throw new Error('Already watching a config file');
+    const name = path.basename(file);
+    this.watcher = fs.watch(path.dirname(path.resolve(file)), (_event, changed) => {
+      if (changed !== null && changed.toString() !== name) return;
+      if (this.debounceTimer) clearTimeout(this.debounceTimer);
+      this.debounceTimer = setTimeout(() => {
+        this.debounceTimer = null;
+        this.reload('file');
+      }, this.debounceMs);
+    });
+    this.watcher.on('error', error => this.logger.error(`❌ Watching ${file} failed:`, { err: error }));
+  }
+
+  /**
+   * Reload on `signal`, SIGHUP by default as daemons conventionally do
+   */
+  handleSignal(signal: NodeJS.Signals = 'SIGHUP'): void {
+    const handler = () => {
+      this.reload(signal);
+    };
+    process.on(signal, handler);
+    this.signalHandlers.push([signal, handler]);
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = null;
+    this.signalHandlers.forEach(([signal, handler]) => process.off(signal, handler));
+    this.signalHandlers = [];
+  }
+}
@@ -0,0 +1,61 @@
+import { PublicKey } from '@solana/web3.js';
+
+export type PoolDex = 'raydium' | 'orca' | 'phoenix' | 'meteora';
+
+export interface PoolInfo {
+  dex: PoolDex;
+  address: PublicKey;
+  tokenA: string;
+  tokenB: string;
+}
+
+// On-chain pools priced directly by the DEX quoters.
+// Token order is informational only - swap direction is resolved from the decoded mints.
+export const KNOWN_POOLS: PoolInfo[] = [
+  // Raydium AMM v4
+  { dex: 'raydium', address: new PublicKey('58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2'), tokenA: 'SOL', tokenB: 'USDC' },
+  { dex: 'raydium', address: new PublicKey('7XawhbbxtsRcQA8KTkHT9f9nc6d69UwqCDh6U5EEbEmX'), tokenA: 'SOL', tokenB: 'USDT' },
+  { dex: 'raydium', address: new PublicKey('AVs9TA4nWDzfPJE9gGVNJMVhcQy3V9PGazuz33BfG2RA'), tokenA: 'RAY', tokenB: 'SOL' },
+  { dex: 'raydium', address: new PublicKey('6UmmUiYoBjSrhakAobJw8BvkmJtDVxaeBtbt7rxWo1mg'), tokenA: 'RAY', tokenB: 'USDC' },
+
+  // Orca Whirlpools
+  { dex: 'orca', address: new PublicKey('HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ'), tokenA: 'SOL', tokenB: 'USDC' },
+
+  // Phoenix order books (base/quote)
+  { dex: 'phoenix', address: new PublicKey('4DoNfFBfF7UokCC2FQzriy7yHK6DY6NVdYpuekQ5pRgg'), tokenA: 'SOL', tokenB: 'USDC' },
+
+  // Meteora DLMM (token X / token Y)
+  { dex: 'meteora', address: new PublicKey('5rCf1DM8LjKTw4YqhnoLcngyZYeNnQqztScTogYHAS6'), tokenA: 'SOL', tokenB: 'USDC' },
+];
+
+/**
+ * Find the configured pool for a DEX and token pair (order-insensitive)
+ */
+export function findPool(dex: PoolDex, tokenA: string, tokenB: string): PoolInfo | undefined {
+  const a = tokenA.toUpperCase();
+  const b = tokenB.toUpperCase();
+
+  return KNOWN_POOLS.find(pool =>
+    pool.dex === dex &&
+    ((pool.tokenA === a && pool.tokenB === b) || (pool.tokenA === b && pool.tokenB === a))
+  );
+}
+
+/**
+ * The configured pool at an address
+ */
+export function findPoolByAddress(address: PublicKey): PoolInfo | undefined {
+  return KNOWN_POOLS.find(pool => pool.address.equals(address));
+}
+
+/**
+ * Map a venue label (scanner name, Jupiter AMM label, price source id) to a configured pool DEX
+ */
+export function toPoolDex(dex: string): PoolDex | null {
+  const label = dex.toLowerCase();
+  if (label.includes('raydium')) return 'raydium';
+  if (label.includes('orca') || label.includes('whirlpool')) return 'orca';
+  if (label.includes('phoenix')) return 'phoenix';
+  if (label.includes('meteora')) return 'meteora';
+  return null;
+}
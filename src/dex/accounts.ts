@@ -0,0 +1,79 @@
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+
+/**
+ * Minimal account source used by the on-chain quoters.
+ * `Connection` satisfies this interface; tests pass a fixture-backed stub.
+ */
+export interface AccountFetcher {
+  getMultipleAccountsInfo(publicKeys: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]>;
+}
+
+// SPL Token account layout: mint (32) | owner (32) | amount (u64) | ...
+export const SPL_TOKEN_ACCOUNT_SIZE = 165;
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64;
+
+export interface SolanaClock {
+  slot: bigint;
+  unixTimestamp: bigint;
+}
+
+/**
+ * Fetch several accounts in one round trip, failing if any is missing
+ */
+export async function fetchAccountData(
+  fetcher: AccountFetcher,
+  addresses: PublicKey[]
+): Promise<Buffer[]> {
+  const accounts = await fetcher.getMultipleAccountsInfo(addresses);
+
+  return addresses.map((address, index) => {
+    const account = accounts[index];
+    if (!account) {
+      throw new Error(`Account not found: ${address.toBase58()}`);
+    }
+    return account.data;
+  });
+}
+
+/**
+ * Decode the token balance of an SPL token account
+ */
+export function decodeTokenAccountAmount(data: Buffer): bigint {
+  if (data.length < SPL_TOKEN_ACCOUNT_SIZE) {
+    throw new Error(`Invalid token account size: ${data.length}`);
+  }
+  return readU64(data, TOKEN_ACCOUNT_AMOUNT_OFFSET);
+}
+
+/**
+ * Decode slot and unix timestamp from the Clock sysvar
+ */
+export function decodeClock(data: Buffer): SolanaClock {
+  if (data.length < 40) {
+    throw new Error(`Invalid Clock sysvar size: ${data.length}`);
+  }
+  return { slot: readU64(data, 0), unixTimestamp: readI64(data, 32) };
+}
+
+/**
+ * Little-endian readers for Borsh/C-layout account data
+ */
+export function readU64(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset);
+}
+
+export function readI64(data: Buffer, offset: number): bigint {
+  return data.readBigInt64LE(offset);
+}
+
+export function readU128(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) | (data.readBigUInt64LE(offset + 8) << BigInt(64));
+}
+
+export function readI128(data: Buffer, offset: number): bigint {
+  return data.readBigUInt64LE(offset) | (data.readBigInt64LE(offset + 8) << BigInt(64));
+}
+
+export function readPublicKey(data: Buffer, offset: number): PublicKey {
+  return new PublicKey(data.subarray(offset, offset + 32));
+}
@@ -0,0 +1,400 @@
+import { PublicKey, SYSVAR_CLOCK_PUBKEY } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import {
+  AccountFetcher,
+  decodeClock,
+  decodeTokenAccountAmount,
+  fetchAccountData,
+  readI64,
+  readPublicKey,
+  readU128,
+  readU64
+} from './accounts';
+import { SwapQuote } from './types';
+
+export const METEORA_DLMM_PROGRAM_ID = new PublicKey('LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo');
+
+export const LB_PAIR_ACCOUNT_SIZE = 904;
+export const BIN_ARRAY_ACCOUNT_SIZE = 10136;
+export const BINS_PER_ARRAY = 70;
+
+// Fee rates are expressed over 1e9; the program caps the total at 10%
+const FEE_PRECISION = BigInt(1000000000);
+const MAX_FEE_RATE = BigInt(100000000);
+const BASIS_POINT_MAX = 10000;
+const VARIABLE_FEE_DENOMINATOR = BigInt(100000000000);
+const Q64 = BigInt(1) << BigInt(64);
+
+// Anchor layouts (offsets include the 8-byte discriminator)
+const LB_PAIR_OFFSETS = {
+  baseFactor: 8,
+  filterPeriod: 10,
+  decayPeriod: 12,
+  reductionFactor: 14,
+  variableFeeControl: 16,
+  maxVolatilityAccumulator: 20,
+  minBinId: 24,
+  maxBinId: 28,
+  baseFeePowerFactor: 34,
+  volatilityAccumulator: 40,
+  volatilityReference: 44,
+  indexReference: 48,
+  lastUpdateTimestamp: 56,
+  activeId: 76,
+  binStep: 80,
+  status: 82,
+  tokenXMint: 88,
+  tokenYMint: 120,
+  reserveX: 152,
+  reserveY: 184,
+  oracle: 552
+};
+
+const BIN_ARRAY_INDEX_OFFSET = 8;
+const BIN_ARRAY_BINS_OFFSET = 56;
+const BIN_SIZE = 144; // amount_x | amount_y | price (Q64.64) | liquidity supply | reward and fee accounting
+
+// PairStatus::Enabled
+const PAIR_STATUS_ENABLED = 0;
+
+// Bin prices use (1 + binStep / 10000)^id evaluated at 60 significant digits, then floored to Q64.64
+const BinDecimal = Decimal.clone({ precision: 60 });
+
+export interface LbPairState {
+  baseFactor: number;
+  filterPeriod: number;
+  decayPeriod: number;
+  reductionFactor: number;
+  variableFeeControl: number;
+  maxVolatilityAccumulator: number;
+  minBinId: number;
+  maxBinId: number;
+  baseFeePowerFactor: number;
+  volatilityAccumulator: number;
+  volatilityReference: number;
+  indexReference: number;
+  lastUpdateTimestamp: bigint;
+  activeId: number;
+  binStep: number;
+  status: number;
+  tokenXMint: PublicKey;
+  tokenYMint: PublicKey;
+  reserveX: PublicKey;
+  reserveY: PublicKey;
+  oracle: PublicKey;
+}
+
+export interface DlmmBin {
+  id: number;
+  amountX: bigint;
+  amountY: bigint;
+  priceX64: bigint; // Token Y per token X in raw units, Q64.64; 0 until the program first stores it
+}
+
+export interface BinArray {
+  index: number;
+  bins: DlmmBin[];
+}
+
+export interface LoadedLbPair {
+  address: PublicKey;
+  state: LbPairState;
+  binArrays: Map<number, BinArray>; // Initialized arrays keyed by index
+  minArrayIndex: number; // Requested range; missing arrays inside it hold no liquidity
+  maxArrayIndex: number;
+  reserveXBalance: bigint;
+  reserveYBalance: bigint;
+  unixTimestamp: bigint;
+}
+
+/**
+ * Decode a Meteora DLMM LbPair account
+ */
+export function decodeLbPair(data: Buffer): LbPairState {
+  if (data.length !== LB_PAIR_ACCOUNT_SIZE) {
+    throw new Error(`Invalid LbPair account size: ${data.length}`);
+  }
+
+  return {
+    baseFactor: data.readUInt16LE(LB_PAIR_OFFSETS.baseFactor),
+    filterPeriod: data.readUInt16LE(LB_PAIR_OFFSETS.filterPeriod),
+    decayPeriod: data.readUInt16LE(LB_PAIR_OFFSETS.decayPeriod),
+    reductionFactor: data.readUInt16LE(LB_PAIR_OFFSETS.reductionFactor),
+    variableFeeControl: data.readUInt32LE(LB_PAIR_OFFSETS.variableFeeControl),
+    maxVolatilityAccumulator: data.readUInt32LE(LB_PAIR_OFFSETS.maxVolatilityAccumulator),
+    minBinId: data.readInt32LE(LB_PAIR_OFFSETS.minBinId),
+    maxBinId: data.readInt32LE(LB_PAIR_OFFSETS.maxBinId),
+    baseFeePowerFactor: data.readUInt8(LB_PAIR_OFFSETS.baseFeePowerFactor),
+    volatilityAccumulator: data.readUInt32LE(LB_PAIR_OFFSETS.volatilityAccumulator),
+    volatilityReference: data.readUInt32LE(LB_PAIR_OFFSETS.volatilityReference),
+    indexReference: data.readInt32LE(LB_PAIR_OFFSETS.indexReference),
+    lastUpdateTimestamp: readI64(data, LB_PAIR_OFFSETS.lastUpdateTimestamp),
+    activeId: data.readInt32LE(LB_PAIR_OFFSETS.activeId),
+    binStep: data.readUInt16LE(LB_PAIR_OFFSETS.binStep),
+    status: data.readUInt8(LB_PAIR_OFFSETS.status),
+    tokenXMint: readPublicKey(data, LB_PAIR_OFFSETS.tokenXMint),
+    tokenYMint: readPublicKey(data, LB_PAIR_OFFSETS.tokenYMint),
+    reserveX: readPublicKey(data, LB_PAIR_OFFSETS.reserveX),
+    reserveY: readPublicKey(data, LB_PAIR_OFFSETS.reserveY),
+    oracle: readPublicKey(data, LB_PAIR_OFFSETS.oracle)
+  };
+}
+
+/**
+ * Decode a bin array account
+ */
+export function decodeBinArray(data: Buffer): BinArray {
+  if (data.length !== BIN_ARRAY_ACCOUNT_SIZE) {
+    throw new Error(`Invalid BinArray account size: ${data.length}`);
+  }
+
+  const index = Number(readI64(data, BIN_ARRAY_INDEX_OFFSET));
+  const bins: DlmmBin[] = [];
+  for (let i = 0; i < BINS_PER_ARRAY; i++) {
+    const offset = BIN_ARRAY_BINS_OFFSET + i * BIN_SIZE;
+    bins.push({
+      id: index * BINS_PER_ARRAY + i,
+      amountX: readU64(data, offset),
+      amountY: readU64(data, offset + 8),
+      priceX64: readU128(data, offset + 16)
+    });
+  }
+
+  return { index, bins };
+}
+
+/**
+ * Index of the bin array holding a bin (floor division for negative ids)
+ */
+export function getBinArrayIndex(binId: number): number {
+  return Math.floor(binId / BINS_PER_ARRAY);
+}
+
+/**
+ * Derive the bin array PDA for an LbPair
+ */
+export function getBinArrayAddress(lbPair: PublicKey, index: number): PublicKey {
+  const indexBytes = Buffer.alloc(8);
+  indexBytes.writeBigInt64LE(BigInt(index));
+
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('bin_array'), lbPair.toBuffer(), indexBytes],
+    METEORA_DLMM_PROGRAM_ID
+  )[0];
+}
+
+/**
+ * Q64.64 price of a bin: (1 + binStep / 10000)^binId
+ */
+export function getPriceX64FromBinId(binId: number, binStep: number): bigint {
+  const base = new BinDecimal(1).add(new BinDecimal(binStep).div(BASIS_POINT_MAX));
+  return BigInt(base.pow(binId).mul(Q64.toString()).floor().toFixed(0));
+}
+
+/**
+ * Total fee rate (over 1e9) for the given volatility accumulator.
+ * Base fee = baseFactor * binStep * 10 * 10^powerFactor; variable fee grows with (va * binStep)^2.
+ */
+export function getTotalFeeRate(state: LbPairState, volatilityAccumulator: number): bigint {
+  const baseFeeRate = BigInt(state.baseFactor) * BigInt(state.binStep) * BigInt(10) *
+    BigInt(10) ** BigInt(state.baseFeePowerFactor);
+
+  let variableFeeRate = BigInt(0);
+  if (state.variableFeeControl > 0) {
+    const square = (BigInt(volatilityAccumulator) * BigInt(state.binStep)) ** BigInt(2);
+    variableFeeRate = (square * BigInt(state.variableFeeControl) + VARIABLE_FEE_DENOMINATOR - BigInt(1)) /
+      VARIABLE_FEE_DENOMINATOR;
+  }
+
+  const total = baseFeeRate + variableFeeRate;
+  return total > MAX_FEE_RATE ? MAX_FEE_RATE : total;
+}
+
+function ceilDiv(numerator: bigint, denominator: bigint): bigint {
+  return (numerator + denominator - BigInt(1)) / denominator;
+}
+
+/**
+ * Simulate an exact-input swap across bins, mirroring the program's fee and rounding rules:
+ * each bin charges the fee rate for the volatility accumulated since the reference bin,
+ * input needed to empty a bin is rounded up and output is rounded down.
+ */
+export function simulateDlmmSwap(
+  pool: LoadedLbPair,
+  inputMint: PublicKey,
+  amountIn: bigint,
+  unixTimestamp: bigint = pool.unixTimestamp
+): SwapQuote {
+  const { state } = pool;
+
+  if (state.status !== PAIR_STATUS_ENABLED) {
+    throw new Error(`Meteora pair ${pool.address.toBase58()} is disabled`);
+  }
+
+  let swapForY: boolean;
+  if (inputMint.equals(state.tokenXMint)) {
+    swapForY = true;
+  } else if (inputMint.equals(state.tokenYMint)) {
+    swapForY = false;
+  } else {
+    throw new Error(`Mint ${inputMint.toBase58()} is not traded by Meteora pair ${pool.address.toBase58()}`);
+  }
+
+  // Refresh volatility references for the time elapsed since the last swap
+  let indexReference = state.indexReference;
+  let volatilityReference = state.volatilityReference;
+  const elapsed = unixTimestamp - state.lastUpdateTimestamp;
+  if (elapsed >= BigInt(state.filterPeriod)) {
+    indexReference = state.activeId;
+    volatilityReference = elapsed < BigInt(state.decayPeriod)
+      ? Math.floor(state.volatilityAccumulator * state.reductionFactor / BASIS_POINT_MAX)
+      : 0;
+  }
+
+  const minBinId = Math.max(state.minBinId, pool.minArrayIndex * BINS_PER_ARRAY);
+  const maxBinId = Math.min(state.maxBinId, (pool.maxArrayIndex + 1) * BINS_PER_ARRAY - 1);
+  const startPrice = binPrice(pool, state.activeId);
+
+  let activeId = state.activeId;
+  let amountRemaining = amountIn;
+  let amountOut = BigInt(0);
+  let feeAmount = BigInt(0);
+
+  while (amountRemaining > BigInt(0)) {
+    if (activeId < minBinId || activeId > maxBinId) {
+      throw new Error(`Swap exceeds liquidity in loaded bin arrays of Meteora pair ${pool.address.toBase58()}`);
+    }
+
+    const bin = pool.binArrays.get(getBinArrayIndex(activeId))?.bins[activeId - getBinArrayIndex(activeId) * BINS_PER_ARRAY];
+    const binAmountOut = bin ? (swapForY ? bin.amountY : bin.amountX) : BigInt(0);
+
+    if (bin && binAmountOut > BigInt(0)) {
+      const volatilityAccumulator = Math.min(
+        volatilityReference + Math.abs(indexReference - activeId) * BASIS_POINT_MAX,
+        state.maxVolatilityAccumulator
+      );
+      const feeRate = getTotalFeeRate(state, volatilityAccumulator);
+      const price = bin.priceX64 > BigInt(0) ? bin.priceX64 : binPrice(pool, activeId);
+
+      const maxAmountIn = swapForY
+        ? ceilDiv(binAmountOut << BigInt(64), price)
+        : ceilDiv(binAmountOut * price, Q64);
+      const maxFee = ceilDiv(maxAmountIn * feeRate, FEE_PRECISION - feeRate);
+
+      if (amountRemaining >= maxAmountIn + maxFee) {
+        amountRemaining -= maxAmountIn + maxFee;
+        amountOut += binAmountOut;
+        feeAmount += maxFee;
+      } else {
+        const fee = ceilDiv(amountRemaining * feeRate, FEE_PRECISION);
+        const amountInAfterFee = amountRemaining - fee;
+        const out = swapForY
+          ? (amountInAfterFee * price) >> BigInt(64)
+          : (amountInAfterFee << BigInt(64)) / price;
+
+        amountOut += out < binAmountOut ? out : binAmountOut;
+        feeAmount += fee;
+        amountRemaining = BigInt(0);
+        break;
+      }
+    }
+
+    activeId += swapForY ? -1 : 1;
+  }
+
+  // Compare against a fee-free fill at the starting bin price
+  const amountInLessFee = new Decimal((amountIn - feeAmount).toString());
+  const spotPrice = new Decimal(startPrice.toString()).div(Q64.toString());
+  const idealOut = swapForY ? amountInLessFee.mul(spotPrice) : amountInLessFee.div(spotPrice);
+  const priceImpact = idealOut.gt(0)
+    ? Decimal.max(0, new Decimal(1).sub(new Decimal(amountOut.toString()).div(idealOut)))
+    : new Decimal(0);
+
+  return {
+    dex: 'Meteora',
+    poolAddress: pool.address,
+    inputMint,
+    outputMint: swapForY ? state.tokenYMint : state.tokenXMint,
+    amountIn,
+    amountOut,
+    feeAmount,
+    feeMint: inputMint,
+    priceImpact,
+    outputLiquidity: swapForY ? pool.reserveYBalance : pool.reserveXBalance
+  };
+}
+
+/**
+ * Stored price of a bin, falling back to the curve when the bin has never been touched
+ */
+function binPrice(pool: LoadedLbPair, binId: number): bigint {
+  const index = getBinArrayIndex(binId);
+  const stored = pool.binArrays.get(index)?.bins[binId - index * BINS_PER_ARRAY].priceX64;
+  return stored && stored > BigInt(0) ? stored : getPriceX64FromBinId(binId, pool.state.binStep);
+}
+
+/**
+ * Meteora DLMM quoter backed by live account data
+ */
+export class MeteoraDlmmQuoter {
+  private fetcher: AccountFetcher;
+  private arraysPerSide: number;
+
+  constructor(fetcher: AccountFetcher, arraysPerSide: number = 2) {
+    this.fetcher = fetcher;
+    this.arraysPerSide = arraysPerSide;
+  }
+
+  /**
+   * Load the pair, its reserves, the clock and the bin arrays on both sides of the active bin
+   */
+  async loadPair(address: PublicKey): Promise<LoadedLbPair> {
+    const [pairData, clockData] = await fetchAccountData(this.fetcher, [address, SYSVAR_CLOCK_PUBKEY]);
+    const state = decodeLbPair(pairData);
+    const { unixTimestamp } = decodeClock(clockData);
+
+    const activeIndex = getBinArrayIndex(state.activeId);
+    const indexes: number[] = [];
+    for (let offset = -this.arraysPerSide; offset <= this.arraysPerSide; offset++) {
+      indexes.push(activeIndex + offset);
+    }
+
+    const accounts = await this.fetcher.getMultipleAccountsInfo([
+      state.reserveX,
+      state.reserveY,
+      ...indexes.map(index => getBinArrayAddress(address, index))
+    ]);
+
+    const [reserveX, reserveY, ...binArrayAccounts] = accounts;
+    if (!reserveX || !reserveY) {
+      throw new Error(`Reserve accounts not found for Meteora pair ${address.toBase58()}`);
+    }
+
+    const binArrays = new Map<number, BinArray>();
+    for (const account of binArrayAccounts) {
+      if (account) {
+        const binArray = decodeBinArray(account.data);
+        binArrays.set(binArray.index, binArray);
+      }
+    }
+
+    return {
+      address,
+      state,
+      binArrays,
+      minArrayIndex: indexes[0],
+      maxArrayIndex: indexes[indexes.length - 1],
+      reserveXBalance: decodeTokenAccountAmount(reserveX.data),
+      reserveYBalance: decodeTokenAccountAmount(reserveY.data),
+      unixTimestamp
+    };
+  }
+
+  /**
+   * Quote an exact-input swap on the given pair
+   */
+  async quote(address: PublicKey, inputMint: PublicKey, amountIn: bigint): Promise<SwapQuote> {
+    const pool = await this.loadPair(address);
+    return simulateDlmmSwap(pool, inputMint, amountIn);
+  }
+}
@@ -0,0 +1,473 @@
+import { PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import {
+  AccountFetcher,
+  decodeTokenAccountAmount,
+  fetchAccountData,
+  readI128,
+  readPublicKey,
+  readU128
+} from './accounts';
+import { SwapQuote } from './types';
+
+export const ORCA_WHIRLPOOL_PROGRAM_ID = new PublicKey('whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc');
+
+export const WHIRLPOOL_ACCOUNT_SIZE = 653;
+export const TICK_ARRAY_SIZE = 88;
+export const TICK_ARRAY_ACCOUNT_SIZE = 9988;
+
+export const MIN_TICK_INDEX = -443636;
+export const MAX_TICK_INDEX = 443636;
+export const MIN_SQRT_PRICE_X64 = BigInt('4295048016');
+export const MAX_SQRT_PRICE_X64 = BigInt('79226673515401279992447579055');
+
+// fee_rate is expressed in hundredths of a basis point
+const FEE_RATE_DENOMINATOR = BigInt(1000000);
+const Q64 = BigInt(1) << BigInt(64);
+
+// Anchor layouts (offsets include the 8-byte discriminator)
+const WHIRLPOOL_OFFSETS = {
+  tickSpacing: 41,
+  feeRate: 45,
+  liquidity: 49,
+  sqrtPrice: 65,
+  tickCurrentIndex: 81,
+  tokenMintA: 101,
+  tokenVaultA: 133,
+  tokenMintB: 181,
+  tokenVaultB: 213
+};
+
+const TICK_ARRAY_START_OFFSET = 8;
+const TICK_ARRAY_TICKS_OFFSET = 12;
+const TICK_SIZE = 113; // initialized (1) | liquidity_net i128 | liquidity_gross u128 | fee/reward growths
+
+// Tick prices use 1.0001^tick evaluated at 60 significant digits, then floored to Q64.64
+const TickDecimal = Decimal.clone({ precision: 60 });
+const sqrtPriceCache = new Map<number, bigint>();
+
+export interface WhirlpoolState {
+  tickSpacing: number;
+  feeRate: number;
+  liquidity: bigint;
+  sqrtPriceX64: bigint;
+  tickCurrentIndex: number;
+  tokenMintA: PublicKey;
+  tokenVaultA: PublicKey;
+  tokenMintB: PublicKey;
+  tokenVaultB: PublicKey;
+}
+
+export interface WhirlpoolTick {
+  index: number;
+  initialized: boolean;
+  liquidityNet: bigint;
+  liquidityGross: bigint;
+}
+
+export interface TickArray {
+  startTickIndex: number;
+  ticks: WhirlpoolTick[];
+}
+
+export interface LoadedWhirlpool {
+  address: PublicKey;
+  state: WhirlpoolState;
+  tickArrays: TickArray[]; // Contiguous arrays around the current tick, ascending
+  vaultBalanceA: bigint;
+  vaultBalanceB: bigint;
+}
+
+export interface SwapStepResult {
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+  nextSqrtPriceX64: bigint;
+}
+
+/**
+ * Decode a Whirlpool account
+ */
+export function decodeWhirlpool(data: Buffer): WhirlpoolState {
+  if (data.length !== WHIRLPOOL_ACCOUNT_SIZE) {
+    throw new Error(`Invalid Whirlpool account size: ${data.length}`);
+  }
+
+  return {
+    tickSpacing: data.readUInt16LE(WHIRLPOOL_OFFSETS.tickSpacing),
+    feeRate: data.readUInt16LE(WHIRLPOOL_OFFSETS.feeRate),
+    liquidity: readU128(data, WHIRLPOOL_OFFSETS.liquidity),
+    sqrtPriceX64: readU128(data, WHIRLPOOL_OFFSETS.sqrtPrice),
+    tickCurrentIndex: data.readInt32LE(WHIRLPOOL_OFFSETS.tickCurrentIndex),
+    tokenMintA: readPublicKey(data, WHIRLPOOL_OFFSETS.tokenMintA),
+    tokenVaultA: readPublicKey(data, WHIRLPOOL_OFFSETS.tokenVaultA),
+    tokenMintB: readPublicKey(data, WHIRLPOOL_OFFSETS.tokenMintB),
+    tokenVaultB: readPublicKey(data, WHIRLPOOL_OFFSETS.tokenVaultB)
+  };
+}
+
+/**
+ * Decode a Whirlpool tick array account
+ */
+export function decodeTickArray(data: Buffer, tickSpacing: number): TickArray {
+  if (data.length !== TICK_ARRAY_ACCOUNT_SIZE) {
+    throw new Error(`Invalid tick array account size: ${data.length}`);
+  }
+
+  const startTickIndex = data.readInt32LE(TICK_ARRAY_START_OFFSET);
+  const ticks: WhirlpoolTick[] = [];
+
+  for (let i = 0; i < TICK_ARRAY_SIZE; i++) {
+    const offset = TICK_ARRAY_TICKS_OFFSET + i * TICK_SIZE;
+    ticks.push({
+      index: startTickIndex + i * tickSpacing,
+      initialized: data[offset] === 1,
+      liquidityNet: readI128(data, offset + 1),
+      liquidityGross: readU128(data, offset + 17)
+    });
+  }
+
+  return { startTickIndex, ticks };
+}
+
+/**
+ * Start index of the tick array containing a tick
+ */
+export function getTickArrayStartIndex(tickIndex: number, tickSpacing: number): number {
+  const ticksInArray = tickSpacing * TICK_ARRAY_SIZE;
+  return Math.floor(tickIndex / ticksInArray) * ticksInArray;
+}
+
+/**
+ * Tick array PDA: ["tick_array", whirlpool, start_tick_index as decimal string]
+ */
+export function getTickArrayAddress(whirlpool: PublicKey, startTickIndex: number): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from('tick_array'), whirlpool.toBuffer(), Buffer.from(startTickIndex.toString())],
+    ORCA_WHIRLPOOL_PROGRAM_ID
+  );
+  return address;
+}
+
+/**
+ * sqrt(1.0001^tick) as a Q64.64 fixed-point number
+ */
+export function sqrtPriceX64FromTick(tickIndex: number): bigint {
+  if (tickIndex < MIN_TICK_INDEX || tickIndex > MAX_TICK_INDEX) {
+    throw new Error(`Tick index out of range: ${tickIndex}`);
+  }
+
+  const cached = sqrtPriceCache.get(tickIndex);
+  if (cached !== undefined) return cached;
+
+  const sqrtPrice = new TickDecimal('1.0001')
+    .pow(tickIndex)
+    .sqrt()
+    .mul(new TickDecimal(2).pow(64))
+    .floor();
+  const result = BigInt(sqrtPrice.toFixed(0));
+
+  sqrtPriceCache.set(tickIndex, result);
+  return result;
+}
+
+/**
+ * Greatest tick whose sqrt price is <= the given Q64.64 sqrt price
+ */
+export function tickFromSqrtPriceX64(sqrtPriceX64: bigint): number {
+  const price = new TickDecimal(sqrtPriceX64.toString()).div(new TickDecimal(2).pow(64)).pow(2);
+  let tick = Math.floor(price.ln().div(new TickDecimal('1.0001').ln()).toNumber());
+  tick = Math.min(MAX_TICK_INDEX, Math.max(MIN_TICK_INDEX, tick));
+
+  // Correct floating-point drift against the exact tick prices
+  while (tick < MAX_TICK_INDEX && sqrtPriceX64FromTick(tick + 1) <= sqrtPriceX64) tick++;
+  while (tick > MIN_TICK_INDEX && sqrtPriceX64FromTick(tick) > sqrtPriceX64) tick--;
+
+  return tick;
+}
+
+/**
+ * Token A needed/released moving between two sqrt prices: L * (1/p_lower - 1/p_upper)
+ */
+export function getAmountDeltaA(
+  sqrtPrice0: bigint,
+  sqrtPrice1: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  const [lower, upper] = sqrtPrice0 < sqrtPrice1 ? [sqrtPrice0, sqrtPrice1] : [sqrtPrice1, sqrtPrice0];
+  const numerator = (liquidity * (upper - lower)) << BigInt(64);
+  const denominator = upper * lower;
+  const quotient = numerator / denominator;
+
+  return roundUp && numerator % denominator !== BigInt(0) ? quotient + BigInt(1) : quotient;
+}
+
+/**
+ * Token B needed/released moving between two sqrt prices: L * (p_upper - p_lower)
+ */
+export function getAmountDeltaB(
+  sqrtPrice0: bigint,
+  sqrtPrice1: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  const [lower, upper] = sqrtPrice0 < sqrtPrice1 ? [sqrtPrice0, sqrtPrice1] : [sqrtPrice1, sqrtPrice0];
+  const product = liquidity * (upper - lower);
+  const quotient = product >> BigInt(64);
+
+  return roundUp && (product & (Q64 - BigInt(1))) !== BigInt(0) ? quotient + BigInt(1) : quotient;
+}
+
+function getNextSqrtPriceFromAInput(sqrtPrice: bigint, liquidity: bigint, amount: bigint): bigint {
+  if (amount === BigInt(0)) return sqrtPrice;
+
+  const numerator = (liquidity * sqrtPrice) << BigInt(64);
+  const denominator = (liquidity << BigInt(64)) + sqrtPrice * amount;
+  const quotient = numerator / denominator;
+
+  return numerator % denominator !== BigInt(0) ? quotient + BigInt(1) : quotient;
+}
+
+function getNextSqrtPriceFromBInput(sqrtPrice: bigint, liquidity: bigint, amount: bigint): bigint {
+  return sqrtPrice + (amount << BigInt(64)) / liquidity;
+}
+
+/**
+ * One exact-input swap step within a single liquidity range, as in the program's compute_swap
+ */
+export function computeSwapStep(
+  amountRemaining: bigint,
+  feeRate: number,
+  liquidity: bigint,
+  sqrtPriceCurrent: bigint,
+  sqrtPriceTarget: bigint,
+  aToB: boolean
+): SwapStepResult {
+  const fee = BigInt(feeRate);
+  const amountLessFee = (amountRemaining * (FEE_RATE_DENOMINATOR - fee)) / FEE_RATE_DENOMINATOR;
+
+  const inputDelta = aToB
+    ? getAmountDeltaA(sqrtPriceCurrent, sqrtPriceTarget, liquidity, true)
+    : getAmountDeltaB(sqrtPriceCurrent, sqrtPriceTarget, liquidity, true);
+
+  let nextSqrtPriceX64: bigint;
+  if (liquidity === BigInt(0) || amountLessFee >= inputDelta) {
+    nextSqrtPriceX64 = sqrtPriceTarget;
+  } else {
+    nextSqrtPriceX64 = aToB
+      ? getNextSqrtPriceFromAInput(sqrtPriceCurrent, liquidity, amountLessFee)
+      : getNextSqrtPriceFromBInput(sqrtPriceCurrent, liquidity, amountLessFee);
+  }
+
+  const isMaxSwap = nextSqrtPriceX64 === sqrtPriceTarget;
+
+  const amountIn = isMaxSwap
+    ? inputDelta
+    : aToB
+      ? getAmountDeltaA(sqrtPriceCurrent, nextSqrtPriceX64, liquidity, true)
+      : getAmountDeltaB(sqrtPriceCurrent, nextSqrtPriceX64, liquidity, true);
+
+  const amountOut = aToB
+    ? getAmountDeltaB(sqrtPriceCurrent, nextSqrtPriceX64, liquidity, false)
+    : getAmountDeltaA(sqrtPriceCurrent, nextSqrtPriceX64, liquidity, false);
+
+  // A partial step consumes the whole remainder; the difference is the fee
+  const feeAmount = isMaxSwap
+    ? (amountIn * fee + (FEE_RATE_DENOMINATOR - fee) - BigInt(1)) / (FEE_RATE_DENOMINATOR - fee)
+    : amountRemaining - amountIn;
+
+  return { amountIn, amountOut, feeAmount, nextSqrtPriceX64 };
+}
+
+/**
+ * Next tick to cross in the swap direction, or null past the loaded tick arrays.
+ * When no initialized tick remains, the coverage boundary is returned uninitialized.
+ */
+function findNextTick(
+  pool: LoadedWhirlpool,
+  currentTick: number,
+  aToB: boolean
+): WhirlpoolTick | null {
+  const { tickArrays, state } = pool;
+  if (tickArrays.length === 0) return null;
+
+  const span = state.tickSpacing * TICK_ARRAY_SIZE;
+  const coverageStart = Math.max(MIN_TICK_INDEX, tickArrays[0].startTickIndex);
+  const coverageEnd = Math.min(MAX_TICK_INDEX, tickArrays[tickArrays.length - 1].startTickIndex + span);
+  const boundary = (index: number): WhirlpoolTick => ({
+    index,
+    initialized: false,
+    liquidityNet: BigInt(0),
+    liquidityGross: BigInt(0)
+  });
+
+  if (aToB) {
+    if (currentTick < coverageStart) return null;
+    for (let a = tickArrays.length - 1; a >= 0; a--) {
+      const ticks = tickArrays[a].ticks;
+      for (let i = ticks.length - 1; i >= 0; i--) {
+        if (ticks[i].initialized && ticks[i].index <= currentTick) return ticks[i];
+      }
+    }
+    return boundary(coverageStart);
+  }
+
+  if (currentTick >= coverageEnd) return null;
+  for (const tickArray of tickArrays) {
+    for (const tick of tickArray.ticks) {
+      if (tick.initialized && tick.index > currentTick) return tick;
+    }
+  }
+  return boundary(coverageEnd);
+}
+
+/**
+ * Simulate an exact-input swap across tick boundaries
+ */
+export function simulateWhirlpoolSwap(
+  pool: LoadedWhirlpool,
+  inputMint: PublicKey,
+  amountIn: bigint
+): SwapQuote {
+  const { state } = pool;
+
+  let aToB: boolean;
+  if (inputMint.equals(state.tokenMintA)) {
+    aToB = true;
+  } else if (inputMint.equals(state.tokenMintB)) {
+    aToB = false;
+  } else {
+    throw new Error(`Mint ${inputMint.toBase58()} is not traded by Whirlpool ${pool.address.toBase58()}`);
+  }
+
+  const sqrtPriceLimit = aToB ? MIN_SQRT_PRICE_X64 : MAX_SQRT_PRICE_X64;
+  let amountRemaining = amountIn;
+  let amountOut = BigInt(0);
+  let feeAmount = BigInt(0);
+  let sqrtPrice = state.sqrtPriceX64;
+  let currentTick = state.tickCurrentIndex;
+  let liquidity = state.liquidity;
+
+  while (amountRemaining > BigInt(0) && sqrtPrice !== sqrtPriceLimit) {
+    const nextTick = findNextTick(pool, currentTick, aToB);
+    if (!nextTick) {
+      throw new Error(`Swap exceeds liquidity in loaded tick arrays of Whirlpool ${pool.address.toBase58()}`);
+    }
+
+    const nextTickSqrtPrice = sqrtPriceX64FromTick(nextTick.index);
+    const targetSqrtPrice = aToB
+      ? (nextTickSqrtPrice < sqrtPriceLimit ? sqrtPriceLimit : nextTickSqrtPrice)
+      : (nextTickSqrtPrice > sqrtPriceLimit ? sqrtPriceLimit : nextTickSqrtPrice);
+
+    const step = computeSwapStep(amountRemaining, state.feeRate, liquidity, sqrtPrice, targetSqrtPrice, aToB);
+
+    amountRemaining -= step.amountIn + step.feeAmount;
+    amountOut += step.amountOut;
+    feeAmount += step.feeAmount;
+
+    if (step.nextSqrtPriceX64 === nextTickSqrtPrice) {
+      // Crossing an initialized tick moves liquidity in or out of range
+      if (nextTick.initialized) {
+        liquidity = aToB ? liquidity - nextTick.liquidityNet : liquidity + nextTick.liquidityNet;
+      }
+      currentTick = aToB ? nextTick.index - 1 : nextTick.index;
+    } else if (step.nextSqrtPriceX64 !== sqrtPrice) {
+      currentTick = tickFromSqrtPriceX64(step.nextSqrtPriceX64);
+    }
+
+    sqrtPrice = step.nextSqrtPriceX64;
+  }
+
+  // Compare against a fee-free fill at the starting spot price
+  const spotPrice = new Decimal(state.sqrtPriceX64.toString()).div(new Decimal(2).pow(64)).pow(2);
+  const amountInLessFee = new Decimal((amountIn - amountRemaining - feeAmount).toString());
+  const idealOut = aToB ? amountInLessFee.mul(spotPrice) : amountInLessFee.div(spotPrice);
+  const priceImpact = idealOut.gt(0)
+    ? Decimal.max(0, new Decimal(1).sub(new Decimal(amountOut.toString()).div(idealOut)))
+    : new Decimal(0);
+
+  return {
+    dex: 'Orca',
+    poolAddress: pool.address,
+    inputMint,
+    outputMint: aToB ? state.tokenMintB : state.tokenMintA,
+    amountIn,
+    amountOut,
+    feeAmount,
+    feeMint: inputMint,
+    priceImpact,
+    outputLiquidity: aToB ? pool.vaultBalanceB : pool.vaultBalanceA
+  };
+}
+
+/**
+ * Orca Whirlpool quoter backed by live account data
+ */
+export class OrcaWhirlpoolQuoter {
+  private fetcher: AccountFetcher;
+  private arraysPerSide: number;
+
+  constructor(fetcher: AccountFetcher, arraysPerSide: number = 2) {
+    this.fetcher = fetcher;
+    this.arraysPerSide = arraysPerSide;
+  }
+
+  /**
+   * Load the whirlpool, its vault balances and the tick arrays on both sides of the price
+   */
+  async loadPool(address: PublicKey): Promise<LoadedWhirlpool> {
+    const [poolData] = await fetchAccountData(this.fetcher, [address]);
+    const state = decodeWhirlpool(poolData);
+
+    const span = state.tickSpacing * TICK_ARRAY_SIZE;
+    const currentStart = getTickArrayStartIndex(state.tickCurrentIndex, state.tickSpacing);
+    const starts: number[] = [];
+    for (let offset = -this.arraysPerSide; offset <= this.arraysPerSide; offset++) {
+      starts.push(currentStart + offset * span);
+    }
+
+    const tickArrayAddresses = starts.map(start => getTickArrayAddress(address, start));
+    const accounts = await this.fetcher.getMultipleAccountsInfo([
+      state.tokenVaultA,
+      state.tokenVaultB,
+      ...tickArrayAddresses
+    ]);
+
+    const [vaultA, vaultB, ...tickArrayAccounts] = accounts;
+    if (!vaultA || !vaultB) {
+      throw new Error(`Vault accounts not found for Whirlpool ${address.toBase58()}`);
+    }
+
+    // Keep only the uninitialized-free run of arrays around the current one
+    const currentPosition = this.arraysPerSide;
+    if (!tickArrayAccounts[currentPosition]) {
+      throw new Error(`Current tick array not initialized for Whirlpool ${address.toBase58()}`);
+    }
+
+    let first = currentPosition;
+    while (first > 0 && tickArrayAccounts[first - 1]) first--;
+    let last = currentPosition;
+    while (last < tickArrayAccounts.length - 1 && tickArrayAccounts[last + 1]) last++;
+
+    const tickArrays = tickArrayAccounts
+      .slice(first, last + 1)
+      .map(account => decodeTickArray(account!.data, state.tickSpacing));
+
+    return {
+      address,
+      state,
+      tickArrays,
+      vaultBalanceA: decodeTokenAccountAmount(vaultA.data),
+      vaultBalanceB: decodeTokenAccountAmount(vaultB.data)
+    };
+  }
+
+  /**
+   * Quote an exact-input swap on the given Whirlpool
+   */
+  async quote(address: PublicKey, inputMint: PublicKey, amountIn: bigint): Promise<SwapQuote> {
+    const pool = await this.loadPool(address);
+    return simulateWhirlpoolSwap(pool, inputMint, amountIn);
+  }
+}
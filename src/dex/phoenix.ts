@@ -0,0 +1,398 @@
+import { PublicKey, SYSVAR_CLOCK_PUBKEY } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import {
+  AccountFetcher,
+  SolanaClock,
+  decodeClock,
+  fetchAccountData,
+  readPublicKey,
+  readU64
+} from './accounts';
+import { SwapQuote } from './types';
+import { LiquidityDepth } from '../types';
+
+export const PHOENIX_PROGRAM_ID = new PublicKey('PhoeNiXZ8ByJGLkxNfZRnkUfjvmuYqLR89jjFHGqdXY');
+
+// MarketHeader is 576 bytes; the FIFOMarket body starts with 256 bytes of padding
+export const PHOENIX_MARKET_HEADER_SIZE = 576;
+const MARKET_BODY_OFFSET = PHOENIX_MARKET_HEADER_SIZE + 256;
+
+const OFFSETS = {
+  status: 8,
+  bidsSize: 16,
+  asksSize: 24,
+  numSeats: 32,
+  baseDecimals: 40,
+  baseMint: 48,
+  baseVault: 80,
+  baseLotSize: 112,
+  quoteDecimals: 120,
+  quoteMint: 128,
+  quoteVault: 160,
+  quoteLotSize: 192,
+  tickSizeInQuoteAtomsPerBaseUnit: 200,
+  rawBaseUnitsPerBaseUnit: 312,
+  baseLotsPerBaseUnit: MARKET_BODY_OFFSET,
+  tickSizeInQuoteLotsPerBaseUnit: MARKET_BODY_OFFSET + 8,
+  takerFeeBps: MARKET_BODY_OFFSET + 24,
+  bidsTree: MARKET_BODY_OFFSET + 48
+};
+
+// Sokoban red-black tree: root (u32) + padding, then allocator size/bump/free-list head
+const TREE_HEADER_SIZE = 32;
+// Node: 4 u32 registers | FIFOOrderId (price, sequence) | FIFORestingOrder (4 x u64)
+const ORDER_NODE_SIZE = 64;
+// Node: 4 u32 registers | trader pubkey | TraderState (4 x u64 + 8 x u64 padding)
+const TRADER_NODE_SIZE = 144;
+const SENTINEL = 0;
+
+// MarketStatus::Active is the only state that matches taker orders
+const MARKET_STATUS_ACTIVE = BigInt(1);
+const BPS_DENOMINATOR = BigInt(10000);
+
+export interface PhoenixMarketState {
+  status: bigint;
+  bidsSize: number;
+  asksSize: number;
+  numSeats: number;
+  baseMint: PublicKey;
+  baseVault: PublicKey;
+  baseDecimals: number;
+  baseLotSize: bigint;
+  quoteMint: PublicKey;
+  quoteVault: PublicKey;
+  quoteDecimals: number;
+  quoteLotSize: bigint;
+  tickSizeInQuoteAtomsPerBaseUnit: bigint;
+  rawBaseUnitsPerBaseUnit: number;
+  baseLotsPerBaseUnit: bigint;
+  tickSizeInQuoteLotsPerBaseUnit: bigint;
+  takerFeeBps: bigint;
+}
+
+export interface PhoenixOrder {
+  priceInTicks: bigint;
+  orderSequenceNumber: bigint;
+  traderIndex: bigint;
+  numBaseLots: bigint;
+  lastValidSlot: bigint; // 0 = no slot expiry
+  lastValidUnixTimestamp: bigint; // 0 = no time expiry
+}
+
+export interface PhoenixBookLevel {
+  priceInTicks: bigint;
+  baseLots: bigint;
+}
+
+export interface PhoenixMarket {
+  address: PublicKey;
+  state: PhoenixMarketState;
+  bids: PhoenixBookLevel[]; // Best (highest) first
+  asks: PhoenixBookLevel[]; // Best (lowest) first
+}
+
+/**
+ * Decode the Phoenix market header and FIFO market parameters
+ */
+export function decodePhoenixMarketState(data: Buffer): PhoenixMarketState {
+  if (data.length < OFFSETS.bidsTree) {
+    throw new Error(`Invalid Phoenix market account size: ${data.length}`);
+  }
+
+  const state: PhoenixMarketState = {
+    status: readU64(data, OFFSETS.status),
+    bidsSize: Number(readU64(data, OFFSETS.bidsSize)),
+    asksSize: Number(readU64(data, OFFSETS.asksSize)),
+    numSeats: Number(readU64(data, OFFSETS.numSeats)),
+    baseMint: readPublicKey(data, OFFSETS.baseMint),
+    baseVault: readPublicKey(data, OFFSETS.baseVault),
+    baseDecimals: data.readUInt32LE(OFFSETS.baseDecimals),
+    baseLotSize: readU64(data, OFFSETS.baseLotSize),
+    quoteMint: readPublicKey(data, OFFSETS.quoteMint),
+    quoteVault: readPublicKey(data, OFFSETS.quoteVault),
+    quoteDecimals: data.readUInt32LE(OFFSETS.quoteDecimals),
+    quoteLotSize: readU64(data, OFFSETS.quoteLotSize),
+    tickSizeInQuoteAtomsPerBaseUnit: readU64(data, OFFSETS.tickSizeInQuoteAtomsPerBaseUnit),
+    rawBaseUnitsPerBaseUnit: data.readUInt32LE(OFFSETS.rawBaseUnitsPerBaseUnit) || 1,
+    baseLotsPerBaseUnit: readU64(data, OFFSETS.baseLotsPerBaseUnit),
+    tickSizeInQuoteLotsPerBaseUnit: readU64(data, OFFSETS.tickSizeInQuoteLotsPerBaseUnit),
+    takerFeeBps: readU64(data, OFFSETS.takerFeeBps)
+  };
+
+  const expectedSize = OFFSETS.bidsTree +
+    TREE_HEADER_SIZE * 3 +
+    ORDER_NODE_SIZE * (state.bidsSize + state.asksSize) +
+    TRADER_NODE_SIZE * state.numSeats;
+
+  if (data.length < expectedSize) {
+    throw new Error(`Invalid Phoenix market account size: ${data.length} (expected ${expectedSize})`);
+  }
+  if (state.baseLotsPerBaseUnit === BigInt(0) || state.baseLotSize === BigInt(0) || state.quoteLotSize === BigInt(0)) {
+    throw new Error('Invalid Phoenix market lot sizes');
+  }
+
+  return state;
+}
+
+/**
+ * Read the resting orders of one side of the book by walking its red-black tree in order.
+ * Freed nodes are not reachable from the root, so only live orders are returned.
+ */
+export function decodeOrderTree(data: Buffer, treeOffset: number, capacity: number): PhoenixOrder[] {
+  const orders: PhoenixOrder[] = [];
+  const nodesOffset = treeOffset + TREE_HEADER_SIZE;
+  const stack: number[] = [];
+  let current = data.readUInt32LE(treeOffset);
+
+  const nodeOffset = (index: number): number => {
+    if (index < 1 || index > capacity) {
+      throw new Error(`Corrupt Phoenix order tree: node ${index} out of range`);
+    }
+    return nodesOffset + (index - 1) * ORDER_NODE_SIZE;
+  };
+
+  while (current !== SENTINEL || stack.length > 0) {
+    while (current !== SENTINEL) {
+      if (stack.length > capacity) {
+        throw new Error('Corrupt Phoenix order tree: cycle detected');
+      }
+      stack.push(current);
+      current = data.readUInt32LE(nodeOffset(current)); // Left register
+    }
+
+    const index = stack.pop()!;
+    const offset = nodeOffset(index);
+    orders.push({
+      priceInTicks: readU64(data, offset + 16),
+      orderSequenceNumber: readU64(data, offset + 24),
+      traderIndex: readU64(data, offset + 32),
+      numBaseLots: readU64(data, offset + 40),
+      lastValidSlot: readU64(data, offset + 48),
+      lastValidUnixTimestamp: readU64(data, offset + 56)
+    });
+
+    current = data.readUInt32LE(offset + 4); // Right register
+  }
+
+  return orders;
+}
+
+/**
+ * Aggregate live orders into price levels, best price first
+ */
+function aggregateLevels(orders: PhoenixOrder[], descending: boolean, clock?: SolanaClock): PhoenixBookLevel[] {
+  const levels = new Map<bigint, bigint>();
+
+  for (const order of orders) {
+    if (clock && isExpired(order, clock)) continue;
+    if (order.numBaseLots === BigInt(0)) continue;
+    levels.set(order.priceInTicks, (levels.get(order.priceInTicks) || BigInt(0)) + order.numBaseLots);
+  }
+
+  return Array.from(levels.entries())
+    .map(([priceInTicks, baseLots]) => ({ priceInTicks, baseLots }))
+    .sort((a, b) => {
+      const diff = descending ? b.priceInTicks - a.priceInTicks : a.priceInTicks - b.priceInTicks;
+      return diff > BigInt(0) ? 1 : diff < BigInt(0) ? -1 : 0;
+    });
+}
+
+function isExpired(order: PhoenixOrder, clock: SolanaClock): boolean {
+  return (order.lastValidSlot !== BigInt(0) && order.lastValidSlot < clock.slot) ||
+    (order.lastValidUnixTimestamp !== BigInt(0) && order.lastValidUnixTimestamp < clock.unixTimestamp);
+}
+
+/**
+ * Decode a Phoenix market account into its parameters and aggregated book.
+ * Orders that expired before `clock` are dropped, as the matching engine would skip them.
+ */
+export function decodePhoenixMarket(address: PublicKey, data: Buffer, clock?: SolanaClock): PhoenixMarket {
+  const state = decodePhoenixMarketState(data);
+  const asksOffset = OFFSETS.bidsTree + TREE_HEADER_SIZE + ORDER_NODE_SIZE * state.bidsSize;
+
+  return {
+    address,
+    state,
+    bids: aggregateLevels(decodeOrderTree(data, OFFSETS.bidsTree, state.bidsSize), true, clock),
+    asks: aggregateLevels(decodeOrderTree(data, asksOffset, state.asksSize), false, clock)
+  };
+}
+
+/**
+ * Quote lots exchanged for a number of base lots at a price
+ */
+function quoteLotsAt(state: PhoenixMarketState, baseLots: bigint, priceInTicks: bigint): bigint {
+  return (baseLots * priceInTicks * state.tickSizeInQuoteLotsPerBaseUnit) / state.baseLotsPerBaseUnit;
+}
+
+function ceilDiv(numerator: bigint, denominator: bigint): bigint {
+  return (numerator + denominator - BigInt(1)) / denominator;
+}
+
+/**
+ * Simulate an immediate-or-cancel taker order walking the book.
+ * Selling base fills whole base lots against bids, and the quote's amountIn is the base
+ * actually sold; the sub-lot remainder stays with the trader. Spending quote fills against
+ * asks with the budget reduced so that fills plus the taker fee fit. Rounding favours the market.
+ */
+export function simulatePhoenixFill(market: PhoenixMarket, inputMint: PublicKey, amountIn: bigint): SwapQuote {
+  const { state } = market;
+
+  if (state.status !== MARKET_STATUS_ACTIVE) {
+    throw new Error(`Phoenix market ${market.address.toBase58()} is not accepting taker orders (status ${state.status})`);
+  }
+
+  let sellBase: boolean;
+  if (inputMint.equals(state.baseMint)) {
+    sellBase = true;
+  } else if (inputMint.equals(state.quoteMint)) {
+    sellBase = false;
+  } else {
+    throw new Error(`Mint ${inputMint.toBase58()} is not traded by Phoenix market ${market.address.toBase58()}`);
+  }
+
+  const levels = sellBase ? market.bids : market.asks;
+  if (levels.length === 0) {
+    throw new Error(`Phoenix market ${market.address.toBase58()} has no ${sellBase ? 'bids' : 'asks'}`);
+  }
+
+  let baseLotsFilled = BigInt(0);
+  let quoteLotsFilled = BigInt(0);
+  let exhausted = true;
+
+  if (sellBase) {
+    let remaining = amountIn / state.baseLotSize;
+    if (remaining === BigInt(0)) {
+      throw new Error(`Swap amount ${amountIn} is below one lot on Phoenix market ${market.address.toBase58()}`);
+    }
+    for (const level of levels) {
+      if (remaining === BigInt(0)) {
+        exhausted = false;
+        break;
+      }
+      const lots = remaining < level.baseLots ? remaining : level.baseLots;
+      baseLotsFilled += lots;
+      quoteLotsFilled += quoteLotsAt(state, lots, level.priceInTicks);
+      remaining -= lots;
+    }
+    if (remaining === BigInt(0)) exhausted = false;
+  } else {
+    const budget = amountIn / state.quoteLotSize;
+    let remaining = (budget * BPS_DENOMINATOR) / (BPS_DENOMINATOR + state.takerFeeBps);
+    for (const level of levels) {
+      const levelCost = ceilDiv(
+        level.baseLots * level.priceInTicks * state.tickSizeInQuoteLotsPerBaseUnit,
+        state.baseLotsPerBaseUnit
+      );
+      if (levelCost <= remaining) {
+        baseLotsFilled += level.baseLots;
+        quoteLotsFilled += levelCost;
+        remaining -= levelCost;
+        continue;
+      }
+
+      // Partial fill of this level ends the walk
+      const lots = (remaining * state.baseLotsPerBaseUnit) /
+        (level.priceInTicks * state.tickSizeInQuoteLotsPerBaseUnit);
+      const cost = ceilDiv(lots * level.priceInTicks * state.tickSizeInQuoteLotsPerBaseUnit, state.baseLotsPerBaseUnit);
+      baseLotsFilled += lots;
+      quoteLotsFilled += cost;
+      exhausted = false;
+      break;
+    }
+    if (remaining === BigInt(0)) exhausted = false;
+  }
+
+  if (exhausted) {
+    throw new Error(`Order exceeds ${sellBase ? 'bid' : 'ask'} depth of Phoenix market ${market.address.toBase58()}`);
+  }
+
+  const feeLots = ceilDiv(quoteLotsFilled * state.takerFeeBps, BPS_DENOMINATOR);
+  const amountOut = sellBase
+    ? (quoteLotsFilled - feeLots) * state.quoteLotSize
+    : baseLotsFilled * state.baseLotSize;
+
+  // Compare against filling the same size entirely at the top of book
+  const best = levels[0].priceInTicks;
+  let priceImpact = new Decimal(0);
+  if (baseLotsFilled > BigInt(0)) {
+    const filled = new Decimal(quoteLotsFilled.toString());
+    const atTop = new Decimal(baseLotsFilled.toString())
+      .mul(best.toString())
+      .mul(state.tickSizeInQuoteLotsPerBaseUnit.toString())
+      .div(state.baseLotsPerBaseUnit.toString());
+    priceImpact = Decimal.max(0, sellBase
+      ? new Decimal(1).sub(filled.div(atTop))
+      : new Decimal(1).sub(atTop.div(filled)));
+  }
+
+  const outputLiquidity = sellBase
+    ? levels.reduce((sum, level) => sum + quoteLotsAt(state, level.baseLots, level.priceInTicks), BigInt(0)) * state.quoteLotSize
+    : levels.reduce((sum, level) => sum + level.baseLots, BigInt(0)) * state.baseLotSize;
+
+  return {
+    dex: 'Phoenix',
+    poolAddress: market.address,
+    inputMint,
+    outputMint: sellBase ? state.quoteMint : state.baseMint,
+    amountIn: sellBase ? baseLotsFilled * state.baseLotSize : amountIn,
+    amountOut,
+    feeAmount: feeLots * state.quoteLotSize,
+    feeMint: state.quoteMint,
+    priceImpact,
+    outputLiquidity
+  };
+}
+
+/**
+ * Convert the book into UI prices (quote per base unit) and base-unit quantities
+ */
+export function getLiquidityDepth(market: PhoenixMarket, maxLevels: number = 20): LiquidityDepth {
+  const { state } = market;
+  const priceScale = new Decimal(state.tickSizeInQuoteAtomsPerBaseUnit.toString())
+    .div(new Decimal(10).pow(state.quoteDecimals))
+    .div(state.rawBaseUnitsPerBaseUnit);
+  const quantityScale = new Decimal(state.baseLotSize.toString())
+    .div(new Decimal(10).pow(state.baseDecimals));
+
+  const toLevel = (level: PhoenixBookLevel) => ({
+    price: new Decimal(level.priceInTicks.toString()).mul(priceScale),
+    quantity: new Decimal(level.baseLots.toString()).mul(quantityScale)
+  });
+  const total = (levels: PhoenixBookLevel[]) =>
+    new Decimal(levels.reduce((sum, level) => sum + level.baseLots, BigInt(0)).toString()).mul(quantityScale);
+
+  return {
+    bids: market.bids.slice(0, maxLevels).map(toLevel),
+    asks: market.asks.slice(0, maxLevels).map(toLevel),
+    totalBidLiquidity: total(market.bids),
+    totalAskLiquidity: total(market.asks)
+  };
+}
+
+/**
+ * Phoenix order book quoter backed by live account data
+ */
+export class PhoenixQuoter {
+  private fetcher: AccountFetcher;
+
+  constructor(fetcher: AccountFetcher) {
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Load the market and the current clock in one round trip
+   */
+  async loadMarket(address: PublicKey): Promise<PhoenixMarket> {
+    const [marketData, clockData] = await fetchAccountData(this.fetcher, [address, SYSVAR_CLOCK_PUBKEY]);
+    return decodePhoenixMarket(address, marketData, decodeClock(clockData));
+  }
+
+  /**
+   * Quote an exact-input taker order on the given market
+   */
+  async quote(address: PublicKey, inputMint: PublicKey, amountIn: bigint): Promise<SwapQuote> {
+    const market = await this.loadMarket(address);
+    return simulatePhoenixFill(market, inputMint, amountIn);
+  }
+}
@@ -0,0 +1,215 @@
+import { PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import {
+  AccountFetcher,
+  decodeTokenAccountAmount,
+  fetchAccountData,
+  readPublicKey,
+  readU64
+} from './accounts';
+import { SwapQuote } from './types';
+
+export const RAYDIUM_AMM_V4_PROGRAM_ID = new PublicKey('675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8');
+
+// LIQUIDITY_STATE_LAYOUT_V4: 32 u64 fields, swap accounting (u128/u64), then pubkeys
+export const RAYDIUM_AMM_V4_ACCOUNT_SIZE = 752;
+
+const OFFSETS = {
+  status: 0,
+  baseDecimal: 32,
+  quoteDecimal: 40,
+  swapFeeNumerator: 176,
+  swapFeeDenominator: 184,
+  baseNeedTakePnl: 192,
+  quoteNeedTakePnl: 200,
+  poolOpenTime: 224,
+  baseVault: 336,
+  quoteVault: 368,
+  baseMint: 400,
+  quoteMint: 432,
+  lpMint: 464,
+  openOrders: 496,
+  marketId: 528
+};
+
+// AmmStatus values that accept swaps: Initialized, SwapOnly, WaitingTrade (once open)
+const SWAPPABLE_STATUSES = [BigInt(1), BigInt(6), BigInt(7)];
+const WAITING_TRADE_STATUS = BigInt(7);
+
+export interface RaydiumAmmPoolState {
+  status: bigint;
+  baseDecimal: number;
+  quoteDecimal: number;
+  swapFeeNumerator: bigint;
+  swapFeeDenominator: bigint;
+  baseNeedTakePnl: bigint;
+  quoteNeedTakePnl: bigint;
+  poolOpenTime: bigint;
+  baseVault: PublicKey;
+  quoteVault: PublicKey;
+  baseMint: PublicKey;
+  quoteMint: PublicKey;
+  lpMint: PublicKey;
+  openOrders: PublicKey;
+  marketId: PublicKey;
+}
+
+export interface RaydiumAmmPool {
+  address: PublicKey;
+  state: RaydiumAmmPoolState;
+  baseReserve: bigint; // Vault balance net of pending PnL
+  quoteReserve: bigint;
+}
+
+/**
+ * Decode a Raydium AMM v4 pool state account
+ */
+export function decodeRaydiumAmmPool(data: Buffer): RaydiumAmmPoolState {
+  if (data.length !== RAYDIUM_AMM_V4_ACCOUNT_SIZE) {
+    throw new Error(`Invalid Raydium AMM v4 account size: ${data.length}`);
+  }
+
+  return {
+    status: readU64(data, OFFSETS.status),
+    baseDecimal: Number(readU64(data, OFFSETS.baseDecimal)),
+    quoteDecimal: Number(readU64(data, OFFSETS.quoteDecimal)),
+    swapFeeNumerator: readU64(data, OFFSETS.swapFeeNumerator),
+    swapFeeDenominator: readU64(data, OFFSETS.swapFeeDenominator),
+    baseNeedTakePnl: readU64(data, OFFSETS.baseNeedTakePnl),
+    quoteNeedTakePnl: readU64(data, OFFSETS.quoteNeedTakePnl),
+    poolOpenTime: readU64(data, OFFSETS.poolOpenTime),
+    baseVault: readPublicKey(data, OFFSETS.baseVault),
+    quoteVault: readPublicKey(data, OFFSETS.quoteVault),
+    baseMint: readPublicKey(data, OFFSETS.baseMint),
+    quoteMint: readPublicKey(data, OFFSETS.quoteMint),
+    lpMint: readPublicKey(data, OFFSETS.lpMint),
+    openOrders: readPublicKey(data, OFFSETS.openOrders),
+    marketId: readPublicKey(data, OFFSETS.marketId)
+  };
+}
+
+/**
+ * Exact constant-product output, mirroring the program's swap_base_in:
+ * the swap fee is rounded up and deducted from the input, the output is rounded down.
+ */
+export function computeConstantProductOut(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeNumerator: bigint,
+  feeDenominator: bigint
+): { amountOut: bigint; feeAmount: bigint } {
+  if (feeDenominator === BigInt(0)) {
+    throw new Error('Invalid fee denominator');
+  }
+
+  const feeAmount = (amountIn * feeNumerator + feeDenominator - BigInt(1)) / feeDenominator;
+  const amountInAfterFee = amountIn - feeAmount;
+  const amountOut = (reserveOut * amountInAfterFee) / (reserveIn + amountInAfterFee);
+
+  return { amountOut, feeAmount };
+}
+
+/**
+ * Quote a swap against a loaded Raydium AMM v4 pool; `nowSeconds` decides whether a
+ * WaitingTrade pool has reached its poolOpenTime
+ */
+export function quoteRaydiumAmm(
+  pool: RaydiumAmmPool,
+  inputMint: PublicKey,
+  amountIn: bigint,
+  nowSeconds: bigint = BigInt(Math.floor(Date.now() / 1000))
+): SwapQuote {
+  const { state } = pool;
+
+  if (!SWAPPABLE_STATUSES.includes(state.status)) {
+    throw new Error(`Raydium pool ${pool.address.toBase58()} is not swappable (status ${state.status})`);
+  }
+  if (state.status === WAITING_TRADE_STATUS && state.poolOpenTime > nowSeconds) {
+    throw new Error(`Raydium pool ${pool.address.toBase58()} does not open until ${state.poolOpenTime}`);
+  }
+
+  let baseToQuote: boolean;
+  if (inputMint.equals(state.baseMint)) {
+    baseToQuote = true;
+  } else if (inputMint.equals(state.quoteMint)) {
+    baseToQuote = false;
+  } else {
+    throw new Error(`Mint ${inputMint.toBase58()} is not traded by Raydium pool ${pool.address.toBase58()}`);
+  }
+
+  const reserveIn = baseToQuote ? pool.baseReserve : pool.quoteReserve;
+  const reserveOut = baseToQuote ? pool.quoteReserve : pool.baseReserve;
+
+  if (reserveIn <= BigInt(0) || reserveOut <= BigInt(0)) {
+    throw new Error(`Raydium pool ${pool.address.toBase58()} has no liquidity`);
+  }
+
+  const { amountOut, feeAmount } = computeConstantProductOut(
+    amountIn,
+    reserveIn,
+    reserveOut,
+    state.swapFeeNumerator,
+    state.swapFeeDenominator
+  );
+
+  // For x*y=k the execution price shortfall vs spot is exactly dx / (x + dx)
+  const amountInAfterFee = amountIn - feeAmount;
+  const priceImpact = new Decimal(amountInAfterFee.toString())
+    .div(new Decimal((reserveIn + amountInAfterFee).toString()));
+
+  return {
+    dex: 'Raydium',
+    poolAddress: pool.address,
+    inputMint,
+    outputMint: baseToQuote ? state.quoteMint : state.baseMint,
+    amountIn,
+    amountOut,
+    feeAmount,
+    feeMint: inputMint,
+    priceImpact,
+    outputLiquidity: reserveOut
+  };
+}
+
+/**
+ * Raydium AMM v4 quoter backed by live account data
+ */
+export class RaydiumAmmQuoter {
+  private fetcher: AccountFetcher;
+
+  constructor(fetcher: AccountFetcher) {
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Load pool state and vault balances
+   */
+  async loadPool(address: PublicKey): Promise<RaydiumAmmPool> {
+    const [poolData] = await fetchAccountData(this.fetcher, [address]);
+    const state = decodeRaydiumAmmPool(poolData);
+
+    const [baseVaultData, quoteVaultData] = await fetchAccountData(this.fetcher, [
+      state.baseVault,
+      state.quoteVault
+    ]);
+
+    const baseVaultAmount = decodeTokenAccountAmount(baseVaultData);
+    const quoteVaultAmount = decodeTokenAccountAmount(quoteVaultData);
+
+    return {
+      address,
+      state,
+      baseReserve: baseVaultAmount - state.baseNeedTakePnl,
+      quoteReserve: quoteVaultAmount - state.quoteNeedTakePnl
+    };
+  }
+
+  /**
+   * Quote an exact-input swap on the given pool
+   */
+  async quote(address: PublicKey, inputMint: PublicKey, amountIn: bigint): Promise<SwapQuote> {
+    const pool = await this.loadPool(address);
+    return quoteRaydiumAmm(pool, inputMint, amountIn);
+  }
+}
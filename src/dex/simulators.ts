@@ -0,0 +1,57 @@
+import { PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { PoolInfo } from '../config/pools';
+import { AccountFetcher } from './accounts';
+import { MeteoraDlmmQuoter, simulateDlmmSwap } from './meteoraDlmm';
+import { OrcaWhirlpoolQuoter, simulateWhirlpoolSwap } from './orcaWhirlpool';
+import { PhoenixQuoter, simulatePhoenixFill } from './phoenix';
+import { RaydiumAmmQuoter, quoteRaydiumAmm } from './raydiumAmm';
+import { SwapQuote } from './types';
+import { fromRawAmount, getTokenBySymbol, toRawAmount } from '../utils/tokenUtils';
+import type { QuoteFunction } from '../utils/tradeSizeSolver';
+
+/**
+ * Quotes against one snapshot of a pool's accounts, without further RPC calls
+ */
+export type SwapSimulator = (inputMint: PublicKey, amountIn: bigint) => SwapQuote;
+
+/**
+ * Fetch a known pool once and return a simulator over its loaded state
+ */
+export async function loadSwapSimulator(fetcher: AccountFetcher, pool: PoolInfo): Promise<SwapSimulator> {
+  switch (pool.dex) {
+    case 'raydium': {
+      const loaded = await new RaydiumAmmQuoter(fetcher).loadPool(pool.address);
+      return (inputMint, amountIn) => quoteRaydiumAmm(loaded, inputMint, amountIn);
+    }
+    case 'orca': {
+      const loaded = await new OrcaWhirlpoolQuoter(fetcher).loadPool(pool.address);
+      return (inputMint, amountIn) => simulateWhirlpoolSwap(loaded, inputMint, amountIn);
+    }
+    case 'phoenix': {
+      const market = await new PhoenixQuoter(fetcher).loadMarket(pool.address);
+      return (inputMint, amountIn) => simulatePhoenixFill(market, inputMint, amountIn);
+    }
+    case 'meteora': {
+      const pair = await new MeteoraDlmmQuoter(fetcher).loadPair(pool.address);
+      return (inputMint, amountIn) => simulateDlmmSwap(pair, inputMint, amountIn);
+    }
+  }
+}
+
+/**
+ * Adapt a simulator to UI amounts for one swap direction
+ */
+export function toQuoteFunction(simulate: SwapSimulator, from: string, to: string): QuoteFunction {
+  const fromToken = getTokenBySymbol(from);
+  const toToken = getTokenBySymbol(to);
+  if (!fromToken || !toToken) {
+    throw new Error(`Unknown token in pair: ${from}/${to}`);
+  }
+
+  return async (amountIn: Decimal) => {
+    const raw = BigInt(toRawAmount(amountIn, fromToken.decimals));
+    const quote = simulate(fromToken.mint, raw);
+    return fromRawAmount(quote.amountOut.toString(), toToken.decimals);
+  };
+}
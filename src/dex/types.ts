@@ -0,0 +1,19 @@
+import { PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+
+/**
+ * Exact swap quote computed from on-chain pool state.
+ * All token amounts are raw (base units) of the respective mint.
+ */
+export interface SwapQuote {
+  dex: string;
+  poolAddress: PublicKey;
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint; // Raw units of feeMint
+  feeMint: PublicKey; // Input token for AMMs, quote token for order books
+  priceImpact: Decimal; // Fraction of spot price lost to curve movement, fees excluded
+  outputLiquidity: bigint; // Output token available to the swap
+}
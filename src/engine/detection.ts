@@ -0,0 +1,138 @@
+import { PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { FeeEstimate, FeeEstimator, PriorityFeeSample, solPriceInQuote } from '../execution/feeEstimator';
+import { TransactionSimulation } from '../execution/simulationGate';
+import { PairOpportunity, VenueQuote } from '../storage/scanRecorder';
+import { RouteInfo } from '../types';
+import { getTokenBySymbol } from '../utils/tokenUtils';
+
+/**
+ * One venue's price for a pair as the engine compares them
+ */
+export interface EngineQuote extends VenueQuote {
+  source: 'direct' | 'aggregator' | 'route';
+  timestamp: number;
+  poolAddress?: PublicKey; // Pool the quote was computed from or routed through
+  quoteLiquidity?: Decimal; // Quote token reserve of a streamed pool, caps trade sizing
+}
+
+export type OpportunityStrategy = 'cross_dex' | 'jupiter_vs_direct' | 'direct_vs_direct';
+
+export interface EngineOpportunity extends PairOpportunity {
+  strategy: OpportunityStrategy;
+  confidence: 'high' | 'medium' | 'low';
+  buyQuote: EngineQuote;
+  sellQuote: EngineQuote;
+  feeEstimate?: FeeEstimate; // Compute limit and priority fee the round trip would be sent with
+  route?: RouteInfo[]; // Round trips between two on-chain pools only; other legs cannot be built locally
+  simulation?: TransactionSimulation;
+}
+
+export interface DetectionOptions {
+  minSpreadPercent: Decimal.Value;
+  // Net profits of gas when given; quotePerSol prices SOL for pairs that do not hold it
+  gas?: { estimator: FeeEstimator; sample: PriorityFeeSample; quotePerSol?: Decimal | null };
+}
+
+/**
+ * Buy-low/sell-high opportunities between every two venues quoting a pair, widest first
+ * (most net profit first when gas is priced in the output token). Spreads are percents
+ * of the buy price and profits are in the pair's output token for the quoted input amount.
+ */
+export function findOpportunities(pair: string, quotes: EngineQuote[], options: DetectionOptions): EngineOpportunity[] {
+  const [fromSymbol, toSymbol] = pair.split('/');
+  const minSpread = new Decimal(options.minSpreadPercent);
+  const opportunities: EngineOpportunity[] = [];
+
+  for (const buy of quotes) {
+    for (const sell of quotes) {
+      if (buy === sell || buy.dex === sell.dex || !sell.price.gt(buy.price) || buy.price.lte(0)) continue;
+
+      const priceDiff = sell.price.sub(buy.price);
+      const profitPercentage = priceDiff.div(buy.price).mul(100);
+      if (profitPercentage.lt(minSpread)) continue;
+
+      const profit = priceDiff.mul(buy.inputAmount);
+      const strategy = strategyOf(buy, sell);
+      const opportunity: EngineOpportunity = {
+        pair,
+        buyDex: buy.dex,
+        sellDex: sell.dex,
+        buyPrice: buy.price,
+        sellPrice: sell.price,
+        profit,
+        profitPercentage,
+        strategy,
+        confidence: confidenceOf(profitPercentage, profit),
+        buyQuote: buy,
+        sellQuote: sell
+      };
+
+      if (options.gas) {
+        const feeEstimate = options.gas.estimator.estimateWith(
+          options.gas.sample,
+          [buy.dex, sell.dex],
+          solPriceInQuote(fromSymbol, toSymbol, buy.price) ?? options.gas.quotePerSol ?? null
+        );
+        opportunity.feeEstimate = feeEstimate;
+        opportunity.estimatedGasCost = feeEstimate.costSol;
+        // Without a SOL price the cost cannot be put in the output token, so no net profit is claimed
+        if (feeEstimate.costQuote) opportunity.netProfitAfterGas = profit.sub(feeEstimate.costQuote);
+      }
+
+      if (strategy === 'direct_vs_direct') {
+        opportunity.route = roundTripRoute(sell, buy, fromSymbol, toSymbol);
+      }
+      opportunities.push(opportunity);
+    }
+  }
+
+  return opportunities.sort(opportunities.every(opportunity => opportunity.netProfitAfterGas)
+    ? (a, b) => b.netProfitAfterGas!.cmp(a.netProfitAfterGas!)
+    : (a, b) => b.profitPercentage.cmp(a.profitPercentage));
+}
+
+function strategyOf(buy: EngineQuote, sell: EngineQuote): OpportunityStrategy {
+  if (buy.source === 'route' || sell.source === 'route') return 'cross_dex';
+  if (buy.source === 'aggregator' || sell.source === 'aggregator') return 'jupiter_vs_direct';
+  return buy.poolAddress && sell.poolAddress ? 'direct_vs_direct' : 'cross_dex';
+}
+
+/**
+ * Over 1% and 0.1 tokens is high, over 0.5% and 0.05 tokens medium
+ */
+function confidenceOf(profitPercentage: Decimal, profit: Decimal): 'high' | 'medium' | 'low' {
+  if (profitPercentage.gte(1) && profit.gte(0.1)) return 'high';
+  if (profitPercentage.gte(0.5) && profit.gte(0.05)) return 'medium';
+  return 'low';
+}
+
+/**
+ * Sell the input token on the richer pool, then buy it back on the cheaper one
+ */
+function roundTripRoute(rich: EngineQuote, cheap: EngineQuote, fromSymbol: string, toSymbol: string): RouteInfo[] | undefined {
+  const fromToken = getTokenBySymbol(fromSymbol);
+  const toToken = getTokenBySymbol(toSymbol);
+  if (!fromToken || !toToken) return undefined;
+
+  return [
+    {
+      dex: rich.dex,
+      poolAddress: rich.poolAddress!,
+      tokenIn: fromToken,
+      tokenOut: toToken,
+      amountIn: rich.inputAmount,
+      amountOut: rich.outputAmount,
+      priceImpact: rich.priceImpact
+    },
+    {
+      dex: cheap.dex,
+      poolAddress: cheap.poolAddress!,
+      tokenIn: toToken,
+      tokenOut: fromToken,
+      amountIn: rich.outputAmount,
+      amountOut: rich.outputAmount.div(cheap.price),
+      priceImpact: cheap.priceImpact
+    }
+  ];
+}
@@ -0,0 +1,418 @@
+import Decimal from 'decimal.js';
+import { PoolDex } from '../config/pools';
+import { RecordFormat } from '../records/recordWriter';
+import type { TokenPair } from '../utils/optimizedPriceCollector';
+
+export type LogLevel = 'verbose' | 'normal' | 'quiet';
+
+/**
+ * A pool whose account updates drive a streaming profile
+ */
+export interface StreamPool {
+  address: string;
+  dex: PoolDex;
+  baseToken: string;
+  quoteToken: string;
+  priority: number; // Higher subscribes first
+}
+
+/**
+ * Everything that distinguishes one scanning mode from another. The engine, detector
+ * and record output are shared; a profile only chooses what to quote and how often.
+ */
+export interface ScanProfile {
+  name: string;
+  description: string;
+  warnings: string[]; // Printed before the first scan
+  pairs: TokenPair[];
+  venues: string[]; // Price source ids quoted for every pair (raydium, orca, phoenix, meteora, jupiter)
+  routeSplitting?: {
+    // Quote Jupiter once per slippage and price every venue its route steps through
+    slippagesBps: number[];
+  };
+  stream?: {
+    // Detect on pool account updates instead of polling
+    pools: StreamPool[];
+    maxQuoteAgeMs: number; // Older pool prices are not compared
+    minLiquidity: number; // Updates from thinner pools are ignored
+  };
+  detection: {
+    enabled: boolean;
+    minSpreadPercent: number;
+    estimateGas: boolean; // Net profits of fees priced from recent priority fees
+    sizeTrades: boolean; // Size pool-to-pool trades against both curves; unprofitable ones are dropped
+    tradeSize: { min: number; max: number }; // Range sized, in base token units
+  };
+  rateLimit: {
+    minRequestIntervalMs: number; // Between quote requests
+    pairDelayMs: number; // After each pair, or batch of pairs
+    concurrency: number; // Pairs quoted at once
+    backoffMs: number; // Pause after an HTTP 429
+  };
+  schedule: {
+    scanIntervalMs: number; // Between scans
+    maxScans: number | null;
+    targetRecords: number | null; // Stop once this many records are written
+  };
+  alerting: {
+    enabled: boolean; // Send opportunities to the sinks configured by the ALERT_* variables
+    minSpreadPercent: number;
+    minNetProfit: number | null; // Quote token, after gas; null alerts without a net profit
+  };
+  output: {
+    scanner: string; // Record scanner name, which also picks the file name prefix
+    format?: RecordFormat; // Defaults to RECORD_FORMAT, then csv
+    logLevel: LogLevel;
+  };
+}
+
+const pair = (from: string, to: string, amount: number): TokenPair => ({ from, to, amount: new Decimal(amount) });
+
+const ROUTE_SPLITTING_WARNINGS = [
+  'Venues are read from the steps of Jupiter routes, which are aggregated rather than independent prices.',
+  'Spreads between route steps are not executable arbitrage; use the legitimate profile for that.'
+];
+
+const DEFAULT_DETECTION: ScanProfile['detection'] = {
+  enabled: true,
+  minSpreadPercent: 0.01,
+  estimateGas: false,
+  sizeTrades: false,
+  tradeSize: { min: 0.01, max: 1000 }
+};
+
+const NO_ALERTS: ScanProfile['alerting'] = {
+  enabled: false,
+  minSpreadPercent: 0,
+  minNetProfit: null
+};
+
+const DEFAULT_RATE_LIMIT: ScanProfile['rateLimit'] = {
+  minRequestIntervalMs: 0,
+  pairDelayMs: 0,
+  concurrency: 1,
+  backoffMs: 120000
+};
+
+const HIGH_LIQUIDITY_PAIRS: TokenPair[] = [
+  pair('SOL', 'USDC', 1),
+  pair('SOL', 'USDT', 1),
+  pair('RAY', 'SOL', 100),
+  pair('ORCA', 'SOL', 100),
+  pair('JUP', 'SOL', 100),
+  pair('BONK', 'SOL', 1000000),
+  pair('WIF', 'SOL', 100),
+  pair('SAMO', 'SOL', 1000),
+  pair('RAY', 'USDC', 100),
+  pair('ORCA', 'USDC', 100),
+  pair('JUP', 'USDC', 100),
+  pair('BONK', 'USDC', 1000000),
+  pair('WIF', 'USDC', 100),
+  pair('RAY', 'ORCA', 100),
+  pair('RAY', 'JUP', 100),
+  pair('ORCA', 'JUP', 100),
+  pair('BONK', 'WIF', 1000000),
+  pair('WIF', 'SAMO', 100)
+];
+
+const PHOENIX_PAIRS: TokenPair[] = [
+  pair('SOL', 'USDC', 1),
+  pair('SOL', 'USDT', 1),
+  pair('USDC', 'SOL', 100),
+  pair('USDT', 'SOL', 100),
+  pair('RAY', 'SOL', 100),
+  pair('SOL', 'RAY', 1),
+  pair('ORCA', 'SOL', 100),
+  pair('SOL', 'ORCA', 1),
+  pair('JUP', 'SOL', 100),
+  pair('SOL', 'JUP', 1),
+  pair('RAY', 'USDC', 100),
+  pair('ORCA', 'USDC', 100),
+  pair('JUP', 'USDC', 100),
+  pair('RAY', 'ORCA', 100),
+  pair('RAY', 'JUP', 100),
+  pair('ORCA', 'JUP', 100),
+  pair('JUP', 'RAY', 100),
+  pair('ORCA', 'RAY', 100),
+  pair('JUP', 'ORCA', 100),
+  pair('BONK', 'SOL', 1000000),
+  pair('WIF', 'SOL', 100),
+  pair('SAMO', 'SOL', 1000),
+  pair('BONK', 'USDC', 1000000),
+  pair('WIF', 'USDC', 100)
+];
+
+const REAL_TIME_POOLS: StreamPool[] = [
+  { address: '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2', dex: 'raydium', baseToken: 'SOL', quoteToken: 'USDC', priority: 10 },
+  { address: 'HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ', dex: 'orca', baseToken: 'SOL', quoteToken: 'USDC', priority: 9 },
+  { address: '5rCf1DM8LjKTw4YqhnoLcngyZYeNnQqztScTogYHAS6', dex: 'meteora', baseToken: 'SOL', quoteToken: 'USDC', priority: 8 },
+  { address: '4DoNfFBfF7UokCC2FQzriy7yHK6DY6NVdYpuekQ5pRgg', dex: 'phoenix', baseToken: 'SOL', quoteToken: 'USDC', priority: 8 },
+  { address: 'AVs9TA4nWDzfPJE9gGVNJMVhcQy3V9PGazuz33BfG2RA', dex: 'raydium', baseToken: 'RAY', quoteToken: 'SOL', priority: 7 }
+];
+
+const PROFILES: ScanProfile[] = [
+  {
+    name: 'legitimate',
+    description: 'Jupiter aggregated price against on-chain pool quotes, with gas and optional simulation',
+    warnings: [
+      'Jupiter already optimizes routes across DEXes, so real opportunities are rare.',
+      'Most spreads reflect quote timing and disappear faster than a transaction lands.'
+    ],
+    pairs: [
+      pair('SOL', 'USDC', 1),
+      pair('SOL', 'USDT', 1),
+      pair('RAY', 'SOL', 100),
+      pair('RAY', 'USDC', 100),
+      pair('ORCA', 'SOL', 100),
+      pair('JUP', 'SOL', 100)
+    ],
+    venues: ['jupiter', 'raydium', 'orca', 'meteora'],
+    detection: { ...DEFAULT_DETECTION, minSpreadPercent: 0.1, estimateGas: true },
+    rateLimit: { ...DEFAULT_RATE_LIMIT, pairDelayMs: 3000 },
+    schedule: { scanIntervalMs: 120000, maxScans: null, targetRecords: null },
+    alerting: { enabled: true, minSpreadPercent: 0.1, minNetProfit: 0 },
+    output: { scanner: 'legitimate', logLevel: 'normal' }
+  },
+  {
+    name: 'optimized',
+    description: 'Every price source in parallel for all pairs at once',
+    warnings: [],
+    pairs: [
+      pair('SOL', 'USDC', 1),
+      pair('SOL', 'USDT', 1),
+      pair('RAY', 'SOL', 100),
+      pair('RAY', 'USDC', 100),
+      pair('ORCA', 'SOL', 100),
+      pair('JUP', 'SOL', 100),
+      pair('BONK', 'SOL', 1000000),
+      pair('WIF', 'SOL', 100)
+    ],
+    venues: ['raydium', 'orca', 'phoenix', 'meteora', 'jupiter'],
+    detection: { ...DEFAULT_DETECTION, minSpreadPercent: 0.05, estimateGas: true },
+    rateLimit: { ...DEFAULT_RATE_LIMIT, concurrency: 8 },
+    schedule: { scanIntervalMs: 30000, maxScans: 50, targetRecords: null },
+    alerting: { enabled: true, minSpreadPercent: 0.05, minNetProfit: 0 },
+    output: { scanner: 'optimized', logLevel: 'normal' }
+  },
+  {
+    name: 'real-time',
+    description: 'Pool account streams, detecting on every update and sizing trades against both pools',
+    warnings: [],
+    pairs: [],
+    venues: [],
+    stream: { pools: REAL_TIME_POOLS, maxQuoteAgeMs: 30000, minLiquidity: 10000 },
+    detection: { ...DEFAULT_DETECTION, minSpreadPercent: 0.05, estimateGas: true, sizeTrades: true, tradeSize: { min: 0.1, max: 100 } },
+    rateLimit: DEFAULT_RATE_LIMIT,
+    schedule: { scanIntervalMs: 0, maxScans: null, targetRecords: null },
+    alerting: { enabled: true, minSpreadPercent: 0.05, minNetProfit: 100 },
+    output: { scanner: 'realtime', logLevel: 'normal' }
+  },
+  {
+    name: 'real-dex',
+    description: 'High-liquidity pairs at three Jupiter slippages, one request every two seconds',
+    warnings: ROUTE_SPLITTING_WARNINGS,
+    pairs: [
+      ...HIGH_LIQUIDITY_PAIRS,
+      pair('SOL', 'RAY', 1),
+      pair('USDC', 'SOL', 100),
+      pair('USDT', 'SOL', 100),
+      pair('JUP', 'RAY', 100),
+      pair('ORCA', 'RAY', 100)
+    ],
+    venues: [],
+    routeSplitting: { slippagesBps: [50, 100, 300] },
+    detection: DEFAULT_DETECTION,
+    rateLimit: { ...DEFAULT_RATE_LIMIT, minRequestIntervalMs: 2000 },
+    schedule: { scanIntervalMs: 30000, maxScans: 5, targetRecords: 200 },
+    alerting: NO_ALERTS,
+    output: { scanner: 'real-dex', logLevel: 'normal' }
+  },
+  {
+    name: 'phoenix-focused',
+    description: 'Pairs Phoenix trades, with an order-book quote wherever a Phoenix market is configured',
+    warnings: ROUTE_SPLITTING_WARNINGS,
+    pairs: PHOENIX_PAIRS,
+    venues: ['phoenix'],
+    routeSplitting: { slippagesBps: [50, 100, 300, 150] },
+    detection: DEFAULT_DETECTION,
+    rateLimit: { ...DEFAULT_RATE_LIMIT, minRequestIntervalMs: 2500 },
+    schedule: { scanIntervalMs: 30000, maxScans: 3, targetRecords: 200 },
+    alerting: NO_ALERTS,
+    output: { scanner: 'phoenix-focused', logLevel: 'normal' }
+  },
+  {
+    name: 'professional',
+    description: 'Wide pair list in parallel batches of three, with gas priced from recent priority fees',
+    warnings: ROUTE_SPLITTING_WARNINGS,
+    pairs: [
+      pair('SOL', 'USDC', 1),
+      pair('SOL', 'USDT', 1),
+      pair('RAY', 'SOL', 100),
+      pair('ORCA', 'SOL', 100),
+      pair('JUP', 'SOL', 100),
+      pair('RAY', 'USDC', 100),
+      pair('ORCA', 'USDC', 100),
+      pair('JUP', 'USDC', 100),
+      pair('RAY', 'JUP', 100),
+      pair('ORCA', 'JUP', 100),
+      pair('BONK', 'SOL', 1000000),
+      pair('WIF', 'SOL', 100),
+      pair('SAMO', 'SOL', 1000),
+      pair('BONK', 'USDC', 1000000),
+      pair('WIF', 'USDC', 100),
+      pair('WIF', 'SAMO', 100),
+      pair('SOL', 'RAY', 1),
+      pair('USDC', 'SOL', 100),
+      pair('USDT', 'SOL', 100),
+      pair('JUP', 'RAY', 100),
+      pair('BONK', 'WIF', 1000000),
+      pair('RAY', 'ORCA', 100),
+      pair('SOL', 'JUP', 1),
+      pair('USDC', 'RAY', 100),
+      pair('USDC', 'ORCA', 100)
+    ],
+    venues: [],
+    routeSplitting: { slippagesBps: [50, 100, 300, 150] },
+    detection: {
+      ...DEFAULT_DETECTION,
+      minSpreadPercent: parseFloat(process.env.MIN_PROFIT_THRESHOLD || '0.01'),
+      estimateGas: true
+    },
+    rateLimit: { ...DEFAULT_RATE_LIMIT, minRequestIntervalMs: 2000, pairDelayMs: 3000, concurrency: 3 },
+    schedule: { scanIntervalMs: 60000, maxScans: 8, targetRecords: 300 },
+    alerting: NO_ALERTS,
+    output: { scanner: 'professional', logLevel: 'normal' }
+  },
+  {
+    name: 'enhanced',
+    description: 'The widest pair list, scanned continuously',
+    warnings: ROUTE_SPLITTING_WARNINGS,
+    pairs: [
+      pair('SOL', 'USDC', 1),
+      pair('SOL', 'USDT', 1),
+      pair('RAY', 'SOL', 100),
+      pair('ORCA', 'SOL', 100),
+      pair('JUP', 'SOL', 100),
+      pair('SRM', 'SOL', 100),
+      pair('FIDA', 'SOL', 100),
+      pair('MNGO', 'SOL', 100),
+      pair('BONK', 'SOL', 1000000),
+      pair('WIF', 'SOL', 100),
+      pair('SAMO', 'SOL', 1000),
+      pair('ATLAS', 'SOL', 10000),
+      pair('POLIS', 'SOL', 1000),
+      pair('GMT', 'SOL', 100),
+      pair('STEP', 'SOL', 100),
+      pair('COPE', 'SOL', 100),
+      pair('SLND', 'SOL', 100),
+      pair('RAY', 'USDC', 100),
+      pair('ORCA', 'USDC', 100),
+      pair('JUP', 'USDC', 100),
+      pair('BONK', 'USDC', 1000000),
+      pair('WIF', 'USDC', 100),
+      pair('RAY', 'ORCA', 100),
+      pair('BONK', 'WIF', 1000000),
+      pair('ATLAS', 'POLIS', 1000),
+      pair('JUP', 'RAY', 100),
+      pair('FIDA', 'SRM', 100),
+      pair('RAY', 'USDT', 100),
+      pair('ORCA', 'USDT', 100),
+      pair('JUP', 'USDT', 100),
+      pair('WIF', 'USDT', 100),
+      pair('SAMO', 'USDC', 1000),
+      pair('GMT', 'USDC', 100),
+      pair('STEP', 'USDC', 100),
+      pair('COPE', 'USDC', 100)
+    ],
+    venues: [],
+    routeSplitting: { slippagesBps: [50, 100, 200, 150] },
+    detection: { ...DEFAULT_DETECTION, minSpreadPercent: 0 },
+    rateLimit: { ...DEFAULT_RATE_LIMIT, pairDelayMs: 1500 },
+    schedule: { scanIntervalMs: 12000, maxScans: null, targetRecords: null },
+    alerting: NO_ALERTS,
+    output: { scanner: 'enhanced', logLevel: 'normal' }
+  },
+  {
+    name: 'cross-dex',
+    description: 'Five major pairs compared across every venue Jupiter routes through',
+    warnings: ROUTE_SPLITTING_WARNINGS,
+    pairs: [
+      pair('SOL', 'USDC', 1),
+      pair('SOL', 'USDT', 1),
+      pair('RAY', 'SOL', 100),
+      pair('ORCA', 'SOL', 100),
+      pair('JUP', 'SOL', 100)
+    ],
+    venues: [],
+    routeSplitting: { slippagesBps: [50, 100, 200] },
+    detection: { ...DEFAULT_DETECTION, minSpreadPercent: 0 },
+    rateLimit: { ...DEFAULT_RATE_LIMIT, pairDelayMs: 1000 },
+    schedule: { scanIntervalMs: 8000, maxScans: null, targetRecords: null },
+    alerting: NO_ALERTS,
+    output: { scanner: 'cross-dex', logLevel: 'normal' }
+  },
+  {
+    name: 'conservative',
+    description: 'Quotes only: records every venue Jupiter routes through, without detection',
+    warnings: [
+      ...ROUTE_SPLITTING_WARNINGS,
+      'Detection is off; this profile only records route-step quotes.'
+    ],
+    pairs: HIGH_LIQUIDITY_PAIRS,
+    venues: [],
+    routeSplitting: { slippagesBps: [100] },
+    detection: { ...DEFAULT_DETECTION, enabled: false },
+    rateLimit: { ...DEFAULT_RATE_LIMIT, minRequestIntervalMs: 1200 },
+    schedule: { scanIntervalMs: 30000, maxScans: null, targetRecords: 500 },
+    alerting: NO_ALERTS,
+    output: { scanner: 'conservative', logLevel: 'normal' }
+  },
+  {
+    name: 'quick',
+    description: 'One pass over five pairs to check the record output',
+    warnings: ROUTE_SPLITTING_WARNINGS,
+    pairs: [
+      pair('SOL', 'USDT', 1),
+      pair('ORCA', 'SOL', 100),
+      pair('JUP', 'SOL', 100),
+      pair('BONK', 'SOL', 1000000),
+      pair('WIF', 'SOL', 100)
+    ],
+    venues: [],
+    routeSplitting: { slippagesBps: [50, 100, 200] },
+    detection: { ...DEFAULT_DETECTION, minSpreadPercent: 0 },
+    rateLimit: { ...DEFAULT_RATE_LIMIT, minRequestIntervalMs: 800, pairDelayMs: 2000 },
+    schedule: { scanIntervalMs: 0, maxScans: 1, targetRecords: null },
+    alerting: NO_ALERTS,
+    output: { scanner: 'quick-csv-test', logLevel: 'normal' }
+  }
+];
+
+export const SCAN_PROFILE_NAMES: string[] = PROFILES.map(profile => profile.name);
+
+/**
+ * A built-in profile by name; the returned copy may be changed freely
+ */
+export function getScanProfile(name: string): ScanProfile {
+  const profile = PROFILES.find(candidate => candidate.name === name.trim().toLowerCase());
+  if (!profile) {
+    throw new Error(`Unknown scan profile "${name}"; expected one of ${SCAN_PROFILE_NAMES.join(', ')}`);
+  }
+  return cloneProfile(profile);
+}
+
+function cloneProfile(profile: ScanProfile): ScanProfile {
+  return {
+    ...profile,
+    warnings: [...profile.warnings],
+    pairs: profile.pairs.map(tokenPair => ({ ...tokenPair })),
+    venues: [...profile.venues],
+    routeSplitting: profile.routeSplitting && { slippagesBps: [...profile.routeSplitting.slippagesBps] },
+    stream: profile.stream && { ...profile.stream, pools: profile.stream.pools.map(pool => ({ ...pool })) },
+    detection: { ...profile.detection, tradeSize: { ...profile.detection.tradeSize } },
+    rateLimit: { ...profile.rateLimit },
+    schedule: { ...profile.schedule },
+    alerting: { ...profile.alerting },
+    output: { ...profile.output }
+  };
+}
@@ -0,0 +1,161 @@
+import { PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { findPool, toPoolDex } from '../config/pools';
+import { SourceHealthRow } from '../storage/opportunityStore';
+import { priceMapRows, sourceCheck } from '../storage/scanRecorder';
+import { JupiterRoute } from '../types';
+import { OptimizedPriceCollector, TokenPair } from '../utils/optimizedPriceCollector';
+import { fromRawAmount, getTokenBySymbol } from '../utils/tokenUtils';
+import { EngineQuote } from './detection';
+import { ScanProfile } from './profiles';
+import { venueName } from './venueNames';
+
+/**
+ * The part of JupiterClient route splitting needs
+ */
+export interface RouteQuoteClient {
+  getQuote(inputMint: string, outputMint: string, amount: Decimal, inputDecimals: number, slippageBps?: number): Promise<JupiterRoute | null>;
+}
+
+export interface PairQuotes {
+  quotes: EngineQuote[];
+  sourceHealth: SourceHealthRow[];
+  rateLimited: boolean; // Some request was answered with HTTP 429
+}
+
+/**
+ * Spaces requests at least `minIntervalMs` apart, also across pairs quoted concurrently
+ */
+export class RequestLimiter {
+  private nextSlot = 0;
+  private requestCount = 0;
+
+  constructor(private minIntervalMs: number, private sleep: (ms: number) => Promise<void>) {}
+
+  async wait(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.minIntervalMs;
+    this.requestCount++;
+    if (slot > now) await this.sleep(slot - now);
+  }
+
+  get requests(): number {
+    return this.requestCount;
+  }
+}
+
+/**
+ * Quotes one pair the way a profile asks for: its price sources in parallel, then Jupiter
+ * once per route-splitting slippage. A venue quoted directly is not repeated from a route.
+ */
+export class PairQuoter {
+  constructor(
+    private profile: ScanProfile,
+    private collector: OptimizedPriceCollector | null,
+    private jupiterClient: RouteQuoteClient,
+    private limiter: RequestLimiter
+  ) {}
+
+  async quote(tokenPair: TokenPair): Promise<PairQuotes> {
+    const result: PairQuotes = { quotes: [], sourceHealth: [], rateLimited: false };
+
+    if (this.profile.venues.length > 0 && this.collector) {
+      await this.limiter.wait();
+      await this.quoteSources(tokenPair, result);
+    }
+    for (const slippageBps of this.profile.routeSplitting?.slippagesBps ?? []) {
+      await this.limiter.wait();
+      await this.quoteRouteSteps(tokenPair, slippageBps, result);
+    }
+
+    return result;
+  }
+
+  private async quoteSources(tokenPair: TokenPair, result: PairQuotes): Promise<void> {
+    const pair = `${tokenPair.from}/${tokenPair.to}`;
+    const priceMap = await this.collector!.collectRealPrices(tokenPair, { timeout: 5000, includeJupiterAggregated: true });
+    result.sourceHealth.push(...priceMapRows(pair, priceMap).sourceHealth);
+
+    for (const [sourceId, price] of priceMap.prices) {
+      if (price.error) {
+        result.rateLimited ||= price.error.includes('429');
+        continue;
+      }
+
+      const poolDex = price.source === 'direct' ? toPoolDex(sourceId) : null;
+      result.quotes.push({
+        dex: price.dex,
+        price: price.price,
+        inputAmount: price.inputAmount,
+        outputAmount: price.price.mul(price.inputAmount),
+        priceImpact: price.priceImpact,
+        source: price.source,
+        liquidityAvailable: price.liquidityAvailable,
+        responseTimeMs: price.responseTime,
+        timestamp: price.timestamp,
+        poolAddress: poolDex ? findPool(poolDex, tokenPair.from, tokenPair.to)?.address : undefined
+      });
+    }
+  }
+
+  private async quoteRouteSteps(tokenPair: TokenPair, slippageBps: number, result: PairQuotes): Promise<void> {
+    const pair = `${tokenPair.from}/${tokenPair.to}`;
+    const fromToken = getTokenBySymbol(tokenPair.from);
+    const toToken = getTokenBySymbol(tokenPair.to);
+    if (!fromToken || !toToken) {
+      throw new Error(`Unknown token: ${tokenPair.from} or ${tokenPair.to}`);
+    }
+
+    const requestedAt = Date.now();
+    let route: JupiterRoute | null;
+    try {
+      route = await this.jupiterClient.getQuote(
+        fromToken.mint.toString(),
+        toToken.mint.toString(),
+        tokenPair.amount,
+        fromToken.decimals,
+        slippageBps
+      );
+    } catch (error) {
+      result.sourceHealth.push(sourceCheck('Jupiter', pair, requestedAt, error));
+      result.rateLimited ||= error instanceof Error && error.message.includes('429');
+      return;
+    }
+
+    if (!route || !route.routePlan || route.routePlan.length === 0) {
+      result.sourceHealth.push(sourceCheck('Jupiter', pair, requestedAt, new Error(`No route at ${slippageBps} bps`)));
+      return;
+    }
+    result.sourceHealth.push(sourceCheck('Jupiter', pair, requestedAt));
+
+    // Every step is priced at the whole route's rate
+    const outputAmount = fromRawAmount(route.outAmount, toToken.decimals);
+    const responseTimeMs = Date.now() - requestedAt;
+    for (const step of route.routePlan) {
+      const dex = venueName(step.swapInfo.label);
+      if (!dex || result.quotes.some(quote => quote.dex === dex)) continue;
+
+      result.quotes.push({
+        dex,
+        price: outputAmount.div(tokenPair.amount),
+        inputAmount: tokenPair.amount,
+        outputAmount,
+        priceImpact: new Decimal(route.priceImpactPct || 0),
+        source: 'route',
+        responseTimeMs,
+        timestamp: Date.now(),
+        poolAddress: toPublicKey(step.swapInfo.ammKey)
+      });
+    }
+  }
+}
+
+function toPublicKey(address: string | undefined): PublicKey | undefined {
+  if (!address) return undefined;
+  try {
+    return new PublicKey(address);
+  } catch (error) {
+    return undefined;
+  }
+}
@@ -0,0 +1,798 @@
+import * as path from 'path';
+import { Connection, PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { alertFromOpportunity } from '../alerts/alert';
+import { AlertManager } from '../alerts/alertManager';
+import { defaultConfig } from '../config/config';
+import { PoolInfo, findPoolByAddress } from '../config/pools';
+import { AccountFetcher } from '../dex/accounts';
+import { loadSwapSimulator, toQuoteFunction } from '../dex/simulators';
+import { FeeEstimator, solPriceInQuote } from '../execution/feeEstimator';
+import { PaperTrader, createPoolLegQuoter, orderFromPairOpportunity } from '../execution/paperTrader';
+import { SimulationGate, simulatedProfit } from '../execution/simulationGate';
+import { AtomicArbitrageBuilder } from '../execution/transactionBuilder';
+import { LogFields, Logger, rootLogger, severityFor, withLogContext } from '../logging/logger';
+import { ArbMetrics, defaultArbMetrics } from '../metrics/arbMetrics';
+import { PoolUpdate } from '../monitoring/poolMonitor';
+import { PoolMonitor } from '../monitoring/poolMonitor';
+import { RecordWriter, createRecordWriter } from '../records/recordWriter';
+import { ArbitrageRecord } from '../records/schema';
+import { ScanContext, markBestOfScan, opportunityRecords, venueQuoteRecords } from '../records/scannerRecords';
+import { createPriceSourceRegistry } from '../sources/defaultSources';
+import { SourceHealthRow } from '../storage/opportunityStore';
+import { ScanRecorder, opportunityRows, quoteRows } from '../storage/scanRecorder';
+import { JupiterClient } from '../utils/jupiterClient';
+import { OptimizedPriceCollector, TokenPair } from '../utils/optimizedPriceCollector';
+import { getTokenBySymbol } from '../utils/tokenUtils';
+import { solveOptimalTradeSize } from '../utils/tradeSizeSolver';
+import { EngineOpportunity, EngineQuote, findOpportunities } from './detection';
+import { ScanProfile, StreamPool } from './profiles';
+import { PairQuoter, PairQuotes, RequestLimiter, RouteQuoteClient } from './quoting';
+import { venueName } from './venueNames';
+
+/**
+ * Pool update source for streaming profiles; PoolMonitor in production
+ */
+export interface PoolUpdateStream {
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  subscribeToMultiplePools(pools: Array<{ address: string; dex: string; baseToken: string; quoteToken: string }>): Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+/**
+ * Collaborators the engine creates for itself unless given; tests pass offline ones
+ */
+export interface ScanEngineDependencies {
+  fetcher: AccountFetcher;
+  jupiterClient: RouteQuoteClient;
+  collector: OptimizedPriceCollector;
+  feeEstimator: FeeEstimator;
+  recorder: ScanRecorder;
+  recordWriter: RecordWriter;
+  simulation: { gate: SimulationGate; payer: PublicKey } | null; // Dry-runs pool-to-pool round trips
+  paperTrader: PaperTrader | null;
+  alerts: AlertManager | null;
+  metrics: ArbMetrics; // Defaults to the process-wide metrics the /metrics endpoint serves
+  logger: Logger; // Parent of the engine's component loggers; defaults to the root logger
+  poolStream: PoolUpdateStream;
+  sleep: (ms: number) => Promise<void>;
+}
+
+export interface ScanSummary {
+  scanNumber: number;
+  startedAt: number;
+  durationMs: number;
+  pairsScanned: number;
+  pairsFailed: number;
+  quotes: number;
+  opportunities: EngineOpportunity[]; // Best first
+  records: number;
+}
+
+export interface ScanEngineStats {
+  scans: number;
+  records: number;
+  opportunities: number;
+  requests: number;
+  poolUpdates: number;
+}
+
+/**
+ * Runs any scan profile: quotes its pairs, detects opportunities with the shared detector,
+ * optionally prices, sizes, simulates and paper-trades them, and writes records and store rows.
+ * Polling profiles scan on an interval; streaming profiles detect on every pool update.
+ */
+export class ScanEngine {
+  readonly profile: ScanProfile;
+  readonly metrics: ArbMetrics;
+  private dependencies: Partial<ScanEngineDependencies>;
+  private fetcher: AccountFetcher;
+  private feeEstimator: FeeEstimator;
+  private recorder: ScanRecorder;
+  private recordWriter: RecordWriter;
+  private simulation: ScanEngineDependencies['simulation'];
+  private paperTrader: PaperTrader | null;
+  private alerts: AlertManager | null;
+  private limiter: RequestLimiter;
+  private quoter: PairQuoter | null = null;
+  private poolStream: PoolUpdateStream | null = null;
+  private latestPoolQuotes: Map<string, Map<string, EngineQuote>> = new Map(); // Pair -> pool address -> quote
+  private unpricedGasPairs: Set<string> = new Set(); // Pairs warned about having no SOL price for gas
+  private logger: Logger; // Progress at the profile's log level
+  private summaryLogger: Logger; // The final summary, which quiet profiles print too
+  private running = false;
+  private run: Promise<void> | null = null;
+  private closed = false;
+  private sleepers: Set<() => void> = new Set();
+  private stats: ScanEngineStats = { scans: 0, records: 0, opportunities: 0, requests: 0, poolUpdates: 0 };
+
+  constructor(profile: ScanProfile, dependencies: Partial<ScanEngineDependencies> = {}) {
+    this.profile = profile;
+    this.dependencies = dependencies;
+    this.metrics = dependencies.metrics ?? defaultArbMetrics();
+    this.summaryLogger = (dependencies.logger ?? rootLogger()).child({ component: 'engine', scanner: profile.output.scanner });
+    this.logger = this.summaryLogger.child({}, severityFor(profile.output.logLevel));
+
+    const connection = dependencies.fetcher ? null : new Connection(defaultConfig.rpcEndpoint, 'confirmed');
+    this.fetcher = dependencies.fetcher ?? connection!;
+    this.feeEstimator = dependencies.feeEstimator ?? new FeeEstimator(connection);
+    this.recorder = dependencies.recorder ?? ScanRecorder.open(profile.output.scanner);
+    this.recordWriter = dependencies.recordWriter ?? createRecordWriter({ scanner: profile.output.scanner, format: profile.output.format });
+    this.simulation = dependencies.simulation !== undefined ? dependencies.simulation : simulationFromEnv();
+    this.paperTrader = dependencies.paperTrader !== undefined ? dependencies.paperTrader : this.paperTraderFromEnv();
+    this.alerts = dependencies.alerts !== undefined ? dependencies.alerts : AlertManager.fromEnv();
+    this.limiter = new RequestLimiter(profile.rateLimit.minRequestIntervalMs, ms => this.wait(ms));
+  }
+
+  get recordPath(): string {
+    return this.recordWriter.path;
+  }
+
+  getStats(): ScanEngineStats {
+    return { ...this.stats, requests: this.limiter.requests };
+  }
+
+  /**
+   * Run until a stop condition of the profile is met or stop() is called, then close the outputs
+   */
+  start(): Promise<void> {
+    if (this.run) return this.run;
+    this.running = true;
+    this.printBanner();
+
+    this.run = (this.profile.stream ? this.streamPoolUpdates() : this.pollScans()).finally(async () => {
+      this.running = false;
+      await this.close();
+      this.printFinalSummary();
+    });
+    return this.run;
+  }
+
+  /**
+   * Stop after the pairs in flight and close the outputs; a Parquet file is unreadable until this has run
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.sleepers.forEach(wake => wake());
+    await (this.run ?? this.close());
+  }
+
+  /**
+   * One pass over every pair of the profile
+   */
+  async scanOnce(): Promise<ScanSummary> {
+    const startedAt = Date.now();
+    const scanNumber = ++this.stats.scans;
+    return withLogContext({ scanId: `scan_${scanNumber}_${startedAt}` }, () => this.scan(scanNumber, startedAt));
+  }
+
+  private async scan(scanNumber: number, startedAt: number): Promise<ScanSummary> {
+    const { pairs, rateLimit } = this.profile;
+    const timestamp = new Date(startedAt).toISOString();
+    const records: ArbitrageRecord[] = [];
+    const opportunities: EngineOpportunity[] = [];
+    let pairsScanned = 0;
+    let pairsFailed = 0;
+    let quotes = 0;
+
+    this.log(`\n🔄 ${this.profile.name.toUpperCase()} SCAN #${scanNumber} (${pairs.length} pairs)`);
+    this.recorder.begin(startedAt);
+
+    const batchSize = Math.max(1, rateLimit.concurrency);
+    for (let start = 0; start < pairs.length && (this.running || !this.run); start += batchSize) {
+      const batch = pairs.slice(start, start + batchSize);
+      const results = await Promise.all(batch.map(tokenPair => this.scanPair(tokenPair, {
+        scanner: this.profile.output.scanner,
+        timestamp,
+        scanNumber,
+        pair: `${tokenPair.from}/${tokenPair.to}`
+      }, startedAt)));
+
+      for (const result of results) {
+        if (!result) {
+          pairsFailed++;
+          continue;
+        }
+        pairsScanned++;
+        quotes += result.quotes;
+        records.push(...result.records);
+        opportunities.push(...result.opportunities);
+      }
+
+      if (results.some(result => result?.rateLimited)) {
+        this.log(`⏸️  Rate limited - waiting ${Math.round(rateLimit.backoffMs / 1000)}s...`);
+        await this.wait(rateLimit.backoffMs);
+      } else if (rateLimit.pairDelayMs > 0 && start + batchSize < pairs.length) {
+        await this.wait(rateLimit.pairDelayMs);
+      }
+    }
+
+    markBestOfScan(records);
+    await this.writeRecords(records);
+    this.recorder.finish();
+
+    opportunities.sort((a, b) => b.profitPercentage.cmp(a.profitPercentage));
+    this.stats.opportunities += opportunities.length;
+    this.metrics.scans.inc(this.scannerLabels());
+    this.metrics.scanDuration.observe(this.scannerLabels(), (Date.now() - startedAt) / 1000);
+
+    const summary: ScanSummary = {
+      scanNumber,
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      pairsScanned,
+      pairsFailed,
+      quotes,
+      opportunities,
+      records: records.length
+    };
+    this.printScanSummary(summary);
+    return summary;
+  }
+
+  /**
+   * Quote and evaluate one pair the way a scan would, without recording anything
+   */
+  async quotePair(tokenPair: TokenPair): Promise<PairQuotes & { opportunities: EngineOpportunity[] }> {
+    const quotes = await this.pairQuoter().quote(tokenPair);
+    const opportunities = await this.evaluate(`${tokenPair.from}/${tokenPair.to}`, quotes.quotes);
+    return { ...quotes, opportunities };
+  }
+
+  private async pollScans(): Promise<void> {
+    const { maxScans, targetRecords, scanIntervalMs } = this.profile.schedule;
+
+    while (this.running) {
+      await this.scanOnce();
+
+      if (maxScans !== null && this.stats.scans >= maxScans) {
+        this.log(`\n🎉 Completed ${this.stats.scans} scans`);
+        break;
+      }
+      if (targetRecords !== null && this.stats.records >= targetRecords) {
+        this.log(`\n🎉 TARGET REACHED! ${this.stats.records} records`);
+        break;
+      }
+      if (!this.running) break;
+
+      this.log(`⏳ Waiting ${Math.round(scanIntervalMs / 1000)}s before the next scan...`);
+      await this.wait(scanIntervalMs);
+    }
+  }
+
+  private async scanPair(
+    tokenPair: TokenPair,
+    context: ScanContext,
+    scanStartedAt: number
+  ): Promise<{ quotes: number; records: ArbitrageRecord[]; opportunities: EngineOpportunity[]; rateLimited: boolean } | null> {
+    return withLogContext({ pair: context.pair }, () => this.quoteAndEvaluate(tokenPair, context, scanStartedAt));
+  }
+
+  private async quoteAndEvaluate(
+    tokenPair: TokenPair,
+    context: ScanContext,
+    scanStartedAt: number
+  ): Promise<{ quotes: number; records: ArbitrageRecord[]; opportunities: EngineOpportunity[]; rateLimited: boolean } | null> {
+    const requestedAt = Date.now();
+    this.log(`🔍 ${context.pair}`, true);
+
+    try {
+      const { quotes, sourceHealth, rateLimited } = await this.pairQuoter().quote(tokenPair);
+      this.recorder.addSourceHealth(sourceHealth);
+      this.recorder.addQuotes(quoteRows(context.pair, quotes, requestedAt));
+      this.countRequests(sourceHealth);
+
+      const opportunities = await this.evaluate(context.pair, quotes);
+      this.recorder.addOpportunities(opportunityRows('cross_dex', opportunities, requestedAt));
+      this.countOpportunities(opportunities);
+      this.metrics.pairScans.inc({ ...this.scannerLabels(), pair: context.pair, outcome: 'ok' });
+      await this.alert(opportunities, requestedAt);
+
+      if (quotes.length < 2) {
+        this.log(`   ❌ ${quotes.length} venue(s) quoted - nothing to compare`, true);
+      } else if (opportunities.length > 0) {
+        const best = opportunities[0];
+        this.log(`   💰 ${best.profitPercentage.toFixed(4)}% ${best.buyDex} → ${best.sellDex} (${best.strategy})`, true);
+      } else {
+        this.log(`   ⚪ No arbitrage between ${quotes.length} venues`, true);
+      }
+
+      const pairContext = { ...context, scanDurationMs: Date.now() - scanStartedAt };
+      return {
+        quotes: quotes.length,
+        records: this.pairRecords(pairContext, quotes, opportunities),
+        opportunities,
+        rateLimited
+      };
+    } catch (error) {
+      this.logger.warn(`   ❌ ${context.pair}: ${(error as Error).message}`);
+      this.metrics.pairScans.inc({ ...this.scannerLabels(), pair: context.pair, outcome: 'failed' });
+      return null;
+    }
+  }
+
+  /**
+   * Detect, then price, size, simulate and paper-trade as the profile and environment ask
+   */
+  private async evaluate(pair: string, quotes: EngineQuote[], detectedAt: number = Date.now()): Promise<EngineOpportunity[]> {
+    const { detection } = this.profile;
+    if (!detection.enabled || quotes.length < 2) return [];
+
+    const [baseToken, quoteToken] = pair.split('/');
+    const gas = detection.estimateGas
+      ? {
+          estimator: this.feeEstimator,
+          sample: await this.feeEstimator.samplePriorityFee(
+            quotes.filter(quote => quote.poolAddress).map(quote => quote.poolAddress!)
+          ),
+          quotePerSol: this.latestSolPrice(quoteToken)
+        }
+      : undefined;
+    if (gas && !gas.quotePerSol && baseToken !== 'SOL' && quoteToken !== 'SOL' && !this.unpricedGasPairs.has(pair)) {
+      this.unpricedGasPairs.add(pair);
+      this.logger.warn(`   ⚠️  No SOL price in ${quoteToken}; ${pair} profits are not netted of gas`);
+    }
+
+    let opportunities = findOpportunities(pair, quotes, { minSpreadPercent: detection.minSpreadPercent, gas });
+    if (detection.sizeTrades) {
+      opportunities = await this.sizeTrades(opportunities);
+    }
+
+    await this.simulate(opportunities);
+    await this.paperTrade(opportunities, detectedAt);
+    return opportunities;
+  }
+
+  /**
+   * Size pool-to-pool trades against both curves, dropping those no size makes profitable.
+   * Only legs quoted directly on a pool are sized; route and aggregator legs pass unsized.
+   */
+  private async sizeTrades(opportunities: EngineOpportunity[]): Promise<EngineOpportunity[]> {
+    const sized: EngineOpportunity[] = [];
+
+    for (const opportunity of opportunities) {
+      const [baseToken, quoteToken] = opportunity.pair.split('/');
+      const buyPool = this.quotedPool(opportunity.buyQuote, baseToken, quoteToken);
+      const sellPool = this.quotedPool(opportunity.sellQuote, baseToken, quoteToken);
+      if (!buyPool || !sellPool) {
+        sized.push(opportunity);
+        continue;
+      }
+
+      try {
+        const [buySimulator, sellSimulator, fees] = await Promise.all([
+          loadSwapSimulator(this.fetcher, buyPool),
+          loadSwapSimulator(this.fetcher, sellPool),
+          this.feeEstimator.estimate({
+            dexes: [buyPool.dex, sellPool.dex],
+            writableAccounts: [buyPool.address, sellPool.address],
+            quotePerSol: this.solPriceIn(baseToken, quoteToken, opportunity.buyPrice)
+          })
+        ]);
+        if (!fees.costQuote) {
+          throw new Error(`No SOL price in ${quoteToken} to charge gas with`);
+        }
+
+        // The profile sizes in base token units; the buy leg spends quote tokens
+        const { tradeSize } = this.profile.detection;
+        const minAmount = opportunity.buyPrice.mul(tradeSize.min);
+        const maxAmount = Decimal.min(
+          opportunity.buyQuote.quoteLiquidity ?? Infinity,
+          opportunity.sellQuote.quoteLiquidity ?? Infinity,
+          opportunity.buyPrice.mul(tradeSize.max)
+        );
+        const solution = await solveOptimalTradeSize(
+          toQuoteFunction(buySimulator, quoteToken, baseToken),
+          toQuoteFunction(sellSimulator, baseToken, quoteToken),
+          { minAmount, maxAmount: Decimal.max(maxAmount, minAmount), gasCost: fees.costQuote }
+        );
+        if (!solution || solution.netProfit.lte(0)) continue;
+
+        sized.push({
+          ...opportunity,
+          tradeSize: solution.amountIn,
+          profit: solution.grossProfit,
+          estimatedGasCost: fees.costSol,
+          netProfitAfterGas: solution.netProfit,
+          feeEstimate: fees
+        });
+      } catch (error) {
+        this.logger.warn(`   ⚠️  Trade sizing failed for ${opportunity.pair}: ${(error as Error).message}`);
+      }
+    }
+
+    return sized;
+  }
+
+  /**
+   * The pool a direct quote was computed from: a configured pool or one of the profile's
+   * streamed pools. Route and aggregator quotes name venues, not pools the trade would use.
+   */
+  private quotedPool(quote: EngineQuote, baseToken: string, quoteToken: string): PoolInfo | undefined {
+    if (quote.source !== 'direct' || !quote.poolAddress) return undefined;
+    const known = findPoolByAddress(quote.poolAddress);
+    if (known) return known;
+
+    const address = quote.poolAddress.toBase58();
+    const streamed = this.profile.stream?.pools.find(pool => pool.address === address);
+    return streamed && { dex: streamed.dex, address: quote.poolAddress, tokenA: baseToken, tokenB: quoteToken };
+  }
+
+  /**
+   * SOL price in the quote token: from the pair itself, else from the latest SOL pool price
+   */
+  private solPriceIn(baseToken: string, quoteToken: string, price: Decimal): Decimal | null {
+    return solPriceInQuote(baseToken, quoteToken, price) ?? this.latestSolPrice(quoteToken);
+  }
+
+  /**
+   * Latest streamed SOL/quoteToken pool price, if any pool of that pair has reported
+   */
+  private latestSolPrice(quoteToken: string): Decimal | null {
+    const solQuotes = this.latestPoolQuotes.get(`SOL/${quoteToken}`);
+    const latest = solQuotes && Array.from(solQuotes.values()).sort((a, b) => b.timestamp - a.timestamp)[0];
+    return latest ? latest.price : null;
+  }
+
+  /**
+   * Dry-run every buildable round trip. The measured fee replaces the gas estimate, and a
+   * failed or loss-making simulation marks the opportunity as not viable.
+   */
+  private async simulate(opportunities: EngineOpportunity[]): Promise<void> {
+    if (!this.simulation) return;
+    const { gate, payer } = this.simulation;
+    const builder = new AtomicArbitrageBuilder(this.fetcher);
+
+    for (const opportunity of opportunities) {
+      if (!opportunity.route) continue;
+      const [fromSymbol, toSymbol] = opportunity.pair.split('/');
+      const fromToken = getTokenBySymbol(fromSymbol)!;
+      const toToken = getTokenBySymbol(toSymbol)!;
+
+      try {
+        const built = await builder.build(opportunity.route, {
+          payer,
+          recentBlockhash: PublicKey.default.toBase58(), // Replaced by the node when simulating
+          ...(opportunity.feeEstimate ? {
+            computeUnitLimit: opportunity.feeEstimate.computeUnits,
+            computeUnitPriceMicroLamports: opportunity.feeEstimate.microLamportsPerUnit
+          } : {})
+        });
+        const simulation = await gate.simulate(built.transaction, payer, [fromToken.mint, toToken.mint]);
+        const quotePerSol = this.solPriceIn(fromSymbol, toSymbol, opportunity.buyPrice);
+
+        opportunity.simulation = simulation;
+        opportunity.viable = simulation.success && simulatedProfit(simulation, fromToken.mint).gt(0);
+        opportunity.estimatedGasCost = simulation.costSol;
+        if (quotePerSol) {
+          opportunity.netProfitAfterGas = opportunity.profit.sub(simulation.costSol.mul(quotePerSol));
+        } else {
+          delete opportunity.netProfitAfterGas;
+          this.logger.warn(`   ⚠️  No SOL price in ${toSymbol}; simulated gas not netted from ${opportunity.pair}`);
+        }
+      } catch (error) {
+        opportunity.viable = false;
+        this.logger.warn(`   ⚠️  Simulation skipped for ${opportunity.buyDex} → ${opportunity.sellDex}: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Paper-trade round trips quoted directly on two pools, the only ones the executor can re-quote
+   */
+  private async paperTrade(opportunities: EngineOpportunity[], detectedAt: number): Promise<void> {
+    if (!this.paperTrader) return;
+
+    for (const opportunity of opportunities) {
+      const [baseToken, quoteToken] = opportunity.pair.split('/');
+      const buyPool = this.quotedPool(opportunity.buyQuote, baseToken, quoteToken);
+      const sellPool = this.quotedPool(opportunity.sellQuote, baseToken, quoteToken);
+      if (!buyPool || !sellPool) continue;
+
+      const tradeSize = opportunity.tradeSize ?? opportunity.buyPrice.mul(opportunity.buyQuote.inputAmount);
+      const order = orderFromPairOpportunity(
+        opportunity,
+        tradeSize,
+        `${this.profile.output.scanner}_${detectedAt}_${opportunity.buyDex}_${opportunity.sellDex}`,
+        detectedAt
+      );
+      const trade = await this.paperTrader.execute({ ...order, buyPool, sellPool });
+      opportunity.viable = trade.status === 'filled' && trade.pnl.gt(0);
+      this.log(`📝 Paper trade ${trade.status}: ${trade.pnl.toFixed(6)} ${trade.startToken}${trade.reason ? ` (${trade.reason})` : ''}`);
+    }
+  }
+
+  private async streamPoolUpdates(): Promise<void> {
+    const stream = this.dependencies.poolStream ?? new PoolMonitor({
+      metrics: this.metrics,
+      logger: this.logger.child({ component: 'monitor' })
+    });
+    const pools = [...this.profile.stream!.pools].sort((a, b) => b.priority - a.priority);
+    this.poolStream = stream;
+
+    stream.on('priceUpdate', (update: PoolUpdate) => {
+      this.handlePoolUpdate(update).catch(error => this.logger.error('❌ Error processing pool update:', { pool: update.pool, err: error }));
+    });
+    stream.on('connected', event => this.log(`✅ Connected to ${event.dex} pool ${event.pool}`, true, { dex: event.dex, pool: event.pool }));
+    stream.on('disconnected', event => this.log(`🔌 Disconnected from ${event.dex} pool ${event.pool}`, false, { dex: event.dex, pool: event.pool }));
+    stream.on('error', event => this.logger.error(`❌ Pool stream error for ${event.dex}:`, { dex: event.dex, pool: event.pool, err: event.error }));
+
+    this.log(`📡 Subscribing to ${pools.length} pool streams...`);
+    await stream.subscribeToMultiplePools(pools.map(pool => ({
+      address: pool.address,
+      dex: pool.dex,
+      baseToken: pool.baseToken,
+      quoteToken: pool.quoteToken
+    })));
+    this.log('🎯 Waiting for arbitrage opportunities...\n');
+
+    while (this.running) {
+      await this.wait(60000);
+      if (this.running) this.log(`📊 ${this.stats.poolUpdates} pool updates, ${this.stats.opportunities} opportunities, ${this.stats.records} records`);
+    }
+  }
+
+  /**
+   * Compare the updated pool against the latest price of every other pool of its pair
+   */
+  async handlePoolUpdate(update: PoolUpdate): Promise<EngineOpportunity[]> {
+    const receivedAt = Date.now();
+    const stream = this.profile.stream;
+    const pool = stream?.pools.find(candidate => candidate.address === update.pool);
+    if (!stream || !pool) return [];
+
+    this.stats.poolUpdates++;
+    if (update.price.lte(0) || update.liquidity.lt(stream.minLiquidity)) return [];
+
+    const pair = `${pool.baseToken}/${pool.quoteToken}`;
+    return withLogContext({ pair, pool: update.pool }, () => this.evaluatePoolUpdate(update, stream, pool, pair, receivedAt));
+  }
+
+  private async evaluatePoolUpdate(
+    update: PoolUpdate,
+    stream: NonNullable<ScanProfile['stream']>,
+    pool: StreamPool,
+    pair: string,
+    receivedAt: number
+  ): Promise<EngineOpportunity[]> {
+    const pairQuotes = this.latestPoolQuotes.get(pair) ?? new Map<string, EngineQuote>();
+    this.latestPoolQuotes.set(pair, pairQuotes);
+
+    const updated = streamQuote(pool, update);
+    pairQuotes.set(pool.address, updated);
+
+    const quotes = Array.from(pairQuotes.values()).filter(quote => receivedAt - quote.timestamp <= stream.maxQuoteAgeMs);
+    const opportunities = (await this.evaluate(pair, quotes, update.timestamp))
+      .filter(opportunity => opportunity.buyQuote === updated || opportunity.sellQuote === updated);
+    if (opportunities.length === 0) return opportunities;
+
+    this.stats.opportunities += opportunities.length;
+    this.countOpportunities(opportunities);
+    this.recorder.begin(update.timestamp);
+    this.recorder.addQuotes(quoteRows(pair, quotes, update.timestamp));
+    this.recorder.addOpportunities(opportunityRows('cross_dex', opportunities, update.timestamp));
+    this.recorder.finish();
+
+    const context: ScanContext = {
+      scanner: this.profile.output.scanner,
+      timestamp: new Date(update.timestamp).toISOString(),
+      scanNumber: null,
+      pair
+    };
+    const detectionLatencyMs = Date.now() - receivedAt;
+    this.metrics.detectionLatency.observe({ ...this.scannerLabels(), pair }, detectionLatencyMs / 1000);
+    const records = this.pairRecords(context, quotes, opportunities);
+    records.filter(record => record.kind === 'opportunity').forEach(record => {
+      record.detectionLatencyMs = detectionLatencyMs;
+    });
+    markBestOfScan(records);
+    await this.writeRecords(records);
+    await this.alert(opportunities, update.timestamp);
+
+    const best = opportunities[0];
+    this.log(`🎯 ${pair}: ${best.profitPercentage.toFixed(3)}% ${best.buyDex} → ${best.sellDex}` +
+      (best.netProfitAfterGas ? `, net ${best.netProfitAfterGas.toFixed(4)} ${pool.quoteToken}` : '') +
+      ` (detected in ${detectionLatencyMs}ms)`, false, { detectionLatencyMs });
+    return opportunities;
+  }
+
+  /**
+   * Send the opportunities the profile's alert thresholds let through; not-viable ones never are
+   */
+  private async alert(opportunities: EngineOpportunity[], detectedAt: number): Promise<void> {
+    const { alerting } = this.profile;
+    if (!this.alerts || !alerting.enabled) return;
+
+    for (const opportunity of opportunities) {
+      if (opportunity.viable === false || opportunity.profitPercentage.lt(alerting.minSpreadPercent)) continue;
+      if (alerting.minNetProfit !== null &&
+        (!opportunity.netProfitAfterGas || opportunity.netProfitAfterGas.lt(alerting.minNetProfit))) continue;
+
+      const outcomes = await this.alerts.notify(alertFromOpportunity(opportunity, this.profile.output.scanner, detectedAt));
+      Object.entries(outcomes).forEach(([sink, outcome]) => this.metrics.alerts.inc({ ...this.scannerLabels(), sink, outcome }));
+      const sent = Object.keys(outcomes).filter(sink => outcomes[sink] === 'sent');
+      if (sent.length > 0) this.log(`   🔔 Alerted ${sent.join(', ')}`, true);
+    }
+  }
+
+  private pairRecords(context: ScanContext, quotes: EngineQuote[], opportunities: EngineOpportunity[]): ArbitrageRecord[] {
+    const records = [
+      ...venueQuoteRecords(context, quotes, opportunities),
+      ...opportunityRecords(context, opportunities)
+    ];
+
+    // Opportunity records follow the quotes in the same order as `opportunities`
+    const offset = quotes.length;
+    opportunities.forEach((opportunity, index) => {
+      if (opportunity.simulation) {
+        records[offset + index].simulation =
+          `${opportunity.viable ? 'viable' : 'not viable'} (${opportunity.simulation.unitsConsumed} CU)`;
+      }
+    });
+    return records;
+  }
+
+  private async writeRecords(records: ArbitrageRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    try {
+      await this.recordWriter.write(records);
+      this.stats.records += records.length;
+      this.metrics.records.inc(this.scannerLabels(), records.length);
+    } catch (error) {
+      this.logger.child({ component: 'writer' }).error(`❌ Error writing records: ${(error as Error).message}`, { records: records.length });
+    }
+  }
+
+  private countRequests(sourceHealth: SourceHealthRow[]): void {
+    for (const check of sourceHealth) {
+      const labels = { ...this.scannerLabels(), venue: check.venue, pair: check.pair };
+      this.metrics.venueRequests.inc({ ...labels, outcome: check.success ? 'success' : 'error' });
+      if (check.latencyMs !== null) this.metrics.venueLatency.observe(labels, check.latencyMs / 1000);
+    }
+  }
+
+  private countOpportunities(opportunities: EngineOpportunity[]): void {
+    opportunities.forEach(opportunity => this.metrics.opportunities.inc({
+      ...this.scannerLabels(),
+      pair: opportunity.pair,
+      strategy: opportunity.strategy
+    }));
+  }
+
+  private scannerLabels(): { scanner: string } {
+    return { scanner: this.profile.output.scanner };
+  }
+
+  private pairQuoter(): PairQuoter {
+    if (!this.quoter) {
+      const jupiterClient = this.dependencies.jupiterClient ?? new JupiterClient();
+      const collector = this.profile.venues.length === 0
+        ? null
+        : this.dependencies.collector ?? new OptimizedPriceCollector(
+          this.fetcher,
+          createPriceSourceRegistry(this.fetcher, jupiterClient instanceof JupiterClient ? jupiterClient : new JupiterClient()),
+          this.logger.child({ component: 'collector' })
+        );
+
+      if (collector) {
+        const registry = collector.getSourceRegistry();
+        registry.getAll().forEach(source => registry.setEnabled(source.id, false));
+        this.profile.venues.forEach(venue => registry.setEnabled(venue, true));
+      }
+      this.quoter = new PairQuoter(this.profile, collector, jupiterClient, this.limiter);
+    }
+    return this.quoter;
+  }
+
+  private paperTraderFromEnv(): PaperTrader | null {
+    if (process.env.PAPER_TRADING !== 'true') return null;
+    return new PaperTrader({
+      quoteLeg: createPoolLegQuoter(this.fetcher),
+      ledgerPath: path.join(process.cwd(), 'data', 'paper_ledger.json')
+    });
+  }
+
+  /**
+   * Sleep that stop() cuts short
+   */
+  private wait(ms: number): Promise<void> {
+    if (ms <= 0 || (this.run && !this.running)) return Promise.resolve();
+    if (this.dependencies.sleep) return this.dependencies.sleep(ms);
+
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        this.sleepers.delete(done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      this.sleepers.add(done);
+    });
+  }
+
+  private async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    await this.poolStream?.shutdown();
+    await this.recordWriter.close();
+    this.recorder.close();
+  }
+
+  private log(message: string, detail: boolean = false, fields?: LogFields): void {
+    if (detail) this.logger.debug(message, fields);
+    else this.logger.info(message, fields);
+  }
+
+  private printBanner(): void {
+    const { profile } = this;
+    this.log(`\n🚀 SCAN PROFILE: ${profile.name}`);
+    this.log(`   ${profile.description}`);
+    profile.warnings.forEach(warning => this.log(`⚠️  ${warning}`));
+    this.log(`📁 Records: ${this.recordWriter.path}`);
+    if (this.simulation) {
+      this.log(`🧪 Simulation: pool-to-pool round trips are dry-run for ${this.simulation.payer.toBase58()}`);
+    }
+    if (this.paperTrader) {
+      this.log('📝 Paper trading: on');
+    }
+    if (this.alerts && profile.alerting.enabled) {
+      this.log(`🔔 Alerts: ${this.alerts.sinkNames.join(', ')}`);
+    }
+    this.log('═'.repeat(80));
+  }
+
+  private printScanSummary(summary: ScanSummary): void {
+    const best = summary.opportunities[0];
+    this.log(`✅ Scan #${summary.scanNumber}: ${summary.pairsScanned}/${summary.pairsScanned + summary.pairsFailed} pairs, ` +
+      `${summary.quotes} quotes, ${summary.opportunities.length} opportunities, ${summary.records} records ` +
+      `in ${Math.round(summary.durationMs / 1000)}s`, false, {
+      pairsScanned: summary.pairsScanned,
+      pairsFailed: summary.pairsFailed,
+      quotes: summary.quotes,
+      opportunities: summary.opportunities.length,
+      records: summary.records,
+      durationMs: summary.durationMs
+    });
+    if (best) {
+      this.log(`🏆 Best: ${best.pair} ${best.profitPercentage.toFixed(4)}% ` +
+        `(${best.buyDex} @ ${best.buyPrice.toFixed(8)} → ${best.sellDex} @ ${best.sellPrice.toFixed(8)})`);
+    }
+  }
+
+  private printFinalSummary(): void {
+    const stats = this.getStats();
+    this.summaryLogger.info(`\n📊 ${this.profile.name}: ${stats.scans} scans, ${stats.opportunities} opportunities, ` +
+      `${stats.records} records, ${stats.requests} requests`, { ...stats });
+    this.summaryLogger.info(`📁 Records saved to: ${this.recordWriter.path}`, { path: this.recordWriter.path });
+  }
+}
+
+/**
+ * A pool update as a one-unit quote of the base token, priced in the quote token
+ */
+function streamQuote(pool: StreamPool, update: PoolUpdate): EngineQuote {
+  return {
+    dex: venueName(pool.dex) ?? pool.dex,
+    price: update.price,
+    inputAmount: new Decimal(1),
+    outputAmount: update.price,
+    priceImpact: new Decimal(0),
+    source: 'direct',
+    liquidityAvailable: update.liquidity.gt(0),
+    timestamp: update.timestamp,
+    poolAddress: new PublicKey(pool.address),
+    quoteLiquidity: update.quoteTokenAmount
+  };
+}
+
+/**
+ * Simulation gate for SIMULATION_PAYER, when set
+ */
+function simulationFromEnv(): ScanEngineDependencies['simulation'] {
+  if (!process.env.SIMULATION_PAYER) return null;
+  return {
+    payer: new PublicKey(process.env.SIMULATION_PAYER),
+    gate: new SimulationGate(new Connection(process.env.SIMULATION_RPC_URL || defaultConfig.rpcEndpoint, 'processed'))
+  };
+}
@@ -0,0 +1,51 @@
+// Label fragments and the venue they name, most specific first so "Phoenix CLMM" is not read as "Phoenix"
+const VENUE_LABELS: Array<[string[], string]> = [
+  [['phoenix clmm', 'phoenix-clmm', 'phoenixclmm', 'phoenix v2', 'phoenix-v2'], 'Phoenix CLMM'],
+  [['phoenix amm', 'phoenix-amm', 'phoenixamm', 'phoenix v1', 'phoenix-v1'], 'Phoenix AMM'],
+  [['phoenix'], 'Phoenix'],
+  [['raydium clmm', 'raydium-clmm'], 'Raydium CLMM'],
+  [['raydium'], 'Raydium'],
+  [['whirlpool'], 'Orca Whirlpool'],
+  [['orca'], 'Orca'],
+  [['meteora dlmm', 'meteora-dlmm'], 'Meteora DLMM'],
+  [['meteora'], 'Meteora'],
+  [['openbook v2', 'openbookv2'], 'OpenBook V2'],
+  [['openbook'], 'OpenBook'],
+  [['lifinity'], 'Lifinity'],
+  [['solfi'], 'SolFi'],
+  [['zerofi'], 'ZeroFi'],
+  [['obric'], 'Obric V2'],
+  [['stabble'], 'Stabble'],
+  [['saros'], 'Saros'],
+  [['aldrin'], 'Aldrin'],
+  [['step finance'], 'Step Finance'],
+  [['saber'], 'Saber'],
+  [['mercurial'], 'Mercurial'],
+  [['serum'], 'Serum'],
+  [['balansol'], 'Balansol'],
+  [['crema'], 'Crema'],
+  [['cropper'], 'Cropper'],
+  [['dradex'], 'Dradex'],
+  [['fluxbeam'], 'FluxBeam'],
+  [['helium'], 'Helium'],
+  [['invariant'], 'Invariant'],
+  [['sanctum'], 'Sanctum'],
+  [['bonkswap'], 'Bonkswap']
+];
+
+/**
+ * Canonical venue name for a Jupiter AMM label or venue string.
+ * Unrecognized labels are kept as given; null when the label names no venue.
+ */
+export function venueName(label: string | null | undefined): string | null {
+  const trimmed = label?.trim() ?? '';
+  const lower = trimmed.toLowerCase();
+  if (lower.length <= 2 || lower.includes('unknown')) return null;
+
+  const match = VENUE_LABELS.find(([fragments]) => fragments.some(fragment => lower.includes(fragment)));
+  return match ? match[1] : trimmed;
+}
+
+export function isPhoenixVenue(name: string): boolean {
+  return name.toLowerCase().includes('phoenix');
+}
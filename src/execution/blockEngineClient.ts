@@ -0,0 +1,82 @@
+import axios from 'axios';
+
+export type InflightBundleState = 'Invalid' | 'Pending' | 'Failed' | 'Landed';
+
+export interface InflightBundleStatus {
+  bundleId: string;
+  status: InflightBundleState;
+  landedSlot: number | null;
+}
+
+/**
+ * The block-engine calls the bundler relies on. `HttpBlockEngineClient` talks to a
+ * Jito-compatible endpoint; tests substitute a stub.
+ */
+export interface BlockEngineClient {
+  sendBundle(transactions: string[]): Promise<string>; // Base64 wire transactions, returns the bundle id
+  getInflightBundleStatuses(bundleIds: string[]): Promise<InflightBundleStatus[]>;
+  getTipAccounts(): Promise<string[]>;
+}
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+/**
+ * JSON-RPC client for a Jito block engine's bundle API
+ */
+export class HttpBlockEngineClient implements BlockEngineClient {
+  private endpoint: string;
+  private timeoutMs: number;
+  private requestId = 0;
+
+  constructor(
+    baseUrl: string = 'https://mainnet.block-engine.jito.wtf',
+    timeoutMs: number = 5000
+  ) {
+    this.endpoint = `${baseUrl.replace(/\/$/, '')}/api/v1/bundles`;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async sendBundle(transactions: string[]): Promise<string> {
+    return this.call<string>('sendBundle', [transactions, { encoding: 'base64' }]);
+  }
+
+  async getInflightBundleStatuses(bundleIds: string[]): Promise<InflightBundleStatus[]> {
+    const result = await this.call<{ value: Array<{ bundle_id: string; status: InflightBundleState; landed_slot: number | null }> }>(
+      'getInflightBundleStatuses',
+      [bundleIds]
+    );
+
+    return result.value.map(entry => ({
+      bundleId: entry.bundle_id,
+      status: entry.status,
+      landedSlot: entry.landed_slot
+    }));
+  }
+
+  async getTipAccounts(): Promise<string[]> {
+    return this.call<string[]>('getTipAccounts', []);
+  }
+
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    const response = await axios.post<JsonRpcResponse<T>>(
+      this.endpoint,
+      { jsonrpc: '2.0', id: ++this.requestId, method, params },
+      // Rejected bundles come back as 4xx with a JSON-RPC error body
+      { timeout: this.timeoutMs, validateStatus: () => true }
+    );
+
+    if (response.data?.error) {
+      throw new Error(`Block engine ${method} failed: ${response.data.error.message}`);
+    }
+    if (response.status >= 400) {
+      throw new Error(`Block engine ${method} failed: HTTP ${response.status}`);
+    }
+    if (response.data.result === undefined) {
+      throw new Error(`Block engine ${method} returned no result`);
+    }
+    return response.data.result;
+  }
+}
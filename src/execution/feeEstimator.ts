@@ -0,0 +1,239 @@
+import {
+  GetRecentPrioritizationFeesConfig,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  RecentPrioritizationFees
+} from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { PoolDex, toPoolDex } from '../config/pools';
+
+/**
+ * RPC surface the estimator needs; `Connection` satisfies it
+ */
+export interface PrioritizationFeeRpc {
+  getRecentPrioritizationFees(config?: GetRecentPrioritizationFeesConfig): Promise<RecentPrioritizationFees[]>;
+}
+
+// Compute units one swap consumes on each venue, with headroom for crossing several ticks or bins
+export const COMPUTE_UNIT_PROFILES: Record<PoolDex, number> = {
+  raydium: 45000,
+  orca: 110000,
+  phoenix: 70000,
+  meteora: 120000
+};
+
+// Aggregator routes and venues without a profile may hop through several pools
+export const UNPROFILED_SWAP_COMPUTE_UNITS = 200000;
+
+// Compute budget instructions plus the idempotent token account creation
+export const TRANSACTION_OVERHEAD_COMPUTE_UNITS = 25000;
+
+export const MAX_COMPUTE_UNITS = 1400000;
+
+// The RPC only accepts this many accounts per getRecentPrioritizationFees call
+const MAX_LOCKED_ACCOUNTS = 128;
+
+export interface PriorityFeePercentiles {
+  p25: number; // Micro-lamports per compute unit
+  p50: number;
+  p75: number;
+  p90: number;
+  max: number;
+}
+
+export interface PriorityFeeSample {
+  microLamportsPerUnit: number; // The configured percentile, or the fallback price
+  percentiles: PriorityFeePercentiles | null; // Null when no recent fees could be read
+  slots: number; // Recent slots the percentiles were taken over
+  source: 'recent' | 'fallback';
+}
+
+export interface FeeEstimate {
+  computeUnits: number; // Limit to request: the route's swap profiles plus transaction overhead
+  microLamportsPerUnit: number;
+  baseFeeLamports: number;
+  priorityFeeLamports: number;
+  totalLamports: number;
+  costSol: Decimal;
+  costQuote: Decimal | null; // Null when no SOL price in the quote token was given
+  priorityFees: PriorityFeeSample;
+}
+
+export interface FeeEstimateRequest {
+  dexes: string[]; // One venue label per swap leg
+  writableAccounts: PublicKey[]; // Pools the transaction write-locks; their fee markets set the price
+  quotePerSol: Decimal | null; // Quote tokens per SOL, to express the cost in the quote currency
+}
+
+export interface FeeEstimatorOptions {
+  percentile: number; // Of recent per-slot fees to bid
+  fallbackMicroLamports: number; // Bid when no recent fees are available
+  maxMicroLamports: number; // Cap so a single spike does not price every route out
+  lamportsPerSignature: number;
+  signatures: number;
+  cacheTtlMs: number; // Reuse a sample for the same accounts for this long
+  timeoutMs: number; // Give up on the RPC and use the fallback after this
+}
+
+const DEFAULT_OPTIONS: FeeEstimatorOptions = {
+  percentile: 75,
+  fallbackMicroLamports: 10000,
+  maxMicroLamports: 1000000,
+  lamportsPerSignature: 5000,
+  signatures: 1,
+  cacheTtlMs: 2000,
+  timeoutMs: 1500
+};
+
+/**
+ * Nearest-rank percentile of a list of values; zero for an empty list
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Summarize recent per-slot prioritization fees
+ */
+export function priorityFeePercentiles(fees: RecentPrioritizationFees[]): PriorityFeePercentiles {
+  const values = fees.map(fee => fee.prioritizationFee);
+  return {
+    p25: percentile(values, 25),
+    p50: percentile(values, 50),
+    p75: percentile(values, 75),
+    p90: percentile(values, 90),
+    max: percentile(values, 100)
+  };
+}
+
+/**
+ * Compute-unit limit for a transaction swapping through the given venues
+ */
+export function estimateComputeUnits(dexes: string[]): number {
+  const swaps = dexes.reduce((total, dex) => {
+    const poolDex = toPoolDex(dex);
+    return total + (poolDex ? COMPUTE_UNIT_PROFILES[poolDex] : UNPROFILED_SWAP_COMPUTE_UNITS);
+  }, 0);
+  return Math.min(MAX_COMPUTE_UNITS, TRANSACTION_OVERHEAD_COMPUTE_UNITS + swaps);
+}
+
+/**
+ * Price of one SOL in a pair's quote token, taken from the pair's own rate.
+ * Null when neither side of the pair is SOL.
+ */
+export function solPriceInQuote(baseSymbol: string, quoteSymbol: string, price: Decimal): Decimal | null {
+  if (quoteSymbol.toUpperCase() === 'SOL') return new Decimal(1);
+  if (baseSymbol.toUpperCase() === 'SOL') return price;
+  return null;
+}
+
+/**
+ * Estimates what an arbitrage transaction costs to land: signature fees plus a priority fee
+ * bid from recent fees on the pools it write-locks, over the compute its swaps need.
+ */
+export class FeeEstimator {
+  private rpc: PrioritizationFeeRpc | null;
+  private options: FeeEstimatorOptions;
+  private cache = new Map<string, { sample: PriorityFeeSample; fetchedAt: number }>();
+
+  /**
+   * Without an RPC every estimate uses the fallback priority fee
+   */
+  constructor(rpc: PrioritizationFeeRpc | null = null, options: Partial<FeeEstimatorOptions> = {}) {
+    this.rpc = rpc;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    if (this.options.percentile <= 0 || this.options.percentile > 100) {
+      throw new Error(`Priority fee percentile must be between 0 and 100, got ${this.options.percentile}`);
+    }
+  }
+
+  /**
+   * Recent priority fees for transactions locking these accounts. RPC failures and empty
+   * histories fall back to the configured price rather than failing the scan.
+   */
+  async samplePriorityFee(writableAccounts: PublicKey[]): Promise<PriorityFeeSample> {
+    const accounts = Array.from(new Set(writableAccounts.map(account => account.toBase58())))
+      .sort()
+      .slice(0, MAX_LOCKED_ACCOUNTS);
+    const key = accounts.join(',');
+
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < this.options.cacheTtlMs) {
+      return cached.sample;
+    }
+
+    const sample = await this.fetchSample(accounts);
+    this.cache.set(key, { sample, fetchedAt: Date.now() });
+    return sample;
+  }
+
+  /**
+   * Cost of a route priced with an already taken sample
+   */
+  estimateWith(sample: PriorityFeeSample, dexes: string[], quotePerSol: Decimal | null): FeeEstimate {
+    const computeUnits = estimateComputeUnits(dexes);
+    const baseFeeLamports = this.options.lamportsPerSignature * this.options.signatures;
+    // Priority fees are charged on the requested limit, rounded up to whole lamports
+    const priorityFeeLamports = Math.ceil((sample.microLamportsPerUnit * computeUnits) / 1e6);
+    const totalLamports = baseFeeLamports + priorityFeeLamports;
+    const costSol = new Decimal(totalLamports).div(LAMPORTS_PER_SOL);
+
+    return {
+      computeUnits,
+      microLamportsPerUnit: sample.microLamportsPerUnit,
+      baseFeeLamports,
+      priorityFeeLamports,
+      totalLamports,
+      costSol,
+      costQuote: quotePerSol ? costSol.mul(quotePerSol) : null,
+      priorityFees: sample
+    };
+  }
+
+  async estimate(request: FeeEstimateRequest): Promise<FeeEstimate> {
+    const sample = await this.samplePriorityFee(request.writableAccounts);
+    return this.estimateWith(sample, request.dexes, request.quotePerSol);
+  }
+
+  private async fetchSample(accounts: string[]): Promise<PriorityFeeSample> {
+    const fallback: PriorityFeeSample = {
+      microLamportsPerUnit: this.options.fallbackMicroLamports,
+      percentiles: null,
+      slots: 0,
+      source: 'fallback'
+    };
+    if (!this.rpc) return fallback;
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const fees = await Promise.race([
+        this.rpc.getRecentPrioritizationFees({
+          lockedWritableAccounts: accounts.map(account => new PublicKey(account))
+        }),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error('Timed out')), this.options.timeoutMs);
+        })
+      ]);
+      if (fees.length === 0) return fallback;
+
+      const percentiles = priorityFeePercentiles(fees);
+      return {
+        microLamportsPerUnit: Math.min(
+          this.options.maxMicroLamports,
+          percentile(fees.map(fee => fee.prioritizationFee), this.options.percentile)
+        ),
+        percentiles,
+        slots: fees.length,
+        source: 'recent'
+      };
+    } catch (error) {
+      return fallback;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
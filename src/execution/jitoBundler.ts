@@ -0,0 +1,184 @@
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { BlockEngineClient, InflightBundleState } from './blockEngineClient';
+
+// Mainnet tip payment accounts; any one of them credits the tip to the leader
+export const JITO_TIP_ACCOUNTS = [
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwUdt2dZrBGT5',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT'
+].map(address => new PublicKey(address));
+
+// Block engines drop bundles tipping less than this
+export const MIN_JITO_TIP_LAMPORTS = 1000;
+
+export interface TipStrategy {
+  profitShare: number; // Fraction of the expected net profit offered to the leader
+  minTipLamports: number;
+  maxTipLamports: number;
+}
+
+export interface JitoBundlerOptions {
+  tipStrategy: TipStrategy;
+  tipAccounts: PublicKey[];
+  pollIntervalMs: number;
+  timeoutMs: number; // Give up polling after this; the blockhash has usually expired by then
+  random: () => number;
+}
+
+export interface ArbitrageBundle {
+  transactions: VersionedTransaction[]; // Signed; the tip transfer is last so it only pays if the swap lands
+  tipLamports: number;
+  tipAccount: PublicKey;
+  expectedNetProfitSol: Decimal;
+}
+
+export type BundleOutcome = 'landed' | 'failed' | 'invalid' | 'timeout';
+
+export interface BundleResult {
+  bundleId: string;
+  outcome: BundleOutcome;
+  landedSlot: number | null;
+  polls: number;
+  statuses: InflightBundleState[]; // Every status seen, in polling order
+}
+
+const DEFAULT_OPTIONS: JitoBundlerOptions = {
+  tipStrategy: {
+    profitShare: 0.5,
+    minTipLamports: MIN_JITO_TIP_LAMPORTS,
+    maxTipLamports: 0.01 * LAMPORTS_PER_SOL
+  },
+  tipAccounts: JITO_TIP_ACCOUNTS,
+  pollIntervalMs: 1000,
+  timeoutMs: 30000,
+  random: Math.random
+};
+
+/**
+ * Tip for an expected net profit, clamped to the strategy's bounds.
+ * Throws when the profit cannot cover the minimum tip, since such a bundle can only lose.
+ */
+export function computeTipLamports(expectedNetProfitSol: Decimal, strategy: TipStrategy): number {
+  const profitLamports = expectedNetProfitSol.mul(LAMPORTS_PER_SOL).floor();
+  if (profitLamports.lte(strategy.minTipLamports)) {
+    throw new Error(
+      `Expected net profit of ${profitLamports} lamports does not cover the ${strategy.minTipLamports} lamport minimum tip`
+    );
+  }
+
+  const tip = profitLamports.mul(strategy.profitShare).floor().toNumber();
+  return Math.min(strategy.maxTipLamports, Math.max(strategy.minTipLamports, tip));
+}
+
+/**
+ * Packages arbitrage transactions into tipped Jito bundles and follows them until they land
+ */
+export class JitoBundler {
+  private client: BlockEngineClient;
+  private options: JitoBundlerOptions;
+
+  constructor(client: BlockEngineClient, options: Partial<JitoBundlerOptions> = {}) {
+    this.client = client;
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      ...options,
+      tipStrategy: { ...DEFAULT_OPTIONS.tipStrategy, ...options.tipStrategy }
+    };
+
+    if (this.options.tipStrategy.minTipLamports < MIN_JITO_TIP_LAMPORTS) {
+      throw new Error(`Minimum tip must be at least ${MIN_JITO_TIP_LAMPORTS} lamports`);
+    }
+    if (this.options.tipStrategy.profitShare <= 0 || this.options.tipStrategy.profitShare >= 1) {
+      throw new Error(`Tip profit share must be between 0 and 1, got ${this.options.tipStrategy.profitShare}`);
+    }
+  }
+
+  /**
+   * Sign the arbitrage transaction and append a tip transfer on the same blockhash
+   */
+  createBundle(transaction: VersionedTransaction, payer: Keypair, expectedNetProfitSol: Decimal): ArbitrageBundle {
+    const tipLamports = computeTipLamports(expectedNetProfitSol, this.options.tipStrategy);
+    const { tipAccounts, random } = this.options;
+    const tipAccount = tipAccounts[Math.floor(random() * tipAccounts.length) % tipAccounts.length];
+
+    const tipTransaction = new VersionedTransaction(new TransactionMessage({
+      payerKey: payer.publicKey,
+      recentBlockhash: transaction.message.recentBlockhash,
+      instructions: [SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: tipAccount, lamports: tipLamports })]
+    }).compileToV0Message());
+
+    transaction.sign([payer]);
+    tipTransaction.sign([payer]);
+
+    return {
+      transactions: [transaction, tipTransaction],
+      tipLamports,
+      tipAccount,
+      expectedNetProfitSol
+    };
+  }
+
+  async submit(bundle: ArbitrageBundle): Promise<string> {
+    const encoded = bundle.transactions.map(transaction => Buffer.from(transaction.serialize()).toString('base64'));
+    return this.client.sendBundle(encoded);
+  }
+
+  /**
+   * Poll the block engine until the bundle lands, fails or the timeout passes.
+   * 'Invalid' only means the engine has not seen the bundle yet, so polling continues.
+   */
+  async waitForBundle(bundleId: string): Promise<BundleResult> {
+    const deadline = Date.now() + this.options.timeoutMs;
+    const statuses: InflightBundleState[] = [];
+
+    while (true) {
+      const [status] = await this.client.getInflightBundleStatuses([bundleId]);
+      const state = status?.status || 'Invalid';
+      statuses.push(state);
+
+      if (state === 'Landed' || state === 'Failed') {
+        return {
+          bundleId,
+          outcome: state === 'Landed' ? 'landed' : 'failed',
+          landedSlot: status.landedSlot,
+          polls: statuses.length,
+          statuses
+        };
+      }
+
+      if (Date.now() + this.options.pollIntervalMs > deadline) {
+        return {
+          bundleId,
+          outcome: statuses.includes('Pending') ? 'timeout' : 'invalid',
+          landedSlot: null,
+          polls: statuses.length,
+          statuses
+        };
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.options.pollIntervalMs));
+    }
+  }
+
+  /**
+   * Package, submit and follow one arbitrage transaction
+   */
+  async send(transaction: VersionedTransaction, payer: Keypair, expectedNetProfitSol: Decimal): Promise<BundleResult> {
+    const bundle = this.createBundle(transaction, payer, expectedNetProfitSol);
+    const bundleId = await this.submit(bundle);
+    return this.waitForBundle(bundleId);
+  }
+}
@@ -0,0 +1,414 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import Decimal from 'decimal.js';
+import { PoolInfo, findPool, toPoolDex } from '../config/pools';
+import { AccountFetcher } from '../dex/accounts';
+import { loadSwapSimulator, toQuoteFunction } from '../dex/simulators';
+import { rootLogger } from '../logging/logger';
+import { ArbitrageOpportunity, ScannerEventData } from '../types';
+import type { ArbitrageOpportunity as AnalyzedOpportunity } from '../utils/arbitrageAnalyzer';
+import type { PairOpportunity } from '../storage/scanRecorder';
+
+/**
+ * Exact-input quote for one leg on a named venue, in UI units, through `pool` when the
+ * order names it. Null when the venue has no local model; the fill then uses the detected price.
+ */
+export type LegQuoter = (dex: string, from: string, to: string, amountIn: Decimal, pool?: PoolInfo) => Promise<Decimal | null>;
+
+export interface PaperTradingOptions {
+  initialBalances: Record<string, Decimal | number>;
+  latencyMs: number; // Detection to fill, on top of the time already spent
+  edgeDecayPerSecond: number; // Share of the remaining edge competitors take each second
+  legFailureRate: number; // Chance that each leg's transaction fails
+  gasCostPerLegSol: Decimal;
+  ledgerPath?: string; // JSON ledger; kept in memory only when unset
+  quoteLeg?: LegQuoter;
+  random?: () => number;
+  now?: () => number;
+}
+
+/**
+ * A detected round trip reduced to what the executor needs: start token -> intermediate -> start token
+ */
+export interface PaperOrder {
+  opportunityId: string;
+  pair: string;
+  startToken: string;
+  intermediateToken: string;
+  buyDex: string; // First leg: start -> intermediate
+  sellDex: string; // Second leg: intermediate -> start
+  buyPool?: PoolInfo; // The pools the opportunity was quoted on, when known
+  sellPool?: PoolInfo;
+  amountIn: Decimal;
+  buyRate: Decimal; // Intermediate per start token, as detected
+  sellRate: Decimal; // Start per intermediate token, as detected
+  detectedAt: number;
+}
+
+export type PaperTradeStatus = 'filled' | 'unwound' | 'failed' | 'rejected';
+
+export interface PaperTrade {
+  id: string;
+  opportunityId: string;
+  timestamp: number;
+  pair: string;
+  startToken: string;
+  intermediateToken: string;
+  buyDex: string;
+  sellDex: string;
+  status: PaperTradeStatus;
+  reason?: string;
+  amountIn: Decimal;
+  expectedOut: Decimal; // At the detected prices
+  intermediateAmount: Decimal;
+  amountOut: Decimal;
+  slippage: Decimal; // Detected minus quoted output, before decay
+  decayLoss: Decimal; // Edge lost to latency
+  gasCostSol: Decimal;
+  pnl: Decimal; // amountOut - amountIn, in the start token; gas is booked separately in SOL
+}
+
+export interface PaperTradingSummary {
+  trades: number;
+  filled: number;
+  unwound: number;
+  failed: number;
+  rejected: number;
+  winRate: number; // Among trades that reached the second leg
+  pnlByToken: Record<string, Decimal>;
+  gasCostSol: Decimal;
+  balances: Record<string, Decimal>;
+}
+
+// On-disk form: decimals are stored as strings
+interface LedgerFile {
+  version: 1;
+  updatedAt: number;
+  balances: Record<string, string>;
+  trades: Array<Record<string, string | number | undefined>>;
+}
+
+const DECIMAL_TRADE_FIELDS = [
+  'amountIn', 'expectedOut', 'intermediateAmount', 'amountOut',
+  'slippage', 'decayLoss', 'gasCostSol', 'pnl'
+] as const;
+
+const DEFAULT_OPTIONS: PaperTradingOptions = {
+  initialBalances: { SOL: 10, USDC: 2000 },
+  latencyMs: 400,
+  edgeDecayPerSecond: 0.5,
+  legFailureRate: 0.02,
+  gasCostPerLegSol: new Decimal(0.0025) // Two legs match ArbitrageAnalyzer's 0.005 SOL estimate
+};
+
+/**
+ * Leg quoter backed by the on-chain pool simulators, re-reading pool state on every call
+ */
+export function createPoolLegQuoter(fetcher: AccountFetcher): LegQuoter {
+  return async (dex, from, to, amountIn, quotedPool) => {
+    const poolDex = toPoolDex(dex);
+    const pool = quotedPool ?? (poolDex && findPool(poolDex, from, to));
+    if (!pool) return null;
+
+    const simulate = await loadSwapSimulator(fetcher, pool);
+    return toQuoteFunction(simulate, from, to)(amountIn);
+  };
+}
+
+/**
+ * Round trip for an ArbitrageScanner opportunity: tokenA -> tokenB on buyDex, back on sellDex
+ */
+export function orderFromScannerOpportunity(opportunity: ArbitrageOpportunity): PaperOrder {
+  const amountIn = opportunity.tradeSize || opportunity.route[0]?.amountIn;
+  if (!amountIn) {
+    throw new Error(`Opportunity ${opportunity.id} has no trade size`);
+  }
+
+  return {
+    opportunityId: opportunity.id,
+    pair: `${opportunity.tokenA.symbol}/${opportunity.tokenB.symbol}`,
+    startToken: opportunity.tokenA.symbol,
+    intermediateToken: opportunity.tokenB.symbol,
+    buyDex: opportunity.buyDex,
+    sellDex: opportunity.sellDex,
+    amountIn,
+    buyRate: opportunity.buyPrice, // B per A
+    sellRate: new Decimal(1).div(opportunity.sellPrice),
+    detectedAt: opportunity.timestamp
+  };
+}
+
+/**
+ * Round trip for a direct BASE/QUOTE opportunity: buy base with quote, sell it back
+ */
+export function orderFromDirectOpportunity(opportunity: AnalyzedOpportunity, tradeSize: Decimal): PaperOrder {
+  const [baseToken, quoteToken] = opportunity.pair.split('/');
+  if (!baseToken || !quoteToken || opportunity.strategy !== 'direct_arbitrage') {
+    throw new Error(`Paper trading supports direct BASE/QUOTE opportunities only, got ${opportunity.pair}`);
+  }
+
+  return orderFromPairOpportunity(opportunity, tradeSize, opportunity.requestId, opportunity.timestamp);
+}
+
+/**
+ * Round trip for a BASE/QUOTE pair opportunity priced in quote per base: buy base with quote, sell it back
+ */
+export function orderFromPairOpportunity(
+  opportunity: Pick<PairOpportunity, 'pair' | 'buyDex' | 'sellDex' | 'buyPrice' | 'sellPrice'>,
+  tradeSize: Decimal,
+  opportunityId: string,
+  detectedAt: number
+): PaperOrder {
+  const [baseToken, quoteToken] = opportunity.pair.split('/');
+  if (!baseToken || !quoteToken) {
+    throw new Error(`Paper trading needs a BASE/QUOTE pair, got ${opportunity.pair}`);
+  }
+
+  return {
+    opportunityId,
+    pair: opportunity.pair,
+    startToken: quoteToken,
+    intermediateToken: baseToken,
+    buyDex: opportunity.buyDex,
+    sellDex: opportunity.sellDex,
+    amountIn: tradeSize,
+    buyRate: new Decimal(1).div(opportunity.buyPrice),
+    sellRate: opportunity.sellPrice,
+    detectedAt
+  };
+}
+
+/**
+ * Paper-trading executor: fills detected opportunities against a simulated
+ * portfolio with venue slippage, latency decay and failed-leg risk, and keeps
+ * a ledger of balances and per-trade PnL
+ */
+export class PaperTrader extends EventEmitter {
+  private options: PaperTradingOptions;
+  private balances: Map<string, Decimal> = new Map();
+  private trades: PaperTrade[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+  private random: () => number;
+  private now: () => number;
+
+  constructor(options: Partial<PaperTradingOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.random = this.options.random || Math.random;
+    this.now = this.options.now || Date.now;
+
+    if (!this.loadLedger()) {
+      Object.entries(this.options.initialBalances).forEach(([token, amount]) =>
+        this.balances.set(token, new Decimal(amount))
+      );
+    }
+  }
+
+  /**
+   * Paper-trade every opportunity_found event of a scanner; returns a detach function
+   */
+  attach(scanner: EventEmitter): () => void {
+    const listener = (event: ScannerEventData) => {
+      Promise.resolve()
+        .then(() => this.execute(orderFromScannerOpportunity(event.data)))
+        .catch(error => rootLogger().child({ component: 'paper-trader' }).error(`❌ Paper trade failed: ${(error as Error).message}`));
+    };
+
+    scanner.on('opportunity_found', listener);
+    return () => scanner.off('opportunity_found', listener);
+  }
+
+  /**
+   * Execute one order; orders run one at a time so balances stay consistent
+   */
+  execute(order: PaperOrder): Promise<PaperTrade> {
+    const run = this.queue.then(() => this.fill(order));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  getBalances(): Record<string, Decimal> {
+    return Object.fromEntries(this.balances);
+  }
+
+  getTrades(): PaperTrade[] {
+    return [...this.trades];
+  }
+
+  getSummary(): PaperTradingSummary {
+    const count = (status: PaperTradeStatus) => this.trades.filter(trade => trade.status === status).length;
+    const settled = this.trades.filter(trade => trade.status === 'filled' || trade.status === 'unwound');
+    const pnlByToken: Record<string, Decimal> = {};
+
+    for (const trade of settled) {
+      pnlByToken[trade.startToken] = (pnlByToken[trade.startToken] || new Decimal(0)).add(trade.pnl);
+    }
+
+    return {
+      trades: this.trades.length,
+      filled: count('filled'),
+      unwound: count('unwound'),
+      failed: count('failed'),
+      rejected: count('rejected'),
+      winRate: settled.length > 0 ? settled.filter(trade => trade.pnl.gt(0)).length / settled.length : 0,
+      pnlByToken,
+      gasCostSol: this.trades.reduce((sum, trade) => sum.add(trade.gasCostSol), new Decimal(0)),
+      balances: this.getBalances()
+    };
+  }
+
+  private async fill(order: PaperOrder): Promise<PaperTrade> {
+    const gasPerLeg = this.options.gasCostPerLegSol;
+    const available = this.balance(order.startToken);
+    const amountIn = Decimal.min(order.amountIn, available);
+
+    const trade: PaperTrade = {
+      id: `paper_${this.trades.length + 1}_${this.now()}`,
+      opportunityId: order.opportunityId,
+      timestamp: this.now(),
+      pair: order.pair,
+      startToken: order.startToken,
+      intermediateToken: order.intermediateToken,
+      buyDex: order.buyDex,
+      sellDex: order.sellDex,
+      status: 'rejected',
+      amountIn,
+      expectedOut: amountIn.mul(order.buyRate).mul(order.sellRate),
+      intermediateAmount: new Decimal(0),
+      amountOut: new Decimal(0),
+      slippage: new Decimal(0),
+      decayLoss: new Decimal(0),
+      gasCostSol: new Decimal(0),
+      pnl: new Decimal(0)
+    };
+
+    // Both legs' gas must be affordable, plus the input itself when trading SOL
+    const solNeeded = gasPerLeg.mul(2).add(order.startToken === 'SOL' ? amountIn : 0);
+    if (amountIn.lte(0)) {
+      return this.record(trade, `No ${order.startToken} balance`);
+    }
+    if (this.balance('SOL').lt(solNeeded)) {
+      return this.record(trade, 'Insufficient SOL for gas');
+    }
+
+    // Leg 1: start -> intermediate
+    trade.gasCostSol = gasPerLeg;
+    if (this.random() < this.options.legFailureRate) {
+      trade.status = 'failed';
+      this.adjust('SOL', gasPerLeg.neg());
+      return this.record(trade, `${order.buyDex} leg failed`);
+    }
+
+    const intermediate = await this.quote(order.buyDex, order.startToken, order.intermediateToken, amountIn, order.buyRate, order.buyPool);
+    trade.intermediateAmount = intermediate;
+    this.adjust(order.startToken, amountIn.neg());
+    this.adjust(order.intermediateToken, intermediate);
+
+    // Leg 2: intermediate -> start, or unwind back through the first venue if it fails
+    trade.gasCostSol = gasPerLeg.mul(2);
+    if (this.random() < this.options.legFailureRate) {
+      const unwound = await this.quote(order.buyDex, order.intermediateToken, order.startToken, intermediate, new Decimal(1).div(order.buyRate), order.buyPool);
+      trade.status = 'unwound';
+      trade.gasCostSol = gasPerLeg.mul(3);
+      trade.amountOut = unwound;
+      trade.pnl = unwound.sub(amountIn);
+      this.adjust(order.intermediateToken, intermediate.neg());
+      this.adjust(order.startToken, unwound);
+      this.adjust('SOL', trade.gasCostSol.neg());
+      return this.record(trade, `${order.sellDex} leg failed; unwound on ${order.buyDex}`);
+    }
+
+    const quotedOut = await this.quote(order.sellDex, order.intermediateToken, order.startToken, intermediate, order.sellRate, order.sellPool);
+
+    // Competitors close the gap while the legs land; only a positive edge can decay
+    const elapsedSeconds = (this.now() - order.detectedAt + this.options.latencyMs) / 1000;
+    const edgeKept = Math.exp(-this.options.edgeDecayPerSecond * Math.max(0, elapsedSeconds));
+    const edge = Decimal.max(0, quotedOut.sub(amountIn));
+    trade.decayLoss = edge.mul(1 - edgeKept);
+    trade.slippage = trade.expectedOut.sub(quotedOut);
+    trade.amountOut = quotedOut.sub(trade.decayLoss);
+    trade.pnl = trade.amountOut.sub(amountIn);
+    trade.status = 'filled';
+
+    this.adjust(order.intermediateToken, intermediate.neg());
+    this.adjust(order.startToken, trade.amountOut);
+    this.adjust('SOL', trade.gasCostSol.neg());
+
+    return this.record(trade);
+  }
+
+  /**
+   * Venue quote for a leg, falling back to the detected rate where no pool model exists
+   */
+  private async quote(dex: string, from: string, to: string, amountIn: Decimal, detectedRate: Decimal, pool?: PoolInfo): Promise<Decimal> {
+    if (this.options.quoteLeg) {
+      const quoted = await this.options.quoteLeg(dex, from, to, amountIn, pool);
+      if (quoted) return quoted;
+    }
+    return amountIn.mul(detectedRate);
+  }
+
+  private balance(token: string): Decimal {
+    return this.balances.get(token) || new Decimal(0);
+  }
+
+  private adjust(token: string, delta: Decimal): void {
+    this.balances.set(token, this.balance(token).add(delta));
+  }
+
+  private record(trade: PaperTrade, reason?: string): PaperTrade {
+    if (reason) trade.reason = reason;
+    this.trades.push(trade);
+    this.saveLedger();
+    this.emit('trade', trade);
+    return trade;
+  }
+
+  /**
+   * Restore balances and trades from the ledger file, if there is one
+   */
+  private loadLedger(): boolean {
+    const ledgerPath = this.options.ledgerPath;
+    if (!ledgerPath || !fs.existsSync(ledgerPath)) return false;
+
+    const ledger: LedgerFile = JSON.parse(fs.readFileSync(ledgerPath, 'utf8'));
+    if (ledger.version !== 1) {
+      throw new Error(`Unsupported paper ledger version ${ledger.version} in ${ledgerPath}`);
+    }
+
+    Object.entries(ledger.balances).forEach(([token, amount]) => this.balances.set(token, new Decimal(amount)));
+    this.trades = ledger.trades.map(stored => {
+      const trade = { ...stored } as unknown as PaperTrade;
+      DECIMAL_TRADE_FIELDS.forEach(field => {
+        trade[field] = new Decimal(stored[field] as string);
+      });
+      return trade;
+    });
+
+    return true;
+  }
+
+  private saveLedger(): void {
+    const ledgerPath = this.options.ledgerPath;
+    if (!ledgerPath) return;
+
+    const ledger: LedgerFile = {
+      version: 1,
+      updatedAt: this.now(),
+      balances: Object.fromEntries(Array.from(this.balances, ([token, amount]) => [token, amount.toString()])),
+      trades: this.trades.map(trade => {
+        const stored: Record<string, string | number | undefined> = { ...trade } as unknown as Record<string, string | number | undefined>;
+        DECIMAL_TRADE_FIELDS.forEach(field => {
+          stored[field] = trade[field].toString();
+        });
+        return stored;
+      })
+    };
+
+    fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+    const tempPath = `${ledgerPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(ledger, null, 2));
+    fs.renameSync(tempPath, ledgerPath); // Never leave a half-written ledger behind
+  }
+}
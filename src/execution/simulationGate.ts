@@ -0,0 +1,159 @@
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  RpcResponseAndContext,
+  SimulateTransactionConfig,
+  SimulatedTransactionResponse,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import Decimal from 'decimal.js';
+import { AccountFetcher, decodeTokenAccountAmount } from '../dex/accounts';
+import { fromRawAmount, getTokenByMint } from '../utils/tokenUtils';
+
+/**
+ * RPC surface the gate needs. `Connection` satisfies it, against mainnet,
+ * `solana-test-validator` or any stand-in JSON-RPC server.
+ */
+export interface SimulationRpc extends AccountFetcher {
+  simulateTransaction(
+    transaction: VersionedTransaction,
+    config?: SimulateTransactionConfig
+  ): Promise<RpcResponseAndContext<SimulatedTransactionResponse>>;
+}
+
+export interface TokenBalanceDelta {
+  mint: PublicKey;
+  symbol: string;
+  account: PublicKey; // Owner's associated token account
+  before: bigint; // Raw units; zero if the account does not exist yet
+  after: bigint;
+  delta: Decimal; // UI units
+}
+
+export interface TransactionSimulation {
+  success: boolean;
+  error: string | null;
+  slot: number;
+  unitsConsumed: number;
+  logs: string[];
+  balanceDeltas: TokenBalanceDelta[];
+  lamportDelta: bigint; // Owner's SOL balance change as reported by the simulation
+  feeLamports: bigint; // Signature fees plus the priority fee on the consumed units
+  costSol: Decimal;
+}
+
+export interface SimulationGateOptions {
+  lamportsPerSignature: number;
+  commitment: 'processed' | 'confirmed' | 'finalized';
+}
+
+const DEFAULT_OPTIONS: SimulationGateOptions = {
+  lamportsPerSignature: 5000,
+  commitment: 'processed'
+};
+
+const LAMPORTS_PER_SOL = new Decimal(1e9);
+
+// ComputeBudgetInstruction::SetComputeUnitPrice tag
+const SET_COMPUTE_UNIT_PRICE = 3;
+
+/**
+ * Dry-runs built transactions with simulateTransaction and measures what they would
+ * move and cost, so opportunities are judged on the chain's answer rather than a flat gas guess.
+ */
+export class SimulationGate {
+  private rpc: SimulationRpc;
+  private options: SimulationGateOptions;
+
+  constructor(rpc: SimulationRpc, options: Partial<SimulationGateOptions> = {}) {
+    this.rpc = rpc;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Simulate without signatures against the latest blockhash, tracking the owner's
+   * SOL balance and its token accounts for the given mints
+   */
+  async simulate(transaction: VersionedTransaction, owner: PublicKey, mints: PublicKey[]): Promise<TransactionSimulation> {
+    const tokenAccounts = mints.map(mint => getAssociatedTokenAddressSync(mint, owner));
+    const watched = [owner, ...tokenAccounts];
+
+    const before = await this.rpc.getMultipleAccountsInfo(watched);
+    const { context, value } = await this.rpc.simulateTransaction(transaction, {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+      commitment: this.options.commitment,
+      accounts: { encoding: 'base64', addresses: watched.map(address => address.toBase58()) }
+    });
+
+    const after = value.accounts || [];
+    const success = value.err === null;
+    const unitsConsumed = value.unitsConsumed || 0;
+
+    const balanceDeltas = mints.map((mint, index) => {
+      const preAccount = before[index + 1];
+      const postAccount = after[index + 1];
+      const preAmount = preAccount ? decodeTokenAccountAmount(preAccount.data) : BigInt(0);
+      // A failed simulation changes nothing; accounts then come back null or unchanged
+      const postAmount = success && postAccount
+        ? decodeTokenAccountAmount(Buffer.from(postAccount.data[0], 'base64'))
+        : preAmount;
+      const token = getTokenByMint(mint);
+
+      return {
+        mint,
+        symbol: token?.symbol || mint.toBase58(),
+        account: tokenAccounts[index],
+        before: preAmount,
+        after: postAmount,
+        delta: fromRawAmount((postAmount - preAmount).toString(), token?.decimals || 0)
+      };
+    });
+
+    const preLamports = before[0] ? BigInt(before[0].lamports) : BigInt(0);
+    const postLamports = success && after[0] ? BigInt(after[0].lamports) : preLamports;
+    const feeLamports = this.estimateFee(transaction, unitsConsumed);
+
+    return {
+      success,
+      error: success ? null : JSON.stringify(value.err),
+      slot: context.slot,
+      unitsConsumed,
+      logs: value.logs || [],
+      balanceDeltas,
+      lamportDelta: postLamports - preLamports,
+      feeLamports,
+      costSol: new Decimal(feeLamports.toString()).div(LAMPORTS_PER_SOL)
+    };
+  }
+
+  /**
+   * Fee for the transaction once its compute limit is tightened to the measured usage
+   */
+  private estimateFee(transaction: VersionedTransaction, unitsConsumed: number): bigint {
+    const message = transaction.message;
+    let microLamportsPerUnit = BigInt(0);
+
+    for (const instruction of message.compiledInstructions) {
+      const programId = message.staticAccountKeys[instruction.programIdIndex];
+      if (programId.equals(ComputeBudgetProgram.programId) && instruction.data[0] === SET_COMPUTE_UNIT_PRICE) {
+        microLamportsPerUnit = Buffer.from(instruction.data).readBigUInt64LE(1);
+      }
+    }
+
+    const signatureFee = BigInt(this.options.lamportsPerSignature * message.header.numRequiredSignatures);
+    const priorityMicroLamports = microLamportsPerUnit * BigInt(unitsConsumed);
+    const priorityFee = (priorityMicroLamports + BigInt(999999)) / BigInt(1000000);
+
+    return signatureFee + priorityFee;
+  }
+}
+
+/**
+ * Net change of one mint in a simulation; zero when it was not tracked
+ */
+export function simulatedProfit(simulation: TransactionSimulation, mint: PublicKey): Decimal {
+  const delta = simulation.balanceDeltas.find(balance => balance.mint.equals(mint));
+  return delta ? delta.delta : new Decimal(0);
+}
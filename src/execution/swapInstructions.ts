@@ -0,0 +1,277 @@
+import { createHash } from 'crypto';
+import { AccountMeta, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { PoolDex } from '../config/pools';
+import { AccountFetcher, fetchAccountData } from '../dex/accounts';
+import { METEORA_DLMM_PROGRAM_ID, MeteoraDlmmQuoter, getBinArrayAddress, getBinArrayIndex } from '../dex/meteoraDlmm';
+import {
+  MAX_SQRT_PRICE_X64,
+  MIN_SQRT_PRICE_X64,
+  ORCA_WHIRLPOOL_PROGRAM_ID,
+  OrcaWhirlpoolQuoter,
+  TICK_ARRAY_SIZE,
+  getTickArrayAddress,
+  getTickArrayStartIndex
+} from '../dex/orcaWhirlpool';
+import { PHOENIX_PROGRAM_ID, decodePhoenixMarketState } from '../dex/phoenix';
+import { RAYDIUM_AMM_V4_PROGRAM_ID, decodeRaydiumAmmPool } from '../dex/raydiumAmm';
+
+/**
+ * One exact-input swap leg, in raw units of the input and output mints
+ */
+export interface SwapLegParams {
+  owner: PublicKey; // Signs the swap and owns the associated token accounts used for both sides
+  inputMint: PublicKey;
+  amountIn: bigint;
+  minAmountOut: bigint; // The DEX program reverts the whole transaction below this
+}
+
+export interface SwapLegInstruction {
+  instruction: TransactionInstruction;
+  outputMint: PublicKey;
+}
+
+/**
+ * Builds the swap instruction for a pool from its current on-chain state
+ */
+export type SwapInstructionBuilder = (
+  fetcher: AccountFetcher,
+  pool: PublicKey,
+  params: SwapLegParams
+) => Promise<SwapLegInstruction>;
+
+// Whirlpool swaps always take three tick arrays in swap direction
+const WHIRLPOOL_SWAP_TICK_ARRAYS = 3;
+const DLMM_SWAP_BIN_ARRAYS = 3;
+
+// Raydium AMM v4 SwapBaseInV2: the variant without OpenBook market accounts
+const RAYDIUM_SWAP_BASE_IN_V2 = 16;
+
+// PhoenixInstruction::Swap taking an OrderPacket::ImmediateOrCancel
+const PHOENIX_SWAP = 0;
+const PHOENIX_IMMEDIATE_OR_CANCEL = 2;
+const PHOENIX_SIDE_BID = 0;
+const PHOENIX_SIDE_ASK = 1;
+const PHOENIX_SELF_TRADE_CANCEL_PROVIDE = 1;
+
+/**
+ * First 8 bytes of sha256("global:<name>"), the Anchor instruction discriminator
+ */
+export function anchorDiscriminator(name: string): Buffer {
+  return createHash('sha256').update(`global:${name}`).digest().subarray(0, 8);
+}
+
+function u64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+}
+
+function u128(value: bigint): Buffer {
+  return Buffer.concat([u64(value & BigInt('0xffffffffffffffff')), u64(value >> BigInt(64))]);
+}
+
+function pda(seeds: Buffer[], programId: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(seeds, programId)[0];
+}
+
+function writable(pubkey: PublicKey): AccountMeta {
+  return { pubkey, isSigner: false, isWritable: true };
+}
+
+function readonly(pubkey: PublicKey): AccountMeta {
+  return { pubkey, isSigner: false, isWritable: false };
+}
+
+function signer(pubkey: PublicKey): AccountMeta {
+  return { pubkey, isSigner: true, isWritable: true };
+}
+
+function ceilDiv(numerator: bigint, denominator: bigint): bigint {
+  return (numerator + denominator - BigInt(1)) / denominator;
+}
+
+/**
+ * Whether the input mint is the pool's first token, failing if the pool does not trade it
+ */
+function isFirstToken(pool: PublicKey, inputMint: PublicKey, first: PublicKey, second: PublicKey): boolean {
+  if (inputMint.equals(first)) return true;
+  if (inputMint.equals(second)) return false;
+  throw new Error(`Mint ${inputMint.toBase58()} is not traded by pool ${pool.toBase58()}`);
+}
+
+const buildRaydiumSwap: SwapInstructionBuilder = async (fetcher, pool, params) => {
+  const [poolData] = await fetchAccountData(fetcher, [pool]);
+  const state = decodeRaydiumAmmPool(poolData);
+  const baseIn = isFirstToken(pool, params.inputMint, state.baseMint, state.quoteMint);
+  const outputMint = baseIn ? state.quoteMint : state.baseMint;
+
+  return {
+    outputMint,
+    instruction: new TransactionInstruction({
+      programId: RAYDIUM_AMM_V4_PROGRAM_ID,
+      keys: [
+        readonly(TOKEN_PROGRAM_ID),
+        writable(pool),
+        readonly(pda([Buffer.from('amm authority')], RAYDIUM_AMM_V4_PROGRAM_ID)),
+        writable(state.baseVault),
+        writable(state.quoteVault),
+        writable(getAssociatedTokenAddressSync(params.inputMint, params.owner)),
+        writable(getAssociatedTokenAddressSync(outputMint, params.owner)),
+        signer(params.owner)
+      ],
+      data: Buffer.concat([Buffer.from([RAYDIUM_SWAP_BASE_IN_V2]), u64(params.amountIn), u64(params.minAmountOut)])
+    })
+  };
+};
+
+const buildOrcaSwap: SwapInstructionBuilder = async (fetcher, pool, params) => {
+  const { state, tickArrays } = await new OrcaWhirlpoolQuoter(fetcher).loadPool(pool);
+  const aToB = isFirstToken(pool, params.inputMint, state.tokenMintA, state.tokenMintB);
+
+  // Arrays in swap direction; B->A starts one tick spacing up, matching the program's own lookup
+  const span = state.tickSpacing * TICK_ARRAY_SIZE;
+  const firstStart = getTickArrayStartIndex(
+    state.tickCurrentIndex + (aToB ? 0 : state.tickSpacing),
+    state.tickSpacing
+  );
+  const initialized = new Set(tickArrays.map(array => array.startTickIndex));
+  if (!initialized.has(firstStart)) {
+    throw new Error(`Current tick array not initialized for Whirlpool ${pool.toBase58()}`);
+  }
+
+  // Uninitialized arrays past the loaded range repeat the last usable one
+  const starts: number[] = [];
+  for (let i = 0; i < WHIRLPOOL_SWAP_TICK_ARRAYS; i++) {
+    const start = firstStart + (aToB ? -i : i) * span;
+    starts.push(initialized.has(start) ? start : starts[starts.length - 1]);
+  }
+
+  const ownerA = getAssociatedTokenAddressSync(state.tokenMintA, params.owner);
+  const ownerB = getAssociatedTokenAddressSync(state.tokenMintB, params.owner);
+
+  return {
+    outputMint: aToB ? state.tokenMintB : state.tokenMintA,
+    instruction: new TransactionInstruction({
+      programId: ORCA_WHIRLPOOL_PROGRAM_ID,
+      keys: [
+        readonly(TOKEN_PROGRAM_ID),
+        signer(params.owner),
+        writable(pool),
+        writable(ownerA),
+        writable(state.tokenVaultA),
+        writable(ownerB),
+        writable(state.tokenVaultB),
+        ...starts.map(start => writable(getTickArrayAddress(pool, start))),
+        readonly(pda([Buffer.from('oracle'), pool.toBuffer()], ORCA_WHIRLPOOL_PROGRAM_ID))
+      ],
+      data: Buffer.concat([
+        anchorDiscriminator('swap'),
+        u64(params.amountIn),
+        u64(params.minAmountOut), // other_amount_threshold
+        u128(aToB ? MIN_SQRT_PRICE_X64 : MAX_SQRT_PRICE_X64),
+        Buffer.from([1, aToB ? 1 : 0]) // amount_specified_is_input, a_to_b
+      ])
+    })
+  };
+};
+
+const buildPhoenixSwap: SwapInstructionBuilder = async (fetcher, pool, params) => {
+  const [marketData] = await fetchAccountData(fetcher, [pool]);
+  const state = decodePhoenixMarketState(marketData);
+  const sellsBase = isFirstToken(pool, params.inputMint, state.baseMint, state.quoteMint);
+
+  // Market order sized in lots; the fill minimum rounds up so it never undercuts minAmountOut
+  const numBaseLots = sellsBase ? params.amountIn / state.baseLotSize : BigInt(0);
+  const numQuoteLots = sellsBase ? BigInt(0) : params.amountIn / state.quoteLotSize;
+  const minBaseLots = sellsBase ? BigInt(0) : ceilDiv(params.minAmountOut, state.baseLotSize);
+  const minQuoteLots = sellsBase ? ceilDiv(params.minAmountOut, state.quoteLotSize) : BigInt(0);
+  if (numBaseLots === BigInt(0) && numQuoteLots === BigInt(0)) {
+    throw new Error(`Swap amount ${params.amountIn} is below one lot on Phoenix market ${pool.toBase58()}`);
+  }
+
+  const NONE = Buffer.from([0]);
+  const orderPacket = Buffer.concat([
+    Buffer.from([PHOENIX_IMMEDIATE_OR_CANCEL, sellsBase ? PHOENIX_SIDE_ASK : PHOENIX_SIDE_BID]),
+    NONE, // price_in_ticks: take any price
+    u64(numBaseLots),
+    u64(numQuoteLots),
+    u64(minBaseLots),
+    u64(minQuoteLots),
+    Buffer.from([PHOENIX_SELF_TRADE_CANCEL_PROVIDE]),
+    NONE, // match_limit
+    u128(BigInt(0)), // client_order_id
+    Buffer.from([0]), // use_only_deposited_funds
+    NONE, // last_valid_slot
+    NONE // last_valid_unix_timestamp_in_seconds
+  ]);
+
+  return {
+    outputMint: sellsBase ? state.quoteMint : state.baseMint,
+    instruction: new TransactionInstruction({
+      programId: PHOENIX_PROGRAM_ID,
+      keys: [
+        readonly(PHOENIX_PROGRAM_ID),
+        readonly(pda([Buffer.from('log')], PHOENIX_PROGRAM_ID)),
+        writable(pool),
+        signer(params.owner),
+        writable(getAssociatedTokenAddressSync(state.baseMint, params.owner)),
+        writable(getAssociatedTokenAddressSync(state.quoteMint, params.owner)),
+        writable(state.baseVault),
+        writable(state.quoteVault),
+        readonly(TOKEN_PROGRAM_ID)
+      ],
+      data: Buffer.concat([Buffer.from([PHOENIX_SWAP]), orderPacket])
+    })
+  };
+};
+
+const buildMeteoraSwap: SwapInstructionBuilder = async (fetcher, pool, params) => {
+  const { state, binArrays } = await new MeteoraDlmmQuoter(fetcher).loadPair(pool);
+  const swapForY = isFirstToken(pool, params.inputMint, state.tokenXMint, state.tokenYMint);
+  const outputMint = swapForY ? state.tokenYMint : state.tokenXMint;
+
+  // Initialized bin arrays the price walks through, starting at the active bin
+  const activeIndex = getBinArrayIndex(state.activeId);
+  const indexes: number[] = [];
+  for (let i = 0; i < DLMM_SWAP_BIN_ARRAYS; i++) {
+    const index = activeIndex + (swapForY ? -i : i);
+    if (binArrays.has(index)) indexes.push(index);
+  }
+  if (indexes.length === 0) {
+    throw new Error(`Active bin array not initialized for Meteora pair ${pool.toBase58()}`);
+  }
+
+  return {
+    outputMint,
+    instruction: new TransactionInstruction({
+      programId: METEORA_DLMM_PROGRAM_ID,
+      keys: [
+        writable(pool),
+        readonly(METEORA_DLMM_PROGRAM_ID), // bin_array_bitmap_extension: none
+        writable(state.reserveX),
+        writable(state.reserveY),
+        writable(getAssociatedTokenAddressSync(params.inputMint, params.owner)),
+        writable(getAssociatedTokenAddressSync(outputMint, params.owner)),
+        readonly(state.tokenXMint),
+        readonly(state.tokenYMint),
+        writable(state.oracle),
+        readonly(METEORA_DLMM_PROGRAM_ID), // host_fee_in: none
+        signer(params.owner),
+        readonly(TOKEN_PROGRAM_ID),
+        readonly(TOKEN_PROGRAM_ID),
+        readonly(pda([Buffer.from('__event_authority')], METEORA_DLMM_PROGRAM_ID)),
+        readonly(METEORA_DLMM_PROGRAM_ID),
+        ...indexes.map(index => writable(getBinArrayAddress(pool, index)))
+      ],
+      data: Buffer.concat([anchorDiscriminator('swap'), u64(params.amountIn), u64(params.minAmountOut)])
+    })
+  };
+};
+
+export const SWAP_INSTRUCTION_BUILDERS: Record<PoolDex, SwapInstructionBuilder> = {
+  raydium: buildRaydiumSwap,
+  orca: buildOrcaSwap,
+  phoenix: buildPhoenixSwap,
+  meteora: buildMeteoraSwap
+};
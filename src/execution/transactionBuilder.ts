@@ -0,0 +1,216 @@
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  ComputeBudgetProgram,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { createAssociatedTokenAccountIdempotentInstruction, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import Decimal from 'decimal.js';
+import { PoolDex, toPoolDex } from '../config/pools';
+import { AccountFetcher } from '../dex/accounts';
+import { RouteInfo } from '../types';
+import { toRawAmount } from '../utils/tokenUtils';
+import { SWAP_INSTRUCTION_BUILDERS } from './swapInstructions';
+
+export interface AtomicArbitrageOptions {
+  payer: PublicKey; // Fee payer, signer of both swaps and owner of the token accounts
+  recentBlockhash: string;
+  computeUnitLimit: number;
+  computeUnitPriceMicroLamports: number;
+  slippageBps: number; // Haircut on leg 1's quoted output; leg 2 spends exactly the remainder
+  minProfit: Decimal; // Start token, UI units; zero still demands one raw unit of profit
+  lookupTables: AddressLookupTableAccount[];
+}
+
+export interface BuiltSwapLeg {
+  dex: PoolDex;
+  pool: PublicKey;
+  inputMint: PublicKey;
+  outputMint: PublicKey;
+  amountIn: bigint;
+  minAmountOut: bigint;
+}
+
+export interface AtomicArbitrageTransaction {
+  transaction: VersionedTransaction; // Unsigned
+  legs: BuiltSwapLeg[];
+  minAmountOut: bigint; // Final leg guard: start amount plus the minimum profit
+  expectedAmountOut: bigint; // Route output scaled to the amount leg 2 actually spends
+  lookupAddresses: PublicKey[]; // Non-signer accounts worth keeping in a lookup table
+}
+
+const DEFAULT_OPTIONS = {
+  computeUnitLimit: 400000,
+  computeUnitPriceMicroLamports: 10000,
+  slippageBps: 50,
+  minProfit: new Decimal(0),
+  lookupTables: [] as AddressLookupTableAccount[]
+};
+
+function raw(amount: Decimal, decimals: number): bigint {
+  return BigInt(toRawAmount(amount, decimals));
+}
+
+/**
+ * Turns a two-leg round trip (A -> B -> A) into one versioned transaction.
+ *
+ * Atomicity comes from the swap programs themselves: leg 1 must return at least what
+ * leg 2 spends and leg 2 must return the start amount plus the minimum profit,
+ * otherwise the failing swap reverts both.
+ */
+export class AtomicArbitrageBuilder {
+  private fetcher: AccountFetcher;
+
+  constructor(fetcher: AccountFetcher) {
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * Build the transaction for an opportunity route, reading fresh pool state for the swap accounts
+   */
+  async build(
+    route: RouteInfo[],
+    options: Pick<AtomicArbitrageOptions, 'payer' | 'recentBlockhash'> & Partial<AtomicArbitrageOptions>
+  ): Promise<AtomicArbitrageTransaction> {
+    const config: AtomicArbitrageOptions = { ...DEFAULT_OPTIONS, ...options };
+    const [first, second] = this.validateRoute(route);
+
+    const amountIn = raw(first.amountIn, first.tokenIn.decimals);
+    const quotedIntermediate = raw(first.amountOut, first.tokenOut.decimals);
+    const intermediate = quotedIntermediate * BigInt(10000 - config.slippageBps) / BigInt(10000);
+
+    const minProfit = raw(config.minProfit, first.tokenIn.decimals);
+    const minAmountOut = amountIn + (minProfit > BigInt(0) ? minProfit : BigInt(1));
+
+    // Leg 2 was quoted for its own input; scale it to the haircut amount it will spend
+    const quotedSecondIn = raw(second.amountIn, second.tokenIn.decimals);
+    const expectedAmountOut = quotedSecondIn > BigInt(0)
+      ? raw(second.amountOut, second.tokenOut.decimals) * intermediate / quotedSecondIn
+      : BigInt(0);
+    if (intermediate === BigInt(0) || expectedAmountOut < minAmountOut) {
+      throw new Error(
+        `Route is not profitable after ${config.slippageBps} bps slippage: ` +
+        `expected ${expectedAmountOut}, need ${minAmountOut}`
+      );
+    }
+
+    const legs: BuiltSwapLeg[] = [];
+    const swapInstructions: TransactionInstruction[] = [];
+    for (const [leg, legAmountIn, legMinOut] of [
+      [first, amountIn, intermediate],
+      [second, intermediate, minAmountOut]
+    ] as Array<[RouteInfo, bigint, bigint]>) {
+      const dex = toPoolDex(leg.dex)!;
+      const built = await SWAP_INSTRUCTION_BUILDERS[dex](this.fetcher, leg.poolAddress, {
+        owner: config.payer,
+        inputMint: leg.tokenIn.mint,
+        amountIn: legAmountIn,
+        minAmountOut: legMinOut
+      });
+
+      if (!built.outputMint.equals(leg.tokenOut.mint)) {
+        throw new Error(`Pool ${leg.poolAddress.toBase58()} does not swap ${leg.tokenIn.symbol} to ${leg.tokenOut.symbol}`);
+      }
+
+      legs.push({
+        dex,
+        pool: leg.poolAddress,
+        inputMint: leg.tokenIn.mint,
+        outputMint: built.outputMint,
+        amountIn: legAmountIn,
+        minAmountOut: legMinOut
+      });
+      swapInstructions.push(built.instruction);
+    }
+
+    const instructions = [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: config.computeUnitLimit }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports: config.computeUnitPriceMicroLamports }),
+      // The start token account holds the input already; the intermediate one may not exist yet
+      createAssociatedTokenAccountIdempotentInstruction(
+        config.payer,
+        getAssociatedTokenAddressSync(first.tokenOut.mint, config.payer),
+        config.payer,
+        first.tokenOut.mint
+      ),
+      ...swapInstructions
+    ];
+
+    const message = new TransactionMessage({
+      payerKey: config.payer,
+      recentBlockhash: config.recentBlockhash,
+      instructions
+    }).compileToV0Message(config.lookupTables);
+
+    return {
+      transaction: new VersionedTransaction(message),
+      legs,
+      minAmountOut,
+      expectedAmountOut,
+      lookupAddresses: getLookupAddresses(instructions)
+    };
+  }
+
+  private validateRoute(route: RouteInfo[]): [RouteInfo, RouteInfo] {
+    if (route.length !== 2) {
+      throw new Error(`Atomic arbitrage needs a two-leg route, got ${route.length} legs`);
+    }
+
+    const [first, second] = route;
+    if (!first.tokenOut.mint.equals(second.tokenIn.mint) || !second.tokenOut.mint.equals(first.tokenIn.mint)) {
+      throw new Error(
+        `Route is not a round trip: ${first.tokenIn.symbol}->${first.tokenOut.symbol}, ` +
+        `${second.tokenIn.symbol}->${second.tokenOut.symbol}`
+      );
+    }
+
+    for (const leg of route) {
+      if (!toPoolDex(leg.dex)) {
+        throw new Error(`Unsupported DEX for swap instructions: ${leg.dex}`);
+      }
+    }
+
+    return [first, second];
+  }
+}
+
+/**
+ * Accounts referenced by the instructions that a lookup table can hold
+ * (signers and invoked programs must stay in the static keys)
+ */
+export function getLookupAddresses(instructions: TransactionInstruction[]): PublicKey[] {
+  const staticKeys = new Set<string>();
+  const addresses = new Map<string, PublicKey>();
+
+  for (const instruction of instructions) {
+    staticKeys.add(instruction.programId.toBase58());
+    for (const key of instruction.keys) {
+      if (key.isSigner) {
+        staticKeys.add(key.pubkey.toBase58());
+      } else {
+        addresses.set(key.pubkey.toBase58(), key.pubkey);
+      }
+    }
+  }
+
+  return Array.from(addresses.values()).filter(address => !staticKeys.has(address.toBase58()));
+}
+
+/**
+ * Instructions creating a lookup table and filling it with the given addresses.
+ * The table is usable one slot after the extend lands.
+ */
+export function createLookupTableInstructions(
+  authority: PublicKey,
+  payer: PublicKey,
+  recentSlot: number,
+  addresses: PublicKey[]
+): { lookupTable: PublicKey; instructions: TransactionInstruction[] } {
+  const [create, lookupTable] = AddressLookupTableProgram.createLookupTable({ authority, payer, recentSlot });
+  const extend = AddressLookupTableProgram.extendLookupTable({ lookupTable, authority, payer, addresses });
+
+  return { lookupTable, instructions: [create, extend] };
+}
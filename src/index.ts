@@ -1,7 +1,17 @@
 import 'dotenv/config';
 import { ArbitrageScanner } from './scanner/ArbitrageScanner';
-import { defaultConfig } from './config/config';
+import { LoadedScannerConfig, formatScannerConfig } from './config/configLoader';
+import { ConfigReloader } from './config/configReloader';
+import { AdminServer } from './config/adminServer';
+import { EXIT_CODES, UsageError, flagOption, parseArgs } from './cli/args';
+import { SCANNER_CONFIG_OPTIONS, scannerConfigFor } from './cli/options';
 import { ScannerEvent } from './types';
+import * as path from 'path';
+import { Connection } from '@solana/web3.js';
+import { PaperTrader, createPoolLegQuoter } from './execution/paperTrader';
+import { defaultArbMetrics } from './metrics/arbMetrics';
+import { MetricsServer } from './metrics/metricsServer';
+import { rootLogger } from './logging/logger';
 
 // ASCII Art Banner
 const banner = `
@@ -22,13 +32,24 @@ const banner = `
 
 class SolanaArbitrageApp {
   private scanner: ArbitrageScanner;
+  private paperTrader: PaperTrader | null = null;
+  private reloader: ConfigReloader;
   private startTime: number;
+  private logger = rootLogger();
 
-  constructor() {
-    console.log(banner);
+  constructor(private loaded: LoadedScannerConfig, load: () => LoadedScannerConfig) {
+    this.rule(banner);
     
     this.startTime = Date.now();
-    this.scanner = new ArbitrageScanner(defaultConfig);
+    this.scanner = new ArbitrageScanner(loaded.config);
+    this.reloader = new ConfigReloader({ initial: loaded, load, apply: next => this.scanner.updateConfig(next) });
+    if (process.env.PAPER_TRADING === 'true') {
+      this.paperTrader = new PaperTrader({
+        quoteLeg: createPoolLegQuoter(new Connection(loaded.config.rpcEndpoint, 'confirmed')),
+        ledgerPath: path.join(process.cwd(), 'data', 'paper_ledger.json')
+      });
+      this.paperTrader.attach(this.scanner);
+    }
     this.setupEventHandlers();
     this.setupGracefulShutdown();
   }
@@ -40,44 +61,53 @@ class SolanaArbitrageApp {
     // Handle arbitrage opportunities
     this.scanner.on('opportunity_found', (eventData) => {
       const opportunity = eventData.data;
-      console.log('\n' + '='.repeat(60));
-      console.log('🎯 NEW ARBITRAGE OPPORTUNITY DETECTED');
-      console.log('='.repeat(60));
-      console.log(`📅 Time: ${new Date().toLocaleString()}`);
-      console.log(`💰 Pair: ${opportunity.tokenA.symbol}/${opportunity.tokenB.symbol}`);
-      console.log(`📈 Buy Price: ${opportunity.buyPrice.toFixed(8)} (${opportunity.buyDex})`);
-      console.log(`📉 Sell Price: ${opportunity.sellPrice.toFixed(8)} (${opportunity.sellDex})`);
-      console.log(`💵 Profit: ${opportunity.profitPercentage.toFixed(2)}%`);
-      console.log(`🎲 Confidence: ${(opportunity.confidence * 100).toFixed(1)}%`);
-      console.log(`🆔 ID: ${opportunity.id}`);
-      console.log('='.repeat(60) + '\n');
+      this.rule('\n' + '='.repeat(60));
+      this.logger.info('🎯 NEW ARBITRAGE OPPORTUNITY DETECTED', { opportunityId: opportunity.id });
+      this.rule('='.repeat(60));
+      this.logger.info(`📅 Time: ${new Date().toLocaleString()}`);
+      this.logger.info(`💰 Pair: ${opportunity.tokenA.symbol}/${opportunity.tokenB.symbol}`);
+      this.logger.info(`📈 Buy Price: ${opportunity.buyPrice.toFixed(8)} (${opportunity.buyDex})`);
+      this.logger.info(`📉 Sell Price: ${opportunity.sellPrice.toFixed(8)} (${opportunity.sellDex})`);
+      this.logger.info(`💵 Profit: ${opportunity.profitPercentage.toFixed(2)}%`);
+      if (opportunity.estimatedGasCost) {
+        this.logger.info(`⛽ Gas: ${opportunity.estimatedGasCost.toFixed(6)} SOL`);
+      }
+      this.logger.info(`🎲 Confidence: ${(opportunity.confidence * 100).toFixed(1)}%`);
+      this.logger.info(`🆔 ID: ${opportunity.id}`);
+      this.rule('='.repeat(60) + '\n');
     });
 
     // Handle price updates
     this.scanner.on('price_update', (eventData) => {
       const priceData = eventData.data;
-      console.log(`💱 Price Update: ${priceData.tokenA.symbol}/${priceData.tokenB.symbol} = ${priceData.price.toFixed(8)} on ${priceData.dex}`);
+      this.logger.info(`💱 Price Update: ${priceData.tokenA.symbol}/${priceData.tokenB.symbol} = ${priceData.price.toFixed(8)} on ${priceData.dex}`);
     });
 
     // Handle status updates
     this.scanner.on('status_update', (eventData) => {
-      const { status, metrics } = eventData.data;
-      console.log(`📊 Scanner Status: ${status.toUpperCase()}`);
+      const { status, metrics, changes } = eventData.data;
+      this.logger.info(`📊 Scanner Status: ${status.toUpperCase()}`, { status });
+
+      if (changes) {
+        changes.forEach((change: { key: string; from: unknown; to: unknown }) => {
+          this.logger.info(`   ${change.key}: ${JSON.stringify(change.from)} → ${JSON.stringify(change.to)}`);
+        });
+      }
       
       if (metrics) {
-        console.log(`   Total Scans: ${metrics.totalScans}`);
-        console.log(`   Opportunities Found: ${metrics.opportunitiesFound}`);
-        console.log(`   Average Profit: ${metrics.averageProfitPercentage.toFixed(2)}%`);
+        this.logger.info(`   Total Scans: ${metrics.totalScans}`);
+        this.logger.info(`   Opportunities Found: ${metrics.opportunitiesFound}`);
+        this.logger.info(`   Average Profit: ${metrics.averageProfitPercentage.toFixed(2)}%`);
         
         if (metrics.topOpportunity) {
-          console.log(`   Best Opportunity: ${metrics.topOpportunity.profitPercentage.toFixed(2)}% (${metrics.topOpportunity.tokenA.symbol}/${metrics.topOpportunity.tokenB.symbol})`);
+          this.logger.info(`   Best Opportunity: ${metrics.topOpportunity.profitPercentage.toFixed(2)}% (${metrics.topOpportunity.tokenA.symbol}/${metrics.topOpportunity.tokenB.symbol})`);
         }
       }
     });
 
     // Handle errors
     this.scanner.on('error', (eventData) => {
-      console.error(`❌ Scanner Error: ${eventData.data.error}`);
+      this.logger.error(`❌ Scanner Error: ${eventData.data.error}`);
     });
   }
 
@@ -86,7 +116,7 @@ class SolanaArbitrageApp {
    */
   private setupGracefulShutdown(): void {
     const shutdown = (signal: string) => {
-      console.log(`\n🛑 Received ${signal}. Shutting down gracefully...`);
+      this.logger.info(`\n🛑 Received ${signal}. Shutting down gracefully...`, { signal });
       this.stop();
     };
 
@@ -95,13 +125,13 @@ class SolanaArbitrageApp {
     
     // Handle uncaught exceptions
     process.on('uncaughtException', (error) => {
-      console.error('💥 Uncaught Exception:', error);
+      this.logger.error('💥 Uncaught Exception:', { err: error });
       this.stop();
       process.exit(1);
     });
 
-    process.on('unhandledRejection', (reason, promise) => {
-      console.error('💥 Unhandled Rejection at:', promise, 'reason:', reason);
+    process.on('unhandledRejection', (reason) => {
+      this.logger.error('💥 Unhandled Rejection:', { err: reason });
       this.stop();
       process.exit(1);
     });
@@ -112,25 +142,48 @@ class SolanaArbitrageApp {
    */
   async start(): Promise<void> {
     try {
-      console.log('🚀 Initializing Solana Arbitrage Scanner...');
-      console.log(`📡 RPC Endpoint: ${defaultConfig.rpcEndpoint}`);
-      console.log(`🔄 Scan Interval: ${defaultConfig.priceUpdateInterval}ms`);
-      console.log(`💰 Min Profit Threshold: ${defaultConfig.minProfitThreshold}%`);
-      console.log(`🎯 Monitored Pairs: ${defaultConfig.monitoredPairs.join(', ')}`);
-      console.log('\n' + '─'.repeat(60));
+      const { config } = this.reloader.current;
+      this.logger.info('🚀 Initializing Solana Arbitrage Scanner...');
+      this.logger.info(`📡 RPC Endpoint: ${config.rpcEndpoint}`);
+      this.logger.info(`🔄 Scan Interval: ${config.priceUpdateInterval}ms`);
+      this.logger.info(`💰 Min Profit Threshold: ${config.minProfitThreshold}%`);
+      this.logger.info(`🎯 Monitored Pairs: ${config.monitoredPairs.join(', ')}`);
+      this.rule('\n' + '─'.repeat(60));
 
       await this.scanner.start();
 
+      if (process.env.METRICS_PORT) {
+        const metricsServer = await MetricsServer.start(defaultArbMetrics().registry, Number(process.env.METRICS_PORT));
+        this.logger.info(`📈 Metrics: ${metricsServer.url}`, { url: metricsServer.url });
+      }
+
+      // Hot-reload the config on file changes, SIGHUP or POST /reload
+      if (this.loaded.file) {
+        this.reloader.watch(this.loaded.file);
+        this.logger.info(`👀 Watching ${this.loaded.file} for config changes`, { file: this.loaded.file });
+      }
+      this.reloader.handleSignal('SIGHUP');
+      if (process.env.ADMIN_PORT) {
+        const adminServer = await AdminServer.start(this.reloader, Number(process.env.ADMIN_PORT), process.env.ADMIN_HOST || undefined, {
+          token: process.env.ADMIN_TOKEN || undefined
+        });
+        this.logger.info(`🔧 Admin API: ${adminServer.url} (GET /config, POST /reload)`, { url: adminServer.url });
+      }
+
       // Display running status
       setInterval(() => {
         const uptime = Math.floor((Date.now() - this.startTime) / 1000);
         const metrics = this.scanner.getMetrics();
         
-        console.log(`\n📈 Scanner Running - Uptime: ${uptime}s | Scans: ${metrics.totalScans} | Opportunities: ${metrics.opportunitiesFound}`);
+        this.logger.info(`\n📈 Scanner Running - Uptime: ${uptime}s | Scans: ${metrics.totalScans} | Opportunities: ${metrics.opportunitiesFound}`, {
+          uptime,
+          totalScans: metrics.totalScans,
+          opportunitiesFound: metrics.opportunitiesFound
+        });
       }, 30000); // Every 30 seconds
 
     } catch (error) {
-      console.error('💥 Failed to start scanner:', error);
+      this.logger.error('💥 Failed to start scanner:', { err: error });
       process.exit(1);
     }
   }
@@ -139,32 +192,73 @@ class SolanaArbitrageApp {
    * Stop the application
    */
   stop(): void {
-    console.log('⏹️  Stopping scanner...');
+    this.logger.info('⏹️  Stopping scanner...');
+    this.reloader.close();
     this.scanner.stop();
     
     const uptime = Math.floor((Date.now() - this.startTime) / 1000);
     const metrics = this.scanner.getMetrics();
     
-    console.log('\n📊 Final Statistics:');
-    console.log(`   Uptime: ${uptime} seconds`);
-    console.log(`   Total Scans: ${metrics.totalScans}`);
-    console.log(`   Opportunities Found: ${metrics.opportunitiesFound}`);
-    console.log(`   Average Profit: ${metrics.averageProfitPercentage.toFixed(2)}%`);
+    this.logger.info('\n📊 Final Statistics:', { uptime, totalScans: metrics.totalScans, opportunitiesFound: metrics.opportunitiesFound });
+    this.logger.info(`   Uptime: ${uptime} seconds`);
+    this.logger.info(`   Total Scans: ${metrics.totalScans}`);
+    this.logger.info(`   Opportunities Found: ${metrics.opportunitiesFound}`);
+    this.logger.info(`   Average Profit: ${metrics.averageProfitPercentage.toFixed(2)}%`);
     
     if (metrics.topOpportunity) {
-      console.log(`   Best Opportunity: ${metrics.topOpportunity.profitPercentage.toFixed(2)}% (${metrics.topOpportunity.tokenA.symbol}/${metrics.topOpportunity.tokenB.symbol})`);
+      this.logger.info(`   Best Opportunity: ${metrics.topOpportunity.profitPercentage.toFixed(2)}% (${metrics.topOpportunity.tokenA.symbol}/${metrics.topOpportunity.tokenB.symbol})`);
+    }
+
+    if (this.paperTrader) {
+      const summary = this.paperTrader.getSummary();
+      this.logger.info(`   Paper Trades: ${summary.filled} filled, ${summary.unwound} unwound, ${summary.failed} failed, ${summary.rejected} rejected`);
+      Object.entries(summary.pnlByToken).forEach(([token, pnl]) => {
+        this.logger.info(`   Paper PnL: ${pnl.toFixed(6)} ${token}`);
+      });
+      this.logger.info(`   Paper Gas: ${summary.gasCostSol.toFixed(4)} SOL`);
     }
     
-    console.log('\n👋 Scanner stopped. Goodbye!');
+    this.logger.info('\n👋 Scanner stopped. Goodbye!');
     process.exit(0);
   }
+
+  /**
+   * Banner and separator lines; pretty output only, as they carry nothing for JSON consumers
+   */
+  private rule(line: string): void {
+    if (this.logger.format === 'pretty') console.log(line);
+  }
+}
+
+/**
+ * ScannerConfig from the defaults, a config file, the environment and the command line
+ * (see "arb config --help" for the flags); --print-config prints it and exits. Also
+ * returns how to load it again, with the same flags, for hot reloads.
+ */
+function loadConfig(): { loaded: LoadedScannerConfig; load: () => LoadedScannerConfig } {
+  try {
+    const args = parseArgs(process.argv.slice(2), {
+      ...SCANNER_CONFIG_OPTIONS,
+      'print-config': { type: 'boolean', description: 'Print the effective config and exit' }
+    });
+    const loaded = scannerConfigFor(args);
+    if (flagOption(args, 'print-config')) {
+      console.log(formatScannerConfig(loaded).trimEnd());
+      process.exit(EXIT_CODES.ok);
+    }
+    return { loaded, load: () => scannerConfigFor(args) };
+  } catch (error) {
+    rootLogger().error(`💥 ${(error as Error).message}`);
+    process.exit(error instanceof UsageError ? EXIT_CODES.usage : EXIT_CODES.failed);
+  }
 }
 
 // Create and start the application
-const app = new SolanaArbitrageApp();
+const { loaded, load } = loadConfig();
+const app = new SolanaArbitrageApp(loaded, load);
 
 // Start the scanner
 app.start().catch((error) => {
-  console.error('💥 Application failed to start:', error);
+  rootLogger().error('💥 Application failed to start:', { err: error });
   process.exit(1);
 }); 
\ No newline at end of file
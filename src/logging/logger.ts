@@ -0,0 +1,169 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { LogLevel } from '../engine/profiles';
+
+export type Severity = 'debug' | 'info' | 'warn' | 'error';
+export type LogThreshold = Severity | 'silent';
+export type LogFormat = 'pretty' | 'json';
+
+/**
+ * Structured fields of a log line. `err` carries an error; correlation ids (scanId,
+ * requestId, pair) usually arrive through withLogContext() rather than being passed.
+ */
+export type LogFields = Record<string, unknown>;
+
+export interface LoggerOptions {
+  level?: LogThreshold;
+  format?: LogFormat;
+  fields?: LogFields; // Bound to every line of this logger and its children
+  write?: (line: string) => void; // JSON lines; defaults to stdout
+  now?: () => Date;
+}
+
+export const LOG_THRESHOLDS: LogThreshold[] = ['debug', 'info', 'warn', 'error', 'silent'];
+const RANK: Record<LogThreshold, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+// Leading emoji and spacing of the console messages, dropped from JSON `msg`
+const DECORATION = /^[\s\p{Extended_Pictographic}\u{FE0F}\u{200D}═]+/u;
+
+const context = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run `fn` with `fields` added to every line logged inside it, across awaits and by any logger
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+export function currentLogContext(): LogFields {
+  return { ...context.getStore() };
+}
+
+/**
+ * Logger threshold for a scan profile's log level: verbose shows debug detail, quiet only problems
+ */
+export function severityFor(logLevel: LogLevel): LogThreshold {
+  return { verbose: 'debug', normal: 'info', quiet: 'warn' }[logLevel] as LogThreshold;
+}
+
+/**
+ * Leveled logger writing either the familiar console messages (pretty) or one JSON object
+ * per line with the bound fields and the current log context (json)
+ */
+export class Logger {
+  readonly level: LogThreshold;
+  readonly format: LogFormat;
+  private fields: LogFields;
+  private write: (line: string) => void;
+  private now: () => Date;
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? 'info';
+    this.format = options.format ?? 'pretty';
+    this.fields = options.fields ?? {};
+    this.write = options.write ?? (line => process.stdout.write(`${line}\n`));
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Logger for a component or unit of work: same output, more bound fields, optionally another level
+   */
+  child(fields: LogFields, level: LogThreshold = this.level): Logger {
+    return new Logger({
+      level,
+      format: this.format,
+      fields: { ...this.fields, ...fields },
+      write: this.write,
+      now: this.now
+    });
+  }
+
+  isEnabled(severity: Severity): boolean {
+    return RANK[severity] >= RANK[this.level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(severity: Severity, message: string, fields: LogFields = {}): void {
+    if (!this.isEnabled(severity)) return;
+
+    if (this.format === 'pretty') {
+      const args = fields.err !== undefined ? [message, fields.err] : [message];
+      if (severity === 'error') console.error(...args);
+      else if (severity === 'warn') console.warn(...args);
+      else console.log(...args);
+      return;
+    }
+
+    const entry: LogFields = {
+      time: this.now().toISOString(),
+      level: severity,
+      msg: message.replace(DECORATION, '').replace(/:\s*$/, '').trim(),
+      ...this.fields,
+      ...context.getStore(),
+      ...fields
+    };
+    this.write(JSON.stringify(entry, jsonValue));
+  }
+}
+
+function jsonValue(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, ...(value.stack ? { stack: value.stack } : {}) };
+  }
+  if (typeof value === 'bigint') return value.toString();
+  return value;
+}
+
+let root: Logger | null = null;
+
+/**
+ * The process-wide logger, configured by LOG_LEVEL and LOG_FORMAT; components take children of it
+ */
+export function rootLogger(): Logger {
+  if (!root) root = loggerFromEnv();
+  return root;
+}
+
+/**
+ * Replace the process-wide logger, e.g. once the CLI has read its options
+ */
+export function setRootLogger(logger: Logger): void {
+  root = logger;
+}
+
+export function loggerFromEnv(env: NodeJS.ProcessEnv = process.env): Logger {
+  return new Logger({
+    level: toLogThreshold(env.LOG_LEVEL || 'info', 'LOG_LEVEL'),
+    format: toLogFormat(env.LOG_FORMAT || 'pretty', 'LOG_FORMAT')
+  });
+}
+
+export function toLogThreshold(value: string, source: string = 'log level'): LogThreshold {
+  const level = value.trim().toLowerCase() as LogThreshold;
+  if (!LOG_THRESHOLDS.includes(level)) {
+    throw new Error(`Unknown ${source} "${value}"; expected one of ${LOG_THRESHOLDS.join(', ')}`);
+  }
+  return level;
+}
+
+export function toLogFormat(value: string, source: string = 'log format'): LogFormat {
+  const format = value.trim().toLowerCase() as LogFormat;
+  if (format !== 'pretty' && format !== 'json') {
+    throw new Error(`Unknown ${source} "${value}"; expected pretty or json`);
+  }
+  return format;
+}
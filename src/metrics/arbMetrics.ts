@@ -0,0 +1,68 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from './registry';
+
+/**
+ * Every metric the scanners and the pool monitor export. Counters are totals since the
+ * process started and never reset; rates are left to the Prometheus queries.
+ */
+export interface ArbMetrics {
+  registry: MetricsRegistry;
+  scans: Counter; // scanner
+  scanDuration: Histogram; // scanner
+  pairScans: Counter; // scanner, pair, outcome: ok | failed
+  venueRequests: Counter; // scanner, venue, pair, outcome: success | error
+  venueLatency: Histogram; // scanner, venue, pair
+  opportunities: Counter; // scanner, pair, strategy
+  detectionLatency: Histogram; // scanner, pair; pool update received to opportunity recorded
+  records: Counter; // scanner
+  alerts: Counter; // scanner, sink, outcome
+  poolUpdates: Counter; // endpoint, dex, pool
+  connectionMessages: Counter; // endpoint
+  connectionErrors: Counter; // endpoint
+  connectionReconnects: Counter; // endpoint
+  connectionOpen: Gauge; // endpoint
+  subscribeLatency: Histogram; // endpoint; accountSubscribe request to confirmation
+}
+
+export function createArbMetrics(registry: MetricsRegistry = new MetricsRegistry()): ArbMetrics {
+  return {
+    registry,
+    scans: registry.counter('arb_scans_total', 'Scans completed', ['scanner']),
+    scanDuration: registry.histogram('arb_scan_duration_seconds', 'Time to quote and evaluate every pair of a scan', ['scanner'],
+      [1, 2.5, 5, 10, 30, 60, 120, 300]),
+    pairScans: registry.counter('arb_pair_scans_total', 'Pairs scanned, by whether quoting them failed', ['scanner', 'pair', 'outcome']),
+    venueRequests: registry.counter('arb_venue_requests_total', 'Quote requests to a venue', ['scanner', 'venue', 'pair', 'outcome']),
+    venueLatency: registry.histogram('arb_venue_request_duration_seconds', 'Quote request latency per venue and pair', ['scanner', 'venue', 'pair']),
+    opportunities: registry.counter('arb_opportunities_total', 'Opportunities detected', ['scanner', 'pair', 'strategy']),
+    detectionLatency: registry.histogram('arb_detection_latency_seconds', 'Pool update received to opportunity recorded', ['scanner', 'pair']),
+    records: registry.counter('arb_records_written_total', 'Scan records written', ['scanner']),
+    alerts: registry.counter('arb_alerts_total', 'Alert deliveries per sink, by outcome', ['scanner', 'sink', 'outcome']),
+    poolUpdates: registry.counter('arb_pool_updates_total', 'Account notifications that re-priced a pool', ['endpoint', 'dex', 'pool']),
+    connectionMessages: registry.counter('arb_ws_messages_total', 'WebSocket messages received', ['endpoint']),
+    connectionErrors: registry.counter('arb_ws_errors_total', 'WebSocket, subscription and decoding errors', ['endpoint']),
+    connectionReconnects: registry.counter('arb_ws_reconnects_total', 'WebSocket reconnect attempts', ['endpoint']),
+    connectionOpen: registry.gauge('arb_ws_connection_open', 'Whether the WebSocket to the endpoint is open', ['endpoint']),
+    subscribeLatency: registry.histogram('arb_ws_subscribe_duration_seconds', 'accountSubscribe request to confirmation', ['endpoint'])
+  };
+}
+
+let defaultMetrics: ArbMetrics | null = null;
+
+/**
+ * The process-wide metrics, shared by every engine and monitor not given their own
+ */
+export function defaultArbMetrics(): ArbMetrics {
+  if (!defaultMetrics) defaultMetrics = createArbMetrics();
+  return defaultMetrics;
+}
+
+/**
+ * An RPC endpoint as a label: API keys in the query string or path stay out of the metrics
+ */
+export function endpointLabel(endpoint: string): string {
+  try {
+    const url = new URL(endpoint);
+    return `${url.protocol}//${url.host}`;
+  } catch {
+    return 'invalid';
+  }
+}
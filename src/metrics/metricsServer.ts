@@ -0,0 +1,62 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { MetricsRegistry } from './registry';
+
+const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Serves a registry at GET /metrics for Prometheus to scrape; every other path is a 404
+ */
+export class MetricsServer {
+  private constructor(private server: http.Server, private registry: MetricsRegistry) {
+    this.server.on('request', (request, response) => this.handleRequest(request, response));
+  }
+
+  /**
+   * Listen on `port` (0 picks a free one); resolves once the socket is bound
+   */
+  static async start(registry: MetricsRegistry, port: number, host: string = '0.0.0.0'): Promise<MetricsServer> {
+    const server = http.createServer();
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.removeListener('error', reject);
+        resolve();
+      });
+    });
+    return new MetricsServer(server, registry);
+  }
+
+  get url(): string {
+    const { address, port } = this.server.address() as AddressInfo;
+    return `http://${address === '0.0.0.0' || address === '::' ? '127.0.0.1' : address}:${port}/metrics`;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const path = (request.url || '/').split('?')[0];
+    if (path !== '/metrics') {
+      response.writeHead(404, { 'Content-Type': 'text/plain' });
+      response.end('Not found; metrics are served at /metrics\n');
+      return;
+    }
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.writeHead(405, { Allow: 'GET, HEAD' });
+      response.end();
+      return;
+    }
+
+    try {
+      const body = this.registry.render();
+      response.writeHead(200, { 'Content-Type': CONTENT_TYPE });
+      response.end(request.method === 'HEAD' ? undefined : body);
+    } catch (error) {
+      response.writeHead(500, { 'Content-Type': 'text/plain' });
+      response.end(`${(error as Error).message}\n`);
+    }
+  }
+}
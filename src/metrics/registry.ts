@@ -0,0 +1,216 @@
+export type Labels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: MetricType;
+  samples(): string[];
+}
+
+/**
+ * Upper bounds in seconds for request and detection latencies: 5ms to 30s
+ */
+export const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Series of one metric keyed by their label values, in the metric's label order
+ */
+abstract class LabeledMetric<T> implements Metric {
+  abstract readonly type: MetricType;
+  protected series: Map<string, { labels: Labels; value: T }> = new Map();
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: string[]) {
+    if (!METRIC_NAME.test(name)) throw new Error(`Invalid metric name "${name}"`);
+    const invalid = labelNames.find(label => !LABEL_NAME.test(label) || label === 'le');
+    if (invalid !== undefined) throw new Error(`Invalid label name "${invalid}" for metric ${name}`);
+  }
+
+  abstract samples(): string[];
+
+  protected entry(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    const key = this.key(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: Object.fromEntries(this.labelNames.map(label => [label, labels[label]])), value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected find(labels: Labels): T | undefined {
+    return this.series.get(this.key(labels))?.value;
+  }
+
+  private key(labels: Labels): string {
+    const unknown = Object.keys(labels).filter(label => !this.labelNames.includes(label));
+    const missing = this.labelNames.filter(label => labels[label] === undefined);
+    if (unknown.length > 0 || missing.length > 0) {
+      throw new Error(`Metric ${this.name} takes labels ${this.labelNames.join(', ') || '(none)'}, got ${Object.keys(labels).join(', ') || '(none)'}`);
+    }
+    return this.labelNames.map(label => labels[label]).join('\u0000');
+  }
+}
+
+/**
+ * Monotonic total; only ever increases for the life of the process
+ */
+export class Counter extends LabeledMetric<number> {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    if (amount < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.find(labels) ?? 0;
+  }
+
+  samples(): string[] {
+    return Array.from(this.series.values(), ({ labels, value }) => sample(this.name, labels, value));
+  }
+}
+
+/**
+ * Current value that may go up and down, e.g. open connections
+ */
+export class Gauge extends LabeledMetric<number> {
+  readonly type = 'gauge';
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.find(labels) ?? 0;
+  }
+
+  /**
+   * Forget every series, for gauges rebuilt from current state on each scrape
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  samples(): string[] {
+    return Array.from(this.series.values(), ({ labels, value }) => sample(this.name, labels, value));
+  }
+}
+
+interface HistogramValue {
+  buckets: number[]; // Non-cumulative counts per upper bound
+  sum: number;
+  count: number;
+}
+
+/**
+ * Observations counted into cumulative buckets, exposed with _bucket, _sum and _count series
+ */
+export class Histogram extends LabeledMetric<HistogramValue> {
+  readonly type = 'histogram';
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[] = LATENCY_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.entry(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index >= 0) entry.buckets[index]++;
+    entry.sum += value;
+    entry.count++;
+  }
+
+  get(labels: Labels = {}): { sum: number; count: number } {
+    const value = this.find(labels);
+    return { sum: value?.sum ?? 0, count: value?.count ?? 0 };
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += value.buckets[i];
+        lines.push(sample(`${this.name}_bucket`, { ...labels, le: String(bound) }, cumulative));
+      });
+      lines.push(sample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, value.count));
+      lines.push(sample(`${this.name}_sum`, labels, value.sum));
+      lines.push(sample(`${this.name}_count`, labels, value.count));
+    }
+    return lines;
+  }
+}
+
+/**
+ * Named metrics rendered together in the Prometheus text exposition format (0.0.4).
+ * Collectors run before every render so gauges can mirror state owned elsewhere.
+ */
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+  private collectors: Array<() => void> = [];
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Run `collect` before every render; returns a function that removes it
+   */
+  addCollector(collect: () => void): () => void {
+    this.collectors.push(collect);
+    return () => {
+      this.collectors = this.collectors.filter(candidate => candidate !== collect);
+    };
+  }
+
+  render(): string {
+    this.collectors.forEach(collect => collect());
+
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.samples());
+    }
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const pairs = Object.entries(labels).map(([label, labelValue]) => `${label}="${escapeLabelValue(labelValue)}"`);
+  return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${formatValue(value)}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  return String(value);
+}
@@ -0,0 +1,47 @@
+import * as path from 'path';
+import { migrateRecordFiles } from './records/legacyConverter';
+import { RecordFormat, toRecordFormat } from './records/recordWriter';
+
+/**
+ * Rewrite the scanner CSVs in data/ (or the given files) in the shared record schema
+ *
+ * Usage: npm run migrate-records -- [paths...] [--out data/migrated] [--format csv|jsonl|parquet]
+ */
+async function main(argv: string[]): Promise<void> {
+  const paths: string[] = [];
+  const dataDir = path.join(__dirname, '..', 'data');
+  let outDir = path.join(dataDir, 'migrated');
+  let format: RecordFormat = 'csv';
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--out': outDir = path.resolve(value()); break;
+      case '--format': format = toRecordFormat(value()); break;
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+        paths.push(arg);
+    }
+  }
+
+  const results = await migrateRecordFiles(paths.length > 0 ? paths : [dataDir], outDir, format);
+
+  for (const result of results) {
+    const skipped = result.skippedRows > 0 ? `, ${result.skippedRows} rows skipped` : '';
+    console.log(`✅ ${path.basename(result.input)} (${result.scanner}, ${result.layout}) → ${result.output}: ${result.records.length} records${skipped}`);
+  }
+  console.log(`📁 Migrated ${results.length} files to ${outDir}`);
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).catch(error => {
+    console.error('❌ Migration failed:', (error as Error).message);
+    process.exit(1);
+  });
+}
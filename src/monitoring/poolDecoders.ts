@@ -0,0 +1,147 @@
+import { PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { PoolDex } from '../config/pools';
+import { decodeTokenAccountAmount } from '../dex/accounts';
+import { decodeLbPair, getPriceX64FromBinId } from '../dex/meteoraDlmm';
+import { decodeWhirlpool } from '../dex/orcaWhirlpool';
+import { decodePhoenixMarket, getLiquidityDepth } from '../dex/phoenix';
+import { decodeRaydiumAmmPool } from '../dex/raydiumAmm';
+import { fromRawAmount, getTokenByMint } from '../utils/tokenUtils';
+
+/**
+ * Spot state of a pool in its own token order (base/quote, A/B or X/Y)
+ */
+export interface PoolSnapshot {
+  baseMint: PublicKey;
+  quoteMint: PublicKey;
+  price: Decimal; // Quote per base, UI units
+  baseAmount: Decimal;
+  quoteAmount: Decimal;
+}
+
+/**
+ * How to price a pool from the raw data of the accounts it is spread over
+ */
+export interface PoolAccountDecoder {
+  name: string;
+  // Accounts whose changes move the price, the pool account itself first
+  watchedAccounts(address: PublicKey, poolData: Buffer): PublicKey[];
+  decode(address: PublicKey, accounts: Map<string, Buffer>): PoolSnapshot;
+}
+
+const Q64 = new Decimal(2).pow(64);
+
+function requireAccount(accounts: Map<string, Buffer>, address: PublicKey): Buffer {
+  const data = accounts.get(address.toBase58());
+  if (!data) {
+    throw new Error(`Account data missing for ${address.toBase58()}`);
+  }
+  return data;
+}
+
+function requireDecimals(mint: PublicKey): number {
+  const token = getTokenByMint(mint);
+  if (!token) {
+    throw new Error(`Unknown mint ${mint.toBase58()}`);
+  }
+  return token.decimals;
+}
+
+const raydiumDecoder: PoolAccountDecoder = {
+  name: 'Raydium',
+  watchedAccounts(address, poolData) {
+    const state = decodeRaydiumAmmPool(poolData);
+    return [address, state.baseVault, state.quoteVault];
+  },
+  decode(address, accounts) {
+    const state = decodeRaydiumAmmPool(requireAccount(accounts, address));
+    const baseReserve = decodeTokenAccountAmount(requireAccount(accounts, state.baseVault)) - state.baseNeedTakePnl;
+    const quoteReserve = decodeTokenAccountAmount(requireAccount(accounts, state.quoteVault)) - state.quoteNeedTakePnl;
+    const baseAmount = fromRawAmount(baseReserve.toString(), state.baseDecimal);
+    const quoteAmount = fromRawAmount(quoteReserve.toString(), state.quoteDecimal);
+
+    return {
+      baseMint: state.baseMint,
+      quoteMint: state.quoteMint,
+      price: baseAmount.gt(0) ? quoteAmount.div(baseAmount) : new Decimal(0),
+      baseAmount,
+      quoteAmount
+    };
+  }
+};
+
+const orcaDecoder: PoolAccountDecoder = {
+  name: 'Orca',
+  watchedAccounts(address, poolData) {
+    const state = decodeWhirlpool(poolData);
+    return [address, state.tokenVaultA, state.tokenVaultB];
+  },
+  decode(address, accounts) {
+    const state = decodeWhirlpool(requireAccount(accounts, address));
+    const decimalsA = requireDecimals(state.tokenMintA);
+    const decimalsB = requireDecimals(state.tokenMintB);
+    const sqrtPrice = new Decimal(state.sqrtPriceX64.toString()).div(Q64);
+
+    return {
+      baseMint: state.tokenMintA,
+      quoteMint: state.tokenMintB,
+      price: sqrtPrice.pow(2).mul(new Decimal(10).pow(decimalsA - decimalsB)),
+      baseAmount: fromRawAmount(decodeTokenAccountAmount(requireAccount(accounts, state.tokenVaultA)).toString(), decimalsA),
+      quoteAmount: fromRawAmount(decodeTokenAccountAmount(requireAccount(accounts, state.tokenVaultB)).toString(), decimalsB)
+    };
+  }
+};
+
+const phoenixDecoder: PoolAccountDecoder = {
+  name: 'Phoenix',
+  // Resting orders live in the market account; the clock is not watched, so expiry is ignored
+  watchedAccounts(address) {
+    return [address];
+  },
+  decode(address, accounts) {
+    const market = decodePhoenixMarket(address, requireAccount(accounts, address));
+    const depth = getLiquidityDepth(market, 1);
+    const bestBid = depth.bids[0]?.price;
+    const bestAsk = depth.asks[0]?.price;
+    const price = bestBid && bestAsk
+      ? bestBid.add(bestAsk).div(2)
+      : bestBid || bestAsk || new Decimal(0);
+
+    return {
+      baseMint: market.state.baseMint,
+      quoteMint: market.state.quoteMint,
+      price,
+      baseAmount: depth.totalAskLiquidity,
+      quoteAmount: depth.totalBidLiquidity.mul(bestBid || 0)
+    };
+  }
+};
+
+const meteoraDecoder: PoolAccountDecoder = {
+  name: 'Meteora',
+  watchedAccounts(address, poolData) {
+    const state = decodeLbPair(poolData);
+    return [address, state.reserveX, state.reserveY];
+  },
+  decode(address, accounts) {
+    const state = decodeLbPair(requireAccount(accounts, address));
+    const decimalsX = requireDecimals(state.tokenXMint);
+    const decimalsY = requireDecimals(state.tokenYMint);
+    const activePrice = new Decimal(getPriceX64FromBinId(state.activeId, state.binStep).toString()).div(Q64);
+
+    return {
+      baseMint: state.tokenXMint,
+      quoteMint: state.tokenYMint,
+      price: activePrice.mul(new Decimal(10).pow(decimalsX - decimalsY)),
+      baseAmount: fromRawAmount(decodeTokenAccountAmount(requireAccount(accounts, state.reserveX)).toString(), decimalsX),
+      quoteAmount: fromRawAmount(decodeTokenAccountAmount(requireAccount(accounts, state.reserveY)).toString(), decimalsY)
+    };
+  }
+};
+
+export const POOL_ACCOUNT_DECODERS: Record<PoolDex, PoolAccountDecoder> = {
+  raydium: raydiumDecoder,
+  orca: orcaDecoder,
+  phoenix: phoenixDecoder,
+  meteora: meteoraDecoder
+};
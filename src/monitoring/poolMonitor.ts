@@ -1,6 +1,14 @@
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
 import Decimal from 'decimal.js';
+import { Commitment, Connection, PublicKey } from '@solana/web3.js';
+import { defaultConfig } from '../config/config';
+import { PoolDex } from '../config/pools';
+import { AccountFetcher, fetchAccountData } from '../dex/accounts';
+import { Logger, rootLogger } from '../logging/logger';
+import { ArbMetrics, defaultArbMetrics, endpointLabel } from '../metrics/arbMetrics';
+import { getTokenBySymbol } from '../utils/tokenUtils';
+import { POOL_ACCOUNT_DECODERS, PoolAccountDecoder } from './poolDecoders';
 
 // Types for real-time pool monitoring
 export interface PoolUpdate {
@@ -26,70 +34,84 @@ export interface PoolSubscription {
   reconnectAttempts: number;
 }
 
-export interface DEXWebSocketConfig {
-  endpoint: string;
-  messageParser: (data: any) => PoolUpdate | null;
-  subscriptionMessage: (poolAddress: string) => string;
+export interface PoolMonitorOptions {
+  wsEndpoint?: string; // Defaults to ScannerConfig.rpcWsEndpoint
+  wsEndpoints?: string[]; // Spread pools over several endpoints, one connection each
+  fetcher?: AccountFetcher; // Initial account snapshots; defaults to an RPC connection
+  commitment?: Commitment;
   heartbeatInterval?: number;
   reconnectDelay?: number;
+  handleSignals?: boolean; // Shut down on SIGINT/SIGTERM
+  metrics?: ArbMetrics; // Defaults to the process-wide metrics
+  logger?: Logger; // Defaults to a 'monitor' child of the root logger
 }
 
-// DEX WebSocket endpoint configurations
-const DEX_WEBSOCKET_ENDPOINTS: Record<string, DEXWebSocketConfig> = {
-  raydium: {
-    endpoint: 'wss://api.raydium.io/v2/ws',
-    messageParser: parseRaydiumUpdate,
-    subscriptionMessage: (pool) => JSON.stringify({
-      method: 'subscribe',
-      params: ['poolUpdate', pool]
-    }),
-    heartbeatInterval: 30000,
-    reconnectDelay: 5000
-  },
-  orca: {
-    endpoint: 'wss://api.orca.so/v1/ws',
-    messageParser: parseOrcaUpdate,
-    subscriptionMessage: (pool) => JSON.stringify({
-      type: 'subscribe',
-      channel: 'pool_updates',
-      pool: pool
-    }),
-    heartbeatInterval: 25000,
-    reconnectDelay: 3000
-  },
-  jupiter: {
-    endpoint: 'wss://price-api.jup.ag/v1/ws',
-    messageParser: parseJupiterUpdate,
-    subscriptionMessage: (pool) => JSON.stringify({
-      op: 'subscribe',
-      topics: [`pool.${pool}`]
-    }),
-    heartbeatInterval: 20000,
-    reconnectDelay: 2000
-  },
-  phoenix: {
-    endpoint: 'wss://api.phoenix.trade/ws',
-    messageParser: parsePhoenixUpdate,
-    subscriptionMessage: (pool) => JSON.stringify({
-      method: 'SUBSCRIBE',
-      params: [pool],
-      id: 1
-    }),
-    heartbeatInterval: 35000,
-    reconnectDelay: 4000
-  }
-};
+export interface ConnectionStats {
+  endpoint: string;
+  isOpen: boolean;
+  pools: number;
+  accountSubscriptions: number; // Confirmed by the node
+  messagesReceived: number;
+  reconnectAttempts: number;
+}
+
+/**
+ * Latest data for every account a pool is spread over
+ */
+interface PoolStream {
+  endpoint: string;
+  address: PublicKey;
+  decoder: PoolAccountDecoder;
+  watchedAccounts: PublicKey[];
+  accounts: Map<string, Buffer>;
+  notifications: number;
+}
+
+/**
+ * Which pool and account an RPC request or subscription id belongs to
+ */
+interface SubscriptionRoute {
+  subscriptionKey: string;
+  account: string;
+  requestedAt: number; // When accountSubscribe was sent
+  cancelled?: boolean; // Pool unsubscribed before the node confirmed; unsubscribe on confirmation
+}
+
+/**
+ * One WebSocket to an RPC endpoint, shared by every pool assigned to it
+ */
+interface RpcConnection {
+  endpoint: string;
+  ws: WebSocket | null;
+  isOpen: boolean;
+  pendingRequests: Map<number, SubscriptionRoute>; // accountSubscribe request id -> route
+  routes: Map<number, SubscriptionRoute>; // RPC subscription id -> route
+  pools: Set<string>;
+  messagesReceived: number;
+  reconnectAttempts: number;
+  heartbeat: NodeJS.Timeout | null;
+  reconnectTimeout: NodeJS.Timeout | null;
+}
 
 /**
- * Real-Time Pool Monitor with WebSocket Subscriptions
- * Provides live pool data for enhanced arbitrage detection
+ * Real-Time Pool Monitor over Solana JSON-RPC account subscriptions
+ * Watches each pool's state and vault accounts and re-prices the pool on every change.
+ * Pools share one multiplexed connection per endpoint.
  */
 export class PoolMonitor extends EventEmitter {
-  private subscriptions: Map<string, WebSocket> = new Map();
+  private connections: Map<string, RpcConnection> = new Map();
   private poolSubscriptions: Map<string, PoolSubscription> = new Map();
-  private heartbeatIntervals: Map<string, NodeJS.Timeout> = new Map();
-  private reconnectTimeouts: Map<string, NodeJS.Timeout> = new Map();
+  private poolStreams: Map<string, PoolStream> = new Map();
   private isShuttingDown: boolean = false;
+  private requestCounter: number = 0;
+  private wsEndpoints: string[];
+  private fetcher: AccountFetcher;
+  private commitment: Commitment;
+  private heartbeatInterval: number;
+  private reconnectDelay: number;
+  private signalHandler: (() => void) | null = null;
+  private metrics: ArbMetrics;
+  private logger: Logger;
   private stats = {
     totalSubscriptions: 0,
     activeConnections: 0,
@@ -98,9 +120,21 @@ export class PoolMonitor extends EventEmitter {
     errors: 0
   };
 
-  constructor() {
+  constructor(options: PoolMonitorOptions = {}) {
     super();
-    this.setupGracefulShutdown();
+    this.wsEndpoints = options.wsEndpoints && options.wsEndpoints.length > 0
+      ? options.wsEndpoints
+      : [options.wsEndpoint || defaultConfig.rpcWsEndpoint];
+    this.commitment = options.commitment || 'confirmed';
+    this.fetcher = options.fetcher || new Connection(defaultConfig.rpcEndpoint, this.commitment);
+    this.heartbeatInterval = options.heartbeatInterval ?? 30000;
+    this.reconnectDelay = options.reconnectDelay ?? 5000;
+    this.metrics = options.metrics ?? defaultArbMetrics();
+    this.logger = options.logger ?? rootLogger().child({ component: 'monitor' });
+
+    if (options.handleSignals !== false) {
+      this.setupGracefulShutdown();
+    }
   }
 
   /**
@@ -115,22 +149,27 @@ export class PoolMonitor extends EventEmitter {
     const subscriptionKey = `${dex}_${poolAddress}`;
     
     if (this.poolSubscriptions.has(subscriptionKey)) {
-      console.log(`📡 Already subscribed to ${dex} pool ${poolAddress}`);
+      this.logger.debug(`📡 Already subscribed to ${dex} pool ${poolAddress}`, { dex, pool: poolAddress });
       return;
     }
 
-    const config = DEX_WEBSOCKET_ENDPOINTS[dex.toLowerCase()];
-    if (!config) {
-      throw new Error(`Unsupported DEX for WebSocket monitoring: ${dex}`);
+    const decoder = POOL_ACCOUNT_DECODERS[dex.toLowerCase() as PoolDex];
+    if (!decoder) {
+      throw new Error(`Unsupported DEX for account monitoring: ${dex}`);
     }
 
-    console.log(`🔌 Subscribing to ${dex} pool: ${poolAddress}`);
+    this.logger.info(`🔌 Subscribing to ${dex} pool: ${poolAddress}`, { dex, pool: poolAddress });
 
     try {
-      const ws = new WebSocket(config.endpoint);
-      
+      const snapshot = await this.loadPoolSnapshot(new PublicKey(poolAddress), decoder);
+
+      // A concurrent call may have won the race while the snapshot loaded
+      if (this.poolSubscriptions.has(subscriptionKey)) return;
+
+      const stream: PoolStream = { ...snapshot, endpoint: this.selectEndpoint() };
+
       // Store subscription info
-      this.poolSubscriptions.set(subscriptionKey, {
+      const subscription: PoolSubscription = {
         poolAddress,
         dex,
         baseToken,
@@ -138,14 +177,20 @@ export class PoolMonitor extends EventEmitter {
         isActive: false,
         lastUpdate: 0,
         reconnectAttempts: 0
-      });
+      };
+      this.poolSubscriptions.set(subscriptionKey, subscription);
+      this.poolStreams.set(subscriptionKey, stream);
+
+      const connection = this.getConnection(stream.endpoint);
+      connection.pools.add(subscriptionKey);
+      if (connection.isOpen) {
+        this.activatePool(connection, subscriptionKey);
+      }
 
-      this.setupWebSocketHandlers(ws, subscriptionKey, config);
-      this.subscriptions.set(subscriptionKey, ws);
       this.stats.totalSubscriptions++;
 
     } catch (error) {
-      console.error(`❌ Failed to subscribe to ${dex} pool ${poolAddress}:`, error);
+      this.logger.error(`❌ Failed to subscribe to ${dex} pool ${poolAddress}:`, { dex, pool: poolAddress, err: error });
       this.stats.errors++;
       throw error;
     }
@@ -156,18 +201,31 @@ export class PoolMonitor extends EventEmitter {
    */
   unsubscribeFromPool(poolAddress: string, dex: string): void {
     const subscriptionKey = `${dex}_${poolAddress}`;
-    
-    const ws = this.subscriptions.get(subscriptionKey);
-    if (ws) {
-      ws.close();
-      this.subscriptions.delete(subscriptionKey);
+    const stream = this.poolStreams.get(subscriptionKey);
+    const connection = stream && this.connections.get(stream.endpoint);
+
+    if (connection) {
+      connection.pools.delete(subscriptionKey);
+
+      connection.pendingRequests.forEach(route => {
+        if (route.subscriptionKey === subscriptionKey) route.cancelled = true;
+      });
+      connection.routes.forEach((route, subscriptionId) => {
+        if (route.subscriptionKey !== subscriptionKey) return;
+        connection.routes.delete(subscriptionId);
+        this.sendRequest(connection, 'accountUnsubscribe', [subscriptionId]);
+      });
+
+      // Nothing left to multiplex on this endpoint
+      if (connection.pools.size === 0) {
+        this.closeConnection(connection);
+      }
     }
 
     this.poolSubscriptions.delete(subscriptionKey);
-    this.clearHeartbeat(subscriptionKey);
-    this.clearReconnectTimeout(subscriptionKey);
+    this.poolStreams.delete(subscriptionKey);
 
-    console.log(`🔌 Unsubscribed from ${dex} pool ${poolAddress}`);
+    this.logger.info(`🔌 Unsubscribed from ${dex} pool ${poolAddress}`, { dex, pool: poolAddress });
   }
 
   /**
@@ -179,170 +237,374 @@ export class PoolMonitor extends EventEmitter {
     baseToken: string;
     quoteToken: string;
   }>): Promise<void> {
-    console.log(`📡 Subscribing to ${pools.length} pools simultaneously...`);
+    this.logger.info(`📡 Subscribing to ${pools.length} pools simultaneously...`, { pools: pools.length });
     
     const subscriptionPromises = pools.map(pool =>
       this.subscribeToPool(pool.address, pool.dex, pool.baseToken, pool.quoteToken)
+        .then(() => true)
         .catch(error => {
-          console.error(`Failed to subscribe to ${pool.dex} pool ${pool.address}:`, error);
-          return null;
+          this.logger.error(`Failed to subscribe to ${pool.dex} pool ${pool.address}:`, { dex: pool.dex, pool: pool.address, err: error });
+          return false;
         })
     );
 
-    const results = await Promise.allSettled(subscriptionPromises);
-    const successful = results.filter(r => r.status === 'fulfilled').length;
+    const results = await Promise.all(subscriptionPromises);
+    const successful = results.filter(Boolean).length;
     
-    console.log(`✅ Successfully subscribed to ${successful}/${pools.length} pools`);
+    this.logger.info(`✅ Successfully subscribed to ${successful}/${pools.length} pools`, { subscribed: successful, pools: pools.length });
   }
 
   /**
-   * Setup WebSocket event handlers
+   * Endpoint currently carrying the fewest pools
+   */
+  private selectEndpoint(): string {
+    const load = (endpoint: string) => this.connections.get(endpoint)?.pools.size || 0;
+    return this.wsEndpoints.reduce((best, endpoint) => load(endpoint) < load(best) ? endpoint : best);
+  }
+
+  /**
+   * Snapshot the pool and the accounts it depends on; notifications only carry changes
    */
-  private setupWebSocketHandlers(
-    ws: WebSocket, 
-    subscriptionKey: string, 
-    config: DEXWebSocketConfig
-  ): void {
-    const subscription = this.poolSubscriptions.get(subscriptionKey)!;
+  private async loadPoolSnapshot(address: PublicKey, decoder: PoolAccountDecoder): Promise<Omit<PoolStream, 'endpoint'>> {
+    const [poolData] = await fetchAccountData(this.fetcher, [address]);
+    const watchedAccounts = decoder.watchedAccounts(address, poolData);
+    const dependentData = await fetchAccountData(this.fetcher, watchedAccounts.slice(1));
 
+    const accounts = new Map<string, Buffer>([[address.toBase58(), poolData]]);
+    watchedAccounts.slice(1).forEach((account, i) => accounts.set(account.toBase58(), dependentData[i]));
+
+    // Fail fast if the snapshot cannot be priced
+    decoder.decode(address, accounts);
+
+    return {
+      address,
+      decoder,
+      watchedAccounts,
+      accounts,
+      notifications: 0
+    };
+  }
+
+  /**
+   * Shared connection for an endpoint, opened on first use
+   */
+  private getConnection(endpoint: string): RpcConnection {
+    let connection = this.connections.get(endpoint);
+    if (!connection) {
+      connection = {
+        endpoint,
+        ws: null,
+        isOpen: false,
+        pendingRequests: new Map(),
+        routes: new Map(),
+        pools: new Set(),
+        messagesReceived: 0,
+        reconnectAttempts: 0,
+        heartbeat: null,
+        reconnectTimeout: null
+      };
+      this.connections.set(endpoint, connection);
+      this.connect(connection);
+    }
+    return connection;
+  }
+
+  /**
+   * Open the WebSocket for a connection
+   */
+  private connect(connection: RpcConnection): void {
+    const ws = new WebSocket(connection.endpoint);
+    connection.ws = ws;
+    this.setupWebSocketHandlers(ws, connection);
+  }
+
+  /**
+   * Setup WebSocket event handlers
+   */
+  private setupWebSocketHandlers(ws: WebSocket, connection: RpcConnection): void {
     ws.on('open', () => {
-      console.log(`✅ Connected to ${subscription.dex} WebSocket`);
+      this.logger.info(`✅ Connected to RPC WebSocket ${connection.endpoint} (${connection.pools.size} pools)`, this.endpointLabels(connection.endpoint));
       
-      // Send subscription message
-      const subscriptionMsg = config.subscriptionMessage(subscription.poolAddress);
-      ws.send(subscriptionMsg);
-      
-      subscription.isActive = true;
-      subscription.reconnectAttempts = 0;
+      connection.isOpen = true;
+      connection.reconnectAttempts = 0;
       this.stats.activeConnections++;
+      this.metrics.connectionOpen.set(this.endpointLabels(connection.endpoint), 1);
       
       // Setup heartbeat
-      this.setupHeartbeat(subscriptionKey, config);
-      
-      this.emit('connected', {
-        dex: subscription.dex,
-        pool: subscription.poolAddress
-      });
+      this.setupHeartbeat(connection);
+
+      // Subscription ids do not survive a reconnect, so every pool subscribes afresh
+      connection.pools.forEach(subscriptionKey => this.activatePool(connection, subscriptionKey));
     });
 
     ws.on('message', (data: Buffer) => {
       try {
-        const rawData = data.toString();
-        const parsedData = JSON.parse(rawData);
-        
-        const poolUpdate = config.messageParser(parsedData);
-        if (poolUpdate) {
-          subscription.lastUpdate = Date.now();
-          this.stats.messagesReceived++;
-          
-          this.emit('priceUpdate', poolUpdate);
-          this.emit(`update_${subscriptionKey}`, poolUpdate);
-        }
+        this.handleRpcMessage(connection, JSON.parse(data.toString()));
       } catch (error) {
-        console.error(`Error parsing message from ${subscription.dex}:`, error);
-        this.stats.errors++;
+        this.logger.error(`Error parsing message from ${connection.endpoint}:`, { ...this.endpointLabels(connection.endpoint), err: error });
+        this.recordError(connection.endpoint);
       }
     });
 
     ws.on('close', (code, reason) => {
-      console.log(`🔌 Connection closed to ${subscription.dex}: ${code} ${reason}`);
-      
-      subscription.isActive = false;
-      this.stats.activeConnections = Math.max(0, this.stats.activeConnections - 1);
-      this.clearHeartbeat(subscriptionKey);
+      this.logger.warn(`🔌 Connection closed to ${connection.endpoint}: ${code} ${reason}`, { ...this.endpointLabels(connection.endpoint), code });
       
-      this.emit('disconnected', {
-        dex: subscription.dex,
-        pool: subscription.poolAddress,
-        code,
-        reason: reason.toString()
+      if (connection.isOpen) {
+        this.stats.activeConnections = Math.max(0, this.stats.activeConnections - 1);
+      }
+      connection.isOpen = false;
+      this.metrics.connectionOpen.set(this.endpointLabels(connection.endpoint), 0);
+      connection.ws = null;
+      connection.pendingRequests.clear();
+      connection.routes.clear();
+      this.clearHeartbeat(connection);
+
+      connection.pools.forEach(subscriptionKey => {
+        const subscription = this.poolSubscriptions.get(subscriptionKey);
+        if (!subscription) return;
+
+        subscription.isActive = false;
+        this.emit('disconnected', {
+          dex: subscription.dex,
+          pool: subscription.poolAddress,
+          code,
+          reason: reason.toString()
+        });
       });
 
       // Attempt reconnection if not shutting down
-      if (!this.isShuttingDown && subscription.reconnectAttempts < 5) {
-        this.scheduleReconnect(subscriptionKey, config);
+      if (!this.isShuttingDown && connection.pools.size > 0 && connection.reconnectAttempts < 5) {
+        this.scheduleReconnect(connection);
       }
     });
 
     ws.on('error', (error) => {
-      console.error(`❌ WebSocket error for ${subscription.dex}:`, error);
-      this.stats.errors++;
+      this.logger.error(`❌ WebSocket error for ${connection.endpoint}:`, { ...this.endpointLabels(connection.endpoint), err: error });
+      this.recordError(connection.endpoint);
       
+      connection.pools.forEach(subscriptionKey => {
+        const subscription = this.poolSubscriptions.get(subscriptionKey);
+        if (!subscription) return;
+
+        this.emit('error', {
+          dex: subscription.dex,
+          pool: subscription.poolAddress,
+          error: error.message
+        });
+      });
+    });
+  }
+
+  /**
+   * Subscribe to a pool's accounts on an open connection and mark it live
+   */
+  private activatePool(connection: RpcConnection, subscriptionKey: string): void {
+    const subscription = this.poolSubscriptions.get(subscriptionKey);
+    const stream = this.poolStreams.get(subscriptionKey);
+    if (!subscription || !stream) return;
+
+    for (const account of stream.watchedAccounts) {
+      const id = this.sendRequest(connection, 'accountSubscribe', [
+        account.toBase58(),
+        { encoding: 'base64', commitment: this.commitment }
+      ]);
+      connection.pendingRequests.set(id, { subscriptionKey, account: account.toBase58(), requestedAt: Date.now() });
+    }
+
+    subscription.isActive = true;
+    subscription.reconnectAttempts = 0;
+
+    this.emit('connected', {
+      dex: subscription.dex,
+      pool: subscription.poolAddress
+    });
+  }
+
+  /**
+   * Send a JSON-RPC request and return its id
+   */
+  private sendRequest(connection: RpcConnection, method: string, params: unknown[]): number {
+    const id = ++this.requestCounter;
+    if (connection.ws && connection.ws.readyState === WebSocket.OPEN) {
+      connection.ws.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+    }
+    return id;
+  }
+
+  /**
+   * Route subscription confirmations and account notifications to their pools
+   */
+  private handleRpcMessage(connection: RpcConnection, message: any): void {
+    connection.messagesReceived++;
+    this.metrics.connectionMessages.inc(this.endpointLabels(connection.endpoint));
+
+    // Response to one of our accountSubscribe requests
+    if (message.id !== undefined && connection.pendingRequests.has(message.id)) {
+      const route = connection.pendingRequests.get(message.id)!;
+      connection.pendingRequests.delete(message.id);
+
+      // The pool went away while this was in flight; cancel the node-side subscription too
+      if (route.cancelled) {
+        if (!message.error) this.sendRequest(connection, 'accountUnsubscribe', [message.result]);
+        return;
+      }
+
+      if (message.error) {
+        const subscription = this.poolSubscriptions.get(route.subscriptionKey);
+        this.recordError(connection.endpoint);
+        this.emit('error', {
+          dex: subscription?.dex,
+          pool: subscription?.poolAddress,
+          error: `accountSubscribe failed for ${route.account}: ${message.error.message}`
+        });
+        return;
+      }
+
+      connection.routes.set(message.result, route);
+      this.metrics.subscribeLatency.observe(this.endpointLabels(connection.endpoint), (Date.now() - route.requestedAt) / 1000);
+      return;
+    }
+
+    if (message.method !== 'accountNotification') return;
+
+    const route = connection.routes.get(message.params?.subscription);
+    const subscription = route && this.poolSubscriptions.get(route.subscriptionKey);
+    const stream = route && this.poolStreams.get(route.subscriptionKey);
+    if (!route || !subscription || !stream) return;
+
+    const [encoded] = message.params.result.value.data;
+    stream.accounts.set(route.account, Buffer.from(encoded, 'base64'));
+    stream.notifications++;
+    this.stats.messagesReceived++;
+
+    const poolUpdate = this.buildPoolUpdate(subscription, stream);
+    if (poolUpdate) {
+      subscription.lastUpdate = Date.now();
+      this.metrics.poolUpdates.inc({ ...this.endpointLabels(connection.endpoint), dex: subscription.dex, pool: subscription.poolAddress });
+      this.emit('priceUpdate', poolUpdate);
+      this.emit(`update_${route.subscriptionKey}`, poolUpdate);
+    }
+  }
+
+  /**
+   * Re-price a pool from its latest account data, oriented as baseToken/quoteToken
+   */
+  private buildPoolUpdate(subscription: PoolSubscription, stream: PoolStream): PoolUpdate | null {
+    try {
+      const snapshot = stream.decoder.decode(stream.address, stream.accounts);
+      const baseMint = getTokenBySymbol(subscription.baseToken)?.mint;
+      const inverted = !!baseMint && baseMint.equals(snapshot.quoteMint);
+
+      const price = inverted
+        ? (snapshot.price.gt(0) ? new Decimal(1).div(snapshot.price) : new Decimal(0))
+        : snapshot.price;
+      const baseTokenAmount = inverted ? snapshot.quoteAmount : snapshot.baseAmount;
+      const quoteTokenAmount = inverted ? snapshot.baseAmount : snapshot.quoteAmount;
+
+      return {
+        dex: stream.decoder.name,
+        pool: subscription.poolAddress,
+        price,
+        liquidity: quoteTokenAmount.add(baseTokenAmount.mul(price)), // In quote token
+        volume24h: new Decimal(0), // Not derivable from account state
+        priceChange24h: new Decimal(0),
+        timestamp: Date.now(),
+        transactionCount: stream.notifications,
+        baseTokenAmount,
+        quoteTokenAmount
+      };
+    } catch (error) {
+      this.recordError(stream.endpoint);
       this.emit('error', {
         dex: subscription.dex,
         pool: subscription.poolAddress,
-        error: error.message
+        error: `Failed to decode pool state: ${(error as Error).message}`
       });
-    });
+      return null;
+    }
   }
 
   /**
    * Setup heartbeat to keep connection alive
    */
-  private setupHeartbeat(subscriptionKey: string, config: DEXWebSocketConfig): void {
-    if (!config.heartbeatInterval) return;
+  private setupHeartbeat(connection: RpcConnection): void {
+    if (!this.heartbeatInterval) return;
 
-    const interval = setInterval(() => {
-      const ws = this.subscriptions.get(subscriptionKey);
-      if (ws && ws.readyState === WebSocket.OPEN) {
-        ws.ping();
+    connection.heartbeat = setInterval(() => {
+      if (connection.ws && connection.ws.readyState === WebSocket.OPEN) {
+        connection.ws.ping();
       }
-    }, config.heartbeatInterval);
-
-    this.heartbeatIntervals.set(subscriptionKey, interval);
+    }, this.heartbeatInterval);
   }
 
   /**
    * Clear heartbeat interval
    */
-  private clearHeartbeat(subscriptionKey: string): void {
-    const interval = this.heartbeatIntervals.get(subscriptionKey);
-    if (interval) {
-      clearInterval(interval);
-      this.heartbeatIntervals.delete(subscriptionKey);
+  private clearHeartbeat(connection: RpcConnection): void {
+    if (connection.heartbeat) {
+      clearInterval(connection.heartbeat);
+      connection.heartbeat = null;
     }
   }
 
   /**
    * Schedule reconnection attempt
    */
-  private scheduleReconnect(subscriptionKey: string, config: DEXWebSocketConfig): void {
-    const subscription = this.poolSubscriptions.get(subscriptionKey);
-    if (!subscription) return;
+  private scheduleReconnect(connection: RpcConnection): void {
+    connection.reconnectAttempts++;
+    const delay = this.reconnectDelay * Math.pow(2, connection.reconnectAttempts - 1);
 
-    subscription.reconnectAttempts++;
-    const delay = config.reconnectDelay! * Math.pow(2, subscription.reconnectAttempts - 1);
+    connection.pools.forEach(subscriptionKey => {
+      const subscription = this.poolSubscriptions.get(subscriptionKey);
+      if (subscription) subscription.reconnectAttempts = connection.reconnectAttempts;
+    });
     
-    console.log(`🔄 Scheduling reconnect for ${subscription.dex} in ${delay}ms (attempt ${subscription.reconnectAttempts})`);
+    this.logger.warn(`🔄 Scheduling reconnect to ${connection.endpoint} in ${delay}ms (attempt ${connection.reconnectAttempts})`,
+      { ...this.endpointLabels(connection.endpoint), delayMs: delay, attempt: connection.reconnectAttempts });
 
-    const timeout = setTimeout(async () => {
-      this.reconnectTimeouts.delete(subscriptionKey);
-      
-      try {
-        await this.subscribeToPool(
-          subscription.poolAddress,
-          subscription.dex,
-          subscription.baseToken,
-          subscription.quoteToken
-        );
-        this.stats.reconnections++;
-      } catch (error) {
-        console.error(`Failed to reconnect to ${subscription.dex}:`, error);
-      }
-    }, delay);
+    connection.reconnectTimeout = setTimeout(() => {
+      connection.reconnectTimeout = null;
+      if (this.connections.get(connection.endpoint) !== connection) return;
 
-    this.reconnectTimeouts.set(subscriptionKey, timeout);
+      this.connect(connection);
+      this.stats.reconnections++;
+      this.metrics.connectionReconnects.inc(this.endpointLabels(connection.endpoint));
+    }, delay);
   }
 
   /**
-   * Clear reconnect timeout
+   * Close a connection for good and forget it
    */
-  private clearReconnectTimeout(subscriptionKey: string): void {
-    const timeout = this.reconnectTimeouts.get(subscriptionKey);
-    if (timeout) {
-      clearTimeout(timeout);
-      this.reconnectTimeouts.delete(subscriptionKey);
+  private closeConnection(connection: RpcConnection): void {
+    this.clearHeartbeat(connection);
+    if (connection.reconnectTimeout) {
+      clearTimeout(connection.reconnectTimeout);
+      connection.reconnectTimeout = null;
     }
+
+    if (connection.ws) {
+      connection.ws.removeAllListeners();
+      connection.ws.on('error', () => undefined); // A socket still connecting reports its abort
+      connection.ws.close();
+      connection.ws = null;
+    }
+
+    if (connection.isOpen) {
+      this.stats.activeConnections = Math.max(0, this.stats.activeConnections - 1);
+      connection.isOpen = false;
+      this.metrics.connectionOpen.set(this.endpointLabels(connection.endpoint), 0);
+    }
+
+    this.connections.delete(connection.endpoint);
+  }
+
+  private recordError(endpoint: string): void {
+    this.stats.errors++;
+    this.metrics.connectionErrors.inc(this.endpointLabels(endpoint));
+  }
+
+  private endpointLabels(endpoint: string): { endpoint: string } {
+    return { endpoint: endpointLabel(endpoint) };
   }
 
   /**
@@ -361,6 +623,7 @@ export class PoolMonitor extends EventEmitter {
       lastUpdate: number;
       reconnectAttempts: number;
     }>;
+    connections: ConnectionStats[];
   } {
     const subscriptions = Array.from(this.poolSubscriptions.values()).map(sub => ({
       pool: sub.poolAddress,
@@ -370,9 +633,19 @@ export class PoolMonitor extends EventEmitter {
       reconnectAttempts: sub.reconnectAttempts
     }));
 
+    const connections = Array.from(this.connections.values()).map(connection => ({
+      endpoint: connection.endpoint,
+      isOpen: connection.isOpen,
+      pools: connection.pools.size,
+      accountSubscriptions: connection.routes.size,
+      messagesReceived: connection.messagesReceived,
+      reconnectAttempts: connection.reconnectAttempts
+    }));
+
     return {
       ...this.stats,
-      subscriptions
+      subscriptions,
+      connections
     };
   }
 
@@ -389,117 +662,31 @@ export class PoolMonitor extends EventEmitter {
    */
   async shutdown(): Promise<void> {
     this.isShuttingDown = true;
-    console.log('🛑 Shutting down Pool Monitor...');
+    this.logger.info('🛑 Shutting down Pool Monitor...');
 
     // Close all WebSocket connections
-    for (const [key, ws] of this.subscriptions) {
-      ws.close();
-      this.clearHeartbeat(key);
-      this.clearReconnectTimeout(key);
-    }
+    Array.from(this.connections.values()).forEach(connection => this.closeConnection(connection));
 
     // Clear all data structures
-    this.subscriptions.clear();
+    this.connections.clear();
     this.poolSubscriptions.clear();
-    this.heartbeatIntervals.clear();
-    this.reconnectTimeouts.clear();
+    this.poolStreams.clear();
+
+    if (this.signalHandler) {
+      process.off('SIGINT', this.signalHandler);
+      process.off('SIGTERM', this.signalHandler);
+      this.signalHandler = null;
+    }
 
-    console.log('✅ Pool Monitor shutdown complete');
+    this.logger.info('✅ Pool Monitor shutdown complete');
   }
 
   /**
    * Setup graceful shutdown handlers
    */
   private setupGracefulShutdown(): void {
-    process.on('SIGINT', () => this.shutdown());
-    process.on('SIGTERM', () => this.shutdown());
-  }
-}
-
-// DEX-specific message parsers
-function parseRaydiumUpdate(data: any): PoolUpdate | null {
-  try {
-    if (data.method !== 'poolUpdate') return null;
-
-    const params = data.params;
-    return {
-      dex: 'Raydium',
-      pool: params.pool,
-      price: new Decimal(params.price || 0),
-      liquidity: new Decimal(params.liquidity || 0),
-      volume24h: new Decimal(params.volume24h || 0),
-      priceChange24h: new Decimal(params.priceChange24h || 0),
-      timestamp: Date.now(),
-      transactionCount: params.transactionCount || 0,
-      baseTokenAmount: new Decimal(params.baseAmount || 0),
-      quoteTokenAmount: new Decimal(params.quoteAmount || 0)
-    };
-  } catch (error) {
-    return null;
-  }
-}
-
-function parseOrcaUpdate(data: any): PoolUpdate | null {
-  try {
-    if (data.type !== 'pool_update') return null;
-
-    return {
-      dex: 'Orca',
-      pool: data.pool,
-      price: new Decimal(data.price || 0),
-      liquidity: new Decimal(data.liquidity || 0),
-      volume24h: new Decimal(data.volume24h || 0),
-      priceChange24h: new Decimal(data.priceChange24h || 0),
-      timestamp: Date.now(),
-      transactionCount: data.transactionCount || 0,
-      baseTokenAmount: new Decimal(data.baseTokenAmount || 0),
-      quoteTokenAmount: new Decimal(data.quoteTokenAmount || 0)
-    };
-  } catch (error) {
-    return null;
+    this.signalHandler = () => this.shutdown();
+    process.on('SIGINT', this.signalHandler);
+    process.on('SIGTERM', this.signalHandler);
   }
 }
-
-function parseJupiterUpdate(data: any): PoolUpdate | null {
-  try {
-    if (!data.topic || !data.topic.startsWith('pool.')) return null;
-
-    const poolAddress = data.topic.split('.')[1];
-    return {
-      dex: 'Jupiter',
-      pool: poolAddress,
-      price: new Decimal(data.data.price || 0),
-      liquidity: new Decimal(data.data.liquidity || 0),
-      volume24h: new Decimal(data.data.volume24h || 0),
-      priceChange24h: new Decimal(data.data.priceChange24h || 0),
-      timestamp: Date.now(),
-      transactionCount: data.data.transactionCount || 0,
-      baseTokenAmount: new Decimal(data.data.baseTokenAmount || 0),
-      quoteTokenAmount: new Decimal(data.data.quoteTokenAmount || 0)
-    };
-  } catch (error) {
-    return null;
-  }
-}
-
-function parsePhoenixUpdate(data: any): PoolUpdate | null {
-  try {
-    if (data.method !== 'SUBSCRIPTION') return null;
-
-    const result = data.params.result;
-    return {
-      dex: 'Phoenix',
-      pool: result.market,
-      price: new Decimal(result.price || 0),
-      liquidity: new Decimal(result.liquidity || 0),
-      volume24h: new Decimal(result.volume24h || 0),
-      priceChange24h: new Decimal(result.priceChange24h || 0),
-      timestamp: Date.now(),
-      transactionCount: result.transactionCount || 0,
-      baseTokenAmount: new Decimal(result.baseTokenAmount || 0),
-      quoteTokenAmount: new Decimal(result.quoteTokenAmount || 0)
-    };
-  } catch (error) {
-    return null;
-  }
-} 
\ No newline at end of file
@@ -40,18 +40,11 @@ async function testOptimizedPriceCollection() {
     
     // Display collected prices
     console.log('\n📈 Collected Prices:');
-    if (priceData.raydium && !priceData.raydium.error) {
-      console.log(`   Raydium: $${priceData.raydium.price.toFixed(3)} (${priceData.raydium.responseTime}ms)`);
-    }
-    if (priceData.orca && !priceData.orca.error) {
-      console.log(`   Orca: $${priceData.orca.price.toFixed(3)} (${priceData.orca.responseTime}ms)`);
-    }
-    if (priceData.phoenix && !priceData.phoenix.error) {
-      console.log(`   Phoenix: $${priceData.phoenix.price.toFixed(3)} (${priceData.phoenix.responseTime}ms)`);
-    }
-    if (priceData.jupiter && !priceData.jupiter.error) {
-      console.log(`   Jupiter: $${priceData.jupiter.price.toFixed(3)} (${priceData.jupiter.responseTime}ms)`);
-    }
+    priceData.prices.forEach(price => {
+      if (!price.error) {
+        console.log(`   ${price.dex}: $${price.price.toFixed(3)} (${price.responseTime}ms)`);
+      }
+    });
 
     console.log('\n2. Testing Arbitrage Analysis...');
     const analysisStartTime = Date.now();
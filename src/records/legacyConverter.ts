@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseCsv } from '../backtest/historicalQuotes';
+import { ArbitrageRecord, RECORD_FIELDS, RecordInit, createRecord } from './schema';
+import { parseRecordCsv } from './recordReader';
+import { RecordFormat, SCANNER_FILE_PREFIXES, openRecordWriter, recordFileExtension } from './recordWriter';
+
+/**
+ * Row layouts the scanners wrote before the shared schema
+ */
+export type LegacyLayout =
+  | 'record' // Already the shared schema
+  | 'venue-rows' // One row per venue quote, annotated with the arbitrage it took part in
+  | 'pair-summary' // One row per pair with "<Venue> Price" columns (optimized scanner)
+  | 'opportunity-rows'; // One row per detected opportunity (real-time scanner)
+
+export interface LegacyConversion {
+  scanner: string;
+  layout: LegacyLayout;
+  records: ArbitrageRecord[];
+  skippedRows: number; // Rows without a usable timestamp or pair
+}
+
+export interface MigrationResult extends LegacyConversion {
+  input: string;
+  output: string;
+}
+
+// Old header titles of each shared field, across every scanner's CSV layout
+const LEGACY_COLUMNS: Partial<Record<keyof ArbitrageRecord, string[]>> = {
+  timestamp: ['Timestamp'],
+  scanNumber: ['Scan Number'],
+  pair: ['Trading Pair'],
+  venue: ['DEX', 'DEX Name', 'DEX Protocol'],
+  source: ['Data Source'],
+  price: ['Price', 'Exchange Rate'],
+  inputAmount: ['Input Amount'],
+  outputAmount: ['Output Amount'],
+  priceImpactPercent: ['Price Impact (%)'],
+  liquidityAvailable: ['Liquidity Available'],
+  hasArbitrage: ['Has Arbitrage', 'Arbitrage Available'],
+  strategy: ['Arbitrage Strategy'],
+  buyVenue: ['Arbitrage Buy DEX', 'Buy DEX', 'Best Buy DEX', 'Buy Source'],
+  sellVenue: ['Arbitrage Sell DEX', 'Sell DEX', 'Best Sell DEX', 'Sell Source'],
+  buyPrice: ['Buy Price'],
+  sellPrice: ['Sell Price'],
+  spreadPercent: ['Arbitrage Profit (%)', 'Gross Profit (%)', 'Profit (%)', 'Best Spread (%)'],
+  grossProfit: ['Arbitrage Profit Amount', 'Gross Profit Amount', 'Profit Amount'],
+  gasCost: ['Estimated Gas Cost (SOL)', 'Gas Cost (SOL)'],
+  netProfit: ['Net Profit After Gas', 'Net Profit', 'Best Net Profit'],
+  tradeSize: ['Max Trade Size'],
+  confidence: ['Confidence Level', 'Confidence'],
+  simulation: ['Simulation'],
+  bestOfScan: ['Best Arbitrage of Scan', 'Best Opportunity'],
+  scanDurationMs: ['Scan Duration (ms)', 'Total Time (ms)'],
+  requestId: ['Request ID']
+};
+
+// Legacy rows without an arbitrage still wrote zeros and blanks into these
+const OPPORTUNITY_FIELDS: Array<keyof ArbitrageRecord> = [
+  'strategy', 'buyVenue', 'sellVenue', 'buyPrice', 'sellPrice', 'spreadPercent', 'grossProfit', 'netProfit', 'confidence'
+];
+
+const WIDE_PRICE_COLUMN = /^(.+) Price$/;
+
+/**
+ * Scanner mode that wrote a file, from its name prefix
+ */
+export function scannerForFile(filePath: string): string {
+  const name = path.basename(filePath);
+  const match = Object.entries(SCANNER_FILE_PREFIXES)
+    .sort(([, a], [, b]) => b.length - a.length)
+    .find(([, prefix]) => name.startsWith(`${prefix}_`));
+
+  if (!match) {
+    throw new Error(`Cannot tell which scanner wrote ${name}`);
+  }
+  return match[0];
+}
+
+/**
+ * Convert one scanner CSV, in any layout it was ever written in, to shared-schema records
+ */
+export function convertLegacyCsv(text: string, filePath: string): LegacyConversion {
+  const [header = [], ...rows] = parseCsv(text);
+  const titles = header.map(title => title.trim());
+
+  if (titles.includes('schemaVersion')) {
+    const records = parseRecordCsv(text, filePath);
+    return { scanner: records[0]?.scanner ?? scannerForFile(filePath), layout: 'record', records, skippedRows: 0 };
+  }
+
+  const scanner = scannerForFile(filePath);
+  const columns = new Map<keyof ArbitrageRecord, number>();
+  for (const [field, aliases] of Object.entries(LEGACY_COLUMNS) as Array<[keyof ArbitrageRecord, string[]]>) {
+    const index = titles.findIndex(title => aliases.includes(title));
+    if (index >= 0) columns.set(field, index);
+  }
+
+  if (!columns.has('timestamp') || !columns.has('pair')) {
+    throw new Error(`Unrecognized legacy CSV format in ${path.basename(filePath)}: missing Timestamp or Trading Pair`);
+  }
+
+  const layout: LegacyLayout = columns.has('venue')
+    ? 'venue-rows'
+    : titles.includes('Buy Source')
+      ? 'opportunity-rows'
+      : 'pair-summary';
+
+  // "<Venue> Price" columns of the summary layout become quotes rather than notes
+  const venueColumns = layout !== 'pair-summary' ? [] : titles
+    .map((title, index) => ({ match: WIDE_PRICE_COLUMN.exec(title), index }))
+    .filter(column => column.match)
+    .map(column => ({
+      venue: column.match![1],
+      price: column.index,
+      responseTime: titles.indexOf(`${column.match![1]} Response (ms)`)
+    }));
+
+  if (layout === 'pair-summary' && venueColumns.length === 0) {
+    throw new Error(`Unrecognized legacy CSV format in ${path.basename(filePath)}: no venue column`);
+  }
+
+  const mapped = new Set<number>(columns.values());
+  venueColumns.forEach(column => {
+    mapped.add(column.price);
+    mapped.add(column.responseTime);
+  });
+
+  const records: ArbitrageRecord[] = [];
+  let skippedRows = 0;
+
+  for (const row of rows) {
+    if (row.every(field => field.trim() === '')) continue;
+
+    const time = Date.parse(row[columns.get('timestamp')!]);
+    const pair = row[columns.get('pair')!]?.trim();
+    if (isNaN(time) || !pair || !pair.includes('/')) {
+      skippedRows++;
+      continue;
+    }
+
+    const fields: Partial<ArbitrageRecord> = {};
+    for (const [field, index] of columns) {
+      (fields as Record<string, unknown>)[field] = legacyValue(field, row[index]);
+    }
+
+    const notes = titles
+      .map((title, index) => ({ title, value: row[index]?.trim() ?? '' }))
+      .filter((column, index) => !mapped.has(index) && column.value !== '')
+      .map(column => `${column.title}=${column.value}`)
+      .join('; ');
+
+    const base: RecordInit = {
+      ...fields,
+      scanner,
+      kind: layout === 'opportunity-rows' ? 'opportunity' : 'quote',
+      timestamp: new Date(time).toISOString(),
+      pair,
+      gasCostToken: fields.gasCost !== undefined && fields.gasCost !== null ? 'SOL' : null,
+      notes: notes || null
+    };
+
+    if (layout === 'venue-rows') {
+      // Before the shared schema every row-per-venue scanner compared venues directly
+      records.push(createRecord(withoutEmptyArbitrage({ ...base, strategy: base.strategy ?? 'cross_dex' })));
+    } else if (layout === 'opportunity-rows') {
+      records.push(createRecord({ ...base, hasArbitrage: true }));
+    } else {
+      for (const column of venueColumns) {
+        const price = legacyValue('price', row[column.price]) as number | null;
+        if (price === null || price <= 0) continue;
+
+        const venue = column.venue;
+        const onOpportunity = [base.buyVenue, base.sellVenue]
+          .some(side => typeof side === 'string' && side.toLowerCase() === venue.toLowerCase());
+
+        records.push(createRecord(withoutEmptyArbitrage({
+          ...base,
+          venue,
+          price,
+          responseTimeMs: column.responseTime >= 0 ? legacyValue('responseTimeMs', row[column.responseTime]) as number | null : null,
+          hasArbitrage: onOpportunity && (base.spreadPercent ?? 0) > 0
+        })));
+      }
+    }
+  }
+
+  return { scanner, layout, records, skippedRows };
+}
+
+/**
+ * Convert legacy CSVs (or directories of them) into `outDir`, keeping each file's name
+ */
+export async function migrateRecordFiles(inputs: string[], outDir: string, format: RecordFormat): Promise<MigrationResult[]> {
+  const files = inputs.flatMap(input => fs.statSync(input).isDirectory()
+    ? fs.readdirSync(input).filter(name => name.endsWith('.csv')).sort().map(name => path.join(input, name))
+    : [input]);
+  const results: MigrationResult[] = [];
+
+  for (const input of files) {
+    const output = path.join(outDir, path.basename(input, path.extname(input)) + recordFileExtension(format));
+    if (path.resolve(output) === path.resolve(input)) {
+      throw new Error(`Refusing to overwrite ${input} with its own migration; choose another output directory`);
+    }
+
+    const conversion = convertLegacyCsv(fs.readFileSync(input, 'utf8'), input);
+    const writer = openRecordWriter(output, format);
+    try {
+      await writer.write(conversion.records);
+    } finally {
+      await writer.close();
+    }
+
+    results.push({ ...conversion, input, output });
+  }
+
+  return results;
+}
+
+function legacyValue(field: keyof ArbitrageRecord, raw: string | undefined): string | number | boolean | null {
+  const value = raw?.trim() ?? '';
+  if (value === '') return null;
+
+  switch (RECORD_FIELDS[field].type) {
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : null;
+    case 'number':
+    case 'integer': {
+      const parsed = Number(value);
+      return Number.isFinite(parsed) ? parsed : null;
+    }
+    default:
+      return value;
+  }
+}
+
+function withoutEmptyArbitrage(init: RecordInit): RecordInit {
+  if (init.hasArbitrage) return init;
+
+  const cleared: RecordInit = { ...init, hasArbitrage: false };
+  for (const field of OPPORTUNITY_FIELDS) {
+    (cleared as Record<string, unknown>)[field] = null;
+  }
+  return cleared;
+}
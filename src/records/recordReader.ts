@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParquetReader } from 'parquetjs';
+import { parseCsv } from '../backtest/historicalQuotes';
+import { ArbitrageRecord, RECORD_COLUMNS, RECORD_SCHEMA_VERSION, parseRecord } from './schema';
+import { RecordFormat } from './recordWriter';
+
+/**
+ * Format of a record file, from its extension
+ */
+export function recordFormatOf(filePath: string): RecordFormat {
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.csv':
+      return 'csv';
+    case '.jsonl':
+      return 'jsonl';
+    case '.parquet':
+      return 'parquet';
+    default:
+      throw new Error(`Cannot tell the record format of ${filePath}; expected .csv, .jsonl or .parquet`);
+  }
+}
+
+/**
+ * Records from a file written by a RecordWriter; legacy scanner CSVs need the converter instead
+ */
+export async function readRecords(filePath: string): Promise<ArbitrageRecord[]> {
+  const format = recordFormatOf(filePath);
+  const records = format === 'csv'
+    ? readCsvRecords(filePath)
+    : format === 'jsonl'
+      ? readJsonLinesRecords(filePath)
+      : await readParquetRecords(filePath);
+
+  for (const record of records) {
+    if (record.schemaVersion > RECORD_SCHEMA_VERSION) {
+      throw new Error(`${filePath} uses record schema version ${record.schemaVersion}, newer than supported version ${RECORD_SCHEMA_VERSION}`);
+    }
+  }
+  return records;
+}
+
+/**
+ * Records from unified-schema CSV text
+ */
+export function parseRecordCsv(text: string, source: string): ArbitrageRecord[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  if (!header.some(name => name.trim() === 'schemaVersion')) {
+    throw new Error(`${source} is not a record file: missing schemaVersion column`);
+  }
+
+  return rows
+    .filter(row => row.some(field => field.trim() !== ''))
+    .map(row => {
+      const fields: Partial<Record<keyof ArbitrageRecord, string>> = {};
+      header.forEach((name, index) => {
+        fields[name.trim() as keyof ArbitrageRecord] = row[index];
+      });
+      return parseRecord(fields);
+    });
+}
+
+function readCsvRecords(filePath: string): ArbitrageRecord[] {
+  return parseRecordCsv(fs.readFileSync(filePath, 'utf8'), filePath);
+}
+
+function readJsonLinesRecords(filePath: string): ArbitrageRecord[] {
+  return fs.readFileSync(filePath, 'utf8')
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(line => withAllColumns(JSON.parse(line)));
+}
+
+async function readParquetRecords(filePath: string): Promise<ArbitrageRecord[]> {
+  const reader = await ParquetReader.openFile(filePath);
+  const records: ArbitrageRecord[] = [];
+
+  try {
+    const cursor = reader.getCursor();
+    let row: Record<string, unknown> | null;
+    while ((row = await cursor.next() as Record<string, unknown> | null)) {
+      records.push(withAllColumns(row));
+    }
+  } finally {
+    await reader.close();
+  }
+
+  return records;
+}
+
+// Null fields are left out of Parquet rows
+function withAllColumns(row: Record<string, unknown>): ArbitrageRecord {
+  const record = {} as Record<keyof ArbitrageRecord, unknown>;
+  for (const column of RECORD_COLUMNS) {
+    record[column] = row[column] ?? null;
+  }
+  return record as ArbitrageRecord;
+}
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParquetSchema, ParquetWriter } from 'parquetjs';
+import { ArbitrageRecord, RECORD_COLUMNS, RECORD_FIELDS, RecordFieldType } from './schema';
+const createCsvWriter = require('csv-writer');
+
+export type RecordFormat = 'csv' | 'jsonl' | 'parquet';
+
+export const RECORD_FORMATS: RecordFormat[] = ['csv', 'jsonl', 'parquet'];
+
+const FILE_EXTENSIONS: Record<RecordFormat, string> = {
+  csv: '.csv',
+  jsonl: '.jsonl',
+  parquet: '.parquet'
+};
+
+// File name prefix of each scanner mode's output, unchanged from before the shared schema
+export const SCANNER_FILE_PREFIXES: Record<string, string> = {
+  conservative: 'conservative_arbitrage',
+  enhanced: 'arbitrage_data',
+  'real-dex': 'real_dex_arbitrage',
+  'phoenix-focused': 'phoenix_focused_arbitrage',
+  'quick-csv-test': 'quick_arbitrage_test',
+  professional: 'professional_arbitrage',
+  legitimate: 'legitimate_arbitrage',
+  optimized: 'optimized_arbitrage',
+  realtime: 'realtime_arbitrage'
+};
+
+const PARQUET_TYPES: Record<RecordFieldType, string> = {
+  string: 'UTF8',
+  number: 'DOUBLE',
+  integer: 'INT64',
+  boolean: 'BOOLEAN'
+};
+
+export interface RecordWriterOptions {
+  scanner: string;
+  format?: RecordFormat; // Defaults to RECORD_FORMAT, then csv
+  directory?: string; // Defaults to data/
+  startedAt?: Date; // Stamped into the file name
+}
+
+/**
+ * Appends records to one output file, created on the first non-empty write.
+ * Writes are applied in call order; close() must be awaited before a Parquet file can be read.
+ */
+export interface RecordWriter {
+  readonly path: string;
+  readonly format: RecordFormat;
+  write(records: ArbitrageRecord[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+export function toRecordFormat(value: string): RecordFormat {
+  const format = value.trim().toLowerCase();
+  if (!RECORD_FORMATS.includes(format as RecordFormat)) {
+    throw new Error(`Unknown record format "${value}"; expected one of ${RECORD_FORMATS.join(', ')}`);
+  }
+  return format as RecordFormat;
+}
+
+/**
+ * Output format chosen with RECORD_FORMAT, csv when unset
+ */
+export function defaultRecordFormat(): RecordFormat {
+  return process.env.RECORD_FORMAT ? toRecordFormat(process.env.RECORD_FORMAT) : 'csv';
+}
+
+export function recordFileExtension(format: RecordFormat): string {
+  return FILE_EXTENSIONS[format];
+}
+
+/**
+ * Writer for a scanner run, e.g. data/legitimate_arbitrage_2026-10-19T08-00-00-000Z.csv
+ */
+export function createRecordWriter(options: RecordWriterOptions): RecordWriter {
+  const format = options.format ?? defaultRecordFormat();
+  const directory = options.directory ?? path.join(process.cwd(), 'data');
+  const prefix = SCANNER_FILE_PREFIXES[options.scanner] ?? `${options.scanner.replace(/-/g, '_')}_arbitrage`;
+  const stamp = (options.startedAt ?? new Date()).toISOString().replace(/[:.]/g, '-');
+
+  return openRecordWriter(path.join(directory, `${prefix}_${stamp}${FILE_EXTENSIONS[format]}`), format);
+}
+
+/**
+ * Writer for an explicit file, which is replaced if it exists
+ */
+export function openRecordWriter(filePath: string, format: RecordFormat): RecordWriter {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.rmSync(filePath, { force: true });
+
+  switch (format) {
+    case 'csv':
+      return new CsvRecordWriter(filePath);
+    case 'jsonl':
+      return new JsonLinesRecordWriter(filePath);
+    case 'parquet':
+      return new ParquetRecordWriter(filePath);
+  }
+}
+
+/**
+ * Serializes writes so concurrent callers cannot interleave rows or headers
+ */
+abstract class QueuedRecordWriter implements RecordWriter {
+  abstract readonly format: RecordFormat;
+  private queue: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(readonly path: string) {}
+
+  write(records: ArbitrageRecord[]): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new Error(`Record writer for ${this.path} is closed`));
+    }
+    if (records.length === 0) return this.queue;
+    return this.enqueue(() => this.append(records));
+  }
+
+  close(): Promise<void> {
+    if (this.closed) return this.queue;
+    this.closed = true;
+    return this.enqueue(() => this.finish());
+  }
+
+  protected abstract append(records: ArbitrageRecord[]): Promise<void>;
+
+  protected async finish(): Promise<void> {}
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.queue.then(task);
+    // A failed write is reported to its caller only; later writes still run
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+class CsvRecordWriter extends QueuedRecordWriter {
+  readonly format = 'csv';
+  private writer: any;
+
+  constructor(filePath: string) {
+    super(filePath);
+    this.writer = createCsvWriter.createObjectCsvWriter({
+      path: filePath,
+      header: RECORD_COLUMNS.map(column => ({ id: column, title: column }))
+    });
+  }
+
+  protected async append(records: ArbitrageRecord[]): Promise<void> {
+    await this.writer.writeRecords(records);
+  }
+}
+
+class JsonLinesRecordWriter extends QueuedRecordWriter {
+  readonly format = 'jsonl';
+
+  protected async append(records: ArbitrageRecord[]): Promise<void> {
+    const lines = records.map(record => JSON.stringify(inColumnOrder(record)) + '\n');
+    await fs.promises.appendFile(this.path, lines.join(''));
+  }
+}
+
+/**
+ * Rows are buffered in row groups and the footer is written on close,
+ * so the file is only readable once close() resolves
+ */
+class ParquetRecordWriter extends QueuedRecordWriter {
+  readonly format = 'parquet';
+  private writer: ParquetWriter | null = null;
+
+  protected async append(records: ArbitrageRecord[]): Promise<void> {
+    if (!this.writer) {
+      this.writer = await ParquetWriter.openFile(parquetSchema(), this.path);
+    }
+    for (const record of records) {
+      await this.writer.appendRow(parquetRow(record));
+    }
+  }
+
+  protected async finish(): Promise<void> {
+    // parquetjs cannot write a file without rows; like the other formats, an empty run leaves no file
+    await this.writer?.close();
+  }
+}
+
+export function parquetSchema(): ParquetSchema {
+  const fields: Record<string, { type: string; optional: boolean }> = {};
+  for (const column of RECORD_COLUMNS) {
+    fields[column] = { type: PARQUET_TYPES[RECORD_FIELDS[column].type], optional: RECORD_FIELDS[column].nullable };
+  }
+  return new ParquetSchema(fields);
+}
+
+// parquetjs marks a missing optional field as null
+function parquetRow(record: ArbitrageRecord): Record<string, string | number | boolean> {
+  const row: Record<string, string | number | boolean> = {};
+  for (const column of RECORD_COLUMNS) {
+    const value = record[column];
+    if (value !== null && value !== undefined) row[column] = value;
+  }
+  return row;
+}
+
+function inColumnOrder(record: ArbitrageRecord): Record<string, unknown> {
+  const ordered: Record<string, unknown> = {};
+  for (const column of RECORD_COLUMNS) {
+    ordered[column] = record[column] ?? null;
+  }
+  return ordered;
+}
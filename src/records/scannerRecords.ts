@@ -0,0 +1,106 @@
+import { PairOpportunity, VenueQuote } from '../storage/scanRecorder';
+import { ArbitrageRecord, RecordInit, createRecord } from './schema';
+
+/**
+ * Fields shared by every record from one pair in one scan
+ */
+export interface ScanContext {
+  scanner: string;
+  timestamp: string; // ISO 8601
+  scanNumber: number | null;
+  pair: string;
+  scanDurationMs?: number | null;
+}
+
+function contextFields(context: ScanContext): Omit<RecordInit, 'kind'> {
+  return {
+    scanner: context.scanner,
+    timestamp: context.timestamp,
+    scanNumber: context.scanNumber,
+    pair: context.pair,
+    scanDurationMs: context.scanDurationMs ?? null
+  };
+}
+
+/**
+ * Opportunity columns for a percent-spread opportunity; gas, when estimated, is in SOL
+ */
+export function pairOpportunityFields(opportunity: PairOpportunity, strategy: string): Partial<ArbitrageRecord> {
+  return {
+    hasArbitrage: true,
+    strategy: opportunity.strategy ?? strategy,
+    buyVenue: opportunity.buyDex,
+    sellVenue: opportunity.sellDex,
+    buyPrice: opportunity.buyPrice.toNumber(),
+    sellPrice: opportunity.sellPrice.toNumber(),
+    spreadPercent: opportunity.profitPercentage.toNumber(),
+    grossProfit: opportunity.profit.toNumber(),
+    gasCost: opportunity.estimatedGasCost?.toNumber() ?? null,
+    gasCostToken: opportunity.estimatedGasCost ? 'SOL' : null,
+    netProfit: opportunity.netProfitAfterGas?.toNumber() ?? null,
+    tradeSize: opportunity.tradeSize?.toNumber() ?? null,
+    confidence: opportunity.confidence ?? null
+  };
+}
+
+/**
+ * One quote record per venue, annotated with the first opportunity the venue is on either side of.
+ * Request ids keep the "<scan>-<pair>-<venue>" form of the old CSVs.
+ */
+export function venueQuoteRecords(
+  context: ScanContext,
+  quotes: VenueQuote[],
+  opportunities: PairOpportunity[],
+  strategy: string = 'cross_dex'
+): ArbitrageRecord[] {
+  return quotes.map(quote => {
+    const opportunity = opportunities.find(opp => opp.buyDex === quote.dex || opp.sellDex === quote.dex);
+
+    return createRecord({
+      ...contextFields(context),
+      kind: 'quote',
+      venue: quote.dex,
+      source: quote.source ?? null,
+      price: quote.price.toNumber(),
+      inputAmount: quote.inputAmount.toNumber(),
+      outputAmount: quote.outputAmount.toNumber(),
+      priceImpactPercent: quote.priceImpact.toNumber(),
+      responseTimeMs: quote.responseTimeMs ?? null,
+      liquidityAvailable: quote.liquidityAvailable ?? null,
+      ...(opportunity ? pairOpportunityFields(opportunity, strategy) : {}),
+      requestId: context.scanNumber === null ? null : `${context.scanNumber}-${context.pair}-${quote.dex}`
+    });
+  });
+}
+
+/**
+ * One opportunity record per detected opportunity, keyed "<scan>-<pair>-<buy>-><sell>"
+ */
+export function opportunityRecords(
+  context: ScanContext,
+  opportunities: PairOpportunity[],
+  strategy: string = 'cross_dex'
+): ArbitrageRecord[] {
+  return opportunities.map(opportunity => createRecord({
+    ...contextFields(context),
+    kind: 'opportunity',
+    ...pairOpportunityFields(opportunity, strategy),
+    requestId: `${context.scanNumber ?? 'live'}-${context.pair}-${opportunity.buyDex}->${opportunity.sellDex}`
+  }));
+}
+
+/**
+ * Flag the records carrying the widest spread in a scan; every other record is marked false
+ */
+export function markBestOfScan(records: ArbitrageRecord[]): void {
+  let best: ArbitrageRecord | null = null;
+  for (const record of records) {
+    if (record.hasArbitrage && record.spreadPercent !== null && (!best || record.spreadPercent > best.spreadPercent!)) {
+      best = record;
+    }
+  }
+
+  for (const record of records) {
+    record.bestOfScan = best !== null && record.pair === best.pair && record.spreadPercent === best.spreadPercent;
+  }
+}
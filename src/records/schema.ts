@@ -0,0 +1,149 @@
+/**
+ * Version of the record layout below. Bump it whenever a field is added, removed or
+ * changes meaning, and teach the legacy converter to upgrade the older files.
+ */
+export const RECORD_SCHEMA_VERSION = 1;
+
+/**
+ * Quote rows carry one venue's price, annotated with the opportunity that venue took part in.
+ * Opportunity rows describe a detected spread on their own, with no single venue.
+ */
+export type RecordKind = 'quote' | 'opportunity';
+
+/**
+ * One row of scanner output, shared by every scanner mode and every output format
+ */
+export interface ArbitrageRecord {
+  schemaVersion: number;
+  scanner: string; // Scanner mode, e.g. 'legitimate' or 'realtime'
+  kind: RecordKind;
+  timestamp: string; // ISO 8601
+  scanNumber: number | null;
+  pair: string; // BASE/QUOTE
+  venue: string | null;
+  source: string | null; // How the quote was obtained, e.g. 'direct' or 'aggregator'
+  price: number | null; // Quote per base
+  inputAmount: number | null;
+  outputAmount: number | null;
+  priceImpactPercent: number | null;
+  responseTimeMs: number | null;
+  liquidityAvailable: boolean | null;
+  hasArbitrage: boolean;
+  strategy: string | null;
+  buyVenue: string | null;
+  sellVenue: string | null;
+  buyPrice: number | null;
+  sellPrice: number | null;
+  spreadPercent: number | null;
+  grossProfit: number | null; // Quote token
+  gasCost: number | null;
+  gasCostToken: string | null; // Unit of gasCost: 'SOL', or the quote token when already converted
+  netProfit: number | null;
+  tradeSize: number | null;
+  confidence: string | null;
+  simulation: string | null;
+  bestOfScan: boolean | null;
+  scanDurationMs: number | null;
+  detectionLatencyMs: number | null;
+  requestId: string | null;
+  notes: string | null; // Anything the scanner reported that has no column of its own
+}
+
+export type RecordFieldType = 'string' | 'number' | 'integer' | 'boolean';
+
+export interface RecordField {
+  type: RecordFieldType;
+  nullable: boolean;
+}
+
+// Every field in column order; CSV headers and the Parquet schema are built from this
+export const RECORD_FIELDS: { [K in keyof ArbitrageRecord]-?: RecordField } = {
+  schemaVersion: { type: 'integer', nullable: false },
+  scanner: { type: 'string', nullable: false },
+  kind: { type: 'string', nullable: false },
+  timestamp: { type: 'string', nullable: false },
+  scanNumber: { type: 'integer', nullable: true },
+  pair: { type: 'string', nullable: false },
+  venue: { type: 'string', nullable: true },
+  source: { type: 'string', nullable: true },
+  price: { type: 'number', nullable: true },
+  inputAmount: { type: 'number', nullable: true },
+  outputAmount: { type: 'number', nullable: true },
+  priceImpactPercent: { type: 'number', nullable: true },
+  responseTimeMs: { type: 'integer', nullable: true },
+  liquidityAvailable: { type: 'boolean', nullable: true },
+  hasArbitrage: { type: 'boolean', nullable: false },
+  strategy: { type: 'string', nullable: true },
+  buyVenue: { type: 'string', nullable: true },
+  sellVenue: { type: 'string', nullable: true },
+  buyPrice: { type: 'number', nullable: true },
+  sellPrice: { type: 'number', nullable: true },
+  spreadPercent: { type: 'number', nullable: true },
+  grossProfit: { type: 'number', nullable: true },
+  gasCost: { type: 'number', nullable: true },
+  gasCostToken: { type: 'string', nullable: true },
+  netProfit: { type: 'number', nullable: true },
+  tradeSize: { type: 'number', nullable: true },
+  confidence: { type: 'string', nullable: true },
+  simulation: { type: 'string', nullable: true },
+  bestOfScan: { type: 'boolean', nullable: true },
+  scanDurationMs: { type: 'integer', nullable: true },
+  detectionLatencyMs: { type: 'integer', nullable: true },
+  requestId: { type: 'string', nullable: true },
+  notes: { type: 'string', nullable: true }
+};
+
+export const RECORD_COLUMNS = Object.keys(RECORD_FIELDS) as Array<keyof ArbitrageRecord>;
+
+export type RecordInit = Pick<ArbitrageRecord, 'scanner' | 'kind' | 'timestamp' | 'pair'> & Partial<ArbitrageRecord>;
+
+/**
+ * A record at the current schema version; fields left out are null (hasArbitrage false)
+ * and integer fields such as durations are rounded
+ */
+export function createRecord(init: RecordInit): ArbitrageRecord {
+  const record = {} as Record<keyof ArbitrageRecord, unknown>;
+
+  for (const column of RECORD_COLUMNS) {
+    const value = init[column] ?? null;
+    record[column] = RECORD_FIELDS[column].type === 'integer' && typeof value === 'number' ? Math.round(value) : value;
+  }
+  record.schemaVersion = RECORD_SCHEMA_VERSION;
+  record.hasArbitrage = init.hasArbitrage ?? false;
+
+  return record as ArbitrageRecord;
+}
+
+/**
+ * Read a record back from text fields (CSV); blank fields become null
+ */
+export function parseRecord(fields: Partial<Record<keyof ArbitrageRecord, string>>): ArbitrageRecord {
+  const record = {} as Record<keyof ArbitrageRecord, unknown>;
+
+  for (const column of RECORD_COLUMNS) {
+    const { type, nullable } = RECORD_FIELDS[column];
+    const value = fields[column]?.trim() ?? '';
+
+    if (value === '') {
+      if (!nullable) {
+        throw new Error(`Record field ${column} is required`);
+      }
+      record[column] = null;
+    } else if (type === 'boolean') {
+      if (value !== 'true' && value !== 'false') {
+        throw new Error(`Record field ${column} must be true or false, got "${value}"`);
+      }
+      record[column] = value === 'true';
+    } else if (type === 'number' || type === 'integer') {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed)) {
+        throw new Error(`Record field ${column} must be a number, got "${value}"`);
+      }
+      record[column] = parsed;
+    } else {
+      record[column] = value;
+    }
+  }
+
+  return record as ArbitrageRecord;
+}
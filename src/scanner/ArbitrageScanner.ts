@@ -2,6 +2,11 @@ import { EventEmitter } from 'events';
 import { Connection, PublicKey } from '@solana/web3.js';
 import Decimal from 'decimal.js';
 import { ScannerConfig } from '../config/config';
+import { ConfigChange, diffScannerConfig } from '../config/configLoader';
+import { KNOWN_POOLS, toPoolDex } from '../config/pools';
+import { FeeEstimate, FeeEstimator } from '../execution/feeEstimator';
+import { Logger, rootLogger, withLogContext } from '../logging/logger';
+import { ArbMetrics, defaultArbMetrics } from '../metrics/arbMetrics';
 import { 
   PriceData, 
   ArbitrageOpportunity, 
@@ -9,12 +14,13 @@ import {
   ScannerEvent, 
   ScannerEventData,
   TokenInfo,
-  PoolState
+  PoolState,
+  JupiterRoute
 } from '../types';
 import { JupiterClient } from '../utils/jupiterClient';
+import { QuoteFunction, solveOptimalTradeSize } from '../utils/tradeSizeSolver';
 import { 
   getTokenBySymbol, 
-  calculateProfitPercentage, 
   createPairId,
   formatTokenAmount,
   formatPrice
@@ -25,16 +31,26 @@ export class ArbitrageScanner extends EventEmitter {
   private config: ScannerConfig;
   private jupiterClient: JupiterClient;
   private running: boolean = false;
+  private scanning: boolean = false; // A scan is quoting; timer ticks until it finishes are skipped
   private priceCache: Map<string, PriceData[]> = new Map();
   private poolCache: Map<string, PoolState> = new Map();
   private metrics: ScannerMetrics;
   private scanInterval: NodeJS.Timeout | null = null;
+  private exported: ArbMetrics;
+  private feeEstimator: FeeEstimator;
+  private logger: Logger;
 
-  constructor(config: ScannerConfig) {
+  constructor(config: ScannerConfig, metrics: ArbMetrics = defaultArbMetrics(), feeEstimator?: FeeEstimator, logger?: Logger) {
     super();
     this.config = config;
+    this.exported = metrics;
     this.connection = new Connection(config.rpcEndpoint, 'confirmed');
     this.jupiterClient = new JupiterClient(config.jupiter.apiEndpoint);
+    // Reads fees through the current connection, so a reloaded rpcEndpoint applies to it too
+    this.feeEstimator = feeEstimator ?? new FeeEstimator({
+      getRecentPrioritizationFees: feeConfig => this.connection.getRecentPrioritizationFees(feeConfig)
+    });
+    this.logger = (logger ?? rootLogger()).child({ component: 'scanner' });
     
     this.metrics = {
       totalScans: 0,
@@ -56,23 +72,21 @@ export class ArbitrageScanner extends EventEmitter {
    */
   async start(): Promise<void> {
     if (this.running) {
-      console.log('Scanner is already running');
+      this.logger.warn('Scanner is already running');
       return;
     }
 
-    console.log('Starting Arbitrage Scanner...');
+    this.logger.info('Starting Arbitrage Scanner...');
     this.running = true;
 
     // Check Jupiter service availability
     if (this.config.jupiter.enabled) {
       const jupiterAvailable = await this.jupiterClient.isServiceAvailable();
-      console.log(`Jupiter API status: ${jupiterAvailable ? 'Available' : 'Unavailable'}`);
+      this.logger.info(`Jupiter API status: ${jupiterAvailable ? 'Available' : 'Unavailable'}`, { jupiterAvailable });
     }
 
     // Start the scanning loop
-    this.scanInterval = setInterval(async () => {
-      await this.performScan();
-    }, this.config.priceUpdateInterval);
+    this.scheduleScans();
 
     // Perform initial scan
     await this.performScan();
@@ -83,7 +97,7 @@ export class ArbitrageScanner extends EventEmitter {
       timestamp: Date.now()
     });
 
-    console.log('Scanner started successfully');
+    this.logger.info('Scanner started successfully');
   }
 
   /**
@@ -91,11 +105,11 @@ export class ArbitrageScanner extends EventEmitter {
    */
   stop(): void {
     if (!this.running) {
-      console.log('Scanner is not running');
+      this.logger.warn('Scanner is not running');
       return;
     }
 
-    console.log('Stopping Arbitrage Scanner...');
+    this.logger.info('Stopping Arbitrage Scanner...');
     this.running = false;
 
     if (this.scanInterval) {
@@ -109,20 +123,35 @@ export class ArbitrageScanner extends EventEmitter {
       timestamp: Date.now()
     });
 
-    console.log('Scanner stopped');
+    this.logger.info('Scanner stopped');
   }
 
   /**
-   * Perform a single scan for arbitrage opportunities
+   * Perform a single scan for arbitrage opportunities; every line it logs carries its scan id
    */
   private async performScan(): Promise<void> {
+    if (this.scanning) return;
+    this.scanning = true;
+    this.metrics.totalScans++;
+    this.metrics.lastScanTime = Date.now();
     try {
-      this.metrics.totalScans++;
-      this.metrics.lastScanTime = Date.now();
+      await withLogContext({ scanId: `scan_${this.metrics.totalScans}_${this.metrics.lastScanTime}` }, () => this.scan());
+    } finally {
+      this.scanning = false;
+    }
+  }
 
-      console.log(`Performing scan #${this.metrics.totalScans}...`);
+  private async scan(): Promise<void> {
+    const labels = { scanner: 'arbitrage-scanner' };
+    try {
+      this.logger.info(`Performing scan #${this.metrics.totalScans}...`);
+      if (!this.config.jupiter.enabled) {
+        this.logger.info('Jupiter is disabled and is this scanner\'s only price source; nothing to quote');
+        return;
+      }
 
       const opportunities: ArbitrageOpportunity[] = [];
+      const solPrices = new Map<string, Decimal | null>(); // Tokens per SOL, quoted once per scan
 
       // Scan each monitored pair
       for (const pairSymbol of this.config.monitoredPairs) {
@@ -131,13 +160,17 @@ export class ArbitrageScanner extends EventEmitter {
         const tokenB = getTokenBySymbol(tokenBSymbol);
 
         if (!tokenA || !tokenB) {
-          console.warn(`Unknown token in pair: ${pairSymbol}`);
+          this.logger.warn(`Unknown token in pair: ${pairSymbol}`, { pair: pairSymbol });
           continue;
         }
 
         // Get prices from Jupiter (which aggregates multiple DEXes)
-        const pairOpportunities = await this.scanPairForArbitrage(tokenA, tokenB);
+        const pairOpportunities = await withLogContext({ pair: pairSymbol }, () => this.scanPairForArbitrage(tokenA, tokenB, solPrices));
         opportunities.push(...pairOpportunities);
+        this.exported.pairScans.inc({ ...labels, pair: pairSymbol, outcome: 'ok' });
+        if (pairOpportunities.length > 0) {
+          this.exported.opportunities.inc({ ...labels, pair: pairSymbol, strategy: 'jupiter' }, pairOpportunities.length);
+        }
       }
 
       // Process found opportunities
@@ -171,81 +204,175 @@ export class ArbitrageScanner extends EventEmitter {
               timestamp: Date.now()
             });
 
-            console.log(`🚀 ARBITRAGE OPPORTUNITY FOUND!`);
-            console.log(`   Pair: ${opportunity.tokenA.symbol}/${opportunity.tokenB.symbol}`);
-            console.log(`   Buy on: ${opportunity.buyDex}`);
-            console.log(`   Sell on: ${opportunity.sellDex}`);
-            console.log(`   Profit: ${formatTokenAmount(opportunity.profitPercentage, 2)}%`);
-            console.log(`   Confidence: ${(opportunity.confidence * 100).toFixed(1)}%`);
+            this.logger.info(`🚀 ARBITRAGE OPPORTUNITY FOUND!`, {
+              pair: `${opportunity.tokenA.symbol}/${opportunity.tokenB.symbol}`,
+              buyDex: opportunity.buyDex,
+              sellDex: opportunity.sellDex,
+              profitPercentage: opportunity.profitPercentage.toNumber(),
+              confidence: opportunity.confidence
+            });
+            this.logger.info(`   Pair: ${opportunity.tokenA.symbol}/${opportunity.tokenB.symbol}`);
+            this.logger.info(`   Buy on: ${opportunity.buyDex}`);
+            this.logger.info(`   Sell on: ${opportunity.sellDex}`);
+            this.logger.info(`   Profit: ${formatTokenAmount(opportunity.profitPercentage, 2)}%`);
+            this.logger.info(`   Confidence: ${(opportunity.confidence * 100).toFixed(1)}%`);
           }
         });
       }
 
+      this.exported.scans.inc(labels);
+      this.exported.scanDuration.observe(labels, (Date.now() - this.metrics.lastScanTime) / 1000);
     } catch (error) {
-      console.error('Error during scan:', error);
+      this.logger.error('Error during scan:', { err: error });
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.emit('error', {
         type: ScannerEvent.ERROR,
         data: { error: errorMessage },
         timestamp: Date.now()
       });
+    } finally {
+      this.scanning = false;
     }
   }
 
   /**
-   * Scan a specific token pair for arbitrage opportunities
+   * Scan a specific token pair for arbitrage opportunities. A round trip at the smallest
+   * size is quoted first, and only a pair that profits there is sized.
    */
   private async scanPairForArbitrage(
     tokenA: TokenInfo, 
-    tokenB: TokenInfo
+    tokenB: TokenInfo,
+    solPrices: Map<string, Decimal | null>
   ): Promise<ArbitrageOpportunity[]> {
     const opportunities: ArbitrageOpportunity[] = [];
-    const testAmount = new Decimal(1); // 1 unit of tokenA
+    const slippageBps = this.config.maxSlippage * 100;
 
     try {
-      // Get quotes from Jupiter for both directions
-      const forwardRoute = await this.jupiterClient.getBestRoute(
-        tokenA, tokenB, testAmount, this.config.maxSlippage * 100
-      );
-
-      const reverseRoute = await this.jupiterClient.getBestRoute(
-        tokenB, tokenA, testAmount, this.config.maxSlippage * 100
-      );
-
-      if (forwardRoute.route && reverseRoute.route) {
-        // Calculate arbitrage opportunity
-        const forwardPrice = forwardRoute.outputAmount;
-        const reversePrice = new Decimal(1).div(reverseRoute.outputAmount);
-
-        const profitPercentage = calculateProfitPercentage(forwardPrice, reversePrice);
-
-        if (profitPercentage.gt(0)) {
-          const opportunity: ArbitrageOpportunity = {
-            id: `${createPairId(tokenA, tokenB)}-${Date.now()}`,
-            tokenA,
-            tokenB,
-            buyDex: this.extractDexFromRoute(forwardRoute.route),
-            sellDex: this.extractDexFromRoute(reverseRoute.route),
-            buyPrice: forwardPrice,
-            sellPrice: reversePrice,
-            profitPercentage,
-            estimatedProfit: testAmount.mul(profitPercentage.div(100)),
-            route: [], // Would be populated with detailed route info
-            timestamp: Date.now(),
-            confidence: this.calculateConfidence(forwardRoute.priceImpact, reverseRoute.priceImpact)
-          };
-
-          opportunities.push(opportunity);
-        }
+      // Round trip A -> B -> A through Jupiter, remembering the route for each size tried;
+      // a size already quoted is answered from there
+      type Route = Awaited<ReturnType<JupiterClient['getBestRoute']>>;
+      const forwardRoutes = new Map<string, Route>();
+      const reverseRoutes = new Map<string, Route>();
+
+      const routeQuote = (from: TokenInfo, to: TokenInfo, routes: Map<string, Route>): QuoteFunction =>
+        async amount => {
+          const quoted = routes.get(amount.toString());
+          if (quoted) return quoted.outputAmount;
+
+          const requestedAt = Date.now();
+          const route = await this.jupiterClient.getBestRoute(from, to, amount, slippageBps);
+          const labels = { scanner: 'arbitrage-scanner', venue: 'Jupiter', pair: `${tokenA.symbol}/${tokenB.symbol}` };
+          this.exported.venueRequests.inc({ ...labels, outcome: route.route ? 'success' : 'error' });
+          this.exported.venueLatency.observe(labels, (Date.now() - requestedAt) / 1000);
+          if (!route.route) {
+            throw new Error(`No Jupiter route for ${from.symbol}/${to.symbol}`);
+          }
+          const disabled = this.disabledDexIn(route.route);
+          if (disabled) {
+            throw new Error(`Jupiter route for ${from.symbol}/${to.symbol} goes through disabled DEX ${disabled}`);
+          }
+          routes.set(amount.toString(), route);
+          return route.outputAmount;
+        };
+
+      const buyQuote = routeQuote(tokenA, tokenB, forwardRoutes);
+      const sellQuote = routeQuote(tokenB, tokenA, reverseRoutes);
+      const minAmount = new Decimal(this.config.tradeSizeRange.min);
+
+      // Price impact is lowest at the smallest size: a round trip that loses there loses at any size
+      if ((await sellQuote(await buyQuote(minAmount))).lte(minAmount)) {
+        return opportunities;
+      }
+
+      // The round trip starts and ends in A, so gas is charged in A
+      if (!solPrices.has(tokenA.symbol)) {
+        solPrices.set(tokenA.symbol, await this.solPriceIn(tokenA, slippageBps));
+      }
+      const fees = await this.estimateRoundTripFees(tokenA, tokenB, solPrices.get(tokenA.symbol)!);
+      if (!fees.costQuote) {
+        this.logger.warn(`No SOL price in ${tokenA.symbol}; ${tokenA.symbol}/${tokenB.symbol} is sized without gas`);
+      }
+
+      // Each evaluation costs two Jupiter calls, so keep the search short; the first grid
+      // point is the pre-check's size and costs nothing
+      const solution = await solveOptimalTradeSize(buyQuote, sellQuote, {
+        minAmount,
+        maxAmount: new Decimal(this.config.tradeSizeRange.max),
+        gasCost: fees.costQuote ?? undefined,
+        gridPoints: 4,
+        maxEvaluations: 6
+      });
+
+      if (solution && solution.netProfit.gt(0)) {
+        const forwardRoute = forwardRoutes.get(solution.amountIn.toString())!;
+        const reverseRoute = reverseRoutes.get(solution.intermediateAmount.toString())!;
+
+        // Both prices in B per A, at the solved size
+        const forwardPrice = solution.intermediateAmount.div(solution.amountIn);
+        const reversePrice = solution.intermediateAmount.div(solution.amountOut);
+
+        const opportunity: ArbitrageOpportunity = {
+          id: `${createPairId(tokenA, tokenB)}-${Date.now()}`,
+          tokenA,
+          tokenB,
+          buyDex: this.extractDexFromRoute(forwardRoute.route),
+          sellDex: this.extractDexFromRoute(reverseRoute.route),
+          buyPrice: forwardPrice,
+          sellPrice: reversePrice,
+          profitPercentage: solution.netProfit.div(solution.amountIn).mul(100),
+          estimatedProfit: solution.netProfit,
+          tradeSize: solution.amountIn,
+          estimatedGasCost: fees.costSol,
+          route: [], // Would be populated with detailed route info
+          timestamp: Date.now(),
+          confidence: this.calculateConfidence(forwardRoute.priceImpact, reverseRoute.priceImpact)
+        };
+
+        opportunities.push(opportunity);
       }
 
     } catch (error) {
-      console.error(`Error scanning pair ${tokenA.symbol}/${tokenB.symbol}:`, error);
+      this.logger.error(`Error scanning pair ${tokenA.symbol}/${tokenB.symbol}:`, { err: error });
     }
 
     return opportunities;
   }
 
+  /**
+   * What landing an A -> B -> A round trip through Jupiter costs, bid from recent priority
+   * fees on the pair's configured pools. The route's venues are unknown until quoted, so
+   * both legs are priced as unprofiled aggregator swaps.
+   */
+  private async estimateRoundTripFees(tokenA: TokenInfo, tokenB: TokenInfo, quotePerSol: Decimal | null): Promise<FeeEstimate> {
+    const pools = KNOWN_POOLS.filter(pool =>
+      [pool.tokenA, pool.tokenB].sort().join('/') === [tokenA.symbol, tokenB.symbol].sort().join('/') &&
+      this.config.dexes[pool.dex]?.enabled !== false
+    );
+    const sample = await this.feeEstimator.samplePriorityFee(pools.map(pool => pool.address));
+    return this.feeEstimator.estimateWith(sample, ['Jupiter', 'Jupiter'], quotePerSol);
+  }
+
+  /**
+   * Tokens per SOL: one SOL quoted into the token through Jupiter; null without a route
+   */
+  private async solPriceIn(token: TokenInfo, slippageBps: number): Promise<Decimal | null> {
+    if (token.symbol === 'SOL') return new Decimal(1);
+    const sol = getTokenBySymbol('SOL')!;
+    const { route, outputAmount } = await this.jupiterClient.getBestRoute(sol, token, new Decimal(1), slippageBps);
+    return route && outputAmount.gt(0) ? outputAmount : null;
+  }
+
+  /**
+   * Label of the first route step on a DEX the config disables, if any
+   */
+  private disabledDexIn(route: JupiterRoute): string | null {
+    const step = (route.routePlan || []).find(({ swapInfo }) => {
+      const dex = toPoolDex(swapInfo.label || '');
+      return dex !== null && this.config.dexes[dex]?.enabled === false;
+    });
+    return step ? step.swapInfo.label : null;
+  }
+
   /**
    * Extract DEX name from Jupiter route
    */
@@ -293,17 +420,64 @@ export class ArbitrageScanner extends EventEmitter {
   }
 
   /**
-   * Update configuration
+   * Apply a new configuration while running. Clients are only replaced when their endpoint
+   * changed, a new priceUpdateInterval restarts the scan timer, and cached prices are kept
+   * for the pairs still monitored. Emits a STATUS_UPDATE listing the changes, if any.
    */
-  updateConfig(newConfig: Partial<ScannerConfig>): void {
+  updateConfig(newConfig: Partial<ScannerConfig>): ConfigChange[] {
+    const previous = this.config;
     this.config = { ...this.config, ...newConfig };
-    
-    if (newConfig.rpcEndpoint) {
-      this.connection = new Connection(newConfig.rpcEndpoint, 'confirmed');
+    const changes = diffScannerConfig(previous, this.config);
+    if (changes.length === 0) return changes;
+
+    const changed = (prefix: string) => changes.some(change => change.key === prefix || change.key.startsWith(`${prefix}.`));
+
+    if (changed('rpcEndpoint')) {
+      this.connection = new Connection(this.config.rpcEndpoint, 'confirmed');
+    }
+    if (changed('jupiter.apiEndpoint')) {
+      this.jupiterClient = new JupiterClient(this.config.jupiter.apiEndpoint);
+    }
+    if (changed('priceUpdateInterval') && this.scanInterval) {
+      this.scheduleScans();
     }
+    if (changed('monitoredPairs')) {
+      this.dropUnmonitoredPairs();
+    }
+    if (changed('dexes')) {
+      const status = this.metrics.dexStatus;
+      this.metrics.dexStatus = Object.fromEntries(Object.keys(this.config.dexes).map(dex => [dex, status[dex] ?? false]));
+    }
+
+    this.emit('status_update', {
+      type: ScannerEvent.STATUS_UPDATE,
+      data: { status: 'config_updated', changes, metrics: this.metrics },
+      timestamp: Date.now()
+    });
+    return changes;
+  }
+
+  /**
+   * (Re)start the scan timer at the configured interval. Ticks that land while a scan is
+   * still quoting are skipped rather than stacked.
+   */
+  private scheduleScans(): void {
+    if (this.scanInterval) clearInterval(this.scanInterval);
+    this.scanInterval = setInterval(async () => {
+      await this.performScan();
+    }, this.config.priceUpdateInterval);
+  }
 
-    if (newConfig.jupiter?.apiEndpoint) {
-      this.jupiterClient = new JupiterClient(newConfig.jupiter.apiEndpoint);
+  /**
+   * Forget cached prices and pools of pairs no longer monitored
+   */
+  private dropUnmonitoredPairs(): void {
+    const monitored = new Set(this.config.monitoredPairs.map(pair => {
+      const [tokenA, tokenB] = pair.split('/').map(symbol => getTokenBySymbol(symbol));
+      return tokenA && tokenB ? createPairId(tokenA, tokenB) : pair;
+    }));
+    for (const cache of [this.priceCache, this.poolCache] as Map<string, unknown>[]) {
+      Array.from(cache.keys()).filter(pairId => !monitored.has(pairId)).forEach(pairId => cache.delete(pairId));
     }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { PublicKey } from '@solana/web3.js';
+import { ScannerConfig, defaultConfig } from '../config/config';
+import { PoolDex, findPool } from '../config/pools';
+import { AccountFetcher } from '../dex/accounts';
+import { MeteoraDlmmQuoter } from '../dex/meteoraDlmm';
+import { OrcaWhirlpoolQuoter } from '../dex/orcaWhirlpool';
+import { PhoenixQuoter } from '../dex/phoenix';
+import { RaydiumAmmQuoter } from '../dex/raydiumAmm';
+import { SwapQuote } from '../dex/types';
+import { JupiterClient } from '../utils/jupiterClient';
+import { fromRawAmount, toRawAmount } from '../utils/tokenUtils';
+import type { TokenPair } from '../utils/optimizedPriceCollector';
+import { PriceSource, PriceSourceRegistry, SourceQuote } from './priceSource';
+
+/**
+ * Anything that can quote an exact-input swap on a known pool
+ */
+export interface PoolQuoter {
+  quote(address: PublicKey, inputMint: PublicKey, amountIn: bigint): Promise<SwapQuote>;
+}
+
+/**
+ * Price source backed by an on-chain quoter and the pools in KNOWN_POOLS
+ */
+export class PoolPriceSource implements PriceSource {
+  readonly kind = 'direct';
+  readonly id: PoolDex;
+  readonly name: string;
+  private quoter: PoolQuoter;
+  private poolLabel: string;
+
+  constructor(id: PoolDex, name: string, quoter: PoolQuoter, poolLabel: string) {
+    this.id = id;
+    this.name = name;
+    this.quoter = quoter;
+    this.poolLabel = poolLabel;
+  }
+
+  async quote(tokenPair: TokenPair): Promise<SourceQuote> {
+    const pool = findPool(this.id, tokenPair.from, tokenPair.to);
+    if (!pool) {
+      throw new Error(`No ${this.poolLabel} configured for ${tokenPair.from}/${tokenPair.to}`);
+    }
+
+    const quote = await this.quoter.quote(
+      pool.address,
+      new PublicKey(tokenPair.fromMint!),
+      BigInt(toRawAmount(tokenPair.amount, tokenPair.fromDecimals!))
+    );
+
+    const feeInInput = quote.feeMint.equals(quote.inputMint);
+
+    return {
+      outputAmount: quote.amountOut.toString(),
+      priceImpact: quote.priceImpact.toNumber(),
+      liquidity: fromRawAmount(quote.outputLiquidity.toString(), tokenPair.toDecimals || 6).toNumber(),
+      fees: fromRawAmount(
+        quote.feeAmount.toString(),
+        feeInInput ? tokenPair.fromDecimals || 9 : tokenPair.toDecimals || 6
+      ).toString(),
+      feeToken: feeInInput ? tokenPair.from : tokenPair.to
+    };
+  }
+}
+
+/**
+ * Jupiter aggregated route price
+ */
+export class JupiterPriceSource implements PriceSource {
+  readonly id = 'jupiter';
+  readonly name = 'Jupiter';
+  readonly kind = 'aggregator';
+  private jupiterClient: JupiterClient;
+
+  constructor(jupiterClient: JupiterClient) {
+    this.jupiterClient = jupiterClient;
+  }
+
+  async quote(tokenPair: TokenPair): Promise<SourceQuote> {
+    if (!tokenPair.fromMint || !tokenPair.toMint || !tokenPair.fromDecimals) {
+      throw new Error('Missing token information for Jupiter call');
+    }
+
+    const quote = await this.jupiterClient.getQuote(
+      tokenPair.fromMint,
+      tokenPair.toMint,
+      tokenPair.amount,
+      tokenPair.fromDecimals,
+      50 // 0.5% slippage
+    );
+
+    if (!quote) {
+      throw new Error('Jupiter quote failed');
+    }
+
+    return {
+      outputAmount: quote.outAmount,
+      priceImpact: Number(quote.priceImpactPct || 0),
+      fees: '0', // Route fees are already netted out of outAmount
+      confidence: 0.95 // Jupiter is generally very reliable
+    };
+  }
+}
+
+/**
+ * Ids of the built-in venues, in registration order
+ */
+export const DEFAULT_PRICE_SOURCE_IDS = ['raydium', 'orca', 'phoenix', 'meteora', 'jupiter'];
+
+/**
+ * The built-in venues: direct on-chain quoters followed by Jupiter
+ */
+export function createDefaultPriceSources(fetcher: AccountFetcher, jupiterClient: JupiterClient): PriceSource[] {
+  return [
+    new PoolPriceSource('raydium', 'Raydium', new RaydiumAmmQuoter(fetcher), 'Raydium pool'),
+    new PoolPriceSource('orca', 'Orca', new OrcaWhirlpoolQuoter(fetcher), 'Orca Whirlpool'),
+    new PoolPriceSource('phoenix', 'Phoenix', new PhoenixQuoter(fetcher), 'Phoenix market'),
+    new PoolPriceSource('meteora', 'Meteora', new MeteoraDlmmQuoter(fetcher), 'Meteora DLMM pair'),
+    new JupiterPriceSource(jupiterClient)
+  ];
+}
+
+/**
+ * Registry of the built-in venues, enabled according to `config`
+ */
+export function createPriceSourceRegistry(
+  fetcher: AccountFetcher,
+  jupiterClient: JupiterClient,
+  config: ScannerConfig = defaultConfig
+): PriceSourceRegistry {
+  const registry = new PriceSourceRegistry();
+  createDefaultPriceSources(fetcher, jupiterClient).forEach(source => registry.register(source));
+  registry.applyConfig(config);
+  return registry;
+}
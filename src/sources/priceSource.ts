@@ -0,0 +1,105 @@
+import { ScannerConfig } from '../config/config';
+import type { TokenPair } from '../utils/optimizedPriceCollector';
+
+/**
+ * Raw quote returned by a price source for one token pair
+ */
+export interface SourceQuote {
+  outputAmount: string; // Raw units of the output token
+  priceImpact: number;
+  liquidity?: number; // Output-side liquidity in UI units, when the venue exposes it
+  fees: string; // UI units
+  feeToken?: string; // Symbol the fee is charged in; defaults to the input token
+  confidence?: number; // Overrides the liquidity-based score (aggregators)
+}
+
+/**
+ * A venue the collector can price against.
+ * `id` keys the consolidated price map and the `ScannerConfig.dexes` entry that enables it.
+ */
+export interface PriceSource {
+  readonly id: string;
+  readonly name: string;
+  readonly kind: 'direct' | 'aggregator';
+  quote(tokenPair: TokenPair): Promise<SourceQuote>;
+}
+
+/**
+ * Ordered set of price sources with per-source enablement
+ */
+export class PriceSourceRegistry {
+  private sources: Map<string, PriceSource> = new Map();
+  private disabled: Set<string> = new Set();
+
+  /**
+   * Add a source; ids must be unique
+   */
+  register(source: PriceSource, enabled: boolean = true): void {
+    if (this.sources.has(source.id)) {
+      throw new Error(`Price source already registered: ${source.id}`);
+    }
+    this.sources.set(source.id, source);
+    this.setEnabled(source.id, enabled);
+  }
+
+  unregister(id: string): boolean {
+    this.disabled.delete(id);
+    return this.sources.delete(id);
+  }
+
+  get(id: string): PriceSource | undefined {
+    return this.sources.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.sources.has(id);
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    if (!this.sources.has(id)) {
+      throw new Error(`Unknown price source: ${id}`);
+    }
+    if (enabled) {
+      this.disabled.delete(id);
+    } else {
+      this.disabled.add(id);
+    }
+  }
+
+  isEnabled(id: string): boolean {
+    return this.sources.has(id) && !this.disabled.has(id);
+  }
+
+  /**
+   * All registered sources in registration order
+   */
+  getAll(): PriceSource[] {
+    return Array.from(this.sources.values());
+  }
+
+  /**
+   * Enabled sources in registration order
+   */
+  getEnabled(): PriceSource[] {
+    return this.getAll().filter(source => !this.disabled.has(source.id));
+  }
+
+  /**
+   * Enable or disable sources from their `ScannerConfig` entries.
+   * Sources without a config entry keep their current state.
+   */
+  applyConfig(config: ScannerConfig): void {
+    for (const source of this.getAll()) {
+      // Jupiter is toggled by its own config block rather than `dexes`
+      if (source.id === 'jupiter') {
+        this.setEnabled(source.id, config.jupiter.enabled);
+        continue;
+      }
+
+      const dexConfig = config.dexes[source.id];
+      if (dexConfig) {
+        this.setEnabled(source.id, dexConfig.enabled);
+      }
+    }
+  }
+}
@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+
+/**
+ * One venue's quote for a pair. Timestamps are milliseconds since the epoch.
+ */
+export interface QuoteRow {
+  timestamp: number;
+  pair: string; // BASE/QUOTE
+  venue: string;
+  inputAmount: number;
+  outputAmount: number;
+  price: number; // Quote per base
+  priceImpact: number; // Fraction, not percent
+  responseTimeMs: number | null;
+}
+
+export interface OpportunityRow {
+  timestamp: number;
+  pair: string;
+  strategy: string;
+  buyVenue: string;
+  sellVenue: string;
+  buyPrice: number;
+  sellPrice: number;
+  spreadPercent: number;
+  grossProfit: number;
+  gasCost: number | null; // In the scanner's own unit; null when it did not estimate gas
+  netProfit: number | null;
+  confidence: string | null;
+  viable: boolean | null; // Null when the opportunity was not simulated or paper traded
+}
+
+/**
+ * Outcome of asking one venue for one quote
+ */
+export interface SourceHealthRow {
+  timestamp: number;
+  venue: string;
+  pair: string;
+  success: boolean;
+  latencyMs: number | null;
+  error: string | null;
+}
+
+export interface ScanRecord {
+  scanner: string; // Scanner mode, e.g. 'legitimate' or 'realtime'
+  startedAt: number;
+  finishedAt: number;
+  quotes: QuoteRow[];
+  opportunities: OpportunityRow[];
+  sourceHealth: SourceHealthRow[];
+  error?: string;
+}
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS scans (
+    id INTEGER PRIMARY KEY,
+    scanner TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    finished_at INTEGER NOT NULL,
+    quote_count INTEGER NOT NULL,
+    opportunity_count INTEGER NOT NULL,
+    error TEXT
+  );
+  CREATE TABLE IF NOT EXISTS quotes (
+    id INTEGER PRIMARY KEY,
+    scan_id INTEGER NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+    timestamp INTEGER NOT NULL,
+    pair TEXT NOT NULL,
+    venue TEXT NOT NULL,
+    input_amount REAL NOT NULL,
+    output_amount REAL NOT NULL,
+    price REAL NOT NULL,
+    price_impact REAL NOT NULL,
+    response_time_ms INTEGER
+  );
+  CREATE TABLE IF NOT EXISTS opportunities (
+    id INTEGER PRIMARY KEY,
+    scan_id INTEGER NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+    timestamp INTEGER NOT NULL,
+    pair TEXT NOT NULL,
+    strategy TEXT NOT NULL,
+    buy_venue TEXT NOT NULL,
+    sell_venue TEXT NOT NULL,
+    buy_price REAL NOT NULL,
+    sell_price REAL NOT NULL,
+    spread_percent REAL NOT NULL,
+    gross_profit REAL NOT NULL,
+    gas_cost REAL,
+    net_profit REAL,
+    confidence TEXT,
+    viable INTEGER
+  );
+  CREATE TABLE IF NOT EXISTS source_health (
+    id INTEGER PRIMARY KEY,
+    scan_id INTEGER NOT NULL REFERENCES scans(id) ON DELETE CASCADE,
+    timestamp INTEGER NOT NULL,
+    venue TEXT NOT NULL,
+    pair TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    latency_ms INTEGER,
+    error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS scans_started_at ON scans (started_at);
+  CREATE INDEX IF NOT EXISTS quotes_pair_time ON quotes (pair, timestamp);
+  CREATE INDEX IF NOT EXISTS opportunities_pair_time ON opportunities (pair, timestamp);
+  CREATE INDEX IF NOT EXISTS source_health_venue_time ON source_health (venue, timestamp);
+`;
+
+/**
+ * Store location: STORE_PATH, or data/arbitrage.db next to the CSV output
+ */
+export function defaultStorePath(): string {
+  return process.env.STORE_PATH || path.join(process.cwd(), 'data', 'arbitrage.db');
+}
+
+/**
+ * Embedded SQLite history of every scan across scanner modes: the quotes it saw,
+ * the opportunities it reported and how each venue responded. Written next to the CSVs.
+ */
+export class OpportunityStore {
+  readonly database: Database.Database;
+  private insertScan: Database.Statement;
+  private insertQuote: Database.Statement;
+  private insertOpportunity: Database.Statement;
+  private insertSourceHealth: Database.Statement;
+
+  /**
+   * Open or create a store; ':memory:' gives a throwaway one
+   */
+  constructor(filename: string = defaultStorePath()) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.database = new Database(filename);
+    // Scanners in separate processes share one file
+    this.database.pragma('journal_mode = WAL');
+    this.database.pragma('busy_timeout = 5000');
+    this.database.pragma('foreign_keys = ON');
+    this.migrate();
+
+    this.insertScan = this.database.prepare(`
+      INSERT INTO scans (scanner, started_at, finished_at, quote_count, opportunity_count, error)
+      VALUES (@scanner, @startedAt, @finishedAt, @quoteCount, @opportunityCount, @error)
+    `);
+    this.insertQuote = this.database.prepare(`
+      INSERT INTO quotes (scan_id, timestamp, pair, venue, input_amount, output_amount, price, price_impact, response_time_ms)
+      VALUES (@scanId, @timestamp, @pair, @venue, @inputAmount, @outputAmount, @price, @priceImpact, @responseTimeMs)
+    `);
+    this.insertOpportunity = this.database.prepare(`
+      INSERT INTO opportunities (
+        scan_id, timestamp, pair, strategy, buy_venue, sell_venue, buy_price, sell_price,
+        spread_percent, gross_profit, gas_cost, net_profit, confidence, viable
+      ) VALUES (
+        @scanId, @timestamp, @pair, @strategy, @buyVenue, @sellVenue, @buyPrice, @sellPrice,
+        @spreadPercent, @grossProfit, @gasCost, @netProfit, @confidence, @viable
+      )
+    `);
+    this.insertSourceHealth = this.database.prepare(`
+      INSERT INTO source_health (scan_id, timestamp, venue, pair, success, latency_ms, error)
+      VALUES (@scanId, @timestamp, @venue, @pair, @success, @latencyMs, @error)
+    `);
+  }
+
+  /**
+   * Write a scan and everything it observed in one transaction; returns the scan id
+   */
+  recordScan(scan: ScanRecord): number {
+    const write = this.database.transaction((record: ScanRecord) => {
+      const scanId = Number(this.insertScan.run({
+        scanner: record.scanner,
+        startedAt: record.startedAt,
+        finishedAt: record.finishedAt,
+        quoteCount: record.quotes.length,
+        opportunityCount: record.opportunities.length,
+        error: record.error ?? null
+      }).lastInsertRowid);
+
+      for (const quote of record.quotes) {
+        this.insertQuote.run({ scanId, ...quote });
+      }
+      for (const opportunity of record.opportunities) {
+        this.insertOpportunity.run({
+          scanId,
+          ...opportunity,
+          viable: opportunity.viable === null ? null : Number(opportunity.viable)
+        });
+      }
+      for (const check of record.sourceHealth) {
+        this.insertSourceHealth.run({ scanId, ...check, success: Number(check.success) });
+      }
+
+      return scanId;
+    });
+
+    return write(scan);
+  }
+
+  close(): void {
+    this.database.close();
+  }
+
+  private migrate(): void {
+    const version = this.database.pragma('user_version', { simple: true }) as number;
+    if (version > SCHEMA_VERSION) {
+      throw new Error(`Store schema version ${version} is newer than supported version ${SCHEMA_VERSION}`);
+    }
+
+    this.database.exec(SCHEMA);
+    this.database.pragma(`user_version = ${SCHEMA_VERSION}`);
+  }
+}
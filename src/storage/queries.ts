@@ -0,0 +1,228 @@
+import { OpportunityRow, OpportunityStore, QuoteRow } from './opportunityStore';
+
+const HOUR_MS = 3600000;
+
+/**
+ * Half-open time window [from, to); either bound may be left out
+ */
+export interface TimeRange {
+  from?: number | Date;
+  to?: number | Date;
+}
+
+export interface OpportunityQuery extends TimeRange {
+  pair?: string;
+  scanner?: string;
+  strategy?: string;
+  venue?: string; // Matches either the buy or the sell side
+  minSpreadPercent?: number; // Exclusive
+  minNetProfit?: number; // Exclusive
+  viableOnly?: boolean;
+  limit?: number;
+}
+
+export interface StoredOpportunity extends OpportunityRow {
+  id: number;
+  scanId: number;
+  scanner: string;
+}
+
+export interface QuoteQuery extends TimeRange {
+  pair?: string;
+  venue?: string;
+  scanner?: string;
+  limit?: number;
+}
+
+export interface StoredQuote extends QuoteRow {
+  id: number;
+  scanId: number;
+  scanner: string;
+}
+
+export interface ScanQuery extends TimeRange {
+  scanner?: string;
+  limit?: number;
+}
+
+export interface StoredScan {
+  id: number;
+  scanner: string;
+  startedAt: number;
+  finishedAt: number;
+  quoteCount: number;
+  opportunityCount: number;
+  error: string | null;
+}
+
+export interface UptimeQuery extends TimeRange {
+  venue?: string;
+  pair?: string;
+}
+
+export interface VenueUptime {
+  venue: string;
+  hour: number; // Start of the hour, ms since the epoch
+  checks: number;
+  successes: number;
+  uptime: number; // successes / checks
+  averageLatencyMs: number | null; // Over successful checks
+}
+
+export interface ScannerSummary {
+  scanner: string;
+  scans: number;
+  quotes: number;
+  opportunities: number;
+  bestSpreadPercent: number | null;
+  firstScanAt: number;
+  lastScanAt: number;
+}
+
+/**
+ * WHERE clause builder; conditions are ANDed and values bound by name
+ */
+class Conditions {
+  readonly clauses: string[] = [];
+  readonly params: Record<string, unknown> = {};
+
+  add(clause: string, name: string, value: unknown): this {
+    if (value !== undefined) {
+      this.clauses.push(clause);
+      this.params[name] = value;
+    }
+    return this;
+  }
+
+  range(column: string, range: TimeRange): this {
+    return this
+      .add(`${column} >= @from`, 'from', toMillis(range.from))
+      .add(`${column} < @to`, 'to', toMillis(range.to));
+  }
+
+  toString(): string {
+    return this.clauses.length > 0 ? `WHERE ${this.clauses.join(' AND ')}` : '';
+  }
+}
+
+function toMillis(time: number | Date | undefined): number | undefined {
+  return time instanceof Date ? time.getTime() : time;
+}
+
+function limitClause(limit: number | undefined): string {
+  if (limit === undefined) return '';
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error(`Query limit must be a positive integer, got ${limit}`);
+  }
+  return `LIMIT ${limit}`;
+}
+
+/**
+ * Opportunities matching every given filter, newest first.
+ * e.g. SOL/USDC between two timestamps with a spread above 0.5%:
+ * `findOpportunities(store, { pair: 'SOL/USDC', from, to, minSpreadPercent: 0.5 })`
+ */
+export function findOpportunities(store: OpportunityStore, query: OpportunityQuery = {}): StoredOpportunity[] {
+  const where = new Conditions()
+    .range('o.timestamp', query)
+    .add('o.pair = @pair', 'pair', query.pair)
+    .add('s.scanner = @scanner', 'scanner', query.scanner)
+    .add('o.strategy = @strategy', 'strategy', query.strategy)
+    .add('(o.buy_venue = @venue OR o.sell_venue = @venue)', 'venue', query.venue)
+    .add('o.spread_percent > @minSpreadPercent', 'minSpreadPercent', query.minSpreadPercent)
+    .add('o.net_profit > @minNetProfit', 'minNetProfit', query.minNetProfit);
+  if (query.viableOnly) where.clauses.push('o.viable = 1');
+
+  const rows = store.database.prepare(`
+    SELECT o.id, o.scan_id AS scanId, s.scanner, o.timestamp, o.pair, o.strategy,
+      o.buy_venue AS buyVenue, o.sell_venue AS sellVenue, o.buy_price AS buyPrice, o.sell_price AS sellPrice,
+      o.spread_percent AS spreadPercent, o.gross_profit AS grossProfit, o.gas_cost AS gasCost,
+      o.net_profit AS netProfit, o.confidence, o.viable
+    FROM opportunities o JOIN scans s ON s.id = o.scan_id
+    ${where}
+    ORDER BY o.timestamp DESC, o.id DESC
+    ${limitClause(query.limit)}
+  `).all(where.params) as Array<StoredOpportunity & { viable: number | null }>;
+
+  return rows.map(row => ({ ...row, viable: row.viable === null ? null : row.viable === 1 }));
+}
+
+/**
+ * Recorded quotes, oldest first, for charting a venue's price over time
+ */
+export function findQuotes(store: OpportunityStore, query: QuoteQuery = {}): StoredQuote[] {
+  const where = new Conditions()
+    .range('q.timestamp', query)
+    .add('q.pair = @pair', 'pair', query.pair)
+    .add('q.venue = @venue', 'venue', query.venue)
+    .add('s.scanner = @scanner', 'scanner', query.scanner);
+
+  return store.database.prepare(`
+    SELECT q.id, q.scan_id AS scanId, s.scanner, q.timestamp, q.pair, q.venue,
+      q.input_amount AS inputAmount, q.output_amount AS outputAmount, q.price,
+      q.price_impact AS priceImpact, q.response_time_ms AS responseTimeMs
+    FROM quotes q JOIN scans s ON s.id = q.scan_id
+    ${where}
+    ORDER BY q.timestamp, q.id
+    ${limitClause(query.limit)}
+  `).all(where.params) as StoredQuote[];
+}
+
+/**
+ * Scans started in the window, newest first
+ */
+export function listScans(store: OpportunityStore, query: ScanQuery = {}): StoredScan[] {
+  const where = new Conditions()
+    .range('started_at', query)
+    .add('scanner = @scanner', 'scanner', query.scanner);
+
+  return store.database.prepare(`
+    SELECT id, scanner, started_at AS startedAt, finished_at AS finishedAt,
+      quote_count AS quoteCount, opportunity_count AS opportunityCount, error
+    FROM scans
+    ${where}
+    ORDER BY started_at DESC, id DESC
+    ${limitClause(query.limit)}
+  `).all(where.params) as StoredScan[];
+}
+
+/**
+ * Share of successful quote requests per venue and hour, oldest hour first
+ */
+export function venueUptimeByHour(store: OpportunityStore, query: UptimeQuery = {}): VenueUptime[] {
+  const where = new Conditions()
+    .range('timestamp', query)
+    .add('venue = @venue', 'venue', query.venue)
+    .add('pair = @pair', 'pair', query.pair);
+
+  return store.database.prepare(`
+    SELECT venue, (timestamp / ${HOUR_MS}) * ${HOUR_MS} AS hour,
+      COUNT(*) AS checks, SUM(success) AS successes,
+      CAST(SUM(success) AS REAL) / COUNT(*) AS uptime,
+      AVG(CASE WHEN success = 1 THEN latency_ms END) AS averageLatencyMs
+    FROM source_health
+    ${where}
+    GROUP BY venue, hour
+    ORDER BY hour, venue
+  `).all(where.params) as VenueUptime[];
+}
+
+/**
+ * Totals per scanner mode, for comparing runs without opening their CSVs
+ */
+export function summarizeScanners(store: OpportunityStore, range: TimeRange = {}): ScannerSummary[] {
+  const where = new Conditions().range('s.started_at', range);
+
+  return store.database.prepare(`
+    SELECT s.scanner, COUNT(*) AS scans, SUM(s.quote_count) AS quotes,
+      SUM(s.opportunity_count) AS opportunities, MAX(best.spread) AS bestSpreadPercent,
+      MIN(s.started_at) AS firstScanAt, MAX(s.started_at) AS lastScanAt
+    FROM scans s
+    LEFT JOIN (
+      SELECT scan_id, MAX(spread_percent) AS spread FROM opportunities GROUP BY scan_id
+    ) best ON best.scan_id = s.id
+    ${where}
+    GROUP BY s.scanner
+    ORDER BY s.scanner
+  `).all(where.params) as ScannerSummary[];
+}
@@ -0,0 +1,203 @@
+import Decimal from 'decimal.js';
+import { rootLogger } from '../logging/logger';
+import { ArbitrageOpportunity } from '../utils/arbitrageAnalyzer';
+import { DEXPriceMap } from '../utils/optimizedPriceCollector';
+import { OpportunityRow, OpportunityStore, QuoteRow, ScanRecord, SourceHealthRow } from './opportunityStore';
+
+/**
+ * One venue's quote as the scanners hold it
+ */
+export interface VenueQuote {
+  dex: string;
+  price: Decimal;
+  inputAmount: Decimal;
+  outputAmount: Decimal;
+  priceImpact: Decimal;
+  source?: 'direct' | 'aggregator' | 'route'; // Route: a step of an aggregator route
+  liquidityAvailable?: boolean;
+  responseTimeMs?: number;
+}
+
+/**
+ * Buy-low/sell-high opportunity shape shared by the CSV scanners
+ */
+export interface PairOpportunity {
+  pair: string;
+  buyDex: string;
+  sellDex: string;
+  buyPrice: Decimal;
+  sellPrice: Decimal;
+  profit: Decimal;
+  profitPercentage: Decimal; // Percent
+  estimatedGasCost?: Decimal;
+  netProfitAfterGas?: Decimal;
+  strategy?: string; // Overrides the strategy the rows are written with
+  confidence?: string;
+  viable?: boolean; // Set once simulated or paper-traded
+  tradeSize?: Decimal; // Quote token input the profit was sized for
+}
+
+export function quoteRows(pair: string, quotes: VenueQuote[], timestamp: number, responseTimeMs: number | null = null): QuoteRow[] {
+  return quotes.map(quote => ({
+    timestamp,
+    pair,
+    venue: quote.dex,
+    inputAmount: quote.inputAmount.toNumber(),
+    outputAmount: quote.outputAmount.toNumber(),
+    price: quote.price.toNumber(),
+    priceImpact: quote.priceImpact.toNumber(),
+    responseTimeMs: quote.responseTimeMs ?? responseTimeMs
+  }));
+}
+
+export function opportunityRows(strategy: string, opportunities: PairOpportunity[], timestamp: number): OpportunityRow[] {
+  return opportunities.map(opportunity => ({
+    timestamp,
+    pair: opportunity.pair,
+    strategy: opportunity.strategy ?? strategy,
+    buyVenue: opportunity.buyDex,
+    sellVenue: opportunity.sellDex,
+    buyPrice: opportunity.buyPrice.toNumber(),
+    sellPrice: opportunity.sellPrice.toNumber(),
+    spreadPercent: opportunity.profitPercentage.toNumber(),
+    grossProfit: opportunity.profit.toNumber(),
+    gasCost: opportunity.estimatedGasCost?.toNumber() ?? null,
+    netProfit: opportunity.netProfitAfterGas?.toNumber() ?? null,
+    confidence: opportunity.confidence ?? null,
+    viable: opportunity.viable ?? null
+  }));
+}
+
+/**
+ * Rows for ArbitrageAnalyzer opportunities, whose spreads are fractions and gas is in the profit token
+ */
+export function analyzerOpportunityRows(opportunities: ArbitrageOpportunity[]): OpportunityRow[] {
+  return opportunities.map(opportunity => ({
+    timestamp: opportunity.timestamp,
+    pair: opportunity.pair,
+    strategy: opportunity.strategy,
+    buyVenue: opportunity.buyDex,
+    sellVenue: opportunity.sellDex,
+    buyPrice: opportunity.buyPrice.toNumber(),
+    sellPrice: opportunity.sellPrice.toNumber(),
+    spreadPercent: opportunity.spreadPercentage.mul(100).toNumber(),
+    grossProfit: opportunity.estimatedProfit.toNumber(),
+    gasCost: opportunity.estimatedGas.toNumber(),
+    netProfit: opportunity.netProfit.toNumber(),
+    confidence: opportunity.confidence.toFixed(2),
+    viable: null
+  }));
+}
+
+/**
+ * Health of a request to `venue` sent at `requestedAt`; pass the error if it failed
+ */
+export function sourceCheck(venue: string, pair: string, requestedAt: number, error?: unknown): SourceHealthRow {
+  return {
+    timestamp: requestedAt,
+    venue,
+    pair,
+    success: error === undefined,
+    latencyMs: Date.now() - requestedAt,
+    error: error === undefined ? null : error instanceof Error ? error.message : String(error)
+  };
+}
+
+/**
+ * Quotes and per-source health from one collector run. Failed sources become
+ * health rows only; their zeroed quotes are left out.
+ */
+export function priceMapRows(pair: string, priceMap: DEXPriceMap): { quotes: QuoteRow[]; sourceHealth: SourceHealthRow[] } {
+  const quotes: QuoteRow[] = [];
+  const sourceHealth: SourceHealthRow[] = [];
+
+  for (const price of priceMap.prices.values()) {
+    sourceHealth.push({
+      timestamp: price.timestamp,
+      venue: price.dex,
+      pair,
+      success: !price.error,
+      latencyMs: price.responseTime,
+      error: price.error ?? null
+    });
+    if (!price.error) {
+      quotes.push(...quoteRows(pair, [price], price.timestamp, price.responseTime));
+    }
+  }
+
+  return { quotes, sourceHealth };
+}
+
+/**
+ * Collects one scan's rows and writes them to the store when the scan ends.
+ * Store failures are logged, never thrown, so they cannot stop a scanner.
+ */
+export class ScanRecorder {
+  private record: ScanRecord | null = null;
+  private logger = rootLogger().child({ component: 'writer', scanner: this.scanner });
+
+  constructor(private store: OpportunityStore | null, readonly scanner: string) {}
+
+  /**
+   * Recorder on the default store; without one (e.g. the native module failed to load) it records nothing
+   */
+  static open(scanner: string): ScanRecorder {
+    try {
+      return new ScanRecorder(new OpportunityStore(), scanner);
+    } catch (error) {
+      rootLogger().child({ component: 'writer', scanner }).error('❌ Error opening opportunity store:', { err: error });
+      return new ScanRecorder(null, scanner);
+    }
+  }
+
+  begin(startedAt: number = Date.now()): void {
+    this.record = {
+      scanner: this.scanner,
+      startedAt,
+      finishedAt: startedAt,
+      quotes: [],
+      opportunities: [],
+      sourceHealth: []
+    };
+  }
+
+  addQuotes(rows: QuoteRow[]): void {
+    this.current().quotes.push(...rows);
+  }
+
+  addOpportunities(rows: OpportunityRow[]): void {
+    this.current().opportunities.push(...rows);
+  }
+
+  addSourceHealth(rows: SourceHealthRow[]): void {
+    this.current().sourceHealth.push(...rows);
+  }
+
+  /**
+   * Write the scan begun last; returns its id, or null if nothing was written
+   */
+  finish(error?: string): number | null {
+    const record = this.current();
+    this.record = null;
+    if (!this.store) return null;
+
+    try {
+      return this.store.recordScan({ ...record, finishedAt: Date.now(), error });
+    } catch (storeError) {
+      this.logger.error('❌ Error writing to opportunity store:', { err: storeError });
+      return null;
+    }
+  }
+
+  close(): void {
+    this.store?.close();
+    this.store = null;
+  }
+
+  private current(): ScanRecord {
+    if (!this.record) {
+      throw new Error(`No ${this.scanner} scan in progress; call begin() first`);
+    }
+    return this.record;
+  }
+}
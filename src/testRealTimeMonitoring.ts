@@ -43,12 +43,12 @@ async function testRealTimePoolMonitoring() {
 
     console.log('1. Testing Pool Subscriptions...');
     
-    // Test pool subscriptions (Note: These are simulated endpoints for demo)
+    // Test pool subscriptions against the configured on-chain pools
     const testPools = [
-      { address: 'raydium_sol_usdc_pool_123', dex: 'raydium', baseToken: 'SOL', quoteToken: 'USDC' },
-      { address: 'orca_sol_usdc_pool_456', dex: 'orca', baseToken: 'SOL', quoteToken: 'USDC' },
-      { address: 'jupiter_sol_usdc_pool_789', dex: 'jupiter', baseToken: 'SOL', quoteToken: 'USDC' },
-      { address: 'phoenix_sol_usdc_pool_abc', dex: 'phoenix', baseToken: 'SOL', quoteToken: 'USDC' }
+      { address: '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2', dex: 'raydium', baseToken: 'SOL', quoteToken: 'USDC' },
+      { address: 'HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ', dex: 'orca', baseToken: 'SOL', quoteToken: 'USDC' },
+      { address: '5rCf1DM8LjKTw4YqhnoLcngyZYeNnQqztScTogYHAS6', dex: 'meteora', baseToken: 'SOL', quoteToken: 'USDC' },
+      { address: '4DoNfFBfF7UokCC2FQzriy7yHK6DY6NVdYpuekQ5pRgg', dex: 'phoenix', baseToken: 'SOL', quoteToken: 'USDC' }
     ];
 
     // Subscribe to pools (will attempt connections)
@@ -56,7 +56,7 @@ async function testRealTimePoolMonitoring() {
       await poolMonitor.subscribeToMultiplePools(testPools);
       console.log(`📡 Subscription attempts completed`);
     } catch (error) {
-      console.log(`⚠️  Some subscriptions may have failed (expected for demo endpoints)`);
+      console.log(`⚠️  Some subscriptions may have failed (check RPC_WS_ENDPOINT)`);
     }
 
     // Wait a moment for connection attempts
@@ -70,6 +70,9 @@ async function testRealTimePoolMonitoring() {
     console.log(`   Messages received: ${stats.messagesReceived}`);
     console.log(`   Reconnection attempts: ${stats.reconnections}`);
     console.log(`   Errors encountered: ${stats.errors}`);
+    stats.connections.forEach(connection => {
+      console.log(`   ${connection.isOpen ? '🟢' : '🔴'} ${connection.endpoint}: ${connection.pools} pools, ${connection.accountSubscriptions} account subscriptions`);
+    });
 
     console.log('\n3. Testing Subscription Management...');
     const activeSubscriptions = poolMonitor.getActiveSubscriptions();
@@ -88,7 +91,7 @@ async function testRealTimePoolMonitoring() {
     const simulatedUpdates: PoolUpdate[] = [
       {
         dex: 'Raydium',
-        pool: 'raydium_sol_usdc_pool_123',
+        pool: '58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2',
         price: new Decimal(185.234),
         liquidity: new Decimal(2500000),
         volume24h: new Decimal(45000000),
@@ -100,7 +103,7 @@ async function testRealTimePoolMonitoring() {
       },
       {
         dex: 'Orca',
-        pool: 'orca_sol_usdc_pool_456',
+        pool: 'HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ',
         price: new Decimal(185.198),
         liquidity: new Decimal(1800000),
         volume24h: new Decimal(32000000),
@@ -111,8 +114,8 @@ async function testRealTimePoolMonitoring() {
         quoteTokenAmount: new Decimal(1800000)
       },
       {
-        dex: 'Jupiter',
-        pool: 'jupiter_sol_usdc_pool_789',
+        dex: 'Meteora',
+        pool: '5rCf1DM8LjKTw4YqhnoLcngyZYeNnQqztScTogYHAS6',
         price: new Decimal(185.267),
         liquidity: new Decimal(3200000),
         volume24h: new Decimal(67000000),
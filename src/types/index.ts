@@ -31,6 +31,13 @@ export interface PoolState {
   lastUpdate: number;
 }
 
+export interface LiquidityDepth {
+  bids: Array<{ price: Decimal; quantity: Decimal }>; // Best first, quantity in base units
+  asks: Array<{ price: Decimal; quantity: Decimal }>;
+  totalBidLiquidity: Decimal;
+  totalAskLiquidity: Decimal;
+}
+
 export interface ArbitrageOpportunity {
   id: string;
   tokenA: TokenInfo;
@@ -41,6 +48,8 @@ export interface ArbitrageOpportunity {
   sellPrice: Decimal;
   profitPercentage: Decimal;
   estimatedProfit: Decimal;
+  tradeSize?: Decimal; // Input amount of tokenA the profit was sized for
+  estimatedGasCost?: Decimal; // SOL to land the round trip, from the FeeEstimator
   route: RouteInfo[];
   timestamp: number;
   confidence: number; // 0-1 scale
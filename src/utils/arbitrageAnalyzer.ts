@@ -1,5 +1,15 @@
 import Decimal from 'decimal.js';
+import { Connection, PublicKey } from '@solana/web3.js';
 import { OptimizedPriceCollector, DEXPriceMap, TokenPair, DEXPrice } from './optimizedPriceCollector';
+import { buildLogPriceEdges, findNegativeCycles, rotateCycle } from './cycleFinder';
+import { KNOWN_TOKENS } from './tokenUtils';
+import { findPool, toPoolDex } from '../config/pools';
+import { defaultConfig } from '../config/config';
+import { FeeEstimator, solPriceInQuote } from '../execution/feeEstimator';
+import { LogFields, Logger, rootLogger } from '../logging/logger';
+
+// Token pairs quoted at once while building a cycle graph; each fans out to every venue
+const GRAPH_QUOTE_CONCURRENCY = 4;
 
 export interface ArbitrageOpportunity {
   pair: string;
@@ -16,13 +26,31 @@ export interface ArbitrageOpportunity {
   riskScore: number;
   liquidityScore: number;
   priceImpactTotal: Decimal;
-  strategy: 'direct_arbitrage' | 'triangular_arbitrage';
+  strategy: 'direct_arbitrage' | 'triangular_arbitrage' | 'cycle_arbitrage';
   timestamp: number;
   requestId: string;
   responseTimeAdvantage: number; // milliseconds faster than slowest source
   marketEfficiency: number; // 0-1 score
+  legs?: CycleLeg[]; // Triangular and N-hop cycles only
+}
+
+export interface CycleLeg {
+  from: string;
+  to: string;
+  dex: string; // Price source id
+  price: Decimal; // Output per unit input
+  amountIn: Decimal;
+  amountOut: Decimal;
+  fees: Decimal;
+  feeToken: string;
+  priceImpact: Decimal;
 }
 
+/**
+ * Collected quotes between tokens: from -> to -> prices per venue
+ */
+export type TokenGraph = Map<string, Map<string, DEXPriceMap>>;
+
 export interface ArbitrageAnalysisResult {
   opportunities: ArbitrageOpportunity[];
   priceData: DEXPriceMap;
@@ -37,30 +65,44 @@ export interface ArbitrageAnalysisResult {
   };
   warnings: string[];
   recommendations: string[];
+  tokenGraph?: TokenGraph; // Cycle analyses only
 }
 
 export interface ArbitrageOptions {
   minProfitThreshold: Decimal;
   maxRiskScore: number;
   includeGasCosts: boolean;
-  estimatedGasPrice: Decimal;
+  estimatedGasPrice?: Decimal; // Fixed cost per trade in the profit token; the fee estimator prices each route when unset
   maxPriceImpact: Decimal;
   requireLiquidity: boolean;
   enableStatisticalFiltering: boolean;
 }
 
+export interface CycleSearchOptions extends ArbitrageOptions {
+  maxHops: number;
+  tokens: string[]; // Graph nodes besides the base token; every KNOWN_TOKENS symbol by default
+}
+
+/**
+ * Gas for a route through the given venues, in the token its profit is measured in
+ */
+type GasPricer = (dexes: string[], profitToken: string) => Decimal;
+
 /**
  * Advanced Arbitrage Analyzer
  * Uses optimized price collection and statistical analysis to find real arbitrage opportunities
  */
 export class ArbitrageAnalyzer {
   private priceCollector: OptimizedPriceCollector;
-  private readonly DEFAULT_GAS_COST = new Decimal(0.005); // 0.005 SOL
+  private feeEstimator: FeeEstimator;
   private readonly MIN_LIQUIDITY_THRESHOLD = 100000; // $100k minimum liquidity
   private opportunityHistory: ArbitrageOpportunity[] = [];
+  private logger: Logger;
 
-  constructor() {
-    this.priceCollector = new OptimizedPriceCollector();
+  constructor(priceCollector?: OptimizedPriceCollector, feeEstimator?: FeeEstimator, logger?: Logger) {
+    this.priceCollector = priceCollector || new OptimizedPriceCollector();
+    this.feeEstimator = feeEstimator || new FeeEstimator(new Connection(defaultConfig.rpcEndpoint, 'confirmed'));
+    this.logger = logger ?? rootLogger().child({ component: 'analyzer' });
   }
 
   /**
@@ -71,18 +113,7 @@ export class ArbitrageAnalyzer {
     options: Partial<ArbitrageOptions> = {}
   ): Promise<ArbitrageAnalysisResult> {
     const startTime = Date.now();
-    
-    // Set default options
-    const opts: ArbitrageOptions = {
-      minProfitThreshold: new Decimal(0.001), // 0.1%
-      maxRiskScore: 0.7,
-      includeGasCosts: true,
-      estimatedGasPrice: this.DEFAULT_GAS_COST,
-      maxPriceImpact: new Decimal(0.02), // 2%
-      requireLiquidity: true,
-      enableStatisticalFiltering: true,
-      ...options
-    };
+    const opts = this.resolveOptions(options);
 
     const warnings: string[] = [];
     const recommendations: string[] = [];
@@ -98,12 +129,22 @@ export class ArbitrageAnalyzer {
       // Analyze data quality
       this.validatePriceData(priceData, warnings);
 
+      // Price gas from the fee markets of the pools involved; profits are in the output token
+      const best = this.selectBestPrice(priceData);
+      const gasPricer = await this.createGasPricer(
+        opts,
+        this.poolAccounts(Array.from(priceData.prices.keys()), [tokenPair.from, tokenPair.to]),
+        () => best ? solPriceInQuote(tokenPair.from, tokenPair.to, best.data.price) : null,
+        warnings
+      );
+
       // Find arbitrage opportunities
       const opportunities = this.findArbitrageOpportunities(
         priceData, 
         tokenPair, 
         opts,
-        warnings
+        warnings,
+        gasPricer
       );
 
       // Apply statistical filtering
@@ -129,33 +170,511 @@ export class ArbitrageAnalyzer {
       this.opportunityHistory.push(...filteredOpportunities);
       this.trimOpportunityHistory();
 
-      return {
+      return this.analyzed({ pair: `${tokenPair.from}/${tokenPair.to}` }, {
         opportunities: filteredOpportunities,
         priceData,
         analysis,
         warnings,
         recommendations
-      };
+      });
 
     } catch (error) {
       warnings.push(`Analysis failed: ${(error as Error).message}`);
-      
-      return {
-        opportunities: [],
-        priceData: { metadata: { totalResponseTime: 0, successfulSources: 0, failedSources: 0, timestamp: Date.now(), requestId: 'error' } },
-        analysis: {
-          totalOpportunities: 0,
-          viableOpportunities: 0,
-          averageSpread: new Decimal(0),
-          maxSpread: new Decimal(0),
-          marketEfficiency: 1,
-          dataQuality: 0,
-          analysisTime: Date.now() - startTime
-        },
+      this.logger.warn(`⚠️  Analysis of ${tokenPair.from}/${tokenPair.to} failed: ${(error as Error).message}`);
+      return this.createFailedResult(startTime, warnings);
+    }
+  }
+
+  /**
+   * Find three-leg cycles base -> A -> B -> base through the intermediate tokens.
+   * Every edge is quoted at the cycle's notional: the base amount, or what the
+   * opening leg returned for that token.
+   */
+  async analyzeTriangularOpportunities(
+    baseToken: string,
+    intermediateTokens: string[],
+    amount: Decimal,
+    options: Partial<ArbitrageOptions> = {}
+  ): Promise<ArbitrageAnalysisResult> {
+    const startTime = Date.now();
+    const opts = this.resolveOptions(options);
+    const warnings: string[] = [];
+    const recommendations: string[] = [];
+    const base = baseToken.toUpperCase();
+    const tokens = Array.from(new Set(intermediateTokens.map(token => token.toUpperCase())))
+      .filter(token => token !== base);
+
+    try {
+      if (tokens.length < 2) {
+        throw new Error('Triangular arbitrage needs at least two intermediate tokens');
+      }
+
+      const tokenGraph = await this.buildTokenGraph(base, tokens, amount);
+      const priceData = this.mergeGraphPriceData(tokenGraph);
+
+      this.validatePriceData(priceData, warnings);
+
+      const gasPricer = await this.createGasPricer(
+        opts,
+        this.poolAccounts(Array.from(priceData.prices.keys()), [base, ...tokens]),
+        token => this.graphSolPrice(tokenGraph, token),
+        warnings
+      );
+
+      const opportunities = this.findTriangularOpportunities(
+        tokenGraph,
+        base,
+        tokens,
+        amount,
+        opts,
+        priceData.metadata.requestId,
         warnings,
-        recommendations: ['Fix data collection issues before analyzing arbitrage']
-      };
+        gasPricer
+      );
+
+      const filteredOpportunities = opts.enableStatisticalFiltering
+        ? this.applyStatisticalFiltering(opportunities, warnings)
+        : opportunities;
+
+      const analysis = this.generateAnalysisMetrics(filteredOpportunities, priceData, startTime);
+      this.generateRecommendations(filteredOpportunities, priceData, recommendations);
+
+      this.opportunityHistory.push(...filteredOpportunities);
+      this.trimOpportunityHistory();
+
+      return this.analyzed({ base }, {
+        opportunities: filteredOpportunities,
+        priceData,
+        analysis,
+        warnings,
+        recommendations,
+        tokenGraph
+      });
+
+    } catch (error) {
+      warnings.push(`Analysis failed: ${(error as Error).message}`);
+      this.logger.warn(`⚠️  Analysis of cycles through ${base} failed: ${(error as Error).message}`);
+      return this.createFailedResult(startTime, warnings);
+    }
+  }
+
+  /**
+   * Search every token in the graph for cycles of up to `maxHops` legs that return
+   * more than they start with, via a negative-cycle search over -ln(price) edges.
+   * Cycles through the base token are reported from it; others start at their own
+   * token's notional. Ranked by return since profits are in different tokens.
+   */
+  async analyzeCycleOpportunities(
+    baseToken: string,
+    amount: Decimal,
+    options: Partial<CycleSearchOptions> = {}
+  ): Promise<ArbitrageAnalysisResult> {
+    const startTime = Date.now();
+    const opts = this.resolveOptions(options);
+    const maxHops = options.maxHops ?? 4;
+    const warnings: string[] = [];
+    const recommendations: string[] = [];
+    const base = baseToken.toUpperCase();
+    const tokens = Array.from(new Set((options.tokens || Object.keys(KNOWN_TOKENS)).map(token => token.toUpperCase())))
+      .filter(token => token !== base);
+
+    try {
+      const tokenGraph = await this.buildTokenGraph(base, tokens, amount);
+      const priceData = this.mergeGraphPriceData(tokenGraph);
+
+      this.validatePriceData(priceData, warnings);
+
+      const gasPricer = await this.createGasPricer(
+        opts,
+        this.poolAccounts(Array.from(priceData.prices.keys()), [base, ...tokens]),
+        token => this.graphSolPrice(tokenGraph, token),
+        warnings
+      );
+
+      const cycles = findNegativeCycles(buildLogPriceEdges(tokenGraph), maxHops);
+      const opportunities: ArbitrageOpportunity[] = [];
+
+      for (const cycle of cycles) {
+        const { path, dexes } = rotateCycle(cycle, base);
+        const legs = this.walkCycle(tokenGraph, path, path[0] === base ? amount : undefined, dexes);
+        if (!legs) continue;
+
+        const opportunity = this.calculateCycleOpportunity(legs, opts, priceData.metadata.requestId, gasPricer);
+        if (this.isViableOpportunity(opportunity, opts)) {
+          opportunities.push(opportunity);
+        }
+      }
+
+      opportunities.sort((a, b) => b.spreadPercentage.comparedTo(a.spreadPercentage));
+
+      const filteredOpportunities = opts.enableStatisticalFiltering
+        ? this.applyStatisticalFiltering(opportunities, warnings)
+        : opportunities;
+
+      const analysis = this.generateAnalysisMetrics(filteredOpportunities, priceData, startTime);
+      this.generateRecommendations(filteredOpportunities, priceData, recommendations);
+
+      this.opportunityHistory.push(...filteredOpportunities);
+      this.trimOpportunityHistory();
+
+      return this.analyzed({ base }, {
+        opportunities: filteredOpportunities,
+        priceData,
+        analysis,
+        warnings,
+        recommendations,
+        tokenGraph
+      });
+
+    } catch (error) {
+      warnings.push(`Analysis failed: ${(error as Error).message}`);
+      this.logger.warn(`⚠️  Analysis of cycles through ${base} failed: ${(error as Error).message}`);
+      return this.createFailedResult(startTime, warnings);
+    }
+  }
+
+  /**
+   * Log what an analysis found under the request id its prices were collected with
+   */
+  private analyzed(fields: LogFields, result: ArbitrageAnalysisResult): ArbitrageAnalysisResult {
+    this.logger.debug(`Analysis found ${result.opportunities.length} opportunities`, {
+      ...fields,
+      requestId: result.priceData.metadata.requestId,
+      opportunities: result.opportunities.length,
+      warnings: result.warnings
+    });
+    return result;
+  }
+
+  /**
+   * Fill in default analysis options
+   */
+  private resolveOptions(options: Partial<ArbitrageOptions>): ArbitrageOptions {
+    return {
+      minProfitThreshold: new Decimal(0.001), // 0.1%
+      maxRiskScore: 0.7,
+      includeGasCosts: true,
+      maxPriceImpact: new Decimal(0.02), // 2%
+      requireLiquidity: true,
+      enableStatisticalFiltering: true,
+      ...options
+    };
+  }
+
+  /**
+   * Sample priority fees once for an analysis and price each route from that sample.
+   * A fixed `estimatedGasPrice` skips the estimator; a profit token without a SOL
+   * price on hand is not charged and gets a warning.
+   */
+  private async createGasPricer(
+    options: ArbitrageOptions,
+    writableAccounts: PublicKey[],
+    solPrice: (token: string) => Decimal | null,
+    warnings: string[]
+  ): Promise<GasPricer> {
+    if (!options.includeGasCosts) return () => new Decimal(0);
+
+    const fixed = options.estimatedGasPrice;
+    if (fixed) return () => fixed;
+
+    const sample = await this.feeEstimator.samplePriorityFee(writableAccounts);
+    const unpriced = new Set<string>();
+
+    return (dexes, token) => {
+      const estimate = this.feeEstimator.estimateWith(sample, dexes, solPrice(token));
+      if (estimate.costQuote) return estimate.costQuote;
+
+      if (!unpriced.has(token)) {
+        unpriced.add(token);
+        warnings.push(`No SOL price for ${token}; gas was not charged on its routes`);
+      }
+      return new Decimal(0);
+    };
+  }
+
+  /**
+   * Configured pools of the given venues between any two of the tokens
+   */
+  private poolAccounts(dexes: string[], tokens: string[]): PublicKey[] {
+    const accounts: PublicKey[] = [];
+
+    for (const dex of dexes) {
+      const poolDex = toPoolDex(dex);
+      if (!poolDex) continue;
+
+      for (let i = 0; i < tokens.length; i++) {
+        for (let j = i + 1; j < tokens.length; j++) {
+          const pool = findPool(poolDex, tokens[i], tokens[j]);
+          if (pool) accounts.push(pool.address);
+        }
+      }
+    }
+
+    return accounts;
+  }
+
+  /**
+   * Tokens per SOL from the best quote on the graph's SOL edge
+   */
+  private graphSolPrice(graph: TokenGraph, token: string): Decimal | null {
+    if (token === 'SOL') return new Decimal(1);
+    const edge = graph.get('SOL')?.get(token);
+    const best = edge && this.selectBestPrice(edge);
+    return best ? best.data.price : null;
+  }
+
+  /**
+   * Empty result for an analysis that could not collect prices
+   */
+  private createFailedResult(startTime: number, warnings: string[]): ArbitrageAnalysisResult {
+    return {
+      opportunities: [],
+      priceData: { prices: new Map(), metadata: { totalResponseTime: 0, successfulSources: 0, failedSources: 0, timestamp: Date.now(), requestId: 'error' } },
+      analysis: {
+        totalOpportunities: 0,
+        viableOpportunities: 0,
+        averageSpread: new Decimal(0),
+        maxSpread: new Decimal(0),
+        marketEfficiency: 1,
+        dataQuality: 0,
+        analysisTime: Date.now() - startTime
+      },
+      warnings,
+      recommendations: ['Fix data collection issues before analyzing arbitrage']
+    };
+  }
+
+  /**
+   * Collect quotes for every edge between the base and the other tokens.
+   * Expands outward from the base: each token's edges are quoted at the amount
+   * the first quote into it returned, so all edges share the cycle's notional.
+   */
+  private async buildTokenGraph(base: string, tokens: string[], amount: Decimal): Promise<TokenGraph> {
+    const graph: TokenGraph = new Map();
+    const nodes = [base, ...tokens];
+    const notional = new Map<string, Decimal>([[base, amount]]);
+    const queue = [base];
+
+    while (queue.length > 0) {
+      const from = queue.shift()!;
+      const size = notional.get(from)!;
+      const edges = new Map<string, DEXPriceMap>();
+      graph.set(from, edges);
+
+      // Quoted in batches so a large token list cannot burst the RPC budget
+      const targets = nodes.filter(to => to !== from);
+      for (let start = 0; start < targets.length; start += GRAPH_QUOTE_CONCURRENCY) {
+        await Promise.all(targets.slice(start, start + GRAPH_QUOTE_CONCURRENCY).map(async to => {
+          const priceData = await this.priceCollector.collectRealPrices(
+            { from, to, amount: size },
+            { timeout: 5000, includeJupiterAggregated: true, enableCaching: false }
+          );
+          edges.set(to, priceData);
+
+          const best = this.selectBestPrice(priceData);
+          if (best && !notional.has(to)) {
+            notional.set(to, best.data.price.mul(size));
+            queue.push(to);
+          }
+        }));
+      }
     }
+
+    return graph;
+  }
+
+  /**
+   * Evaluate every base -> A -> B -> base cycle in the graph
+   */
+  private findTriangularOpportunities(
+    graph: TokenGraph,
+    base: string,
+    tokens: string[],
+    amount: Decimal,
+    options: ArbitrageOptions,
+    requestId: string,
+    warnings: string[],
+    gasPricer: GasPricer
+  ): ArbitrageOpportunity[] {
+    const opportunities: ArbitrageOpportunity[] = [];
+    let evaluatedCycles = 0;
+
+    for (const first of tokens) {
+      for (const second of tokens) {
+        if (first === second) continue;
+
+        const legs = this.walkCycle(graph, [base, first, second, base], amount);
+        if (!legs) continue;
+
+        evaluatedCycles++;
+        const opportunity = this.calculateCycleOpportunity(legs, options, requestId, gasPricer);
+        if (this.isViableOpportunity(opportunity, options)) {
+          opportunities.push(opportunity);
+        }
+      }
+    }
+
+    if (evaluatedCycles === 0) {
+      warnings.push('No complete three-leg cycle could be priced');
+    }
+
+    return opportunities.sort((a, b) => b.netProfit.comparedTo(a.netProfit));
+  }
+
+  /**
+   * Route an amount along a token path, through the given venues or the best one on each edge.
+   * Without an amount the walk starts at the size the first edge was quoted at.
+   * Returns null when any edge has no valid quote.
+   */
+  private walkCycle(
+    graph: TokenGraph,
+    path: string[],
+    amount?: Decimal,
+    dexes?: string[]
+  ): Array<CycleLeg & { quote: DEXPrice }> | null {
+    const legs: Array<CycleLeg & { quote: DEXPrice }> = [];
+    let amountIn = amount;
+
+    for (let i = 0; i < path.length - 1; i++) {
+      const priceData = graph.get(path[i])?.get(path[i + 1]);
+      const best = priceData && (dexes
+        ? this.selectVenuePrice(priceData, dexes[i])
+        : this.selectBestPrice(priceData));
+      if (!best) return null;
+
+      amountIn = amountIn || best.data.inputAmount;
+
+      // Fees scale with the leg size relative to the quoted size
+      const scale = amountIn.div(best.data.inputAmount);
+      const amountOut = best.data.price.mul(amountIn);
+
+      legs.push({
+        from: path[i],
+        to: path[i + 1],
+        dex: best.dex,
+        price: best.data.price,
+        amountIn,
+        amountOut,
+        fees: (best.data.fees || new Decimal(0)).mul(scale),
+        feeToken: best.data.feeToken || path[i],
+        priceImpact: best.data.priceImpact,
+        quote: best.data
+      });
+      amountIn = amountOut;
+    }
+
+    return legs;
+  }
+
+  /**
+   * A specific venue's valid price on an edge
+   */
+  private selectVenuePrice(priceData: DEXPriceMap, dex: string): { dex: string; data: DEXPrice } | null {
+    const price = priceData.prices.get(dex);
+    return price && !price.error && price.price.gt(0) ? { dex, data: price } : null;
+  }
+
+  /**
+   * Venue with the highest output on an edge
+   */
+  private selectBestPrice(priceData: DEXPriceMap): { dex: string; data: DEXPrice } | null {
+    let best: { dex: string; data: DEXPrice } | null = null;
+
+    for (const [dex, price] of priceData.prices) {
+      if (!price.error && price.price.gt(0) && (!best || price.price.gt(best.data.price))) {
+        best = { dex, data: price };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Score a priced cycle. Quotes already net out fees and impact, so the profit
+   * is simply what comes back minus what went in.
+   */
+  private calculateCycleOpportunity(
+    legs: Array<CycleLeg & { quote: DEXPrice }>,
+    options: ArbitrageOptions,
+    requestId: string,
+    gasPricer: GasPricer
+  ): ArbitrageOpportunity {
+    const quotes = legs.map(leg => leg.quote);
+    const startAmount = legs[0].amountIn;
+    const finalAmount = legs[legs.length - 1].amountOut;
+
+    const spread = finalAmount.sub(startAmount);
+    const spreadPercentage = spread.div(startAmount);
+
+    // Impact compounds: each leg trades on the previous leg's degraded output
+    const priceImpactTotal = new Decimal(1).sub(
+      legs.reduce((retained, leg) => retained.mul(new Decimal(1).sub(leg.priceImpact)), new Decimal(1))
+    );
+
+    const estimatedGas = gasPricer(legs.map(leg => leg.dex), legs[0].from);
+    const netProfit = spread.sub(estimatedGas);
+
+    // Pairwise scores are taken between the fastest and slowest legs
+    const bySpeed = [...quotes].sort((a, b) => a.responseTime - b.responseTime);
+    const fastest = bySpeed[0];
+    const slowest = bySpeed[bySpeed.length - 1];
+
+    const confidence = quotes.reduce(
+      (min, quote) => Math.min(min, this.calculateConfidence(quote, quote)),
+      1
+    );
+    const riskScore = this.calculateRiskScore(spreadPercentage, priceImpactTotal, fastest, slowest);
+    const liquidityScore = quotes.reduce(
+      (min, quote) => Math.min(min, this.calculateLiquidityScore(quote, quote)),
+      1
+    );
+
+    return {
+      pair: legs.map(leg => leg.from).concat(legs[legs.length - 1].to).join('→'),
+      buyDex: legs[0].dex,
+      sellDex: legs[legs.length - 1].dex,
+      buyPrice: startAmount,
+      sellPrice: finalAmount,
+      spread,
+      spreadPercentage,
+      estimatedProfit: spread,
+      estimatedGas,
+      netProfit,
+      confidence,
+      riskScore,
+      liquidityScore,
+      priceImpactTotal,
+      strategy: legs.length === 3 ? 'triangular_arbitrage' : 'cycle_arbitrage',
+      timestamp: Date.now(),
+      requestId,
+      responseTimeAdvantage: this.calculateResponseTimeAdvantage(fastest, slowest),
+      marketEfficiency: this.calculateMarketEfficiency(spreadPercentage),
+      legs: legs.map(({ quote, ...leg }) => leg)
+    };
+  }
+
+  /**
+   * Fold the per-edge collections into one DEXPriceMap for data-quality checks
+   */
+  private mergeGraphPriceData(graph: TokenGraph): DEXPriceMap {
+    const merged: DEXPriceMap = {
+      prices: new Map(),
+      metadata: {
+        totalResponseTime: 0,
+        successfulSources: 0,
+        failedSources: 0,
+        timestamp: Date.now(),
+        requestId: `tri_${Date.now()}`
+      }
+    };
+
+    graph.forEach(edges => edges.forEach(({ metadata }) => {
+      merged.metadata.totalResponseTime = Math.max(merged.metadata.totalResponseTime, metadata.totalResponseTime);
+      merged.metadata.successfulSources += metadata.successfulSources;
+      merged.metadata.failedSources += metadata.failedSources;
+    }));
+
+    return merged;
   }
 
   /**
@@ -165,14 +684,15 @@ export class ArbitrageAnalyzer {
     priceData: DEXPriceMap,
     tokenPair: TokenPair,
     options: ArbitrageOptions,
-    warnings: string[]
+    warnings: string[],
+    gasPricer: GasPricer
   ): ArbitrageOpportunity[] {
     const opportunities: ArbitrageOpportunity[] = [];
     const validPrices: Array<{ dex: string; data: DEXPrice }> = [];
 
     // Collect valid price data
-    Object.entries(priceData).forEach(([dex, price]) => {
-      if (dex !== 'metadata' && price && !price.error && price.price.gt(0)) {
+    priceData.prices.forEach((price, dex) => {
+      if (!price.error && price.price.gt(0)) {
         validPrices.push({ dex, data: price });
       }
     });
@@ -190,11 +710,11 @@ export class ArbitrageAnalyzer {
 
         // Determine buy/sell direction
         const opportunity1 = this.calculateArbitrageOpportunity(
-          source1, source2, tokenPair, options, priceData.metadata.requestId
+          source1, source2, tokenPair, options, priceData.metadata.requestId, gasPricer
         );
         
         const opportunity2 = this.calculateArbitrageOpportunity(
-          source2, source1, tokenPair, options, priceData.metadata.requestId
+          source2, source1, tokenPair, options, priceData.metadata.requestId, gasPricer
         );
 
         // Add viable opportunities
@@ -222,7 +742,8 @@ export class ArbitrageAnalyzer {
     sellSource: { dex: string; data: DEXPrice },
     tokenPair: TokenPair,
     options: ArbitrageOptions,
-    requestId: string
+    requestId: string,
+    gasPricer: GasPricer
   ): ArbitrageOpportunity | null {
     
     const buyPrice = buySource.data.price;
@@ -244,7 +765,7 @@ export class ArbitrageAnalyzer {
     const estimatedProfit = grossProfit.sub(priceImpactCost);
 
     // Calculate gas costs
-    const estimatedGas = options.includeGasCosts ? options.estimatedGasPrice : new Decimal(0);
+    const estimatedGas = gasPricer([buySource.dex, sellSource.dex], tokenPair.to);
     const netProfit = estimatedProfit.sub(estimatedGas);
 
     // Calculate confidence and risk scores
@@ -536,9 +1057,12 @@ export class ArbitrageAnalyzer {
     const bestOpportunity = opportunities[0];
     
     if (bestOpportunity.netProfit.gt(0)) {
+      const route = bestOpportunity.legs
+        ? bestOpportunity.legs.map(leg => `${leg.from}→${leg.to} on ${leg.dex}`).join(', ')
+        : `${bestOpportunity.buyDex} → ${bestOpportunity.sellDex}`;
       recommendations.push(
         `Best opportunity: ${bestOpportunity.spreadPercentage.mul(100).toFixed(3)}% spread ` +
-        `(${bestOpportunity.buyDex} → ${bestOpportunity.sellDex})`
+        `(${route})`
       );
     }
 
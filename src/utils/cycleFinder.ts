@@ -0,0 +1,158 @@
+import type { TokenGraph } from './arbitrageAnalyzer';
+
+/**
+ * One venue's quote between two tokens, weighted as -ln(price)
+ */
+export interface PriceEdge {
+  from: string;
+  to: string;
+  dex: string; // Price source id
+  weight: number;
+}
+
+/**
+ * A closed token path whose summed weight is negative, i.e. the rates multiply above 1
+ */
+export interface NegativeCycle {
+  path: string[]; // First and last token are the same
+  dexes: string[]; // Venue for each hop
+  weight: number;
+  rate: number; // Product of the hop prices
+}
+
+const WEIGHT_EPSILON = 1e-12;
+
+/**
+ * Turn every valid venue quote in the graph into a log-price edge
+ */
+export function buildLogPriceEdges(graph: TokenGraph): PriceEdge[] {
+  const edges: PriceEdge[] = [];
+
+  graph.forEach((targets, from) => targets.forEach((priceData, to) => {
+    priceData.prices.forEach((price, dex) => {
+      if (!price.error && price.price.gt(0)) {
+        edges.push({ from, to, dex, weight: -Math.log(price.price.toNumber()) });
+      }
+    });
+  }));
+
+  return edges;
+}
+
+/**
+ * Hop-bounded Bellman-Ford from every token: after k relaxation rounds, a negative
+ * distance back at the start token is the best k-hop cycle through it.
+ * Only simple cycles are returned, deduplicated across rotations and sorted most negative first.
+ */
+export function findNegativeCycles(edges: PriceEdge[], maxHops: number): NegativeCycle[] {
+  if (maxHops < 2) {
+    throw new Error(`maxHops must be at least 2, got ${maxHops}`);
+  }
+
+  const tokens = Array.from(new Set(edges.flatMap(edge => [edge.from, edge.to])));
+  const cycles = new Map<string, NegativeCycle>();
+
+  for (const start of tokens) {
+    let distances = new Map<string, number>([[start, 0]]);
+    const predecessors: Array<Map<string, PriceEdge>> = [];
+
+    for (let hop = 1; hop <= maxHops; hop++) {
+      const next = new Map<string, number>();
+      const predecessor = new Map<string, PriceEdge>();
+
+      for (const edge of edges) {
+        const distance = distances.get(edge.from);
+        // Leaving the start token again would make the cycle non-simple
+        if (distance === undefined || (hop > 1 && edge.from === start)) continue;
+
+        const candidate = distance + edge.weight;
+        if (candidate < (next.get(edge.to) ?? Infinity)) {
+          next.set(edge.to, candidate);
+          predecessor.set(edge.to, edge);
+        }
+      }
+
+      predecessors.push(predecessor);
+      distances = next;
+
+      const closing = distances.get(start);
+      if (hop >= 2 && closing !== undefined && closing < -WEIGHT_EPSILON) {
+        const cycle = traceCycle(predecessors, start);
+        if (cycle) {
+          const key = canonicalKey(cycle);
+          const existing = cycles.get(key);
+          if (!existing || cycle.weight < existing.weight) {
+            cycles.set(key, cycle);
+          }
+        }
+      }
+    }
+  }
+
+  return Array.from(cycles.values()).sort((a, b) => a.weight - b.weight);
+}
+
+/**
+ * Walk predecessor layers back from the start token until a token repeats, and take the
+ * simple cycle between its two visits. That is the whole walk when only the start token
+ * repeats; otherwise a cycle nested in the walk, which may not pass through the start.
+ * Null when the walk breaks off or the cycle it closes is not negative.
+ */
+function traceCycle(
+  predecessors: Array<Map<string, PriceEdge>>,
+  start: string
+): NegativeCycle | null {
+  const walk: PriceEdge[] = []; // Backwards from the start token
+  const visited = new Map<string, number>([[start, 0]]); // Token -> position in the backward walk
+  let token = start;
+
+  for (let layer = predecessors.length - 1; layer >= 0; layer--) {
+    const edge = predecessors[layer].get(token);
+    if (!edge) return null;
+    walk.push(edge);
+    token = edge.from;
+
+    const firstVisit = visited.get(token);
+    if (firstVisit !== undefined) {
+      const hops = walk.slice(firstVisit).reverse();
+      const weight = hops.reduce((sum, hop) => sum + hop.weight, 0);
+      if (weight >= -WEIGHT_EPSILON) return null;
+
+      return {
+        path: [token, ...hops.map(hop => hop.to)],
+        dexes: hops.map(hop => hop.dex),
+        weight,
+        rate: Math.exp(-weight)
+      };
+    }
+    visited.set(token, walk.length);
+  }
+
+  return null;
+}
+
+/**
+ * Identify a cycle independent of which token it starts from
+ */
+function canonicalKey(cycle: NegativeCycle): string {
+  const hops = cycle.path.slice(0, -1).map((token, i) => `${token}>${cycle.dexes[i]}`);
+  const rotations = hops.map((_, i) => hops.slice(i).concat(hops.slice(0, i)).join('|'));
+  return rotations.sort()[0];
+}
+
+/**
+ * Rotate a cycle so it starts and ends at `token`, when the token is on it
+ */
+export function rotateCycle(cycle: NegativeCycle, token: string): NegativeCycle {
+  const index = cycle.path.indexOf(token);
+  if (index <= 0) return cycle;
+
+  const tokens = cycle.path.slice(0, -1);
+  const rotated = tokens.slice(index).concat(tokens.slice(0, index));
+
+  return {
+    ...cycle,
+    path: [...rotated, token],
+    dexes: cycle.dexes.slice(index).concat(cycle.dexes.slice(0, index))
+  };
+}
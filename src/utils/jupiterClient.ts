@@ -1,11 +1,13 @@
 import axios from 'axios';
 import { PublicKey } from '@solana/web3.js';
 import Decimal from 'decimal.js';
+import { rootLogger } from '../logging/logger';
 import { JupiterRoute, TokenInfo } from '../types';
 import { toRawAmount } from './tokenUtils';
 
 export class JupiterClient {
   private apiEndpoint: string;
+  private logger = rootLogger().child({ component: 'jupiter' });
 
   constructor(apiEndpoint: string = 'https://quote-api.jup.ag/v6') {
     this.apiEndpoint = apiEndpoint;
@@ -41,7 +43,7 @@ export class JupiterClient {
       
       return null;
     } catch (error) {
-      console.error('Error fetching Jupiter quote:', error);
+      this.logger.error('Error fetching Jupiter quote:', { err: error });
       return null;
     }
   }
@@ -142,7 +144,7 @@ export class JupiterClient {
         name: token.name
       }));
     } catch (error) {
-      console.error('Error fetching Jupiter token list:', error);
+      this.logger.error('Error fetching Jupiter token list:', { err: error });
       return [];
     }
   }
@@ -228,7 +230,7 @@ export class JupiterClient {
       }
 
     } catch (error) {
-      console.error('Error fetching DEX-specific quotes:', error);
+      this.logger.error('Error fetching DEX-specific quotes:', { err: error });
     }
 
     return routes;
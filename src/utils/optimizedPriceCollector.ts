@@ -1,7 +1,12 @@
 import Decimal from 'decimal.js';
-import axios from 'axios';
+import { Connection } from '@solana/web3.js';
 import { JupiterClient } from './jupiterClient';
 import { getTokenBySymbol } from './tokenUtils';
+import { defaultConfig } from '../config/config';
+import { AccountFetcher } from '../dex/accounts';
+import { Logger, rootLogger, withLogContext } from '../logging/logger';
+import { PriceSource, PriceSourceRegistry } from '../sources/priceSource';
+import { createPriceSourceRegistry } from '../sources/defaultSources';
 
 // Types and interfaces
 export interface TokenPair {
@@ -20,6 +25,8 @@ export interface DEXPrice {
   outputAmount: Decimal;
   inputAmount: Decimal;
   priceImpact: Decimal;
+  fees?: Decimal; // UI units of feeToken
+  feeToken?: string;
   liquidityAvailable: boolean;
   source: 'direct' | 'aggregator';
   responseTime: number;
@@ -29,10 +36,7 @@ export interface DEXPrice {
 }
 
 export interface DEXPriceMap {
-  raydium?: DEXPrice;
-  orca?: DEXPrice;
-  phoenix?: DEXPrice;
-  jupiter?: DEXPrice;
+  prices: Map<string, DEXPrice>; // Keyed by price source id
   metadata: {
     totalResponseTime: number;
     successfulSources: number;
@@ -57,16 +61,30 @@ export interface PriceCollectionOptions {
  */
 export class OptimizedPriceCollector {
   private jupiterClient: JupiterClient;
+  private sourceRegistry: PriceSourceRegistry;
   private priceCache: Map<string, { price: DEXPrice; expiry: number }>;
   private requestCounter: number = 0;
+  private logger: Logger;
+
+  constructor(accountFetcher?: AccountFetcher, sourceRegistry?: PriceSourceRegistry, logger?: Logger) {
+    const fetcher = accountFetcher || new Connection(defaultConfig.rpcEndpoint, 'confirmed');
 
-  constructor() {
     this.jupiterClient = new JupiterClient();
+    this.sourceRegistry = sourceRegistry || createPriceSourceRegistry(fetcher, this.jupiterClient);
     this.priceCache = new Map();
+    this.logger = logger ?? rootLogger().child({ component: 'collector' });
+  }
+
+  /**
+   * Registered price sources; enable, disable or add venues here
+   */
+  getSourceRegistry(): PriceSourceRegistry {
+    return this.sourceRegistry;
   }
 
   /**
-   * Main method: Collect prices from multiple DEX sources in parallel
+   * Main method: Collect prices from multiple DEX sources in parallel. Everything logged
+   * while the sources are quoted carries the request id of the returned metadata.
    */
   async collectRealPrices(
     tokenPair: TokenPair, 
@@ -74,7 +92,15 @@ export class OptimizedPriceCollector {
   ): Promise<DEXPriceMap> {
     const startTime = Date.now();
     const requestId = `req_${++this.requestCounter}_${startTime}`;
-    
+    return withLogContext({ requestId }, () => this.collect(tokenPair, options, startTime, requestId));
+  }
+
+  private async collect(
+    tokenPair: TokenPair,
+    options: PriceCollectionOptions,
+    startTime: number,
+    requestId: string
+  ): Promise<DEXPriceMap> {
     // Set default options
     const opts = {
       timeout: 5000,
@@ -92,25 +118,24 @@ export class OptimizedPriceCollector {
       throw new Error(`Invalid token pair: ${tokenPair.from}/${tokenPair.to}`);
     }
 
-    // Parallel price collection with Promise.allSettled for fault tolerance
-    const pricePromises = [
-      this.getRaydiumPrice(preparedPair, opts, requestId),
-      this.getOrcaPrice(preparedPair, opts, requestId),
-      this.getPhoenixPrice(preparedPair, opts, requestId)
-    ];
-
-    // Optionally include Jupiter aggregated price
-    if (opts.includeJupiterAggregated) {
-      pricePromises.push(
-        this.getJupiterAggregatedPrice(preparedPair, opts, requestId)
-      );
-    }
+    // Aggregated prices are optional
+    const sources = this.sourceRegistry.getEnabled()
+      .filter(source => opts.includeJupiterAggregated || source.kind !== 'aggregator');
 
-    // Execute all price fetches in parallel
-    const results = await Promise.allSettled(pricePromises);
+    // Parallel price collection with Promise.allSettled for fault tolerance
+    const results = await Promise.allSettled(
+      sources.map(source => this.getSourcePrice(source, preparedPair, opts))
+    );
     
     // Consolidate results
-    return this.consolidatePrices(results, startTime, requestId);
+    const prices = this.consolidatePrices(sources, results, startTime, requestId);
+    this.logger.debug(`Collected ${tokenPair.from}/${tokenPair.to} from ${prices.metadata.successfulSources}/${sources.length} sources`, {
+      pair: `${tokenPair.from}/${tokenPair.to}`,
+      successfulSources: prices.metadata.successfulSources,
+      failedSources: prices.metadata.failedSources,
+      durationMs: prices.metadata.totalResponseTime
+    });
+    return prices;
   }
 
   /**
@@ -138,78 +163,24 @@ export class OptimizedPriceCollector {
   }
 
   /**
-   * Fetch price from Raydium DEX
-   */
-  private async getRaydiumPrice(
-    tokenPair: TokenPair, 
-    options: PriceCollectionOptions,
-    requestId: string
-  ): Promise<DEXPrice> {
-    const startTime = Date.now();
-    
-    try {
-      // Check cache first
-      if (options.enableCaching) {
-        const cached = this.getCachedPrice('raydium', tokenPair);
-        if (cached) return cached;
-      }
-
-      // Simulate Raydium API call (replace with actual Raydium integration)
-      const response = await this.callWithTimeout(
-        this.simulateRaydiumAPI(tokenPair),
-        options.timeout || 5000
-      );
-
-      const price = this.calculateEffectivePrice(
-        response.outputAmount,
-        tokenPair.amount,
-        tokenPair.toDecimals || 6
-      );
-
-      const dexPrice: DEXPrice = {
-        dex: 'Raydium',
-        price,
-        outputAmount: new Decimal(response.outputAmount),
-        inputAmount: tokenPair.amount,
-        priceImpact: new Decimal(response.priceImpact || 0),
-        liquidityAvailable: response.liquidity > 0,
-        source: 'direct',
-        responseTime: Date.now() - startTime,
-        confidence: this.calculateConfidence(price, response.liquidity),
-        timestamp: Date.now()
-      };
-
-      // Cache if enabled
-      if (options.enableCaching) {
-        this.setCachedPrice('raydium', tokenPair, dexPrice, options.cacheExpiryMs || 10000);
-      }
-
-      return dexPrice;
-    } catch (error) {
-      return this.createErrorPrice('Raydium', tokenPair, startTime, error as Error);
-    }
-  }
-
-  /**
-   * Fetch price from Orca DEX
+   * Fetch price from a single source
    */
-  private async getOrcaPrice(
+  private async getSourcePrice(
+    source: PriceSource,
     tokenPair: TokenPair, 
-    options: PriceCollectionOptions,
-    requestId: string
+    options: PriceCollectionOptions
   ): Promise<DEXPrice> {
     const startTime = Date.now();
     
     try {
       // Check cache first
       if (options.enableCaching) {
-        const cached = this.getCachedPrice('orca', tokenPair);
+        const cached = this.getCachedPrice(source.id, tokenPair);
         if (cached) return cached;
       }
 
-      // Simulate Orca API call (replace with actual Orca integration)
       const response = await this.callWithTimeout(
-        this.simulateOrcaAPI(tokenPair),
+        source.quote(tokenPair),
         options.timeout || 5000
       );
 
@@ -220,142 +191,29 @@ export class OptimizedPriceCollector {
       );
 
       const dexPrice: DEXPrice = {
-        dex: 'Orca',
+        dex: source.name,
         price,
         outputAmount: new Decimal(response.outputAmount),
         inputAmount: tokenPair.amount,
         priceImpact: new Decimal(response.priceImpact || 0),
-        liquidityAvailable: response.liquidity > 0,
-        source: 'direct',
+        fees: new Decimal(response.fees || 0),
+        feeToken: response.feeToken || tokenPair.from,
+        liquidityAvailable: response.liquidity === undefined || response.liquidity > 0,
+        source: source.kind,
         responseTime: Date.now() - startTime,
-        confidence: this.calculateConfidence(price, response.liquidity),
+        confidence: response.confidence ?? this.calculateConfidence(price, response.liquidity || 0),
         timestamp: Date.now()
       };
 
       // Cache if enabled
       if (options.enableCaching) {
-        this.setCachedPrice('orca', tokenPair, dexPrice, options.cacheExpiryMs || 10000);
+        this.setCachedPrice(source.id, tokenPair, dexPrice, options.cacheExpiryMs || 10000);
       }
 
       return dexPrice;
     } catch (error) {
-      return this.createErrorPrice('Orca', tokenPair, startTime, error as Error);
-    }
-  }
-
-  /**
-   * Fetch price from Phoenix DEX
-   */
-  private async getPhoenixPrice(
-    tokenPair: TokenPair, 
-    options: PriceCollectionOptions,
-    requestId: string
-  ): Promise<DEXPrice> {
-    const startTime = Date.now();
-    
-    try {
-      // Check cache first
-      if (options.enableCaching) {
-        const cached = this.getCachedPrice('phoenix', tokenPair);
-        if (cached) return cached;
-      }
-
-      // Simulate Phoenix API call (replace with actual Phoenix integration)
-      const response = await this.callWithTimeout(
-        this.simulatePhoenixAPI(tokenPair),
-        options.timeout || 5000
-      );
-
-      const price = this.calculateEffectivePrice(
-        response.outputAmount,
-        tokenPair.amount,
-        tokenPair.toDecimals || 6
-      );
-
-      const dexPrice: DEXPrice = {
-        dex: 'Phoenix',
-        price,
-        outputAmount: new Decimal(response.outputAmount),
-        inputAmount: tokenPair.amount,
-        priceImpact: new Decimal(response.priceImpact || 0),
-        liquidityAvailable: response.liquidity > 0,
-        source: 'direct',
-        responseTime: Date.now() - startTime,
-        confidence: this.calculateConfidence(price, response.liquidity),
-        timestamp: Date.now()
-      };
-
-      // Cache if enabled
-      if (options.enableCaching) {
-        this.setCachedPrice('phoenix', tokenPair, dexPrice, options.cacheExpiryMs || 10000);
-      }
-
-      return dexPrice;
-    } catch (error) {
-      return this.createErrorPrice('Phoenix', tokenPair, startTime, error as Error);
-    }
-  }
-
-  /**
-   * Fetch aggregated price from Jupiter
-   */
-  private async getJupiterAggregatedPrice(
-    tokenPair: TokenPair, 
-    options: PriceCollectionOptions,
-    requestId: string
-  ): Promise<DEXPrice> {
-    const startTime = Date.now();
-    
-    try {
-      // Check cache first
-      if (options.enableCaching) {
-        const cached = this.getCachedPrice('jupiter', tokenPair);
-        if (cached) return cached;
-      }
-
-      if (!tokenPair.fromMint || !tokenPair.toMint || !tokenPair.fromDecimals) {
-        throw new Error('Missing token information for Jupiter call');
-      }
-
-      const quote = await this.jupiterClient.getQuote(
-        tokenPair.fromMint,
-        tokenPair.toMint,
-        tokenPair.amount,
-        tokenPair.fromDecimals,
-        50 // 0.5% slippage
-      );
-
-      if (!quote) {
-        throw new Error('Jupiter quote failed');
-      }
-
-      const price = this.jupiterClient.calculateEffectivePrice(
-        quote,
-        tokenPair.fromDecimals,
-        tokenPair.toDecimals || 6
-      );
-
-      const dexPrice: DEXPrice = {
-        dex: 'Jupiter',
-        price,
-        outputAmount: new Decimal(quote.outAmount),
-        inputAmount: new Decimal(quote.inAmount),
-        priceImpact: new Decimal(quote.priceImpactPct || 0),
-        liquidityAvailable: true,
-        source: 'aggregator',
-        responseTime: Date.now() - startTime,
-        confidence: 0.95, // Jupiter is generally very reliable
-        timestamp: Date.now()
-      };
-
-      // Cache if enabled
-      if (options.enableCaching) {
-        this.setCachedPrice('jupiter', tokenPair, dexPrice, options.cacheExpiryMs || 10000);
-      }
-
-      return dexPrice;
-    } catch (error) {
-      return this.createErrorPrice('Jupiter', tokenPair, startTime, error as Error);
+      this.logger.debug(`${source.name} quote failed: ${(error as Error).message}`, { source: source.id });
+      return this.createErrorPrice(source, tokenPair, startTime, error as Error);
     }
   }
 
@@ -363,11 +221,13 @@ export class OptimizedPriceCollector {
    * Consolidate prices from all sources with metadata
    */
   private consolidatePrices(
+    sources: PriceSource[],
     results: PromiseSettledResult<DEXPrice>[],
     startTime: number,
     requestId: string
   ): DEXPriceMap {
     const consolidatedPrices: DEXPriceMap = {
+      prices: new Map(),
       metadata: {
         totalResponseTime: Date.now() - startTime,
         successfulSources: 0,
@@ -387,13 +247,7 @@ export class OptimizedPriceCollector {
           consolidatedPrices.metadata.failedSources++;
         }
 
-        // Map results to DEX names
-        switch (index) {
-          case 0: consolidatedPrices.raydium = dexPrice; break;
-          case 1: consolidatedPrices.orca = dexPrice; break;
-          case 2: consolidatedPrices.phoenix = dexPrice; break;
-          case 3: consolidatedPrices.jupiter = dexPrice; break;
-        }
+        consolidatedPrices.prices.set(sources[index].id, dexPrice);
       } else {
         consolidatedPrices.metadata.failedSources++;
       }
@@ -402,64 +256,6 @@ export class OptimizedPriceCollector {
     return consolidatedPrices;
   }
 
-  /**
-   * Simulate Raydium API call (replace with actual implementation)
-   */
-  private async simulateRaydiumAPI(tokenPair: TokenPair): Promise<any> {
-    // Simulate API latency
-    await new Promise(resolve => setTimeout(resolve, 50 + Math.random() * 100));
-    
-    // Generate realistic response
-    const basePrice = 185.5; // SOL/USDC reference price
-    const variation = (Math.random() - 0.5) * 0.01; // ±0.5% variation
-    const outputAmount = tokenPair.amount.mul(basePrice * (1 + variation));
-    
-    return {
-      outputAmount: outputAmount.toString(),
-      priceImpact: Math.random() * 0.005, // 0-0.5% impact
-      liquidity: 1000000 + Math.random() * 9000000, // 1-10M liquidity
-      fees: 0.0025 // 0.25% fee
-    };
-  }
-
-  /**
-   * Simulate Orca API call (replace with actual implementation)
-   */
-  private async simulateOrcaAPI(tokenPair: TokenPair): Promise<any> {
-    // Simulate API latency
-    await new Promise(resolve => setTimeout(resolve, 40 + Math.random() * 80));
-    
-    const basePrice = 185.5;
-    const variation = (Math.random() - 0.5) * 0.008; // ±0.4% variation
-    const outputAmount = tokenPair.amount.mul(basePrice * (1 + variation));
-    
-    return {
-      outputAmount: outputAmount.toString(),
-      priceImpact: Math.random() * 0.004,
-      liquidity: 800000 + Math.random() * 7000000,
-      fees: 0.003 // 0.3% fee
-    };
-  }
-
-  /**
-   * Simulate Phoenix API call (replace with actual implementation)
-   */
-  private async simulatePhoenixAPI(tokenPair: TokenPair): Promise<any> {
-    // Simulate API latency
-    await new Promise(resolve => setTimeout(resolve, 60 + Math.random() * 120));
-    
-    const basePrice = 185.5;
-    const variation = (Math.random() - 0.5) * 0.012; // ±0.6% variation
-    const outputAmount = tokenPair.amount.mul(basePrice * (1 + variation));
-    
-    return {
-      outputAmount: outputAmount.toString(),
-      priceImpact: Math.random() * 0.008,
-      liquidity: 500000 + Math.random() * 5000000,
-      fees: 0.002 // 0.2% fee
-    };
-  }
-
   /**
    * Calculate effective price from output amount
    */
@@ -485,19 +281,19 @@ export class OptimizedPriceCollector {
    * Create error price object
    */
   private createErrorPrice(
-    dex: string, 
+    source: PriceSource, 
     tokenPair: TokenPair, 
     startTime: number, 
     error: Error
   ): DEXPrice {
     return {
-      dex,
+      dex: source.name,
       price: new Decimal(0),
       outputAmount: new Decimal(0),
       inputAmount: tokenPair.amount,
       priceImpact: new Decimal(0),
       liquidityAvailable: false,
-      source: 'direct',
+      source: source.kind,
       responseTime: Date.now() - startTime,
       confidence: 0,
       timestamp: Date.now(),
@@ -522,8 +318,8 @@ export class OptimizedPriceCollector {
   /**
    * Cache management methods
    */
-  private getCachedPrice(dex: string, tokenPair: TokenPair): DEXPrice | null {
-    const key = `${dex}_${tokenPair.from}_${tokenPair.to}_${tokenPair.amount.toString()}`;
+  private getCachedPrice(sourceId: string, tokenPair: TokenPair): DEXPrice | null {
+    const key = `${sourceId}_${tokenPair.from}_${tokenPair.to}_${tokenPair.amount.toString()}`;
     const cached = this.priceCache.get(key);
     
     if (cached && cached.expiry > Date.now()) {
@@ -534,12 +330,12 @@ export class OptimizedPriceCollector {
   }
 
   private setCachedPrice(
-    dex: string, 
+    sourceId: string, 
     tokenPair: TokenPair, 
     price: DEXPrice, 
     expiryMs: number
   ): void {
-    const key = `${dex}_${tokenPair.from}_${tokenPair.to}_${tokenPair.amount.toString()}`;
+    const key = `${sourceId}_${tokenPair.from}_${tokenPair.to}_${tokenPair.amount.toString()}`;
     this.priceCache.set(key, {
       price,
       expiry: Date.now() + expiryMs
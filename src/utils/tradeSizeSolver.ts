@@ -0,0 +1,113 @@
+import Decimal from 'decimal.js';
+
+/**
+ * Exact-input quote in UI units: how much comes out for `amountIn`.
+ * Throwing (e.g. beyond book depth) marks the size as unfillable.
+ */
+export type QuoteFunction = (amountIn: Decimal) => Promise<Decimal>;
+
+export interface TradeSizeOptions {
+  minAmount: Decimal;
+  maxAmount: Decimal;
+  gasCost?: Decimal; // Fixed cost per trade, in input token units
+  gridPoints?: number; // Log-spaced sizes sampled before refining
+  maxEvaluations?: number; // Round trips quoted in total, grid included
+  tolerance?: number; // Relative width of the final size bracket
+}
+
+export interface TradeSizeSolution {
+  amountIn: Decimal;
+  intermediateAmount: Decimal; // Bought on the first leg, sold on the second
+  amountOut: Decimal;
+  grossProfit: Decimal; // amountOut - amountIn; quotes already net out fees
+  netProfit: Decimal; // After gas
+  evaluations: number;
+}
+
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+/**
+ * Find the input size that maximizes amountOut - amountIn - gas for a
+ * buy-then-sell round trip. A log-spaced grid locates the best region (quote
+ * curves are only piecewise smooth for ticks and book levels), then a golden
+ * section search refines between the grid neighbours of the best point.
+ * Returns null if no size could be filled at all.
+ */
+export async function solveOptimalTradeSize(
+  buyQuote: QuoteFunction,
+  sellQuote: QuoteFunction,
+  options: TradeSizeOptions
+): Promise<TradeSizeSolution | null> {
+  const { minAmount, maxAmount } = options;
+  const gasCost = options.gasCost || new Decimal(0);
+  const gridPoints = Math.max(2, options.gridPoints ?? 12);
+  const maxEvaluations = Math.max(gridPoints, options.maxEvaluations ?? 40);
+  const tolerance = options.tolerance ?? 1e-4;
+
+  if (minAmount.lte(0) || maxAmount.lt(minAmount)) {
+    throw new Error(`Invalid trade size range: ${minAmount.toString()} - ${maxAmount.toString()}`);
+  }
+
+  let evaluations = 0;
+  let best: TradeSizeSolution | null = null;
+
+  const evaluate = async (amountIn: Decimal): Promise<number> => {
+    evaluations++;
+    try {
+      const intermediateAmount = await buyQuote(amountIn);
+      if (intermediateAmount.lte(0)) return -Infinity;
+
+      const amountOut = await sellQuote(intermediateAmount);
+      const grossProfit = amountOut.sub(amountIn);
+      const netProfit = grossProfit.sub(gasCost);
+
+      if (!best || netProfit.gt(best.netProfit)) {
+        best = { amountIn, intermediateAmount, amountOut, grossProfit, netProfit, evaluations: 0 };
+      }
+      return netProfit.toNumber();
+    } catch (error) {
+      return -Infinity;
+    }
+  };
+
+  // Coarse log-spaced grid across the whole range
+  const ratio = maxAmount.div(minAmount);
+  const grid = Array.from({ length: gridPoints }, (_, i) =>
+    minAmount.mul(ratio.pow(i / (gridPoints - 1)))
+  );
+  const profits: number[] = [];
+  for (const size of grid) {
+    profits.push(await evaluate(size));
+  }
+
+  const bestIndex = profits.indexOf(Math.max(...profits));
+  if (profits[bestIndex] === -Infinity) {
+    return null;
+  }
+
+  // Golden section between the best grid point's neighbours
+  let low = grid[Math.max(0, bestIndex - 1)];
+  let high = grid[Math.min(grid.length - 1, bestIndex + 1)];
+  let left = high.sub(high.sub(low).mul(GOLDEN_RATIO));
+  let right = low.add(high.sub(low).mul(GOLDEN_RATIO));
+  let leftProfit = await evaluate(left);
+  let rightProfit = await evaluate(right);
+
+  while (evaluations < maxEvaluations && high.sub(low).div(high).gt(tolerance)) {
+    if (leftProfit >= rightProfit) {
+      high = right;
+      right = left;
+      rightProfit = leftProfit;
+      left = high.sub(high.sub(low).mul(GOLDEN_RATIO));
+      leftProfit = await evaluate(left);
+    } else {
+      low = left;
+      left = right;
+      leftProfit = rightProfit;
+      right = low.add(high.sub(low).mul(GOLDEN_RATIO));
+      rightProfit = await evaluate(right);
+    }
+  }
+
+  return { ...best!, evaluations };
+}
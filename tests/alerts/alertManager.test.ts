@@ -0,0 +1,171 @@
+import Decimal from 'decimal.js';
+import { DEFAULT_ALERT_TEMPLATE, OpportunityAlert, alertFromOpportunity, renderAlert, validateTemplate } from '../../src/alerts/alert';
+import { AlertManager } from '../../src/alerts/alertManager';
+import { AlertSink } from '../../src/alerts/sinks';
+import { EngineOpportunity } from '../../src/engine/detection';
+import { HttpStubServer } from '../helpers/httpStubServer';
+
+const alertFor = (buyVenue: string, sellVenue: string, pair: string = 'SOL/USDC'): OpportunityAlert => ({
+  scanner: 'realtime',
+  pair,
+  buyVenue,
+  sellVenue,
+  buyPrice: 185,
+  sellPrice: 186,
+  spreadPercent: 0.540540540,
+  profit: 1,
+  netProfit: null,
+  tradeSize: null,
+  strategy: 'direct_vs_direct',
+  confidence: 'medium',
+  detectedAt: Date.UTC(2024, 0, 1)
+});
+
+const recordingSink = (name: string): AlertSink & { send: jest.Mock } => ({
+  name,
+  send: jest.fn(async () => undefined)
+});
+
+describe('alert templates', () => {
+  it('should fill placeholders from the alert', () => {
+    const opportunity = {
+      pair: 'SOL/USDC',
+      buyDex: 'Raydium',
+      sellDex: 'Orca',
+      buyPrice: new Decimal(185),
+      sellPrice: new Decimal(186),
+      profit: new Decimal(1),
+      profitPercentage: new Decimal(1).div(185).mul(100),
+      netProfitAfterGas: new Decimal('0.998765'),
+      strategy: 'direct_vs_direct',
+      confidence: 'medium'
+    } as EngineOpportunity;
+    const alert = alertFromOpportunity(opportunity, 'realtime', Date.UTC(2024, 0, 1));
+
+    expect(renderAlert('{{pair}}: {{ buyVenue }} -> {{sellVenue}} {{spreadPercent}}% net {{netProfit}} {{quoteToken}} at {{detectedAt}}', alert))
+      .toBe('SOL/USDC: Raydium -> Orca 0.5405% net 0.998765 USDC at 2024-01-01T00:00:00.000Z');
+    expect(renderAlert(DEFAULT_ALERT_TEMPLATE, { ...alert, netProfit: null })).toContain('net n/a USDC');
+  });
+
+  it('should reject templates with unknown placeholders', () => {
+    expect(() => validateTemplate('{{pair}} {{profitUsd}}')).toThrow('Unknown alert template field(s) profitUsd');
+    expect(() => new AlertManager([], { template: '{{spread}}' })).toThrow('spread');
+  });
+});
+
+describe('AlertManager', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1000000;
+  });
+
+  it('should render each sink its own template', async () => {
+    const discord = recordingSink('discord');
+    const slack = recordingSink('slack');
+    const manager = new AlertManager([{ sink: discord }, { sink: slack, template: '{{pair}} via {{buyVenue}}' }], {
+      template: '{{buyVenue}} -> {{sellVenue}}',
+      now: clock
+    });
+
+    expect(await manager.notify(alertFor('Raydium', 'Orca'))).toEqual({ discord: 'sent', slack: 'sent' });
+    expect(discord.send).toHaveBeenCalledWith('Raydium -> Orca', expect.objectContaining({ pair: 'SOL/USDC' }));
+    expect(slack.send).toHaveBeenCalledWith('SOL/USDC via Raydium', expect.anything());
+  });
+
+  it('should not repeat a pair and route within the deduplication window', async () => {
+    const sink = recordingSink('discord');
+    const manager = new AlertManager([{ sink }], { dedupWindowMs: 60000, now: clock });
+
+    expect(await manager.notify(alertFor('Raydium', 'Orca'))).toEqual({ discord: 'sent' });
+    now += 30000;
+    expect(await manager.notify(alertFor('Raydium', 'Orca'))).toEqual({ discord: 'duplicate' });
+    expect(await manager.notify(alertFor('Orca', 'Raydium'))).toEqual({ discord: 'sent' });
+    expect(await manager.notify(alertFor('Raydium', 'Orca', 'RAY/SOL'))).toEqual({ discord: 'sent' });
+    now += 30000;
+    expect(await manager.notify(alertFor('Raydium', 'Orca'))).toEqual({ discord: 'sent' });
+
+    expect(manager.getStats().discord).toMatchObject({ sent: 4, duplicates: 1 });
+  });
+
+  it('should rate limit each sink separately', async () => {
+    const discord = recordingSink('discord');
+    const telegram = recordingSink('telegram');
+    const manager = new AlertManager([{ sink: discord, maxAlerts: 1 }, { sink: telegram }], {
+      maxAlertsPerWindow: 2,
+      rateWindowMs: 60000,
+      now: clock
+    });
+
+    await manager.notify(alertFor('Raydium', 'Orca'));
+    await manager.notify(alertFor('Orca', 'Meteora'));
+    expect(await manager.notify(alertFor('Meteora', 'Phoenix'))).toEqual({ discord: 'rate_limited', telegram: 'rate_limited' });
+
+    now += 60000;
+    expect(await manager.notify(alertFor('Meteora', 'Phoenix'))).toEqual({ discord: 'sent', telegram: 'sent' });
+    expect(discord.send).toHaveBeenCalledTimes(2);
+    expect(telegram.send).toHaveBeenCalledTimes(3);
+    expect(manager.getStats()).toMatchObject({ discord: { rateLimited: 2 }, telegram: { rateLimited: 1 } });
+  });
+
+  it('should count failed deliveries and retry them on the next detection', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const sink = recordingSink('webhook');
+    sink.send.mockRejectedValueOnce(new Error('webhook returned HTTP 500'));
+    const manager = new AlertManager([{ sink }], { now: clock });
+
+    expect(await manager.notify(alertFor('Raydium', 'Orca'))).toEqual({ webhook: 'failed' });
+    expect(await manager.notify(alertFor('Raydium', 'Orca'))).toEqual({ webhook: 'sent' });
+    expect(manager.getStats().webhook).toMatchObject({ sent: 1, failed: 1, lastError: 'webhook returned HTTP 500' });
+
+    errorSpy.mockRestore();
+  });
+
+  describe('fromEnv', () => {
+    let stub: HttpStubServer;
+
+    beforeEach(async () => {
+      stub = await HttpStubServer.start();
+    });
+
+    afterEach(async () => {
+      await stub.close();
+    });
+
+    it('should configure a sink for every service given and deliver to each', async () => {
+      const manager = AlertManager.fromEnv({
+        ALERT_DISCORD_WEBHOOK: `${stub.url}/discord`,
+        ALERT_TELEGRAM_BOT_TOKEN: '123:abc',
+        ALERT_TELEGRAM_CHAT_ID: '42',
+        ALERT_TELEGRAM_API_URL: stub.url,
+        ALERT_SLACK_WEBHOOK: `${stub.url}/slack`,
+        ALERT_WEBHOOK_URL: `${stub.url}/hook`,
+        ALERT_TEMPLATE: '{{pair}} {{spreadPercent}}%'
+      })!;
+
+      expect(manager.sinkNames).toEqual(['discord', 'telegram', 'slack', 'webhook']);
+      expect(await manager.notify(alertFor('Raydium', 'Orca'))).toEqual({ discord: 'sent', telegram: 'sent', slack: 'sent', webhook: 'sent' });
+      expect(stub.requests.map(request => request.path).sort()).toEqual(['/bot123:abc/sendMessage', '/discord', '/hook', '/slack']);
+      expect(stub.requests.find(request => request.path === '/slack')!.body).toEqual({ text: 'SOL/USDC 0.5405%' });
+    });
+
+    it('should report delivery failures from the service', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      stub.reply = () => ({ status: 404, body: 'no_service' });
+      const manager = AlertManager.fromEnv({ ALERT_SLACK_WEBHOOK: `${stub.url}/slack` })!;
+
+      expect(await manager.notify(alertFor('Raydium', 'Orca'))).toEqual({ slack: 'failed' });
+      expect(manager.getStats().slack.lastError).toBe('slack returned HTTP 404: no_service');
+
+      errorSpy.mockRestore();
+    });
+
+    it('should be off without sinks and reject incomplete settings', () => {
+      expect(AlertManager.fromEnv({})).toBeNull();
+      expect(() => AlertManager.fromEnv({ ALERT_TELEGRAM_BOT_TOKEN: '123:abc' })).toThrow('ALERT_TELEGRAM_CHAT_ID');
+      expect(() => AlertManager.fromEnv({ ALERT_WEBHOOK_URL: 'http://localhost', ALERT_RATE_LIMIT_PER_MINUTE: '0' }))
+        .toThrow('ALERT_RATE_LIMIT_PER_MINUTE must be a positive number');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { OpportunityAlert } from '../../src/alerts/alert';
+import { DiscordSink, SlackSink, TelegramSink, WebhookSink } from '../../src/alerts/sinks';
+import { HttpStubServer } from '../helpers/httpStubServer';
+
+const alert: OpportunityAlert = {
+  scanner: 'realtime',
+  pair: 'SOL/USDC',
+  buyVenue: 'Raydium',
+  sellVenue: 'Orca',
+  buyPrice: 185,
+  sellPrice: 186,
+  spreadPercent: 0.54,
+  profit: 1,
+  netProfit: 0.99,
+  tradeSize: null,
+  strategy: 'direct_vs_direct',
+  confidence: 'medium',
+  detectedAt: Date.UTC(2024, 0, 1)
+};
+
+describe('alert sinks', () => {
+  let stub: HttpStubServer;
+
+  beforeEach(async () => {
+    stub = await HttpStubServer.start();
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  it('should post Discord webhook content, cut to the message limit', async () => {
+    await new DiscordSink(`${stub.url}/api/webhooks/1/token`, { username: 'arb' }).send('x'.repeat(2500));
+
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0]).toMatchObject({ method: 'POST', path: '/api/webhooks/1/token' });
+    expect(stub.requests[0].body.username).toBe('arb');
+    expect(stub.requests[0].body.content).toHaveLength(2000);
+  });
+
+  it('should send Telegram messages through the bot API of the token', async () => {
+    await new TelegramSink('123:abc', '-10042', { apiUrl: `${stub.url}/` }).send('hello');
+
+    expect(stub.requests[0].path).toBe('/bot123:abc/sendMessage');
+    expect(stub.requests[0].body).toEqual({ chat_id: '-10042', text: 'hello', disable_web_page_preview: true });
+  });
+
+  it('should post Slack webhook text', async () => {
+    await new SlackSink(`${stub.url}/services/T/B/X`).send('hello');
+
+    expect(stub.requests[0]).toMatchObject({ path: '/services/T/B/X', body: { text: 'hello' } });
+  });
+
+  it('should post the message and the alert fields to a generic webhook', async () => {
+    await new WebhookSink(`${stub.url}/hook`, { headers: { Authorization: 'Bearer secret' } }).send('hello', alert);
+
+    expect(stub.requests[0].body).toEqual({ message: 'hello', alert });
+    expect(stub.requests[0].headers.authorization).toBe('Bearer secret');
+  });
+
+  it('should reject with the status and reason the service answered', async () => {
+    stub.reply = () => ({ status: 400, body: { ok: false, description: 'Bad Request: chat not found' } });
+    await expect(new TelegramSink('123:abc', 'nope', { apiUrl: stub.url }).send('hello'))
+      .rejects.toThrow('telegram returned HTTP 400: Bad Request: chat not found');
+
+    stub.reply = () => ({ status: 429, body: { message: 'You are being rate limited.', retry_after: 1.5 } });
+    await expect(new DiscordSink(`${stub.url}/hook`).send('hello'))
+      .rejects.toThrow('discord returned HTTP 429: You are being rate limited.');
+  });
+});
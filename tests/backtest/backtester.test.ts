@@ -0,0 +1,89 @@
+import Decimal from 'decimal.js';
+import { formatBacktestReport, runBacktest, sweepThresholds } from '../../src/backtest/backtester';
+import { QuoteStream, buildQuoteStream, parseQuoteCsv } from '../../src/backtest/historicalQuotes';
+
+const toStream = (csv: string): QuoteStream => ({
+  ...buildQuoteStream(parseQuoteCsv(csv, 'history.csv')),
+  files: ['history.csv']
+});
+
+describe('Backtester', () => {
+  // Raydium is 1 USDC rich at the first scan; the gap has closed ten seconds later
+  const history = toStream([
+    'Timestamp,Trading Pair,DEX,Price',
+    '2025-06-03T02:00:00.000Z,SOL/USDC,Orca,160',
+    '2025-06-03T02:00:00.000Z,SOL/USDC,Raydium,161',
+    '2025-06-03T02:00:10.000Z,SOL/USDC,Orca,160.5',
+    '2025-06-03T02:00:10.000Z,SOL/USDC,Raydium,160.5'
+  ].join('\n'));
+
+  const options = {
+    minProfitThreshold: new Decimal(0.001),
+    tradeSize: new Decimal(2),
+    feeRate: 0.001,
+    gasCostSol: new Decimal(0.005)
+  };
+
+  it('should charge latency drift, fees and gas against the theoretical spread', () => {
+    const report = runBacktest(history, { ...options, latencyMs: 2000 });
+
+    expect(report.trades).toHaveLength(1);
+    const [trade] = report.trades;
+    expect(trade.buyDex).toBe('Orca');
+    expect(trade.sellDex).toBe('Raydium');
+    expect(trade.spreadPercentage.toNumber()).toBeCloseTo(0.00625, 10);
+
+    // 2s of a 10s gap: both venues move a fifth of the way to the next scan
+    expect(trade.fillBuyPrice.toNumber()).toBeCloseTo(160.1, 10);
+    expect(trade.fillSellPrice.toNumber()).toBeCloseTo(160.9, 10);
+    expect(trade.theoreticalPnl.toNumber()).toBeCloseTo(2, 10);
+    expect(trade.fees.toNumber()).toBeCloseTo(0.642, 10);
+    expect(trade.gas.toNumber()).toBeCloseTo(0.005 * 160.5, 10);
+    expect(trade.realizedPnl.toNumber()).toBeCloseTo(0.1555, 10);
+
+    const usdc = report.byQuoteToken.USDC;
+    expect(usdc.winners).toBe(1);
+    expect(usdc.latencyCost.toNumber()).toBeCloseTo(0.4, 10);
+    expect(report.warnings).toEqual([]);
+  });
+
+  it('should fill at detection prices without latency', () => {
+    const report = runBacktest(history, { ...options, latencyMs: 0 });
+    expect(report.trades[0].realizedPnl.toNumber()).toBeCloseTo(2 - 0.642 - 0.8025, 10);
+  });
+
+  it('should apply per-venue fee overrides', () => {
+    const report = runBacktest(history, { ...options, latencyMs: 0, dexFeeRates: { Raydium: 0 } });
+    expect(report.trades[0].fees.toNumber()).toBeCloseTo(0.32, 10);
+  });
+
+  it('should skip spreads under the threshold', () => {
+    const report = runBacktest(history, { ...options, minProfitThreshold: new Decimal(0.01) });
+    expect(report.trades).toHaveLength(0);
+    expect(formatBacktestReport(report)).toContain('No opportunities above the threshold');
+  });
+
+  it('should warn when gas cannot be priced in the quote token', () => {
+    const report = runBacktest(toStream([
+      'Timestamp,Trading Pair,DEX,Price',
+      '2025-06-03T02:00:00.000Z,RAY/USDT,Orca,2.40',
+      '2025-06-03T02:00:00.000Z,RAY/USDT,Raydium,2.45'
+    ].join('\n')), options);
+
+    expect(report.trades[0].gas.toNumber()).toBe(0);
+    expect(report.warnings).toContain('No SOL price seen for USDT; gas was not charged on those pairs');
+    expect(report.warnings).toContain('1 trades had no later scan and filled at detection prices');
+  });
+
+  it('should sweep thresholds and format the comparison', () => {
+    const sweep = sweepThresholds(history, [new Decimal(0), new Decimal(0.01)], { ...options, latencyMs: 2000 });
+
+    expect(sweep.map(row => row.trades)).toEqual([1, 0]);
+    expect(sweep[0].winRate).toBe(1);
+
+    const text = formatBacktestReport(runBacktest(history, options), sweep);
+    expect(text).toContain('USDC: 1 trades, 1 profitable');
+    expect(text).toContain('minProfitThreshold sweep');
+    expect(text).toContain('1.000%: 0 trades');
+  });
+});
@@ -0,0 +1,89 @@
+import * as path from 'path';
+import { buildQuoteStream, loadQuoteStream, parseCsv, parseQuoteCsv } from '../../src/backtest/historicalQuotes';
+
+describe('Historical Quote Loading', () => {
+  const rowPerVenue = [
+    'Timestamp,Scan Number,Trading Pair,DEX,Price,Input Amount,Output Amount,Price Impact (%),Has Arbitrage',
+    '2025-06-03T02:21:21.311Z,1,SOL/USDC,Orca,161.40,1,161.40,0.05,true',
+    '2025-06-03T02:21:21.311Z,1,SOL/USDC,Raydium,161.80,1,161.80,0,true',
+    '2025-06-03T02:21:21.311Z,1,SOL/USDC,Synthetic DEX,161.00,1,161.00,0,true',
+    '2025-06-03T02:21:21.311Z,1,SOL/USDC,Broken,,1,,0,false'
+  ].join('\n');
+
+  it('should parse quoted fields containing commas and quotes', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3']
+    ]);
+  });
+
+  it('should read one quote per venue row', () => {
+    const quotes = parseQuoteCsv(rowPerVenue, 'scan.csv');
+
+    expect(quotes.map(quote => quote.dex)).toEqual(['Orca', 'Raydium', 'Synthetic DEX']);
+    expect(quotes[0].pair).toBe('SOL/USDC');
+    expect(quotes[0].price.toNumber()).toBe(161.4);
+    expect(quotes[0].priceImpact.toNumber()).toBeCloseTo(0.0005, 10);
+    expect(quotes[0].timestamp).toBe(Date.parse('2025-06-03T02:21:21.311Z'));
+  });
+
+  it('should accept the column names used by the other scanners', () => {
+    const professional = [
+      'Timestamp,Scan Number,Trading Pair,DEX Protocol,Exchange Rate,Input Amount,Output Amount,Price Impact (%)',
+      '2025-06-04T01:35:32.557Z,1,SOL/USDC,Obric V2,156.769564,1,156.769564,0.0007'
+    ].join('\n');
+
+    const [quote] = parseQuoteCsv(professional, 'professional.csv');
+    expect(quote.dex).toBe('Obric V2');
+    expect(quote.price.toNumber()).toBe(156.769564);
+  });
+
+  it('should expand wide-format venue price columns', () => {
+    const wide = [
+      'Timestamp,Scan Number,Trading Pair,Best Net Profit,Raydium Price,Raydium Response (ms),Jupiter Price,Jupiter Response (ms)',
+      '2025-06-05T01:59:05.569Z,1,SOL/USDC,0.1,153.20,129,153.32,49'
+    ].join('\n');
+
+    const quotes = parseQuoteCsv(wide, 'optimized.csv');
+    expect(quotes.map(quote => [quote.dex, quote.price.toNumber()])).toEqual([
+      ['Raydium', 153.2],
+      ['Jupiter', 153.32]
+    ]);
+  });
+
+  it('should reject files without a pair column', () => {
+    expect(() => parseQuoteCsv('Timestamp,Price\n2025-06-03T00:00:00Z,1', 'bad.csv'))
+      .toThrow('Unrecognized quote CSV format in bad.csv');
+  });
+
+  it('should group scans, exclude venues and drop outliers', () => {
+    const quotes = parseQuoteCsv(rowPerVenue, 'scan.csv').concat(parseQuoteCsv([
+      'Timestamp,Trading Pair,DEX,Price',
+      '2025-06-03T02:22:00.000Z,SOL/USDC,Orca,161.5',
+      '2025-06-03T02:22:00.000Z,SOL/USDC,Raydium,161.6',
+      '2025-06-03T02:22:00.000Z,SOL/USDC,Lifinity,0.0062',
+      '2025-06-03T02:21:00.000Z,SOL/USDT,Orca,161.2'
+    ].join('\n'), 'later.csv'));
+
+    const stream = buildQuoteStream(quotes, { excludeDexes: ['synthetic dex'] });
+
+    expect(stream.snapshots.map(snapshot => `${snapshot.source} ${snapshot.pair}`)).toEqual([
+      'later.csv SOL/USDT',
+      'scan.csv SOL/USDC',
+      'later.csv SOL/USDC'
+    ]);
+    expect(stream.snapshots[2].quotes.map(quote => quote.dex)).toEqual(['Orca', 'Raydium']);
+    expect(stream.quotes).toBe(7);
+    expect(stream.rejectedQuotes).toBe(2);
+  });
+
+  it('should load every scanner output in data/', () => {
+    const stream = loadQuoteStream([path.join(__dirname, '..', '..', 'data')]);
+
+    expect(stream.files.length).toBeGreaterThan(5);
+    expect(stream.snapshots.length).toBeGreaterThan(100);
+    for (let i = 1; i < stream.snapshots.length; i++) {
+      expect(stream.snapshots[i].timestamp).toBeGreaterThanOrEqual(stream.snapshots[i - 1].timestamp);
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { OptionSpec, UsageError, formatOptions, parseArgs } from '../../src/cli/args';
+import { toTime, toTokenPairs, toVenues } from '../../src/cli/options';
+
+const SPECS: Record<string, OptionSpec> = {
+  pairs: { type: 'list', alias: 'p', description: 'Pairs' },
+  amount: { type: 'number', alias: 'a', description: 'Amount' },
+  out: { type: 'string', value: 'path', description: 'Output' },
+  json: { type: 'boolean', description: 'JSON' }
+};
+
+describe('parseArgs', () => {
+  it('should read long, inline, short and boolean options around positionals', () => {
+    const args = parseArgs(['quick', '--pairs', 'SOL/USDC,RAY/SOL', '-p', 'JUP/SOL', '--amount=2.5', '--json', '--', '--not-an-option'], SPECS);
+
+    expect(args.positionals).toEqual(['quick', '--not-an-option']);
+    expect(args.options).toEqual({ pairs: ['SOL/USDC', 'RAY/SOL', 'JUP/SOL'], amount: 2.5, json: true });
+  });
+
+  it('should accept negative numbers as values', () => {
+    expect(parseArgs(['-a', '-1'], SPECS).options.amount).toBe(-1);
+  });
+
+  it.each([
+    [['--verbose'], 'Unknown option --verbose'],
+    [['-x'], 'Unknown option -x'],
+    [['--amount'], 'Missing value for --amount'],
+    [['--out', '--json'], 'Missing value for --out'],
+    [['--amount', 'lots'], '--amount expects a number, got "lots"'],
+    [['--json=yes'], '--json takes no value']
+  ])('should reject %j', (argv, message) => {
+    expect(() => parseArgs(argv, SPECS)).toThrow(new UsageError(message));
+  });
+
+  it('should list every option in help', () => {
+    const help = formatOptions(SPECS);
+    expect(help).toContain('-p, --pairs <list>');
+    expect(help).toContain('    --out <path>');
+    expect(help).toMatch(/--json\s+JSON/);
+  });
+});
+
+describe('option values', () => {
+  it('should build pairs from known tokens, keeping known amounts', () => {
+    const [solUsdc, raySol] = toTokenPairs(['sol/usdc', 'RAY/SOL'], undefined, toTokenPairs(['RAY/SOL'], 100));
+
+    expect(solUsdc).toMatchObject({ from: 'SOL', to: 'USDC' });
+    expect(solUsdc.amount.toNumber()).toBe(1);
+    expect(raySol.amount.toNumber()).toBe(100);
+    expect(() => toTokenPairs(['SOL-USDC'], undefined)).toThrow('Pairs are written BASE/QUOTE');
+    expect(() => toTokenPairs(['SOL/NOPE'], undefined)).toThrow('Unknown token NOPE');
+    expect(() => toTokenPairs(['SOL/USDC'], 0)).toThrow('--amount must be positive');
+  });
+
+  it('should only accept registered venues', () => {
+    expect(toVenues(['Raydium', 'jupiter'])).toEqual(['raydium', 'jupiter']);
+    expect(() => toVenues(['lifinity'])).toThrow('Unknown venue lifinity');
+  });
+
+  it('should read times as dates or ages', () => {
+    const now = Date.UTC(2026, 9, 19, 12);
+    expect(toTime('2026-10-01T00:00:00Z', now)).toBe(Date.UTC(2026, 9, 1));
+    expect(toTime('12h', now)).toBe(now - 12 * 3600000);
+    expect(toTime('7d', now)).toBe(now - 7 * 86400000);
+    expect(() => toTime('yesterday', now)).toThrow(UsageError);
+  });
+});
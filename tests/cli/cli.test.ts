@@ -0,0 +1,266 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Decimal from 'decimal.js';
+import { EXIT_CODES } from '../../src/cli/args';
+import { CliContext } from '../../src/cli/command';
+import { runCli } from '../../src/cli/index';
+import { FeeEstimator } from '../../src/execution/feeEstimator';
+import { readRecords } from '../../src/records/recordReader';
+import { openRecordWriter } from '../../src/records/recordWriter';
+import { venueQuoteRecords } from '../../src/records/scannerRecords';
+import { createPriceSourceRegistry } from '../../src/sources/defaultSources';
+import { OpportunityStore } from '../../src/storage/opportunityStore';
+import { ScanRecorder, VenueQuote } from '../../src/storage/scanRecorder';
+import { JupiterRoute } from '../../src/types';
+import { JupiterClient } from '../../src/utils/jupiterClient';
+import { OptimizedPriceCollector } from '../../src/utils/optimizedPriceCollector';
+import { FixtureAccountFetcher } from '../helpers/fixtureAccountFetcher';
+
+jest.mock('axios');
+
+const fetcher = FixtureAccountFetcher.fromFiles(
+  'raydiumAmmSolUsdc.json',
+  'orcaWhirlpoolSolUsdc.json',
+  'phoenixSolUsdc.json',
+  'meteoraDlmmSolUsdc.json'
+);
+
+// Jupiter routes SOL/USDC through Raydium at 50 bps and through Orca, a little richer, at 100 bps
+const jupiterClient = {
+  getQuote: jest.fn(async (_input: string, _output: string, amount: Decimal, _decimals: number, slippageBps?: number) => ({
+    outAmount: amount.mul(slippageBps === 100 ? 186 : 185).mul(1e6).toFixed(0),
+    priceImpactPct: '0.001',
+    routePlan: [{ swapInfo: { label: slippageBps === 100 ? 'Orca' : 'Raydium', ammKey: '' }, percent: 100 }]
+  } as unknown as JupiterRoute))
+};
+
+const offlineContext = (): CliContext => ({
+  engine: {
+    fetcher,
+    jupiterClient,
+    collector: new OptimizedPriceCollector(fetcher, createPriceSourceRegistry(fetcher, new JupiterClient())),
+    feeEstimator: new FeeEstimator(null),
+    recorder: new ScanRecorder(null, 'test'),
+    simulation: null,
+    paperTrader: null,
+    sleep: async () => undefined
+  }
+});
+
+describe('arb CLI', () => {
+  let dir: string;
+  let logs: string[];
+  let errors: string[];
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-'));
+    logs = [];
+    errors = [];
+    logSpy = jest.spyOn(console, 'log').mockImplementation((...args) => { logs.push(args.join(' ')); });
+    errorSpy = jest.spyOn(console, 'error').mockImplementation((...args) => { errors.push(args.join(' ')); });
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const output = () => logs.join('\n');
+
+  describe('usage', () => {
+    it('should list the commands and exit with usage when none is given', async () => {
+      expect(await runCli([])).toBe(EXIT_CODES.usage);
+      for (const command of ['scan', 'monitor', 'backtest', 'quote', 'tokens', 'report', 'replay', 'config']) {
+        expect(output()).toContain(`  ${command}`);
+      }
+    });
+
+    it('should show a command\'s options on --help', async () => {
+      expect(await runCli(['scan', '--help'])).toBe(EXIT_CODES.ok);
+      expect(output()).toContain('Usage: arb scan [profile]');
+      expect(output()).toContain('--max-scans');
+    });
+
+    it.each([
+      [['teleport']],
+      [['scan', '--turbo']],
+      [['scan', 'turbo']],
+      [['scan', 'real-time']],
+      [['monitor', 'legitimate']],
+      [['monitor', '--min-size', '5', '--max-size', '1']],
+      [['monitor', '--max-size', '0']],
+      [['quote']],
+      [['quote', 'SOL/NOPE']],
+      [['scan', '--log-level', 'loud']],
+      [['scan', 'quick', '--metrics-port', '70000']],
+      [['scan', 'quick', '--log-format', 'xml']],
+      [['report', '--since', 'last tuesday', '--db', 'x.db']]
+    ])('should exit with usage for %j', async (argv) => {
+      expect(await runCli(argv, offlineContext())).toBe(EXIT_CODES.usage);
+      expect(errors[0]).toMatch(/^❌ /);
+    });
+  });
+
+  describe('tokens', () => {
+    it('should list known tokens with their direct pools', async () => {
+      expect(await runCli(['tokens', 'sol', 'BONK', '--json'])).toBe(EXIT_CODES.ok);
+
+      const tokens = JSON.parse(output());
+      expect(tokens.map((token: { symbol: string }) => token.symbol)).toEqual(['SOL', 'BONK']);
+      expect(tokens[0]).toMatchObject({ decimals: 9, mint: 'So11111111111111111111111111111111111111112' });
+      expect(tokens[0].pools).toContain('orca SOL/USDC');
+    });
+
+    it('should exit with no results for unknown symbols', async () => {
+      expect(await runCli(['tokens', 'NOPE'])).toBe(EXIT_CODES.noResults);
+      expect(errors).toEqual(['❌ Unknown token NOPE']);
+    });
+  });
+
+  describe('quote', () => {
+    it('should quote the chosen venues once and print JSON', async () => {
+      const code = await runCli(['quote', 'SOL/USDC', '--venues', 'raydium,orca', '--amount', '2', '--json'], offlineContext());
+
+      expect(code).toBe(EXIT_CODES.ok);
+      const result = JSON.parse(output());
+      expect(result.pair).toBe('SOL/USDC');
+      expect(result.amount).toBe('2');
+      expect(result.quotes.map((quote: { venue: string }) => quote.venue).sort()).toEqual(['Orca', 'Raydium']);
+      expect(result.opportunities).toHaveLength(1);
+    });
+
+    it('should exit with no results when no venue quotes the pair', async () => {
+      const code = await runCli(['quote', 'BONK/WIF', '--venues', 'raydium'], offlineContext());
+
+      expect(code).toBe(EXIT_CODES.noResults);
+      expect(output()).toContain('Fewer than two venues quoted');
+    });
+  });
+
+  describe('scan', () => {
+    it('should run a profile with overridden pairs, schedule and output', async () => {
+      const out = path.join(dir, 'scan.jsonl');
+      const code = await runCli(
+        ['scan', 'quick', '--pairs', 'SOL/USDC', '--amount', '3', '--max-scans', '2', '--min-spread', '0.1', '--out', out, '--log-level', 'quiet'],
+        offlineContext()
+      );
+
+      expect(code).toBe(EXIT_CODES.ok);
+      const records = await readRecords(out);
+      expect(new Set(records.map(record => record.scanNumber))).toEqual(new Set([1, 2]));
+      expect(records.filter(record => record.kind === 'opportunity').map(record => `${record.buyVenue}->${record.sellVenue}`))
+        .toEqual(['Raydium->Orca', 'Raydium->Orca']);
+      expect(records.every(record => record.pair === 'SOL/USDC')).toBe(true);
+      expect(records.filter(record => record.kind === 'quote').every(record => record.inputAmount === 3)).toBe(true);
+    });
+  });
+
+  describe('report', () => {
+    it('should summarize the scan store', async () => {
+      const dbPath = path.join(dir, 'arbitrage.db');
+      const store = new OpportunityStore(dbPath);
+      const recorder = new ScanRecorder(store, 'legitimate');
+      recorder.begin(Date.now() - 60000);
+      recorder.addOpportunities([{
+        timestamp: Date.now() - 60000,
+        pair: 'SOL/USDC',
+        strategy: 'jupiter_vs_direct',
+        buyVenue: 'Orca',
+        sellVenue: 'Jupiter',
+        buyPrice: 185,
+        sellPrice: 186,
+        spreadPercent: 0.54,
+        grossProfit: 1,
+        gasCost: null,
+        netProfit: 0.99,
+        confidence: 'medium',
+        viable: null
+      }]);
+      recorder.addSourceHealth([{ timestamp: Date.now() - 60000, venue: 'Orca', pair: 'SOL/USDC', success: true, latencyMs: 80, error: null }]);
+      recorder.finish();
+      recorder.close();
+
+      expect(await runCli(['report', '--db', dbPath, '--since', '1h', '--json'])).toBe(EXIT_CODES.ok);
+      const report = JSON.parse(output());
+      expect(report.scanners).toEqual([expect.objectContaining({ scanner: 'legitimate', scans: 1, opportunities: 1 })]);
+      expect(report.venues).toEqual([{ venue: 'Orca', checks: 1, uptime: 1, averageLatencyMs: 80 }]);
+      expect(report.opportunities).toEqual([expect.objectContaining({ buyVenue: 'Orca', sellVenue: 'Jupiter' })]);
+
+      logs = [];
+      expect(await runCli(['report', '--db', dbPath, '--scanner', 'realtime'])).toBe(EXIT_CODES.noResults);
+      expect(output()).toContain('No scans recorded');
+    });
+
+    it('should fail without a store', async () => {
+      expect(await runCli(['report', '--db', path.join(dir, 'missing.db')])).toBe(EXIT_CODES.failed);
+      expect(fs.existsSync(path.join(dir, 'missing.db'))).toBe(false);
+    });
+  });
+
+  describe('replay', () => {
+    it('should re-detect recorded quotes and write the result', async () => {
+      const recorded = path.join(dir, 'recorded.jsonl');
+      const writer = openRecordWriter(recorded, 'jsonl');
+      const quote = (dex: string, price: number): VenueQuote => ({
+        dex,
+        price: new Decimal(price),
+        inputAmount: new Decimal(1),
+        outputAmount: new Decimal(price),
+        priceImpact: new Decimal(0),
+        source: 'direct'
+      });
+      await writer.write(venueQuoteRecords(
+        { scanner: 'conservative', timestamp: '2026-10-01T12:00:00.000Z', scanNumber: 1, pair: 'SOL/USDC' },
+        [quote('Raydium', 185), quote('Orca', 185.5), quote('Meteora', 185.01)],
+        []
+      ));
+      await writer.close();
+
+      const out = path.join(dir, 'replayed.csv');
+      expect(await runCli(['replay', recorded, '--min-spread', '0.1', '--out', out, '--json'])).toBe(EXIT_CODES.ok);
+
+      const result = JSON.parse(output());
+      expect(result).toMatchObject({ scans: 1, quotes: 3, recordedOpportunities: 0, replayedOpportunities: 2, output: out });
+      expect(result.opportunities[0]).toMatchObject({ scanner: 'conservative', buyVenue: 'Raydium', sellVenue: 'Orca', strategy: 'cross_dex' });
+      expect((await readRecords(out)).filter(record => record.kind === 'opportunity')).toHaveLength(2);
+    });
+
+    it('should explain how to read legacy scanner CSVs', async () => {
+      const legacy = path.join(dir, 'legacy.csv');
+      fs.writeFileSync(legacy, 'Timestamp,Trading Pair,DEX,Price\n2026-10-01,SOL/USDC,Raydium,185\n');
+
+      expect(await runCli(['replay', legacy])).toBe(EXIT_CODES.failed);
+      expect(errors.join('\n')).toContain('migrate-records');
+    });
+  });
+
+  describe('config', () => {
+    it('should print the config file with the flags applied on top', async () => {
+      const file = path.join(dir, 'scanner.yaml');
+      fs.writeFileSync(file, 'maxSlippage: 0.5\nmonitoredPairs: [SOL/USDC]\n');
+
+      const argv = ['config', '--config', file, '--min-profit', '0.2', '--dexes', 'raydium,orca', '--pairs', 'jup/sol'];
+      expect(await runCli([...argv, '--json'])).toBe(EXIT_CODES.ok);
+
+      const config = JSON.parse(output());
+      expect(config).toMatchObject({ maxSlippage: 0.5, minProfitThreshold: 0.2, monitoredPairs: ['JUP/SOL'] });
+      expect(Object.entries(config.dexes).filter(([, dex]) => (dex as { enabled: boolean }).enabled).map(([id]) => id))
+        .toEqual(['raydium', 'orca']);
+
+      logs.length = 0;
+      expect(await runCli(argv)).toBe(EXIT_CODES.ok);
+      expect(output()).toContain(`maxSlippage: 0.5 # ${file}`);
+      expect(output()).toContain('minProfitThreshold: 0.2 # --min-profit');
+    });
+
+    it('should fail on an invalid config', async () => {
+      expect(await runCli(['config', '--min-profit', '-1', '--dexes', 'lifinity'])).toBe(EXIT_CODES.failed);
+      expect(errors.join('\n')).toContain('minProfitThreshold (--min-profit): must be a percentage of 0 or more, got -1');
+      expect(errors.join('\n')).toContain('dexes.lifinity (--dexes): unknown DEX');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import axios from 'axios';
+import { AdminServer } from '../../src/config/adminServer';
+import { loadScannerConfig } from '../../src/config/configLoader';
+import { ConfigReloader } from '../../src/config/configReloader';
+import { Logger } from '../../src/logging/logger';
+
+describe('AdminServer', () => {
+  let dir: string;
+  let file: string;
+  let reloader: ConfigReloader;
+  let server: AdminServer;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'admin-'));
+    file = path.join(dir, 'scanner.yaml');
+    fs.writeFileSync(file, 'minProfitThreshold: 0.2\nrpcEndpoint: https://rpc.example.com/?api-key=hidden\n');
+    const load = () => loadScannerConfig({ file, env: {} });
+    reloader = new ConfigReloader({
+      initial: load(),
+      load,
+      apply: config => [{ key: 'minProfitThreshold', from: 0.2, to: config.minProfitThreshold }],
+      logger: new Logger({ level: 'silent' })
+    });
+    server = await AdminServer.start(reloader, 0, '127.0.0.1', { token: 'secret' });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const headers = { Authorization: 'Bearer secret' };
+  const anyStatus = { headers, validateStatus: () => true };
+
+  it('should serve the running config and reload it on POST /reload', async () => {
+    const current = await axios.get(`${server.url}/config`, { headers });
+    expect(current.data).toMatchObject({ file, config: { minProfitThreshold: 0.2, rpcEndpoint: 'https://rpc.example.com' } });
+    expect(JSON.stringify(current.data)).not.toContain('hidden');
+
+    fs.writeFileSync(file, 'minProfitThreshold: 0.3\n');
+    const reloaded = await axios.post(`${server.url}/reload`, undefined, { headers });
+
+    expect(reloaded.data).toEqual({ changes: [{ key: 'minProfitThreshold', from: 0.2, to: 0.3 }] });
+    expect((await axios.get(`${server.url}/config`, { headers })).data.config.minProfitThreshold).toBe(0.3);
+  });
+
+  it('should answer 422 and keep the config when the reload is invalid', async () => {
+    fs.writeFileSync(file, 'maxSlippage: lots\n');
+
+    const response = await axios.post(`${server.url}/reload`, undefined, anyStatus);
+
+    expect(response.status).toBe(422);
+    expect(response.data.error).toContain('maxSlippage');
+    expect(reloader.current.config.minProfitThreshold).toBe(0.2);
+  });
+
+  it('should reject missing tokens, other paths and methods', async () => {
+    expect((await axios.post(`${server.url}/reload`, undefined, { validateStatus: () => true })).status).toBe(401);
+    expect((await axios.get(`${server.url}/config`, { headers: { Authorization: 'Bearer wrong' }, validateStatus: () => true })).status).toBe(401);
+    expect((await axios.get(`${server.url}/`, anyStatus)).status).toBe(404);
+    expect((await axios.get(`${server.url}/reload`, anyStatus)).status).toBe(405);
+  });
+
+  it('should refuse to listen beyond loopback without a token', async () => {
+    await expect(AdminServer.start(reloader, 0, '0.0.0.0')).rejects.toThrow('without a token');
+    await expect(AdminServer.start(reloader, 0, '')).rejects.toThrow('without a token');
+  });
+});
@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { configFromEnv, diffScannerConfig, formatScannerConfig, loadScannerConfig, readConfigFile } from '../../src/config/configLoader';
+
+describe('loadScannerConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, text: string) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, text);
+    return file;
+  };
+
+  it('should use the built-in defaults when nothing overrides them', () => {
+    const { config, origins, file } = loadScannerConfig({ env: {} });
+
+    expect(config.rpcEndpoint).toBe('https://api.mainnet-beta.solana.com');
+    expect(config.minProfitThreshold).toBe(0.5);
+    expect(config.dexes.raydium.programId!.toBase58()).toBe('675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8');
+    expect(file).toBeNull();
+    expect(new Set(Object.values(origins))).toEqual(new Set(['defaults']));
+  });
+
+  it('should layer a YAML file, then the environment, then flags', () => {
+    const file = writeFile('scanner.yaml', [
+      'minProfitThreshold: 0.2',
+      'maxSlippage: 0.5',
+      'priceUpdateInterval: 4000',
+      'monitoredPairs: [SOL/USDC, RAY/SOL]',
+      'dexes:',
+      '  phoenix:',
+      '    enabled: false'
+    ].join('\n'));
+
+    const { config, origins } = loadScannerConfig({
+      file,
+      env: { MIN_PROFIT_THRESHOLD: '0.1', SOLANA_RPC_URL: 'https://rpc.example.com', PRICE_UPDATE_INTERVAL: '8000' },
+      flags: { source: 'command line', values: { priceUpdateInterval: 2000 }, names: { priceUpdateInterval: '--price-interval' } }
+    });
+
+    expect(config).toMatchObject({
+      rpcEndpoint: 'https://rpc.example.com',
+      minProfitThreshold: 0.1,
+      maxSlippage: 0.5,
+      priceUpdateInterval: 2000,
+      monitoredPairs: ['SOL/USDC', 'RAY/SOL']
+    });
+    expect(config.dexes.phoenix).toMatchObject({ name: 'Phoenix', enabled: false });
+    expect(config.dexes.phoenix.programId!.toBase58()).toBe('PhoeNiXZ8ByJGLkxNfZRnkUfjvmuYqLR89jjFHGqdXY');
+    expect(origins).toMatchObject({
+      rpcEndpoint: 'SOLANA_RPC_URL',
+      minProfitThreshold: 'MIN_PROFIT_THRESHOLD',
+      maxSlippage: file,
+      priceUpdateInterval: '--price-interval',
+      'dexes.phoenix.enabled': file,
+      'dexes.phoenix.name': 'defaults'
+    });
+  });
+
+  it('should read the file named by SCANNER_CONFIG, in JSON too', () => {
+    const file = writeFile('scanner.json', JSON.stringify({ jupiter: { enabled: false } }));
+
+    const { config } = loadScannerConfig({ env: { SCANNER_CONFIG: file } });
+
+    expect(config.jupiter).toEqual({ apiEndpoint: 'https://quote-api.jup.ag/v6', enabled: false });
+  });
+
+  it('should report every invalid value with where it came from', () => {
+    const file = writeFile('scanner.yaml', [
+      'minProfitThreshold: -1',
+      'scanInterval: 5',
+      'dexes:',
+      '  lifinity:',
+      '    enabled: true',
+      '  orca:',
+      '    programId: not-a-key',
+      'monitoredPairs: [SOL/USDC, SOL-USDC, DOGE/SOL]'
+    ].join('\n'));
+
+    expect(() => loadScannerConfig({ file, env: { MAX_SLIPPAGE: 'lots' } })).toThrow([
+      'Invalid scanner config:',
+      `  - scanInterval (${file}): unknown key; expected one of rpcEndpoint, rpcWsEndpoint, priceUpdateInterval, ` +
+        'poolStateUpdateInterval, minProfitThreshold, maxSlippage, tradeSizeRange, dexes, monitoredPairs, jupiter',
+      `  - minProfitThreshold (${file}): must be a percentage of 0 or more, got -1`,
+      '  - maxSlippage (MAX_SLIPPAGE): must be a percentage between 0 and 100, got "lots"',
+      `  - dexes.orca.programId (${file}): must be a base58 public key, got "not-a-key"`,
+      `  - dexes.lifinity (${file}): unknown DEX; expected one of raydium, orca, phoenix, meteora`,
+      `  - monitoredPairs[1] (${file}): must be written BASE/QUOTE, got "SOL-USDC"`,
+      `  - monitoredPairs[2] (${file}): unknown token DOGE in DOGE/SOL`
+    ].join('\n'));
+  });
+
+  it('should reject trade size ranges that end below their start', () => {
+    const file = writeFile('scanner.yaml', 'tradeSizeRange:\n  min: 10\n  max: 1\n');
+
+    expect(() => loadScannerConfig({ file, env: {} })).toThrow('tradeSizeRange.max');
+  });
+
+  it('should reject unreadable files', () => {
+    expect(() => readConfigFile(path.join(dir, 'scanner.toml'))).toThrow('must be .yaml, .yml or .json');
+    expect(() => readConfigFile(path.join(dir, 'missing.yaml'))).toThrow('Cannot read config file');
+    expect(() => readConfigFile(writeFile('list.yaml', '- a\n- b\n'))).toThrow('must hold a mapping of config keys');
+    expect(readConfigFile(writeFile('empty.yaml', ''))).toEqual({});
+  });
+
+  it('should parse lists and numbers from the environment', () => {
+    expect(configFromEnv({ MONITORED_PAIRS: 'SOL/USDC, JUP/SOL', POOL_STATE_UPDATE_INTERVAL: '2500', JUPITER_API_URL: 'https://jup.example.com' }))
+      .toEqual({
+        source: 'environment',
+        values: { monitoredPairs: ['SOL/USDC', 'JUP/SOL'], poolStateUpdateInterval: 2500, jupiter: { apiEndpoint: 'https://jup.example.com' } },
+        names: { monitoredPairs: 'MONITORED_PAIRS', poolStateUpdateInterval: 'POOL_STATE_UPDATE_INTERVAL', 'jupiter.apiEndpoint': 'JUPITER_API_URL' }
+      });
+  });
+
+  it('should print the effective config with the source of each override', () => {
+    const text = formatScannerConfig(loadScannerConfig({ env: { MIN_PROFIT_THRESHOLD: '0.1', MONITORED_PAIRS: 'SOL/USDC' } }));
+
+    expect(text).toContain('minProfitThreshold: 0.1 # MIN_PROFIT_THRESHOLD\n');
+    expect(text).toContain('monitoredPairs: [ SOL/USDC ] # MONITORED_PAIRS\n');
+    expect(text).toContain('maxSlippage: 1\n');
+    expect(text).toContain('programId: 675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8\n');
+  });
+
+  it('should list the settings that differ between two configs', () => {
+    const before = loadScannerConfig({ env: {} }).config;
+    const after = loadScannerConfig({ env: { MIN_PROFIT_THRESHOLD: '0.1', MONITORED_PAIRS: 'SOL/USDC' } }).config;
+
+    expect(diffScannerConfig(before, before)).toEqual([]);
+    expect(diffScannerConfig(before, { ...after, dexes: { ...after.dexes, orca: { ...after.dexes.orca, enabled: false } } })).toEqual([
+      { key: 'minProfitThreshold', from: 0.5, to: 0.1 },
+      { key: 'dexes.orca.enabled', from: true, to: false },
+      { key: 'monitoredPairs', from: before.monitoredPairs, to: ['SOL/USDC'] }
+    ]);
+  });
+});
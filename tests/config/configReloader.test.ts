@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ScannerConfig } from '../../src/config/config';
+import { diffScannerConfig, loadScannerConfig } from '../../src/config/configLoader';
+import { ConfigReloader, ReloadResult } from '../../src/config/configReloader';
+import { Logger } from '../../src/logging/logger';
+
+describe('ConfigReloader', () => {
+  let dir: string;
+  let file: string;
+  let lines: string[];
+  let applied: ScannerConfig[];
+  let reloader: ConfigReloader;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reload-'));
+    file = path.join(dir, 'scanner.yaml');
+    fs.writeFileSync(file, 'minProfitThreshold: 0.2\n');
+    lines = [];
+    applied = [];
+
+    const load = () => loadScannerConfig({ file, env: {} });
+    const initial = load();
+    let running = initial.config;
+    reloader = new ConfigReloader({
+      initial,
+      load,
+      apply: config => {
+        applied.push(config);
+        const changes = diffScannerConfig(running, config);
+        running = config;
+        return changes;
+      },
+      debounceMs: 20,
+      logger: new Logger({ format: 'json', write: line => lines.push(line) })
+    });
+  });
+
+  afterEach(() => {
+    reloader.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should apply a changed config and report the changes', () => {
+    fs.writeFileSync(file, 'minProfitThreshold: 0.3\nmonitoredPairs: [SOL/USDC]\n');
+
+    const result = reloader.reload('test');
+
+    expect(result.error).toBeNull();
+    expect(result.changes.map(change => change.key)).toEqual(['minProfitThreshold', 'monitoredPairs']);
+    expect(reloader.current.config.minProfitThreshold).toBe(0.3);
+    expect(JSON.parse(lines[0])).toMatchObject({ level: 'info', msg: 'Config reload (test): minProfitThreshold, monitoredPairs', trigger: 'test' });
+  });
+
+  it('should keep the running config when the new one is invalid', () => {
+    fs.writeFileSync(file, 'minProfitThreshold: -1\n');
+
+    const result = reloader.reload('test');
+
+    expect(result.error).toContain('minProfitThreshold');
+    expect(applied).toHaveLength(0);
+    expect(reloader.current.config.minProfitThreshold).toBe(0.2);
+    expect(JSON.parse(lines[0])).toMatchObject({ level: 'error', trigger: 'test' });
+  });
+
+  it('should reload once when the watched file is written', async () => {
+    reloader.watch(file);
+    const reloaded = new Promise<ReloadResult>(resolve => {
+      const reload = reloader.reload.bind(reloader);
+      jest.spyOn(reloader, 'reload').mockImplementation(trigger => {
+        const result = reload(trigger);
+        resolve(result);
+        return result;
+      });
+    });
+
+    fs.writeFileSync(file, 'minProfitThreshold: 0.4\n');
+    fs.appendFileSync(file, 'maxSlippage: 2\n');
+
+    const result = await reloaded;
+    expect(result.trigger).toBe('file');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(applied).toHaveLength(1);
+    expect(reloader.current.config).toMatchObject({ minProfitThreshold: 0.4, maxSlippage: 2 });
+  });
+
+  it('should reload on SIGHUP until closed', () => {
+    reloader.handleSignal('SIGHUP');
+    fs.writeFileSync(file, 'minProfitThreshold: 0.5\n');
+
+    process.emit('SIGHUP', 'SIGHUP');
+    expect(reloader.current.config.minProfitThreshold).toBe(0.5);
+
+    reloader.close();
+    expect(process.listenerCount('SIGHUP')).toBe(0);
+  });
+});
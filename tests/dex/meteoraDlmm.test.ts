@@ -0,0 +1,124 @@
+import { PublicKey } from '@solana/web3.js';
+import {
+  MeteoraDlmmQuoter,
+  decodeLbPair,
+  getBinArrayIndex,
+  getPriceX64FromBinId,
+  getTotalFeeRate,
+  simulateDlmmSwap
+} from '../../src/dex/meteoraDlmm';
+import { KNOWN_TOKENS } from '../../src/utils/tokenUtils';
+import { FixtureAccountFetcher, loadAccountFixtures } from '../helpers/fixtureAccountFetcher';
+
+const PAIR = new PublicKey('5rCf1DM8LjKTw4YqhnoLcngyZYeNnQqztScTogYHAS6');
+const SOL = KNOWN_TOKENS.SOL.mint;
+const USDC = KNOWN_TOKENS.USDC.mint;
+const Q64 = BigInt(1) << BigInt(64);
+
+describe('Meteora DLMM Quoter', () => {
+  let quoter: MeteoraDlmmQuoter;
+
+  beforeEach(() => {
+    quoter = new MeteoraDlmmQuoter(FixtureAccountFetcher.fromFiles('meteoraDlmmSolUsdc.json'));
+  });
+
+  describe('Account Decoding', () => {
+    it('should decode LbPair parameters from fixture data', () => {
+      const accounts = loadAccountFixtures('meteoraDlmmSolUsdc.json');
+      const state = decodeLbPair(accounts.get(PAIR.toBase58())!.data);
+
+      expect(state.activeId).toBe(-1685);
+      expect(state.binStep).toBe(10);
+      expect(state.baseFactor).toBe(10000);
+      expect(state.variableFeeControl).toBe(40000);
+      expect(state.volatilityAccumulator).toBe(20000);
+      expect(state.tokenXMint.equals(SOL)).toBe(true);
+      expect(state.tokenYMint.equals(USDC)).toBe(true);
+      expect(state.oracle.toBase58()).toBe('Fo3m9HQx8Rv4EMzmKWxe5yjCZMNcB5W5sKNv4pDzRFqe');
+    });
+
+    it('should load initialized bin arrays around the active bin', async () => {
+      const pair = await quoter.loadPair(PAIR);
+
+      // Arrays -27 and -23 are requested but not initialized
+      expect(Array.from(pair.binArrays.keys())).toEqual([-26, -25, -24]);
+      expect(pair.minArrayIndex).toBe(-27);
+      expect(pair.maxArrayIndex).toBe(-23);
+      expect(pair.reserveYBalance).toBe(BigInt('30250000000'));
+    });
+
+    it('should reject accounts with the wrong size', () => {
+      expect(() => decodeLbPair(Buffer.alloc(10))).toThrow('Invalid LbPair account size');
+    });
+  });
+
+  describe('Bin Math', () => {
+    it('should map bin 0 to a price of exactly 1.0', () => {
+      expect(getPriceX64FromBinId(0, 10)).toBe(Q64);
+    });
+
+    it('should index bin arrays with floor division', () => {
+      expect(getBinArrayIndex(-1685)).toBe(-25);
+      expect(getBinArrayIndex(-1)).toBe(-1);
+      expect(getBinArrayIndex(69)).toBe(0);
+      expect(getBinArrayIndex(70)).toBe(1);
+    });
+
+    it('should add a variable fee that grows with volatility', async () => {
+      const { state } = await quoter.loadPair(PAIR);
+
+      // Base fee: 10000 * 10 * 10 = 0.1%; variable: ceil((va * 10)^2 * 40000 / 1e11)
+      expect(getTotalFeeRate(state, 0)).toBe(BigInt(1000000));
+      expect(getTotalFeeRate(state, 10000)).toBe(BigInt(1004000));
+      expect(getTotalFeeRate(state, 110000)).toBe(BigInt(1484000));
+      expect(getTotalFeeRate(state, 350000)).toBe(BigInt(5900000));
+    });
+  });
+
+  describe('Swap Simulation', () => {
+    it('should quote a small SOL -> USDC swap inside the active bin', async () => {
+      const quote = await quoter.quote(PAIR, SOL, BigInt(1000000000));
+
+      expect(quote.dex).toBe('Meteora');
+      expect(quote.outputMint.equals(USDC)).toBe(true);
+      expect(quote.feeAmount).toBe(BigInt(1004000)); // Decayed volatility reference of 10000
+      expect(quote.amountOut).toBe(BigInt(185414287));
+    });
+
+    it('should quote USDC -> SOL in the reverse direction', async () => {
+      const quote = await quoter.quote(PAIR, USDC, BigInt(185500000));
+
+      expect(quote.outputMint.equals(SOL)).toBe(true);
+      expect(quote.amountOut).toBe(BigInt(998454355));
+    });
+
+    it('should cross bins and charge more as volatility accumulates', async () => {
+      const pair = await quoter.loadPair(PAIR);
+      const quote = simulateDlmmSwap(pair, SOL, BigInt(50000000000));
+
+      expect(quote.amountOut).toBe(BigInt(9181101054));
+      expect(quote.feeAmount).toBe(BigInt(76480379));
+      expect(quote.priceImpact.toNumber()).toBeGreaterThan(0.009);
+    });
+
+    it('should reset the volatility reference once the decay period has passed', async () => {
+      const pair = await quoter.loadPair(PAIR);
+      const later = simulateDlmmSwap(pair, SOL, BigInt(1000000000), pair.unixTimestamp + BigInt(3600));
+
+      expect(later.feeAmount).toBe(BigInt(1000000)); // Base fee only
+    });
+
+    it('should fail when a swap runs past the loaded bin arrays', async () => {
+      await expect(
+        quoter.quote(PAIR, SOL, BigInt('400000000000'))
+      ).rejects.toThrow('Swap exceeds liquidity in loaded bin arrays');
+    });
+
+    it('should reject disabled pairs', async () => {
+      const pair = await quoter.loadPair(PAIR);
+      const disabled = { ...pair, state: { ...pair.state, status: 1 } };
+
+      expect(() => simulateDlmmSwap(disabled, SOL, BigInt(1000000000))).toThrow('is disabled');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { PublicKey } from '@solana/web3.js';
+import {
+  OrcaWhirlpoolQuoter,
+  computeSwapStep,
+  decodeWhirlpool,
+  getAmountDeltaA,
+  getAmountDeltaB,
+  getTickArrayStartIndex,
+  simulateWhirlpoolSwap,
+  sqrtPriceX64FromTick,
+  tickFromSqrtPriceX64
+} from '../../src/dex/orcaWhirlpool';
+import { KNOWN_TOKENS } from '../../src/utils/tokenUtils';
+import { FixtureAccountFetcher, loadAccountFixtures } from '../helpers/fixtureAccountFetcher';
+
+const POOL = new PublicKey('HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ');
+const SOL = KNOWN_TOKENS.SOL.mint;
+const USDC = KNOWN_TOKENS.USDC.mint;
+const Q64 = BigInt(1) << BigInt(64);
+
+describe('Orca Whirlpool Quoter', () => {
+  let quoter: OrcaWhirlpoolQuoter;
+
+  beforeEach(() => {
+    quoter = new OrcaWhirlpoolQuoter(FixtureAccountFetcher.fromFiles('orcaWhirlpoolSolUsdc.json'));
+  });
+
+  describe('Account Decoding', () => {
+    it('should decode whirlpool state from fixture data', () => {
+      const accounts = loadAccountFixtures('orcaWhirlpoolSolUsdc.json');
+      const state = decodeWhirlpool(accounts.get(POOL.toBase58())!.data);
+
+      expect(state.tickSpacing).toBe(64);
+      expect(state.feeRate).toBe(3000);
+      expect(state.liquidity).toBe(BigInt('80000000000000'));
+      expect(state.tickCurrentIndex).toBe(-16848);
+      expect(state.tokenMintA.equals(SOL)).toBe(true);
+      expect(state.tokenMintB.equals(USDC)).toBe(true);
+    });
+
+    it('should load the contiguous tick arrays around the current tick', async () => {
+      const pool = await quoter.loadPool(POOL);
+
+      // The array starting at -5632 is not initialized, so coverage stops before it
+      expect(pool.tickArrays.map(array => array.startTickIndex)).toEqual([-28160, -22528, -16896, -11264]);
+      expect(pool.tickArrays[2].ticks.filter(tick => tick.initialized).map(tick => tick.index))
+        .toEqual([-16640, -14080]);
+      expect(pool.vaultBalanceB).toBe(BigInt('7800000000000'));
+    });
+
+    it('should reject accounts with the wrong size', () => {
+      expect(() => decodeWhirlpool(Buffer.alloc(10))).toThrow('Invalid Whirlpool account size');
+    });
+  });
+
+  describe('Tick Math', () => {
+    it('should map tick 0 to a sqrt price of exactly 1.0', () => {
+      expect(sqrtPriceX64FromTick(0)).toBe(Q64);
+    });
+
+    it('should invert sqrt prices back to ticks', () => {
+      for (const tick of [-16848, -1, 0, 1, 64, 12345]) {
+        expect(tickFromSqrtPriceX64(sqrtPriceX64FromTick(tick))).toBe(tick);
+        expect(tickFromSqrtPriceX64(sqrtPriceX64FromTick(tick) + BigInt(1))).toBe(tick);
+        expect(tickFromSqrtPriceX64(sqrtPriceX64FromTick(tick) - BigInt(1))).toBe(tick - 1);
+      }
+    });
+
+    it('should compute tick array start indexes for negative ticks', () => {
+      expect(getTickArrayStartIndex(-16848, 64)).toBe(-16896);
+      expect(getTickArrayStartIndex(100, 64)).toBe(0);
+      expect(getTickArrayStartIndex(-1, 64)).toBe(-5632);
+    });
+
+    it('should round amount deltas in the protocol\'s favour', () => {
+      const lower = sqrtPriceX64FromTick(-100);
+      const upper = sqrtPriceX64FromTick(100);
+      const liquidity = BigInt(1000000007);
+
+      expect(getAmountDeltaA(lower, upper, liquidity, true) - getAmountDeltaA(lower, upper, liquidity, false))
+        .toBe(BigInt(1));
+      expect(getAmountDeltaB(lower, upper, liquidity, true) - getAmountDeltaB(lower, upper, liquidity, false))
+        .toBe(BigInt(1));
+    });
+
+    it('should charge the whole remainder as fee on a partial step', () => {
+      const current = sqrtPriceX64FromTick(0);
+      const target = sqrtPriceX64FromTick(-1000);
+      const step = computeSwapStep(BigInt(1000000), 3000, BigInt('1000000000000'), current, target, true);
+
+      expect(step.nextSqrtPriceX64 > target).toBe(true);
+      expect(step.amountIn + step.feeAmount).toBe(BigInt(1000000));
+      expect(step.feeAmount).toBe(BigInt(3000));
+    });
+  });
+
+  describe('Swap Simulation', () => {
+    it('should quote a small SOL -> USDC swap within the current range', async () => {
+      const quote = await quoter.quote(POOL, SOL, BigInt(1000000000));
+
+      expect(quote.dex).toBe('Orca');
+      expect(quote.outputMint.equals(USDC)).toBe(true);
+      expect(quote.feeAmount).toBe(BigInt(3000000));
+      expect(quote.amountOut).toBe(BigInt(184942507));
+      expect(quote.priceImpact.toNumber()).toBeLessThan(0.0001);
+    });
+
+    it('should quote USDC -> SOL in the reverse direction', async () => {
+      const quote = await quoter.quote(POOL, USDC, BigInt(185500000));
+
+      expect(quote.outputMint.equals(SOL)).toBe(true);
+      expect(quote.feeAmount).toBe(BigInt(556500));
+      expect(quote.amountOut).toBe(BigInt(996994648));
+    });
+
+    it('should walk across initialized ticks for large swaps', async () => {
+      const pool = await quoter.loadPool(POOL);
+
+      // 5,000 SOL exits the narrow position at -17024 and continues on thinner liquidity
+      const large = simulateWhirlpoolSwap(pool, SOL, BigInt('5000000000000'));
+      const withinRange = simulateWhirlpoolSwap(pool, SOL, BigInt('1000000000000'));
+
+      expect(large.amountOut).toBe(BigInt('883569264768'));
+      expect(large.priceImpact.gt(withinRange.priceImpact.mul(5))).toBe(true);
+
+      // Output per SOL must be strictly worse once the narrow range is exhausted
+      const largeRate = Number(large.amountOut) / 5000;
+      const smallRate = Number(withinRange.amountOut) / 1000;
+      expect(largeRate).toBeLessThan(smallRate);
+    });
+
+    it('should fail when a swap runs past the loaded tick arrays', async () => {
+      await expect(
+        quoter.quote(POOL, USDC, BigInt('5000000000000'))
+      ).rejects.toThrow('Swap exceeds liquidity in loaded tick arrays');
+    });
+
+    it('should reject mints the pool does not trade', async () => {
+      await expect(
+        quoter.quote(POOL, KNOWN_TOKENS.RAY.mint, BigInt(1000000))
+      ).rejects.toThrow('is not traded by Whirlpool');
+    });
+  });
+});
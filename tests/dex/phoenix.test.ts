@@ -0,0 +1,143 @@
+import { PublicKey } from '@solana/web3.js';
+import {
+  PhoenixQuoter,
+  decodePhoenixMarket,
+  decodePhoenixMarketState,
+  getLiquidityDepth,
+  simulatePhoenixFill
+} from '../../src/dex/phoenix';
+import { KNOWN_TOKENS } from '../../src/utils/tokenUtils';
+import { FixtureAccountFetcher, loadAccountFixtures } from '../helpers/fixtureAccountFetcher';
+
+const MARKET = new PublicKey('4DoNfFBfF7UokCC2FQzriy7yHK6DY6NVdYpuekQ5pRgg');
+const SOL = KNOWN_TOKENS.SOL.mint;
+const USDC = KNOWN_TOKENS.USDC.mint;
+
+describe('Phoenix Order Book Quoter', () => {
+  let quoter: PhoenixQuoter;
+
+  beforeEach(() => {
+    quoter = new PhoenixQuoter(FixtureAccountFetcher.fromFiles('phoenixSolUsdc.json'));
+  });
+
+  describe('Account Decoding', () => {
+    it('should decode market parameters from fixture data', () => {
+      const accounts = loadAccountFixtures('phoenixSolUsdc.json');
+      const state = decodePhoenixMarketState(accounts.get(MARKET.toBase58())!.data);
+
+      expect(state.status).toBe(BigInt(1));
+      expect(state.baseDecimals).toBe(9);
+      expect(state.quoteDecimals).toBe(6);
+      expect(state.baseLotSize).toBe(BigInt(1000000));
+      expect(state.baseLotsPerBaseUnit).toBe(BigInt(1000));
+      expect(state.tickSizeInQuoteLotsPerBaseUnit).toBe(BigInt(1000));
+      expect(state.takerFeeBps).toBe(BigInt(2));
+      expect(state.baseMint.equals(SOL)).toBe(true);
+      expect(state.quoteMint.equals(USDC)).toBe(true);
+    });
+
+    it('should aggregate live orders into price levels, best first', async () => {
+      const market = await quoter.loadMarket(MARKET);
+
+      // Two resting bids at 185.450 merge into one level
+      expect(market.bids.map(level => [level.priceInTicks, level.baseLots])).toEqual([
+        [BigInt(185490), BigInt(50000)],
+        [BigInt(185450), BigInt(35000)],
+        [BigInt(185300), BigInt(200000)]
+      ]);
+      // The 185.400 ask expired before the current slot; the freed 185.000 node is unlinked
+      expect(market.asks.map(level => level.priceInTicks)).toEqual([
+        BigInt(185510), BigInt(185530), BigInt(185600)
+      ]);
+    });
+
+    it('should keep expired orders when no clock is supplied', () => {
+      const accounts = loadAccountFixtures('phoenixSolUsdc.json');
+      const market = decodePhoenixMarket(MARKET, accounts.get(MARKET.toBase58())!.data);
+
+      expect(market.asks[0].priceInTicks).toBe(BigInt(185400));
+    });
+
+    it('should reject truncated market accounts', () => {
+      expect(() => decodePhoenixMarketState(Buffer.alloc(100))).toThrow('Invalid Phoenix market account size');
+    });
+  });
+
+  describe('Depth Walking', () => {
+    it('should sell base into the best bid net of the taker fee', async () => {
+      const quote = await quoter.quote(MARKET, SOL, BigInt(1000000000));
+
+      expect(quote.dex).toBe('Phoenix');
+      expect(quote.outputMint.equals(USDC)).toBe(true);
+      expect(quote.feeMint.equals(USDC)).toBe(true);
+      expect(quote.feeAmount).toBe(BigInt(37098)); // ceil(185.49 USDC * 2bps)
+      expect(quote.amountOut).toBe(BigInt(185452902));
+      expect(quote.priceImpact.toNumber()).toBe(0);
+    });
+
+    it('should report only the whole base lots sold', async () => {
+      const market = await quoter.loadMarket(MARKET);
+      const quote = simulatePhoenixFill(market, SOL, BigInt(1000400000));
+
+      expect(quote.amountIn).toBe(BigInt(1000000000)); // 0.0004 SOL is below the lot size and stays unsold
+      expect(quote.amountOut).toBe(BigInt(185452902));
+      expect(() => simulatePhoenixFill(market, SOL, BigInt(999999))).toThrow('below one lot');
+    });
+
+    it('should reserve the taker fee out of a quote budget', async () => {
+      const quote = await quoter.quote(MARKET, USDC, BigInt(185500000));
+
+      expect(quote.outputMint.equals(SOL)).toBe(true);
+      expect(quote.amountOut).toBe(BigInt(999000000)); // Whole lots only
+      expect(quote.feeAmount).toBe(BigInt(37065));
+    });
+
+    it('should walk multiple levels for large orders', async () => {
+      const market = await quoter.loadMarket(MARKET);
+      const quote = simulatePhoenixFill(market, SOL, BigInt(60000000000));
+
+      // 50 SOL @ 185.49 + 10 SOL @ 185.45, less 2bps
+      expect(quote.amountOut).toBe(BigInt(11126774200));
+      expect(quote.priceImpact.toNumber()).toBeCloseTo(400000 / 11129400000, 12);
+    });
+
+    it('should fail when the order exceeds book depth', async () => {
+      await expect(
+        quoter.quote(MARKET, SOL, BigInt(300000000000))
+      ).rejects.toThrow('Order exceeds bid depth');
+    });
+
+    it('should reject markets that are not active', async () => {
+      const market = await quoter.loadMarket(MARKET);
+      const postOnly = { ...market, state: { ...market.state, status: BigInt(2) } };
+
+      expect(() => simulatePhoenixFill(postOnly, SOL, BigInt(1000000000))).toThrow('not accepting taker orders');
+    });
+
+    it('should reject mints the market does not trade', async () => {
+      await expect(
+        quoter.quote(MARKET, KNOWN_TOKENS.RAY.mint, BigInt(1000000))
+      ).rejects.toThrow('is not traded by Phoenix market');
+    });
+  });
+
+  describe('Liquidity Depth', () => {
+    it('should express the book in UI prices and base quantities', async () => {
+      const depth = getLiquidityDepth(await quoter.loadMarket(MARKET));
+
+      expect(depth.bids[0].price.toNumber()).toBe(185.49);
+      expect(depth.bids[0].quantity.toNumber()).toBe(50);
+      expect(depth.asks[0].price.toNumber()).toBe(185.51);
+      expect(depth.totalBidLiquidity.toNumber()).toBe(285);
+      expect(depth.totalAskLiquidity.toNumber()).toBe(170);
+    });
+
+    it('should truncate levels but keep full-book totals', async () => {
+      const depth = getLiquidityDepth(await quoter.loadMarket(MARKET), 1);
+
+      expect(depth.bids).toHaveLength(1);
+      expect(depth.asks).toHaveLength(1);
+      expect(depth.totalBidLiquidity.toNumber()).toBe(285);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { PublicKey } from '@solana/web3.js';
+import {
+  RaydiumAmmQuoter,
+  computeConstantProductOut,
+  decodeRaydiumAmmPool,
+  quoteRaydiumAmm
+} from '../../src/dex/raydiumAmm';
+import { KNOWN_TOKENS } from '../../src/utils/tokenUtils';
+import { FixtureAccountFetcher, loadAccountFixtures } from '../helpers/fixtureAccountFetcher';
+
+const POOL = new PublicKey('58oQChx4yWmvKdwLLZzBi4ChoCc2fqCUWBkwMihLYQo2');
+const SOL = KNOWN_TOKENS.SOL.mint;
+const USDC = KNOWN_TOKENS.USDC.mint;
+
+describe('Raydium AMM v4 Quoter', () => {
+  let fetcher: FixtureAccountFetcher;
+
+  beforeEach(() => {
+    fetcher = FixtureAccountFetcher.fromFiles('raydiumAmmSolUsdc.json');
+  });
+
+  describe('Account Decoding', () => {
+    it('should decode pool state from fixture data', () => {
+      const accounts = loadAccountFixtures('raydiumAmmSolUsdc.json');
+      const state = decodeRaydiumAmmPool(accounts.get(POOL.toBase58())!.data);
+
+      expect(state.status).toBe(BigInt(6));
+      expect(state.baseDecimal).toBe(9);
+      expect(state.quoteDecimal).toBe(6);
+      expect(state.swapFeeNumerator).toBe(BigInt(25));
+      expect(state.swapFeeDenominator).toBe(BigInt(10000));
+      expect(state.baseMint.equals(SOL)).toBe(true);
+      expect(state.quoteMint.equals(USDC)).toBe(true);
+      expect(state.baseVault.toBase58()).toBe('DQyrAcCrDXQ7NeoqGgDCZwBvWDcYmFCjSb9JtteuvPpz');
+      expect(state.quoteVault.toBase58()).toBe('HLmqeL62xR1QoZ1HKKbXRrdN1p3phKpxRMb2VVopvBBz');
+    });
+
+    it('should reject accounts with the wrong size', () => {
+      expect(() => decodeRaydiumAmmPool(Buffer.alloc(100))).toThrow('Invalid Raydium AMM v4 account size');
+    });
+
+    it('should net pending PnL out of vault balances', async () => {
+      const pool = await new RaydiumAmmQuoter(fetcher).loadPool(POOL);
+
+      expect(pool.baseReserve).toBe(BigInt('50000000000000'));
+      expect(pool.quoteReserve).toBe(BigInt('9275000000000'));
+    });
+  });
+
+  describe('Constant Product Math', () => {
+    it('should round the fee up and the output down', () => {
+      const { amountOut, feeAmount } = computeConstantProductOut(
+        BigInt(1001), BigInt(1000000), BigInt(2000000), BigInt(25), BigInt(10000)
+      );
+
+      expect(feeAmount).toBe(BigInt(3)); // ceil(2.5025)
+      expect(amountOut).toBe(BigInt(1994)); // floor(2000000 * 998 / 1000998)
+    });
+
+    it('should reject a zero fee denominator', () => {
+      expect(() =>
+        computeConstantProductOut(BigInt(1), BigInt(1), BigInt(1), BigInt(0), BigInt(0))
+      ).toThrow('Invalid fee denominator');
+    });
+  });
+
+  describe('Swap Quotes', () => {
+    it('should quote SOL -> USDC exactly', async () => {
+      const quote = await new RaydiumAmmQuoter(fetcher).quote(POOL, SOL, BigInt(1000000000));
+
+      expect(quote.dex).toBe('Raydium');
+      expect(quote.outputMint.equals(USDC)).toBe(true);
+      expect(quote.feeAmount).toBe(BigInt(2500000));
+      expect(quote.amountOut).toBe(BigInt(185032558));
+      expect(quote.outputLiquidity).toBe(BigInt('9275000000000'));
+      expect(quote.priceImpact.toNumber()).toBeCloseTo(997500000 / 50000997500000, 12);
+    });
+
+    it('should quote USDC -> SOL in the reverse direction', async () => {
+      const quote = await new RaydiumAmmQuoter(fetcher).quote(POOL, USDC, BigInt(185500000));
+
+      expect(quote.outputMint.equals(SOL)).toBe(true);
+      expect(quote.feeAmount).toBe(BigInt(463750));
+      expect(quote.amountOut).toBe(BigInt(997480100));
+    });
+
+    it('should grow price impact with trade size', async () => {
+      const pool = await new RaydiumAmmQuoter(fetcher).loadPool(POOL);
+      const small = quoteRaydiumAmm(pool, SOL, BigInt(1000000000));
+      const large = quoteRaydiumAmm(pool, SOL, BigInt('1000000000000'));
+
+      expect(large.amountOut).toBe(BigInt(181416981224));
+      expect(large.priceImpact.gt(small.priceImpact)).toBe(true);
+    });
+
+    it('should reject mints the pool does not trade', async () => {
+      const quoter = new RaydiumAmmQuoter(fetcher);
+
+      await expect(
+        quoter.quote(POOL, KNOWN_TOKENS.RAY.mint, BigInt(1000000))
+      ).rejects.toThrow('is not traded by Raydium pool');
+    });
+
+    it('should reject pools that are not accepting swaps', async () => {
+      const pool = await new RaydiumAmmQuoter(fetcher).loadPool(POOL);
+      const disabled = { ...pool, state: { ...pool.state, status: BigInt(2) } };
+
+      expect(() => quoteRaydiumAmm(disabled, SOL, BigInt(1000000000))).toThrow('is not swappable');
+    });
+
+    it('should quote WaitingTrade pools only once their open time has passed', async () => {
+      const pool = await new RaydiumAmmQuoter(fetcher).loadPool(POOL);
+      const waiting = { ...pool, state: { ...pool.state, status: BigInt(7), poolOpenTime: BigInt(1700000000) } };
+
+      expect(() => quoteRaydiumAmm(waiting, SOL, BigInt(1000000000), BigInt(1699999999))).toThrow('does not open until 1700000000');
+      expect(quoteRaydiumAmm(waiting, SOL, BigInt(1000000000), BigInt(1700000000)).amountOut > BigInt(0)).toBe(true);
+    });
+
+    it('should fail clearly when the pool account is missing', async () => {
+      const emptyFetcher = new FixtureAccountFetcher(new Map());
+
+      await expect(
+        new RaydiumAmmQuoter(emptyFetcher).quote(POOL, SOL, BigInt(1000000000))
+      ).rejects.toThrow(`Account not found: ${POOL.toBase58()}`);
+    });
+  });
+});
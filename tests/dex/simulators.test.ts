@@ -0,0 +1,51 @@
+import Decimal from 'decimal.js';
+import { KNOWN_POOLS, PoolDex, findPool } from '../../src/config/pools';
+import { loadSwapSimulator, toQuoteFunction } from '../../src/dex/simulators';
+import { KNOWN_TOKENS } from '../../src/utils/tokenUtils';
+import { FixtureAccountFetcher } from '../helpers/fixtureAccountFetcher';
+
+describe('Loaded Pool Simulators', () => {
+  const fetcher = FixtureAccountFetcher.fromFiles(
+    'raydiumAmmSolUsdc.json',
+    'orcaWhirlpoolSolUsdc.json',
+    'phoenixSolUsdc.json',
+    'meteoraDlmmSolUsdc.json'
+  );
+
+  it('should match the venue quoters for every SOL/USDC pool', async () => {
+    const expected: Partial<Record<PoolDex, bigint>> = {
+      orca: BigInt(184942507),
+      phoenix: BigInt(185452902),
+      meteora: BigInt(185414287)
+    };
+
+    for (const dex of Object.keys(expected) as PoolDex[]) {
+      const simulate = await loadSwapSimulator(fetcher, findPool(dex, 'SOL', 'USDC')!);
+      expect(simulate(KNOWN_TOKENS.SOL.mint, BigInt(1000000000)).amountOut).toBe(expected[dex]);
+    }
+  });
+
+  it('should quote repeatedly without refetching accounts', async () => {
+    const getMultipleAccountsInfo = jest.spyOn(fetcher, 'getMultipleAccountsInfo');
+    const simulate = await loadSwapSimulator(fetcher, KNOWN_POOLS.find(pool => pool.dex === 'raydium')!);
+    const calls = getMultipleAccountsInfo.mock.calls.length;
+
+    simulate(KNOWN_TOKENS.SOL.mint, BigInt(1000000000));
+    simulate(KNOWN_TOKENS.USDC.mint, BigInt(185000000));
+
+    expect(getMultipleAccountsInfo.mock.calls.length).toBe(calls);
+    getMultipleAccountsInfo.mockRestore();
+  });
+
+  it('should convert between UI amounts and raw units', async () => {
+    const simulate = await loadSwapSimulator(fetcher, findPool('phoenix', 'SOL', 'USDC')!);
+    const sellSol = toQuoteFunction(simulate, 'SOL', 'USDC');
+
+    expect((await sellSol(new Decimal(1))).toNumber()).toBe(185.452902);
+  });
+
+  it('should reject unknown tokens', async () => {
+    const simulate = await loadSwapSimulator(fetcher, findPool('phoenix', 'SOL', 'USDC')!);
+    expect(() => toQuoteFunction(simulate, 'SOL', 'DOGE')).toThrow('Unknown token in pair: SOL/DOGE');
+  });
+});
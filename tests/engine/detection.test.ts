@@ -0,0 +1,97 @@
+import Decimal from 'decimal.js';
+import { EngineQuote, findOpportunities } from '../../src/engine/detection';
+import { findPool } from '../../src/config/pools';
+import { FeeEstimator } from '../../src/execution/feeEstimator';
+
+const quote = (dex: string, price: number, overrides: Partial<EngineQuote> = {}): EngineQuote => ({
+  dex,
+  price: new Decimal(price),
+  inputAmount: new Decimal(2),
+  outputAmount: new Decimal(price * 2),
+  priceImpact: new Decimal(0.001),
+  source: 'route',
+  timestamp: 0,
+  ...overrides
+});
+
+const poolOf = (dex: 'raydium' | 'orca') => findPool(dex, 'SOL', 'USDC')!;
+
+describe('findOpportunities', () => {
+  it('should buy on the cheaper venue and sell on the richer one, widest first', () => {
+    const opportunities = findOpportunities('SOL/USDC', [
+      quote('Raydium', 100),
+      quote('Orca', 101),
+      quote('Meteora', 100.5)
+    ], { minSpreadPercent: 0 });
+
+    expect(opportunities.map(opp => `${opp.buyDex}->${opp.sellDex}`)).toEqual([
+      'Raydium->Orca',
+      'Raydium->Meteora',
+      'Meteora->Orca'
+    ]);
+    expect(opportunities[0]).toMatchObject({ strategy: 'cross_dex', confidence: 'high' });
+    expect(opportunities[0].profitPercentage.toNumber()).toBeCloseTo(1);
+    expect(opportunities[0].profit.toNumber()).toBeCloseTo(2); // Price difference times the 2 SOL quoted
+  });
+
+  it('should apply the minimum spread and skip unusable quotes', () => {
+    expect(findOpportunities('SOL/USDC', [
+      quote('Raydium', 100),
+      quote('Orca', 100.04),
+      quote('Broken', 0)
+    ], { minSpreadPercent: 0.05 })).toEqual([]);
+
+    // Two quotes of one venue are not an arbitrage
+    expect(findOpportunities('SOL/USDC', [quote('Raydium', 100), quote('Raydium', 103)], { minSpreadPercent: 0 })).toEqual([]);
+  });
+
+  it('should tell strategies apart by where the quotes came from', () => {
+    const [aggregated] = findOpportunities('SOL/USDC', [
+      quote('Jupiter', 100, { source: 'aggregator' }),
+      quote('Orca', 101, { source: 'direct' })
+    ], { minSpreadPercent: 0 });
+    expect(aggregated.strategy).toBe('jupiter_vs_direct');
+    expect(aggregated.route).toBeUndefined();
+
+    const raydium = poolOf('raydium');
+    const orca = poolOf('orca');
+    const [direct] = findOpportunities('SOL/USDC', [
+      quote('Raydium', 100, { source: 'direct', poolAddress: raydium.address }),
+      quote('Orca', 101, { source: 'direct', poolAddress: orca.address })
+    ], { minSpreadPercent: 0 });
+
+    expect(direct.strategy).toBe('direct_vs_direct');
+    expect(direct.route!.map(leg => [leg.poolAddress.toBase58(), leg.tokenIn.symbol, leg.tokenOut.symbol])).toEqual([
+      [orca.address.toBase58(), 'SOL', 'USDC'],
+      [raydium.address.toBase58(), 'USDC', 'SOL']
+    ]);
+  });
+
+  it('should net gas out of the profit and rank by what is left', () => {
+    const estimator = new FeeEstimator(null);
+    const sample = { microLamportsPerUnit: 10000, percentiles: null, slots: 0, source: 'fallback' as const };
+    const opportunities = findOpportunities('SOL/USDC', [
+      quote('Raydium', 100),
+      quote('Orca', 100.2),
+      quote('Meteora', 100.1, { inputAmount: new Decimal(50) })
+    ], { minSpreadPercent: 0, gas: { estimator, sample } });
+
+    const best = opportunities[0];
+    expect(`${best.buyDex}->${best.sellDex}`).toBe('Meteora->Orca');
+    expect(best.feeEstimate!.costQuote).not.toBeNull();
+    expect(best.netProfitAfterGas!.toNumber()).toBeCloseTo(best.profit.sub(best.feeEstimate!.costQuote!).toNumber());
+  });
+
+  it('should only claim a net profit when gas can be priced in the output token', () => {
+    const estimator = new FeeEstimator(null);
+    const sample = { microLamportsPerUnit: 10000, percentiles: null, slots: 0, source: 'fallback' as const };
+    const quotes = [quote('Raydium', 2), quote('Orca', 2.1)];
+
+    const [unpriced] = findOpportunities('RAY/USDC', quotes, { minSpreadPercent: 0, gas: { estimator, sample } });
+    expect(unpriced.feeEstimate!.costQuote).toBeNull();
+    expect(unpriced.netProfitAfterGas).toBeUndefined();
+
+    const [priced] = findOpportunities('RAY/USDC', quotes, { minSpreadPercent: 0, gas: { estimator, sample, quotePerSol: new Decimal(150) } });
+    expect(priced.netProfitAfterGas!.toNumber()).toBeCloseTo(priced.profit.sub(priced.estimatedGasCost!.mul(150)).toNumber());
+  });
+});
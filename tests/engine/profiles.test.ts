@@ -0,0 +1,46 @@
+import { SCAN_PROFILE_NAMES, getScanProfile } from '../../src/engine/profiles';
+import { createPriceSourceRegistry } from '../../src/sources/defaultSources';
+import { JupiterClient } from '../../src/utils/jupiterClient';
+import { FixtureAccountFetcher } from '../helpers/fixtureAccountFetcher';
+
+describe('scan profiles', () => {
+  it('should cover every former scanner mode', () => {
+    expect(SCAN_PROFILE_NAMES).toEqual(expect.arrayContaining([
+      'legitimate', 'optimized', 'real-time', 'real-dex', 'phoenix-focused',
+      'professional', 'enhanced', 'cross-dex', 'conservative', 'quick'
+    ]));
+  });
+
+  it('should only name venues the price source registry knows', () => {
+    const registry = createPriceSourceRegistry(FixtureAccountFetcher.fromFiles(), new JupiterClient());
+    const known = registry.getAll().map(source => source.id);
+
+    for (const name of SCAN_PROFILE_NAMES) {
+      const profile = getScanProfile(name);
+      expect(known).toEqual(expect.arrayContaining(profile.venues));
+      expect(profile.pairs.length > 0 || (profile.stream?.pools.length ?? 0) > 0).toBe(true);
+    }
+  });
+
+  it('should never alert on spreads between route steps', () => {
+    for (const name of SCAN_PROFILE_NAMES) {
+      const profile = getScanProfile(name);
+      if (profile.routeSplitting) expect(profile.alerting.enabled).toBe(false);
+    }
+    expect(getScanProfile('real-time').alerting).toMatchObject({ enabled: true, minNetProfit: 100 });
+  });
+
+  it('should hand out copies that callers may change', () => {
+    const profile = getScanProfile('quick');
+    profile.pairs.push({ from: 'SOL', to: 'BONK', amount: profile.pairs[0].amount });
+    profile.rateLimit.minRequestIntervalMs = 0;
+
+    const fresh = getScanProfile('quick');
+    expect(fresh.pairs).toHaveLength(profile.pairs.length - 1);
+    expect(fresh.rateLimit.minRequestIntervalMs).toBeGreaterThan(0);
+  });
+
+  it('should reject unknown profile names', () => {
+    expect(() => getScanProfile('turbo')).toThrow('Unknown scan profile "turbo"');
+  });
+});
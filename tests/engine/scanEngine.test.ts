@@ -0,0 +1,258 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Decimal from 'decimal.js';
+import { AlertManager } from '../../src/alerts/alertManager';
+import { getScanProfile } from '../../src/engine/profiles';
+import { RouteQuoteClient } from '../../src/engine/quoting';
+import { ScanEngine, ScanEngineDependencies } from '../../src/engine/scanEngine';
+import { FeeEstimator } from '../../src/execution/feeEstimator';
+import { PaperTrader } from '../../src/execution/paperTrader';
+import { Logger } from '../../src/logging/logger';
+import { createArbMetrics } from '../../src/metrics/arbMetrics';
+import { PoolUpdate } from '../../src/monitoring/poolMonitor';
+import { readRecords } from '../../src/records/recordReader';
+import { openRecordWriter } from '../../src/records/recordWriter';
+import { ScanRecorder } from '../../src/storage/scanRecorder';
+import { JupiterRoute } from '../../src/types';
+import * as tradeSizeSolver from '../../src/utils/tradeSizeSolver';
+import { FixtureAccountFetcher } from '../helpers/fixtureAccountFetcher';
+
+// USDC out for 1 SOL and the venues routed through, per slippage
+const ROUTES: Record<number, { outAmount: string; labels: string[] }> = {
+  50: { outAmount: '185000000', labels: ['Raydium', 'Orca'] },
+  100: { outAmount: '186000000', labels: ['Meteora DLMM', 'Raydium'] }
+};
+
+const routeClient = (): RouteQuoteClient & { getQuote: jest.Mock } => ({
+  getQuote: jest.fn(async (_input: string, _output: string, _amount: Decimal, _decimals: number, slippageBps?: number) => {
+    const route = ROUTES[slippageBps!];
+    return {
+      outAmount: route.outAmount,
+      priceImpactPct: '0.001',
+      routePlan: route.labels.map(label => ({ swapInfo: { label, ammKey: '' }, percent: 100 }))
+    } as unknown as JupiterRoute;
+  })
+});
+
+const poolUpdate = (pool: string, price: number, liquidity: number = 1000000): PoolUpdate => ({
+  dex: 'test',
+  pool,
+  price: new Decimal(price),
+  liquidity: new Decimal(liquidity),
+  volume24h: new Decimal(0),
+  priceChange24h: new Decimal(0),
+  timestamp: Date.now(),
+  transactionCount: 0,
+  baseTokenAmount: new Decimal(1000),
+  quoteTokenAmount: new Decimal(500000)
+});
+
+class FakePoolStream extends EventEmitter {
+  subscribeToMultiplePools = jest.fn(async () => undefined);
+  shutdown = jest.fn(async () => undefined);
+}
+
+describe('ScanEngine', () => {
+  let dir: string;
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'engine-'));
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const offline = (overrides: Partial<ScanEngineDependencies> = {}): Partial<ScanEngineDependencies> => ({
+    fetcher: FixtureAccountFetcher.fromFiles(),
+    feeEstimator: new FeeEstimator(null),
+    recorder: new ScanRecorder(null, 'test'),
+    recordWriter: openRecordWriter(path.join(dir, 'scan.jsonl'), 'jsonl'),
+    simulation: null,
+    paperTrader: null,
+    alerts: null,
+    metrics: createArbMetrics(),
+    sleep: async () => undefined,
+    ...overrides
+  });
+
+  const routeProfile = () => {
+    const profile = getScanProfile('quick');
+    profile.pairs = [{ from: 'SOL', to: 'USDC', amount: new Decimal(1) }];
+    profile.routeSplitting = { slippagesBps: [50, 100] };
+    profile.schedule = { scanIntervalMs: 1000, maxScans: 2, targetRecords: null };
+    return profile;
+  };
+
+  it('should quote, detect and record every scan until the profile stops it', async () => {
+    const jupiterClient = routeClient();
+    const engine = new ScanEngine(routeProfile(), offline({ jupiterClient }));
+
+    await engine.start();
+
+    expect(jupiterClient.getQuote).toHaveBeenCalledTimes(4);
+    expect(engine.getStats()).toMatchObject({ scans: 2, opportunities: 4, records: 10, requests: 4 });
+
+    const records = await readRecords(path.join(dir, 'scan.jsonl'));
+    const firstScan = records.filter(record => record.scanNumber === 1);
+    expect(firstScan.filter(record => record.kind === 'quote').map(record => record.venue)).toEqual(['Raydium', 'Orca', 'Meteora DLMM']);
+    expect(firstScan.filter(record => record.kind === 'opportunity').map(record => `${record.buyVenue}->${record.sellVenue}`))
+      .toEqual(['Raydium->Meteora DLMM', 'Orca->Meteora DLMM']);
+    expect(firstScan.every(record => record.scanner === 'quick-csv-test')).toBe(true);
+  });
+
+  it('should export totals and latencies per venue and pair', async () => {
+    const metrics = createArbMetrics();
+    await new ScanEngine(routeProfile(), offline({ jupiterClient: routeClient(), metrics })).start();
+
+    const scanner = { scanner: 'quick-csv-test' };
+    const pair = { ...scanner, pair: 'SOL/USDC' };
+    expect(metrics.scans.get(scanner)).toBe(2);
+    expect(metrics.scanDuration.get(scanner).count).toBe(2);
+    expect(metrics.pairScans.get({ ...pair, outcome: 'ok' })).toBe(2);
+    expect(metrics.venueRequests.get({ ...pair, venue: 'Jupiter', outcome: 'success' })).toBe(4);
+    expect(metrics.venueLatency.get({ ...pair, venue: 'Jupiter' }).count).toBe(4);
+    expect(metrics.opportunities.get({ ...pair, strategy: 'cross_dex' })).toBe(4);
+    expect(metrics.records.get(scanner)).toBe(10);
+    expect(metrics.registry.render()).toContain('arb_scans_total{scanner="quick-csv-test"} 2');
+  });
+
+  it('should back off after a rate-limited pair', async () => {
+    const sleep = jest.fn(async () => undefined);
+    const jupiterClient = { getQuote: jest.fn(async () => { throw new Error('Request failed with status code 429'); }) };
+    const profile = routeProfile();
+    const engine = new ScanEngine(profile, offline({ jupiterClient, sleep }));
+
+    const summary = await engine.scanOnce();
+    await engine.stop();
+
+    expect(summary).toMatchObject({ pairsScanned: 1, quotes: 0, records: 0 });
+    expect(sleep).toHaveBeenCalledWith(profile.rateLimit.backoffMs);
+  });
+
+  it('should tag its log lines with the component, scan and pair', async () => {
+    const lines: string[] = [];
+    const profile = routeProfile();
+    profile.output.logLevel = 'verbose';
+    const logger = new Logger({ format: 'json', write: line => lines.push(line) });
+
+    await new ScanEngine(profile, offline({ jupiterClient: routeClient(), logger })).start();
+
+    const entries = lines.map(line => JSON.parse(line));
+    const pairLines = entries.filter(entry => entry.msg === 'SOL/USDC');
+    expect(pairLines.map(({ level, component, scanner, pair }) => ({ level, component, scanner, pair }))).toEqual([
+      { level: 'debug', component: 'engine', scanner: 'quick-csv-test', pair: 'SOL/USDC' },
+      { level: 'debug', component: 'engine', scanner: 'quick-csv-test', pair: 'SOL/USDC' }
+    ]);
+    expect(pairLines[0].scanId).toMatch(/^scan_1_\d+$/);
+    expect(pairLines[1].scanId).toMatch(/^scan_2_\d+$/);
+    const summary = entries.find(entry => entry.msg.startsWith('Scan #1'));
+    expect(summary).toMatchObject({ scanId: pairLines[0].scanId, records: 5 });
+    expect(summary.pair).toBeUndefined();
+  });
+
+  it('should record nothing for profiles with detection disabled', async () => {
+    const profile = routeProfile();
+    profile.detection.enabled = false;
+    const engine = new ScanEngine(profile, offline({ jupiterClient: routeClient() }));
+
+    const summary = await engine.scanOnce();
+    await engine.stop();
+
+    expect(summary.opportunities).toEqual([]);
+    expect(summary.records).toBe(3);
+  });
+
+  it('should alert each route once while it stays open, within the profile thresholds', async () => {
+    const send = jest.fn(async (_message: string) => undefined);
+    const alerts = new AlertManager([{ sink: { name: 'test', send } }], { template: '{{pair}} {{buyVenue}}->{{sellVenue}}' });
+    const profile = routeProfile();
+    profile.alerting = { enabled: true, minSpreadPercent: 0.5, minNetProfit: null };
+
+    await new ScanEngine(profile, offline({ jupiterClient: routeClient(), alerts })).start();
+
+    // Both routes spread 0.54%; the second scan repeats them
+    expect(send.mock.calls.map(call => call[0])).toEqual(['SOL/USDC Raydium->Meteora DLMM', 'SOL/USDC Orca->Meteora DLMM']);
+    expect(alerts.getStats().test).toMatchObject({ sent: 2, duplicates: 2 });
+
+    profile.alerting.minSpreadPercent = 0.6;
+    await new ScanEngine(profile, offline({ jupiterClient: routeClient(), alerts: new AlertManager([{ sink: { name: 'test', send } }]) })).start();
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should size and paper-trade only legs quoted directly on a pool', async () => {
+    const profile = routeProfile();
+    profile.detection.sizeTrades = true;
+    const paperTrader = { execute: jest.fn() } as unknown as PaperTrader;
+    const engine = new ScanEngine(profile, offline({ jupiterClient: routeClient(), paperTrader }));
+
+    const { opportunities } = await engine.scanOnce();
+    await engine.stop();
+
+    // Route steps name venues, not the pools the configured simulators model
+    expect(opportunities.length).toBeGreaterThan(0);
+    expect(opportunities.every(opportunity => opportunity.tradeSize === undefined)).toBe(true);
+    expect(paperTrader.execute).not.toHaveBeenCalled();
+  });
+
+  it('should size streamed opportunities within the profile\'s trade size range', async () => {
+    const solve = jest.spyOn(tradeSizeSolver, 'solveOptimalTradeSize');
+    const profile = getScanProfile('real-time');
+    profile.detection.tradeSize = { min: 0.5, max: 2 };
+    const engine = new ScanEngine(profile, offline({
+      fetcher: FixtureAccountFetcher.fromFiles('raydiumAmmSolUsdc.json', 'orcaWhirlpoolSolUsdc.json'),
+      poolStream: new FakePoolStream()
+    }));
+    const [raydium, orca] = profile.stream!.pools;
+
+    try {
+      await engine.handlePoolUpdate(poolUpdate(raydium.address, 185));
+      await engine.handlePoolUpdate(poolUpdate(orca.address, 186));
+
+      // Base token units, paid for in the quote token at the buy price
+      expect(solve).toHaveBeenCalledTimes(1);
+      const { minAmount, maxAmount } = solve.mock.calls[0][2];
+      expect(minAmount.toNumber()).toBeCloseTo(0.5 * 185, 6);
+      expect(maxAmount.toNumber()).toBeCloseTo(2 * 185, 6);
+    } finally {
+      solve.mockRestore();
+      await engine.stop();
+    }
+  });
+
+  it('should compare each streamed pool update against the other fresh pools of its pair', async () => {
+    const profile = getScanProfile('real-time');
+    profile.detection.sizeTrades = false;
+    const poolStream = new FakePoolStream();
+    const { sleep, ...dependencies } = offline({ poolStream });
+    const engine = new ScanEngine(profile, dependencies);
+    const [raydium, orca] = profile.stream!.pools;
+
+    const run = engine.start();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(poolStream.subscribeToMultiplePools).toHaveBeenCalledWith(expect.arrayContaining([
+      expect.objectContaining({ address: raydium.address, dex: 'raydium' })
+    ]));
+
+    expect(await engine.handlePoolUpdate(poolUpdate(raydium.address, 185))).toEqual([]);
+    expect(await engine.handlePoolUpdate(poolUpdate(orca.address, 186, 10))).toEqual([]); // Too shallow to quote
+    const [opportunity] = await engine.handlePoolUpdate(poolUpdate(orca.address, 186));
+
+    expect(opportunity).toMatchObject({ buyDex: 'Raydium', sellDex: 'Orca', strategy: 'direct_vs_direct' });
+    expect(opportunity.netProfitAfterGas!.lt(opportunity.profit)).toBe(true);
+
+    await engine.stop();
+    await run;
+    expect(poolStream.shutdown).toHaveBeenCalled();
+
+    const records = await readRecords(path.join(dir, 'scan.jsonl'));
+    expect(records.filter(record => record.kind === 'opportunity')).toEqual([
+      expect.objectContaining({ pair: 'SOL/USDC', scanNumber: null, detectionLatencyMs: expect.any(Number) })
+    ]);
+  });
+});
@@ -0,0 +1,25 @@
+import { isPhoenixVenue, venueName } from '../../src/engine/venueNames';
+
+describe('venueName', () => {
+  it('should name Jupiter labels by their most specific venue', () => {
+    expect(venueName('Phoenix CLMM')).toBe('Phoenix CLMM');
+    expect(venueName('phoenix-v1')).toBe('Phoenix AMM');
+    expect(venueName('Phoenix')).toBe('Phoenix');
+    expect(venueName('Raydium CLMM')).toBe('Raydium CLMM');
+    expect(venueName('Whirlpool')).toBe('Orca Whirlpool');
+    expect(venueName('Meteora DLMM')).toBe('Meteora DLMM');
+    expect(venueName('raydium')).toBe('Raydium');
+  });
+
+  it('should keep unrecognized labels and drop ones naming no venue', () => {
+    expect(venueName('  GoonFi ')).toBe('GoonFi');
+    expect(venueName('Unknown AMM')).toBeNull();
+    expect(venueName('xy')).toBeNull();
+    expect(venueName(undefined)).toBeNull();
+  });
+
+  it('should recognize every Phoenix venue', () => {
+    expect(isPhoenixVenue('Phoenix CLMM')).toBe(true);
+    expect(isPhoenixVenue('Orca Whirlpool')).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { KNOWN_POOLS } from '../../src/config/pools';
+import {
+  COMPUTE_UNIT_PROFILES,
+  FeeEstimator,
+  TRANSACTION_OVERHEAD_COMPUTE_UNITS,
+  UNPROFILED_SWAP_COMPUTE_UNITS,
+  estimateComputeUnits,
+  percentile,
+  solPriceInQuote
+} from '../../src/execution/feeEstimator';
+import { JsonRpcServer } from '../helpers/jsonRpcServer';
+
+describe('FeeEstimator', () => {
+  const pool = (dex: string) => KNOWN_POOLS.find(candidate => candidate.dex === dex && candidate.tokenB === 'USDC')!.address;
+  const raydium = pool('raydium');
+  const orca = pool('orca');
+
+  // 20 recent slots paying 1,000 to 20,000 µlamports per unit, shuffled
+  const recentFees = Array.from({ length: 20 }, (_, i) => ({
+    slot: 300000000 + i,
+    prioritizationFee: ((i * 7) % 20 + 1) * 1000
+  }));
+
+  let server: JsonRpcServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it('should take nearest-rank percentiles', () => {
+    expect(percentile([], 50)).toBe(0);
+    expect(percentile([5, 1, 3], 50)).toBe(3);
+    expect(percentile([10, 20, 30, 40], 75)).toBe(30);
+    expect(percentile([10, 20, 30, 40], 100)).toBe(40);
+    expect(percentile([10, 20, 30, 40], 1)).toBe(10);
+  });
+
+  it('should size compute from per-DEX profiles', () => {
+    expect(estimateComputeUnits(['Raydium', 'Orca Whirlpool'])).toBe(
+      TRANSACTION_OVERHEAD_COMPUTE_UNITS + COMPUTE_UNIT_PROFILES.raydium + COMPUTE_UNIT_PROFILES.orca
+    );
+    expect(estimateComputeUnits(['phoenix', 'Jupiter Aggregator'])).toBe(
+      TRANSACTION_OVERHEAD_COMPUTE_UNITS + COMPUTE_UNIT_PROFILES.phoenix + UNPROFILED_SWAP_COMPUTE_UNITS
+    );
+    expect(estimateComputeUnits(Array(10).fill('Jupiter'))).toBe(1400000);
+  });
+
+  it('should convert SOL costs only for pairs that include SOL', () => {
+    expect(solPriceInQuote('SOL', 'USDC', new Decimal(185))!.toNumber()).toBe(185);
+    expect(solPriceInQuote('RAY', 'SOL', new Decimal(0.0136))!.toNumber()).toBe(1);
+    expect(solPriceInQuote('RAY', 'USDC', new Decimal(2.5))).toBeNull();
+  });
+
+  it('should bid a percentile of recent fees on the locked accounts', async () => {
+    server = await JsonRpcServer.start({ getRecentPrioritizationFees: () => recentFees });
+    const estimator = new FeeEstimator(new Connection(server.url, 'confirmed'));
+
+    const estimate = await estimator.estimate({
+      dexes: ['Raydium', 'Orca Whirlpool'],
+      writableAccounts: [raydium, orca],
+      quotePerSol: new Decimal(185)
+    });
+
+    expect(server.requests[0].params[0]).toEqual([orca, raydium].map(key => key.toBase58()).sort());
+    expect(estimate.priorityFees.source).toBe('recent');
+    expect(estimate.priorityFees.slots).toBe(20);
+    expect(estimate.priorityFees.percentiles).toEqual({ p25: 5000, p50: 10000, p75: 15000, p90: 18000, max: 20000 });
+
+    // 180,000 units at the 75th percentile: 2700 lamports, plus 5000 for the signature
+    expect(estimate.computeUnits).toBe(180000);
+    expect(estimate.microLamportsPerUnit).toBe(15000);
+    expect(estimate.priorityFeeLamports).toBe(2700);
+    expect(estimate.totalLamports).toBe(7700);
+    expect(estimate.costSol.toNumber()).toBe(0.0000077);
+    expect(estimate.costQuote!.toNumber()).toBe(0.0014245);
+  });
+
+  it('should reuse a sample for the same accounts until it expires', async () => {
+    server = await JsonRpcServer.start({ getRecentPrioritizationFees: () => recentFees });
+    const estimator = new FeeEstimator(new Connection(server.url, 'confirmed'), { cacheTtlMs: 60000 });
+
+    await estimator.samplePriorityFee([raydium, orca]);
+    await estimator.samplePriorityFee([orca, raydium, orca]);
+    await estimator.samplePriorityFee([orca]);
+
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('should cap the bid and honour the configured percentile', async () => {
+    server = await JsonRpcServer.start({ getRecentPrioritizationFees: () => recentFees });
+    const estimator = new FeeEstimator(new Connection(server.url, 'confirmed'), {
+      percentile: 90,
+      maxMicroLamports: 12000
+    });
+
+    const sample = await estimator.samplePriorityFee([raydium]);
+
+    expect(sample.microLamportsPerUnit).toBe(12000);
+    expect(sample.percentiles!.p90).toBe(18000);
+  });
+
+  it('should fall back when the RPC fails, times out or has no history', async () => {
+    const empty = await JsonRpcServer.start({ getRecentPrioritizationFees: () => [] });
+    const failing = await JsonRpcServer.start({
+      getRecentPrioritizationFees: () => { throw new Error('Too many accounts'); }
+    });
+
+    try {
+      for (const url of [empty.url, failing.url]) {
+        const sample = await new FeeEstimator(new Connection(url, 'confirmed'), { fallbackMicroLamports: 2500 })
+          .samplePriorityFee([raydium]);
+        expect(sample).toEqual({ microLamportsPerUnit: 2500, percentiles: null, slots: 0, source: 'fallback' });
+      }
+
+      const hanging = { getRecentPrioritizationFees: () => new Promise<never>(() => undefined) };
+      const timedOut = await new FeeEstimator(hanging, { timeoutMs: 20 }).samplePriorityFee([raydium]);
+      expect(timedOut.source).toBe('fallback');
+    } finally {
+      await empty.close();
+      await failing.close();
+    }
+
+    // Without an RPC every estimate is priced at the fallback
+    const offline = await new FeeEstimator().estimate({ dexes: ['Phoenix'], writableAccounts: [], quotePerSol: null });
+    expect(offline.microLamportsPerUnit).toBe(10000);
+    expect(offline.priorityFeeLamports).toBe(950);
+    expect(offline.costQuote).toBeNull();
+  });
+
+  it('should reject percentiles outside (0, 100]', () => {
+    expect(() => new FeeEstimator(null, { percentile: 0 })).toThrow('between 0 and 100');
+    expect(() => new FeeEstimator(null, { percentile: 101 })).toThrow('between 0 and 100');
+  });
+
+  it('should not query more accounts than the RPC accepts', async () => {
+    server = await JsonRpcServer.start({ getRecentPrioritizationFees: () => recentFees });
+    const estimator = new FeeEstimator(new Connection(server.url, 'confirmed'));
+
+    await estimator.samplePriorityFee(Array.from({ length: 200 }, () => PublicKey.unique()));
+
+    expect(server.requests[0].params[0]).toHaveLength(128);
+  });
+});
@@ -0,0 +1,172 @@
+import { Keypair, LAMPORTS_PER_SOL, SystemInstruction, SystemProgram, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import Decimal from 'decimal.js';
+import { BlockEngineClient, HttpBlockEngineClient, InflightBundleState } from '../../src/execution/blockEngineClient';
+import { JITO_TIP_ACCOUNTS, JitoBundler, computeTipLamports } from '../../src/execution/jitoBundler';
+import { JsonRpcServer } from '../helpers/jsonRpcServer';
+
+describe('JitoBundler', () => {
+  const payer = Keypair.generate();
+  const blockhash = Keypair.generate().publicKey.toBase58();
+  const strategy = { profitShare: 0.5, minTipLamports: 1000, maxTipLamports: 0.01 * LAMPORTS_PER_SOL };
+
+  // Any payer-signed transaction stands in for the arbitrage swap
+  const arbitrageTransaction = () => new VersionedTransaction(new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: blockhash,
+    instructions: [SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: payer.publicKey, lamports: 1 })]
+  }).compileToV0Message());
+
+  const decodeTip = (transaction: VersionedTransaction) => {
+    const [instruction] = TransactionMessage.decompile(transaction.message).instructions;
+    return SystemInstruction.decodeTransfer(instruction);
+  };
+
+  // Block engine double answering inflight status queries from a script
+  const scriptedClient = (states: InflightBundleState[]): BlockEngineClient & { sent: string[][] } => {
+    const sent: string[][] = [];
+    return {
+      sent,
+      sendBundle: async transactions => {
+        sent.push(transactions);
+        return 'bundle-1';
+      },
+      getInflightBundleStatuses: async ([bundleId]) => {
+        const status = states.length > 1 ? states.shift()! : states[0];
+        return [{ bundleId, status, landedSlot: status === 'Landed' ? 301000000 : null }];
+      },
+      getTipAccounts: async () => JITO_TIP_ACCOUNTS.map(account => account.toBase58())
+    };
+  };
+
+  describe('tip sizing', () => {
+    it('should offer the configured share of the expected net profit', () => {
+      expect(computeTipLamports(new Decimal(0.001), strategy)).toBe(500000);
+      expect(computeTipLamports(new Decimal(0.001), { ...strategy, profitShare: 0.2 })).toBe(200000);
+    });
+
+    it('should clamp tips to the strategy bounds', () => {
+      expect(computeTipLamports(new Decimal(1), strategy)).toBe(10000000);
+      expect(computeTipLamports(new Decimal(0.0000015), strategy)).toBe(1000);
+    });
+
+    it('should refuse profits that cannot cover the minimum tip', () => {
+      expect(() => computeTipLamports(new Decimal(0.0000009), strategy))
+        .toThrow('Expected net profit of 900 lamports does not cover the 1000 lamport minimum tip');
+    });
+
+    it('should validate the strategy', () => {
+      const client = scriptedClient(['Pending']);
+      expect(() => new JitoBundler(client, { tipStrategy: { ...strategy, minTipLamports: 10 } }))
+        .toThrow('Minimum tip must be at least 1000 lamports');
+      expect(() => new JitoBundler(client, { tipStrategy: { ...strategy, profitShare: 1.5 } }))
+        .toThrow('Tip profit share must be between 0 and 1, got 1.5');
+    });
+  });
+
+  it('should sign the swap and append a tip transfer on the same blockhash', () => {
+    const bundler = new JitoBundler(scriptedClient(['Pending']), { random: () => 0.3 });
+    const bundle = bundler.createBundle(arbitrageTransaction(), payer, new Decimal(0.002));
+
+    expect(bundle.transactions).toHaveLength(2);
+    expect(bundle.tipLamports).toBe(1000000);
+    expect(bundle.tipAccount.equals(JITO_TIP_ACCOUNTS[2])).toBe(true);
+
+    const [swap, tip] = bundle.transactions;
+    expect(tip.message.recentBlockhash).toBe(blockhash);
+    expect(decodeTip(tip)).toEqual({
+      fromPubkey: payer.publicKey,
+      toPubkey: JITO_TIP_ACCOUNTS[2],
+      lamports: BigInt(1000000)
+    });
+    for (const transaction of [swap, tip]) {
+      expect(transaction.signatures[0].some(byte => byte !== 0)).toBe(true);
+    }
+  });
+
+  describe('status tracking', () => {
+    it('should poll until the bundle lands', async () => {
+      const client = scriptedClient(['Invalid', 'Pending', 'Landed']);
+      const bundler = new JitoBundler(client, { pollIntervalMs: 5 });
+
+      const result = await bundler.send(arbitrageTransaction(), payer, new Decimal(0.002));
+
+      expect(client.sent[0]).toHaveLength(2);
+      expect(result).toEqual({
+        bundleId: 'bundle-1',
+        outcome: 'landed',
+        landedSlot: 301000000,
+        polls: 3,
+        statuses: ['Invalid', 'Pending', 'Landed']
+      });
+    });
+
+    it('should stop on failure', async () => {
+      const bundler = new JitoBundler(scriptedClient(['Pending', 'Failed']), { pollIntervalMs: 5 });
+      const result = await bundler.waitForBundle('bundle-1');
+
+      expect(result.outcome).toBe('failed');
+      expect(result.landedSlot).toBeNull();
+    });
+
+    it('should distinguish timeouts from bundles the engine never saw', async () => {
+      const pending = new JitoBundler(scriptedClient(['Pending']), { pollIntervalMs: 10, timeoutMs: 50 });
+      const unseen = new JitoBundler(scriptedClient(['Invalid']), { pollIntervalMs: 10, timeoutMs: 50 });
+
+      const timedOut = await pending.waitForBundle('bundle-1');
+      expect(timedOut.outcome).toBe('timeout');
+      expect(timedOut.polls).toBeGreaterThan(1);
+      expect((await unseen.waitForBundle('bundle-1')).outcome).toBe('invalid');
+    });
+  });
+
+  describe('HttpBlockEngineClient', () => {
+    let server: JsonRpcServer;
+    let inflight: InflightBundleState[];
+
+    beforeEach(async () => {
+      inflight = ['Pending', 'Landed'];
+      server = await JsonRpcServer.start({
+        sendBundle: ([transactions]) => {
+          if (transactions.length > 5) throw new Error('bundle exceeds 5 transactions');
+          return 'b1d7e5';
+        },
+        getInflightBundleStatuses: ([bundleIds]) => {
+          const status = inflight.shift();
+          return {
+            context: { slot: 301000001 },
+            value: bundleIds.map((id: string) => ({ bundle_id: id, status, landed_slot: status === 'Landed' ? 301000000 : null }))
+          };
+        },
+        getTipAccounts: () => JITO_TIP_ACCOUNTS.map(account => account.toBase58())
+      });
+    });
+
+    afterEach(async () => {
+      await server.close();
+    });
+
+    it('should submit base64 bundles and follow them over JSON-RPC', async () => {
+      const bundler = new JitoBundler(new HttpBlockEngineClient(`${server.url}/`), { pollIntervalMs: 5, random: () => 0 });
+      const result = await bundler.send(arbitrageTransaction(), payer, new Decimal(0.004));
+
+      expect(result.outcome).toBe('landed');
+      expect(result.bundleId).toBe('b1d7e5');
+
+      const [send, ...polls] = server.requests;
+      expect(send.path).toBe('/api/v1/bundles');
+      expect(send.params[1]).toEqual({ encoding: 'base64' });
+      const tip = VersionedTransaction.deserialize(Buffer.from(send.params[0][1], 'base64'));
+      expect(decodeTip(tip).toPubkey.equals(JITO_TIP_ACCOUNTS[0])).toBe(true);
+      expect(decodeTip(tip).lamports).toBe(BigInt(2000000));
+      expect(polls.map(request => request.params)).toEqual([[['b1d7e5']], [['b1d7e5']]]);
+    });
+
+    it('should list tip accounts and surface JSON-RPC errors', async () => {
+      const client = new HttpBlockEngineClient(server.url);
+
+      expect(await client.getTipAccounts()).toHaveLength(8);
+      await expect(client.sendBundle(['a', 'b', 'c', 'd', 'e', 'f']))
+        .rejects.toThrow('Block engine sendBundle failed: bundle exceeds 5 transactions');
+    });
+  });
+});
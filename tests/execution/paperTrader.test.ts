@@ -0,0 +1,229 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import Decimal from 'decimal.js';
+import {
+  LegQuoter,
+  PaperOrder,
+  PaperTrade,
+  PaperTrader,
+  createPoolLegQuoter,
+  orderFromDirectOpportunity
+} from '../../src/execution/paperTrader';
+import { ScannerEvent } from '../../src/types';
+import { KNOWN_TOKENS } from '../../src/utils/tokenUtils';
+import { FixtureAccountFetcher } from '../helpers/fixtureAccountFetcher';
+
+describe('PaperTrader', () => {
+  const NOW = 1_000_000;
+
+  // Buy SOL with USDC at 180 on Orca, sell it at 181 on Raydium
+  const order: PaperOrder = {
+    opportunityId: 'opp_1',
+    pair: 'SOL/USDC',
+    startToken: 'USDC',
+    intermediateToken: 'SOL',
+    buyDex: 'Orca',
+    sellDex: 'Raydium',
+    amountIn: new Decimal(1800),
+    buyRate: new Decimal(1).div(180),
+    sellRate: new Decimal(181),
+    detectedAt: NOW
+  };
+
+  // The buy venue fills slightly worse than detected
+  const quoteLeg: LegQuoter = async (dex, from, to, amountIn) => {
+    if (dex === 'Orca' && from === 'USDC') return amountIn.div(180.2);
+    if (dex === 'Orca' && from === 'SOL') return amountIn.mul(179.5);
+    if (dex === 'Raydium') return amountIn.mul(181);
+    return null;
+  };
+
+  const sequence = (...values: number[]) => () => values.length > 1 ? values.shift()! : values[0];
+
+  const createTrader = (overrides = {}) => new PaperTrader({
+    quoteLeg,
+    random: sequence(0.99),
+    now: () => NOW,
+    ...overrides
+  });
+
+  it('should fill both legs with quoter slippage and latency decay', async () => {
+    const trader = createTrader();
+    const trade = await trader.execute(order);
+
+    const intermediate = 1800 / 180.2;
+    const quotedOut = intermediate * 181;
+    const decayLoss = (quotedOut - 1800) * (1 - Math.exp(-0.5 * 0.4));
+
+    expect(trade.status).toBe('filled');
+    expect(trade.intermediateAmount.toNumber()).toBeCloseTo(intermediate, 9);
+    expect(trade.expectedOut.toNumber()).toBeCloseTo(1810, 9);
+    expect(trade.slippage.toNumber()).toBeCloseTo(1810 - quotedOut, 9);
+    expect(trade.decayLoss.toNumber()).toBeCloseTo(decayLoss, 9);
+    expect(trade.pnl.toNumber()).toBeCloseTo(quotedOut - decayLoss - 1800, 9);
+    expect(trade.gasCostSol.toNumber()).toBe(0.005);
+
+    const balances = trader.getBalances();
+    expect(balances.USDC.toNumber()).toBeCloseTo(200 + trade.amountOut.toNumber(), 9);
+    expect(balances.SOL.toNumber()).toBeCloseTo(9.995, 12);
+  });
+
+  it('should only pay gas when the first leg fails', async () => {
+    const trader = createTrader({ random: sequence(0) });
+    const trade = await trader.execute(order);
+
+    expect(trade.status).toBe('failed');
+    expect(trade.reason).toBe('Orca leg failed');
+    expect(trader.getBalances().USDC.toNumber()).toBe(2000);
+    expect(trader.getBalances().SOL.toNumber()).toBe(9.9975);
+  });
+
+  it('should unwind through the buy venue when the second leg fails', async () => {
+    const trader = createTrader({ random: sequence(0.5, 0), legFailureRate: 0.1 });
+    const trade = await trader.execute(order);
+
+    const unwound = (1800 / 180.2) * 179.5;
+    expect(trade.status).toBe('unwound');
+    expect(trade.amountOut.toNumber()).toBeCloseTo(unwound, 9);
+    expect(trade.pnl.toNumber()).toBeCloseTo(unwound - 1800, 9);
+    expect(trade.gasCostSol.toNumber()).toBe(0.0075);
+    expect(trader.getBalances().SOL.toNumber()).toBeCloseTo(9.9925, 12);
+  });
+
+  it('should cap trades at the available balance and reject unfunded ones', async () => {
+    const trader = createTrader({ initialBalances: { SOL: 0.004, USDC: 900 } });
+
+    const noGas = await trader.execute(order);
+    expect(noGas.status).toBe('rejected');
+    expect(noGas.reason).toBe('Insufficient SOL for gas');
+
+    const funded = createTrader({ initialBalances: { SOL: 1, USDC: 900 } });
+    const capped = await funded.execute(order);
+    expect(capped.status).toBe('filled');
+    expect(capped.amountIn.toNumber()).toBe(900);
+    expect(capped.expectedOut.toNumber()).toBeCloseTo(905, 9);
+
+    const noFunds = await funded.execute({ ...order, startToken: 'RAY' });
+    expect(noFunds.status).toBe('rejected');
+    expect(noFunds.reason).toBe('No RAY balance');
+  });
+
+  it('should fall back to the detected prices without a venue model', async () => {
+    const trader = createTrader({ latencyMs: 0, edgeDecayPerSecond: 0 });
+    const trade = await trader.execute({ ...order, buyDex: 'Lifinity', sellDex: 'SolFi' });
+
+    expect(trade.slippage.toNumber()).toBeCloseTo(0, 9);
+    expect(trade.pnl.toNumber()).toBeCloseTo(10, 9);
+  });
+
+  it('should summarize PnL per start token', async () => {
+    const trader = createTrader({ random: sequence(0.99, 0.99, 0) });
+    await trader.execute(order);
+    await trader.execute(order);
+
+    const summary = trader.getSummary();
+    expect(summary.trades).toBe(2);
+    expect(summary.filled).toBe(1);
+    expect(summary.failed).toBe(1);
+    expect(summary.winRate).toBe(1);
+    expect(summary.pnlByToken.USDC.gt(0)).toBe(true);
+    expect(summary.gasCostSol.toNumber()).toBeCloseTo(0.0075, 12);
+  });
+
+  describe('ledger', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'paper-ledger-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should persist balances and trades across restarts', async () => {
+      const ledgerPath = path.join(directory, 'nested', 'ledger.json');
+      const first = createTrader({ ledgerPath });
+      const trade = await first.execute(order);
+
+      const resumed = createTrader({ ledgerPath, initialBalances: { SOL: 1 } });
+      expect(resumed.getBalances().USDC.toString()).toBe(first.getBalances().USDC.toString());
+
+      const [restored] = resumed.getTrades();
+      expect(restored.pnl).toBeInstanceOf(Decimal);
+      expect(restored.pnl.toString()).toBe(trade.pnl.toString());
+      expect(restored.status).toBe('filled');
+      expect(fs.existsSync(`${ledgerPath}.tmp`)).toBe(false);
+    });
+
+    it('should refuse ledgers from an unknown version', () => {
+      const ledgerPath = path.join(directory, 'ledger.json');
+      fs.writeFileSync(ledgerPath, JSON.stringify({ version: 2, balances: {}, trades: [] }));
+      expect(() => createTrader({ ledgerPath })).toThrow('Unsupported paper ledger version 2');
+    });
+  });
+
+  it('should paper-trade scanner opportunity_found events', async () => {
+    const scanner = new EventEmitter();
+    const trader = createTrader({ quoteLeg: async () => null, latencyMs: 0, edgeDecayPerSecond: 0 });
+    const detach = trader.attach(scanner);
+    const traded = new Promise<PaperTrade>(resolve => trader.once('trade', resolve));
+
+    scanner.emit('opportunity_found', {
+      type: ScannerEvent.OPPORTUNITY_FOUND,
+      data: {
+        id: 'SOL-USDC-1',
+        tokenA: KNOWN_TOKENS.SOL,
+        tokenB: KNOWN_TOKENS.USDC,
+        buyDex: 'Whirlpool',
+        sellDex: 'Meteora DLMM',
+        buyPrice: new Decimal(185),
+        sellPrice: new Decimal(184),
+        profitPercentage: new Decimal(0.54),
+        estimatedProfit: new Decimal(0.0054),
+        tradeSize: new Decimal(1),
+        route: [],
+        timestamp: NOW,
+        confidence: 0.9
+      },
+      timestamp: NOW
+    });
+
+    const trade = await traded;
+    expect(trade.opportunityId).toBe('SOL-USDC-1');
+    expect(trade.startToken).toBe('SOL');
+    expect(trade.intermediateAmount.toNumber()).toBe(185);
+    expect(trade.amountOut.toNumber()).toBeCloseTo(185 / 184, 12);
+
+    detach();
+    expect(scanner.listenerCount('opportunity_found')).toBe(0);
+  });
+
+  it('should only convert direct opportunities into orders', () => {
+    const base = {
+      buyDex: 'orca', sellDex: 'raydium', buyPrice: new Decimal(180), sellPrice: new Decimal(181),
+      spread: new Decimal(1), spreadPercentage: new Decimal(0.0055), estimatedProfit: new Decimal(10),
+      estimatedGas: new Decimal(0), netProfit: new Decimal(10), confidence: 0.9, riskScore: 0.1,
+      liquidityScore: 1, priceImpactTotal: new Decimal(0), timestamp: NOW, requestId: 'realtime_1',
+      responseTimeAdvantage: 0, marketEfficiency: 1
+    };
+
+    const direct = orderFromDirectOpportunity({ ...base, pair: 'SOL/USDC', strategy: 'direct_arbitrage' }, new Decimal(1800));
+    expect(direct.startToken).toBe('USDC');
+    expect(direct.buyRate.mul(180).toNumber()).toBeCloseTo(1, 12);
+
+    expect(() => orderFromDirectOpportunity(
+      { ...base, pair: 'SOL→USDC→RAY→SOL', strategy: 'triangular_arbitrage' }, new Decimal(1)
+    )).toThrow('Paper trading supports direct BASE/QUOTE opportunities only');
+  });
+
+  it('should quote legs through the pool simulators', async () => {
+    const quote = createPoolLegQuoter(FixtureAccountFetcher.fromFiles('orcaWhirlpoolSolUsdc.json'));
+
+    const out = await quote('Orca Whirlpool', 'SOL', 'USDC', new Decimal(1));
+    expect(out!.toNumber()).toBe(184.942507);
+    expect(await quote('Lifinity', 'SOL', 'USDC', new Decimal(1))).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import { AccountInfo, Connection, Keypair, PublicKey, SystemProgram, VersionedTransaction } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import Decimal from 'decimal.js';
+import { KNOWN_POOLS } from '../../src/config/pools';
+import { SimulationGate, simulatedProfit } from '../../src/execution/simulationGate';
+import { AtomicArbitrageBuilder } from '../../src/execution/transactionBuilder';
+import { KNOWN_TOKENS } from '../../src/utils/tokenUtils';
+import { FixtureAccountFetcher } from '../helpers/fixtureAccountFetcher';
+import { JsonRpcServer, RpcHandler, encodeAccount } from '../helpers/jsonRpcServer';
+
+describe('SimulationGate', () => {
+  const payer = Keypair.generate().publicKey;
+  const SOL = KNOWN_TOKENS.SOL.mint;
+  const USDC = KNOWN_TOKENS.USDC.mint;
+  const solAccount = getAssociatedTokenAddressSync(SOL, payer);
+  const usdcAccount = getAssociatedTokenAddressSync(USDC, payer);
+
+  const tokenAccount = (mint: PublicKey, amount: bigint): AccountInfo<Buffer> => {
+    const data = Buffer.alloc(165);
+    mint.toBuffer().copy(data, 0);
+    payer.toBuffer().copy(data, 32);
+    data.writeBigUInt64LE(amount, 64);
+    return { data, executable: false, lamports: 2039280, owner: TOKEN_PROGRAM_ID, rentEpoch: 0 };
+  };
+
+  const wallet = (lamports: number): AccountInfo<Buffer> => ({
+    data: Buffer.alloc(0), executable: false, lamports, owner: SystemProgram.programId, rentEpoch: 0
+  });
+
+  // Pre-state: 2 SOL for fees, 1.5 wrapped SOL to trade, no USDC account yet
+  const ledger = new Map<string, AccountInfo<Buffer> | null>([
+    [payer.toBase58(), wallet(2000000000)],
+    [solAccount.toBase58(), tokenAccount(SOL, BigInt(1500000000))]
+  ]);
+
+  const getMultipleAccounts: RpcHandler = ([addresses]) => ({
+    context: { slot: 300000000 },
+    value: addresses.map((address: string) => encodeAccount(ledger.get(address) || null))
+  });
+
+  let server: JsonRpcServer;
+  let transaction: VersionedTransaction;
+
+  const startServer = async (simulate: RpcHandler) => {
+    server = await JsonRpcServer.start({ getMultipleAccounts, simulateTransaction: simulate });
+    return new SimulationGate(new Connection(server.url, 'processed'));
+  };
+
+  beforeAll(async () => {
+    const fetcher = FixtureAccountFetcher.fromFiles('phoenixSolUsdc.json', 'orcaWhirlpoolSolUsdc.json');
+    const pool = (dex: string) => KNOWN_POOLS.find(candidate => candidate.dex === dex && candidate.tokenB === 'USDC')!.address;
+
+    const built = await new AtomicArbitrageBuilder(fetcher).build([
+      {
+        dex: 'Phoenix', poolAddress: pool('phoenix'), tokenIn: KNOWN_TOKENS.SOL, tokenOut: KNOWN_TOKENS.USDC,
+        amountIn: new Decimal(1), amountOut: new Decimal(185.452902), priceImpact: new Decimal(0)
+      },
+      {
+        dex: 'Orca', poolAddress: pool('orca'), tokenIn: KNOWN_TOKENS.USDC, tokenOut: KNOWN_TOKENS.SOL,
+        amountIn: new Decimal(185.452902), amountOut: new Decimal(1.002), priceImpact: new Decimal(0)
+      }
+    ], { payer, recentBlockhash: PublicKey.default.toBase58(), slippageBps: 10 });
+    transaction = built.transaction;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should record balance deltas, compute units and logs from a successful simulation', async () => {
+    const logs = [
+      'Program ComputeBudget111111111111111111111111111111 invoke [1]',
+      'Program PhoeNiXZ8ByJGLkxNfZRnkUfjvmuYqLR89jjFHGqdXY consumed 61023 of 399700 compute units',
+      'Program whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc consumed 98112 of 338677 compute units'
+    ];
+
+    const gate = await startServer(([encoded, config]) => {
+      // Same message the builder produced, simulated unsigned against the node's blockhash
+      const received = VersionedTransaction.deserialize(Buffer.from(encoded, 'base64'));
+      expect(Buffer.from(received.message.serialize()).equals(Buffer.from(transaction.message.serialize()))).toBe(true);
+      expect(config).toMatchObject({ encoding: 'base64', sigVerify: false, replaceRecentBlockhash: true });
+      expect(config.accounts.addresses).toEqual([payer, solAccount, usdcAccount].map(key => key.toBase58()));
+
+      return {
+        context: { slot: 300000002 },
+        value: {
+          err: null,
+          logs,
+          unitsConsumed: 182345,
+          returnData: null,
+          accounts: [
+            encodeAccount(wallet(2000000000 - 2039280 - 6824)),
+            encodeAccount(tokenAccount(SOL, BigInt(1501000500))),
+            encodeAccount(tokenAccount(USDC, BigInt(12)))
+          ]
+        }
+      };
+    });
+
+    const simulation = await gate.simulate(transaction, payer, [SOL, USDC]);
+
+    expect(simulation.success).toBe(true);
+    expect(simulation.error).toBeNull();
+    expect(simulation.slot).toBe(300000002);
+    expect(simulation.unitsConsumed).toBe(182345);
+    expect(simulation.logs).toEqual(logs);
+    expect(simulation.balanceDeltas.map(balance => [balance.symbol, balance.before, balance.after, balance.delta.toNumber()]))
+      .toEqual([
+        ['SOL', BigInt(1500000000), BigInt(1501000500), 0.0010005],
+        ['USDC', BigInt(0), BigInt(12), 0.000012]
+      ]);
+    expect(simulatedProfit(simulation, SOL).toNumber()).toBe(0.0010005);
+
+    // 5000 lamports for the signature plus 10,000 µlamports on each of 182,345 units, rounded up
+    expect(simulation.feeLamports).toBe(BigInt(6824));
+    expect(simulation.costSol.toNumber()).toBe(0.000006824);
+    expect(simulation.lamportDelta).toBe(BigInt(-2046104));
+    expect(server.requests.map(request => request.method)).toEqual(['getMultipleAccounts', 'simulateTransaction']);
+  });
+
+  it('should report failed simulations without balance changes', async () => {
+    const gate = await startServer(() => ({
+      context: { slot: 300000003 },
+      value: {
+        err: { InstructionError: [4, { Custom: 6036 }] },
+        logs: ['Program log: AnchorError occurred. Error Code: AmountOutBelowMinimum.'],
+        unitsConsumed: 141000,
+        returnData: null,
+        accounts: null
+      }
+    }));
+
+    const simulation = await gate.simulate(transaction, payer, [SOL, USDC]);
+
+    expect(simulation.success).toBe(false);
+    expect(simulation.error).toBe('{"InstructionError":[4,{"Custom":6036}]}');
+    expect(simulation.logs[0]).toContain('AmountOutBelowMinimum');
+    expect(simulation.balanceDeltas.every(balance => balance.delta.isZero())).toBe(true);
+    expect(simulation.lamportDelta).toBe(BigInt(0));
+    expect(simulatedProfit(simulation, SOL).toNumber()).toBe(0);
+  });
+
+  it('should surface RPC errors', async () => {
+    const gate = await startServer(() => {
+      throw new Error('Transaction simulation failed: Blockhash not found');
+    });
+
+    await expect(gate.simulate(transaction, payer, [SOL, USDC])).rejects.toThrow('Blockhash not found');
+  });
+});
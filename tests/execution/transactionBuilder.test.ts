@@ -0,0 +1,214 @@
+import {
+  AddressLookupTableAccount,
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import Decimal from 'decimal.js';
+import { KNOWN_POOLS, PoolDex } from '../../src/config/pools';
+import { METEORA_DLMM_PROGRAM_ID, getBinArrayAddress } from '../../src/dex/meteoraDlmm';
+import { MAX_SQRT_PRICE_X64, ORCA_WHIRLPOOL_PROGRAM_ID, getTickArrayAddress } from '../../src/dex/orcaWhirlpool';
+import { PHOENIX_PROGRAM_ID, decodePhoenixMarketState } from '../../src/dex/phoenix';
+import { RAYDIUM_AMM_V4_PROGRAM_ID } from '../../src/dex/raydiumAmm';
+import { anchorDiscriminator } from '../../src/execution/swapInstructions';
+import { AtomicArbitrageBuilder, createLookupTableInstructions } from '../../src/execution/transactionBuilder';
+import { RouteInfo } from '../../src/types';
+import { KNOWN_TOKENS } from '../../src/utils/tokenUtils';
+import { FixtureAccountFetcher, loadAccountFixtures } from '../helpers/fixtureAccountFetcher';
+
+describe('AtomicArbitrageBuilder', () => {
+  const payer = Keypair.generate();
+  const recentBlockhash = Keypair.generate().publicKey.toBase58();
+  const fetcher = FixtureAccountFetcher.fromFiles(
+    'raydiumAmmSolUsdc.json', 'orcaWhirlpoolSolUsdc.json', 'phoenixSolUsdc.json', 'meteoraDlmmSolUsdc.json'
+  );
+  const builder = new AtomicArbitrageBuilder(fetcher);
+
+  const poolAddress = (dex: PoolDex) => KNOWN_POOLS.find(pool => pool.dex === dex && pool.tokenB === 'USDC')!.address;
+
+  const leg = (dex: string, pool: PublicKey, from: string, to: string, amountIn: number, amountOut: number): RouteInfo => ({
+    dex,
+    poolAddress: pool,
+    tokenIn: KNOWN_TOKENS[from],
+    tokenOut: KNOWN_TOKENS[to],
+    amountIn: new Decimal(amountIn),
+    amountOut: new Decimal(amountOut),
+    priceImpact: new Decimal(0)
+  });
+
+  // Sell 1 SOL into Phoenix bids, buy it back cheaper on Orca
+  const phoenixToOrca = [
+    leg('Phoenix', poolAddress('phoenix'), 'SOL', 'USDC', 1, 185.452902),
+    leg('Orca Whirlpool', poolAddress('orca'), 'USDC', 'SOL', 185.452902, 1.002)
+  ];
+
+  const decompile = (transaction: VersionedTransaction, lookupTables: AddressLookupTableAccount[] = []) =>
+    TransactionMessage.decompile(transaction.message, { addressLookupTableAccounts: lookupTables }).instructions;
+
+  const byProgram = (instructions: TransactionInstruction[], programId: PublicKey) =>
+    instructions.find(instruction => instruction.programId.equals(programId))!;
+
+  it('should compile compute budget, account setup and both swaps into one message', async () => {
+    const built = await builder.build(phoenixToOrca, {
+      payer: payer.publicKey,
+      recentBlockhash,
+      slippageBps: 10,
+      computeUnitPriceMicroLamports: 25000
+    });
+
+    const instructions = decompile(built.transaction);
+    expect(instructions.map(instruction => instruction.programId.toBase58())).toEqual([
+      ComputeBudgetProgram.programId.toBase58(),
+      ComputeBudgetProgram.programId.toBase58(),
+      ASSOCIATED_TOKEN_PROGRAM_ID.toBase58(),
+      PHOENIX_PROGRAM_ID.toBase58(),
+      ORCA_WHIRLPOOL_PROGRAM_ID.toBase58()
+    ]);
+    expect(ComputeBudgetInstruction.decodeSetComputeUnitLimit(instructions[0]).units).toBe(400000);
+    expect(ComputeBudgetInstruction.decodeSetComputeUnitPrice(instructions[1]).microLamports).toBe(BigInt(25000));
+
+    // The intermediate USDC account is created if missing
+    const usdcAccount = getAssociatedTokenAddressSync(KNOWN_TOKENS.USDC.mint, payer.publicKey);
+    expect(instructions[2].keys[1].pubkey.equals(usdcAccount)).toBe(true);
+
+    expect(built.transaction.message.header.numRequiredSignatures).toBe(1);
+    expect(built.transaction.message.staticAccountKeys[0].equals(payer.publicKey)).toBe(true);
+    expect(built.transaction.message.recentBlockhash).toBe(recentBlockhash);
+  });
+
+  it('should chain leg amounts and guard the final leg with the start amount', async () => {
+    const built = await builder.build(phoenixToOrca, { payer: payer.publicKey, recentBlockhash, slippageBps: 10 });
+
+    // 10 bps off Phoenix's quote is both leg 1's minimum and leg 2's exact input
+    const intermediate = BigInt(185267449);
+    expect(built.legs.map(swap => [swap.dex, swap.amountIn, swap.minAmountOut])).toEqual([
+      ['phoenix', BigInt(1000000000), intermediate],
+      ['orca', intermediate, BigInt(1000000001)]
+    ]);
+    expect(built.minAmountOut).toBe(BigInt(1000000001));
+    expect(built.expectedAmountOut).toBe(BigInt(1000997999));
+
+    const instructions = decompile(built.transaction);
+    const market = decodePhoenixMarketState(
+      loadAccountFixtures('phoenixSolUsdc.json').get(poolAddress('phoenix').toBase58())!.data
+    );
+
+    // Swap | ImmediateOrCancel | Ask | no price limit | base lots | quote lots | min base | min quote
+    const phoenix = byProgram(instructions, PHOENIX_PROGRAM_ID).data;
+    expect(Array.from(phoenix.subarray(0, 4))).toEqual([0, 2, 1, 0]);
+    expect(phoenix.readBigUInt64LE(4)).toBe(BigInt(1000000000) / market.baseLotSize);
+    expect(phoenix.readBigUInt64LE(12)).toBe(BigInt(0));
+    expect(phoenix.readBigUInt64LE(28) * market.quoteLotSize).toBeGreaterThanOrEqual(intermediate);
+
+    const orca = byProgram(instructions, ORCA_WHIRLPOOL_PROGRAM_ID);
+    expect(orca.data.subarray(0, 8).equals(anchorDiscriminator('swap'))).toBe(true);
+    expect(orca.data.readBigUInt64LE(8)).toBe(intermediate);
+    expect(orca.data.readBigUInt64LE(16)).toBe(BigInt(1000000001));
+    expect(orca.data.readBigUInt64LE(24) | (orca.data.readBigUInt64LE(32) << BigInt(64))).toBe(MAX_SQRT_PRICE_X64);
+    expect(Array.from(orca.data.subarray(40))).toEqual([1, 0]); // exact input, B -> A
+    expect(orca.keys[1]).toEqual({ pubkey: payer.publicKey, isSigner: true, isWritable: true });
+    expect(orca.keys[2].pubkey.equals(poolAddress('orca'))).toBe(true);
+  });
+
+  it('should walk tick and bin arrays in swap direction', async () => {
+    const built = await builder.build([
+      leg('Raydium', poolAddress('raydium'), 'SOL', 'USDC', 1, 185.032558),
+      leg('Meteora DLMM', poolAddress('meteora'), 'USDC', 'SOL', 185.032558, 1.003)
+    ], { payer: payer.publicKey, recentBlockhash, slippageBps: 10 });
+
+    const instructions = decompile(built.transaction);
+
+    const raydium = byProgram(instructions, RAYDIUM_AMM_V4_PROGRAM_ID);
+    expect(raydium.data[0]).toBe(16);
+    expect(raydium.data.readBigUInt64LE(1)).toBe(BigInt(1000000000));
+    expect(raydium.keys).toHaveLength(8);
+    expect(raydium.keys[7].isSigner).toBe(true);
+
+    // USDC -> SOL buys token X: bins move up from the active array (-25); -23 is not initialized
+    const meteora = byProgram(instructions, METEORA_DLMM_PROGRAM_ID);
+    expect(meteora.keys).toHaveLength(17);
+    expect(meteora.keys.slice(15).map(key => key.pubkey.toBase58())).toEqual(
+      [-25, -24].map(index => getBinArrayAddress(poolAddress('meteora'), index).toBase58())
+    );
+    expect(meteora.keys[8].pubkey.toBase58()).toBe('Fo3m9HQx8Rv4EMzmKWxe5yjCZMNcB5W5sKNv4pDzRFqe');
+    expect(meteora.data.readBigUInt64LE(16)).toBe(built.minAmountOut);
+
+    // A -> B on Orca walks the tick arrays downwards from the current one
+    const orcaFirst = await builder.build([
+      leg('Orca', poolAddress('orca'), 'SOL', 'USDC', 1, 184.942507),
+      leg('Phoenix', poolAddress('phoenix'), 'USDC', 'SOL', 184.942507, 1.002)
+    ], { payer: payer.publicKey, recentBlockhash, slippageBps: 10 });
+    const orca = byProgram(decompile(orcaFirst.transaction), ORCA_WHIRLPOOL_PROGRAM_ID);
+    const tickArrays = orca.keys.slice(7, 10).map(key => key.pubkey.toBase58());
+    expect(tickArrays).toEqual(
+      [-16896, -22528, -28160].map(start => getTickArrayAddress(poolAddress('orca'), start).toBase58())
+    );
+    expect(orca.data[41]).toBe(1);
+  });
+
+  it('should move pool accounts into the lookup table', async () => {
+    const plain = await builder.build(phoenixToOrca, { payer: payer.publicKey, recentBlockhash, slippageBps: 10 });
+    const table = new AddressLookupTableAccount({
+      key: Keypair.generate().publicKey,
+      state: {
+        deactivationSlot: BigInt('18446744073709551615'),
+        lastExtendedSlot: 0,
+        lastExtendedSlotStartIndex: 0,
+        authority: payer.publicKey,
+        addresses: plain.lookupAddresses
+      }
+    });
+
+    const withTable = await builder.build(phoenixToOrca, {
+      payer: payer.publicKey, recentBlockhash, slippageBps: 10, lookupTables: [table]
+    });
+    const message = withTable.transaction.message;
+
+    expect(message.addressTableLookups).toHaveLength(1);
+    expect(message.staticAccountKeys.map(key => key.toBase58()).sort()).toEqual([
+      payer.publicKey,
+      ComputeBudgetProgram.programId,
+      ASSOCIATED_TOKEN_PROGRAM_ID,
+      PHOENIX_PROGRAM_ID,
+      ORCA_WHIRLPOOL_PROGRAM_ID
+    ].map(key => key.toBase58()).sort());
+
+    // Same instructions once the table is resolved, in fewer bytes
+    const resolved = decompile(withTable.transaction, [table]);
+    expect(resolved.map(instruction => instruction.data.toString('hex')))
+      .toEqual(decompile(plain.transaction).map(instruction => instruction.data.toString('hex')));
+
+    plain.transaction.sign([payer]);
+    withTable.transaction.sign([payer]);
+    expect(withTable.transaction.serialize().length).toBeLessThan(plain.transaction.serialize().length - 300);
+  });
+
+  it('should refuse routes that cannot close profitably', async () => {
+    const options = { payer: payer.publicKey, recentBlockhash };
+
+    await expect(builder.build(phoenixToOrca, options))
+      .rejects.toThrow('Route is not profitable after 50 bps slippage: expected 996989997, need 1000000001');
+    await expect(builder.build(phoenixToOrca, { ...options, slippageBps: 10, minProfit: new Decimal(0.002) }))
+      .rejects.toThrow('need 1002000000');
+    await expect(builder.build(phoenixToOrca.slice(0, 1), options))
+      .rejects.toThrow('Atomic arbitrage needs a two-leg route, got 1 legs');
+    await expect(builder.build([phoenixToOrca[0], { ...phoenixToOrca[1], tokenOut: KNOWN_TOKENS.RAY }], options))
+      .rejects.toThrow('Route is not a round trip: SOL->USDC, USDC->RAY');
+    await expect(builder.build([phoenixToOrca[0], { ...phoenixToOrca[1], dex: 'Lifinity' }], options))
+      .rejects.toThrow('Unsupported DEX for swap instructions: Lifinity');
+  });
+
+  it('should create and extend a lookup table', () => {
+    const addresses = [Keypair.generate().publicKey, Keypair.generate().publicKey];
+    const { lookupTable, instructions } = createLookupTableInstructions(payer.publicKey, payer.publicKey, 1234, addresses);
+
+    expect(instructions).toHaveLength(2);
+    expect(instructions[0].keys[0].pubkey.equals(lookupTable)).toBe(true);
+    expect(instructions[1].keys[0].pubkey.equals(lookupTable)).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface StubRequest {
+  method: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: any; // Parsed JSON, or the raw text when it is not JSON
+}
+
+export type StubReply = { status: number; body?: unknown };
+
+/**
+ * Local stand-in for a webhook-style HTTP service (Discord, Slack, Telegram Bot API).
+ * Records every request and answers with the reply handler's status and JSON body, 200 {} by default.
+ */
+export class HttpStubServer {
+  public requests: StubRequest[] = [];
+  public reply: (request: StubRequest) => StubReply = () => ({ status: 200, body: {} });
+  private server: http.Server;
+
+  private constructor(server: http.Server) {
+    this.server = server;
+    this.server.on('request', (request, response) => this.handleRequest(request, response));
+  }
+
+  static async start(): Promise<HttpStubServer> {
+    const server = http.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    return new HttpStubServer(server);
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    let text = '';
+    request.on('data', chunk => { text += chunk; });
+    request.on('end', () => {
+      let body: any = text;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Kept as text
+      }
+
+      const stubRequest: StubRequest = { method: request.method || 'GET', path: request.url || '/', headers: request.headers, body };
+      this.requests.push(stubRequest);
+
+      const reply = this.reply(stubRequest);
+      response.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      response.end(reply.body === undefined ? '' : JSON.stringify(reply.body));
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AccountInfo } from '@solana/web3.js';
+
+export type RpcHandler = (params: any[]) => unknown;
+
+/**
+ * Wire form of an account in getMultipleAccounts / simulateTransaction results
+ */
+export function encodeAccount(account: AccountInfo<Buffer> | null) {
+  if (!account) return null;
+  return {
+    data: [account.data.toString('base64'), 'base64'],
+    executable: account.executable,
+    lamports: account.lamports,
+    owner: account.owner.toBase58(),
+    rentEpoch: 0,
+    space: account.data.length
+  };
+}
+
+/**
+ * Local stand-in for an HTTP JSON-RPC endpoint (Solana node, block engine). Each method is
+ * answered by a test-supplied handler; unknown methods get -32601 and a throwing handler
+ * becomes a JSON-RPC error.
+ */
+export class JsonRpcServer {
+  public requests: Array<{ method: string; params: any[]; path: string }> = [];
+  private server: http.Server;
+  private handlers: Record<string, RpcHandler>;
+
+  private constructor(server: http.Server, handlers: Record<string, RpcHandler>) {
+    this.server = server;
+    this.handlers = handlers;
+    this.server.on('request', (request, response) => this.handleRequest(request, response));
+  }
+
+  static async start(handlers: Record<string, RpcHandler>): Promise<JsonRpcServer> {
+    const server = http.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    return new JsonRpcServer(server, handlers);
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      const { id, method, params = [] } = JSON.parse(body);
+      this.requests.push({ method, params, path: request.url || '/' });
+
+      let reply: object;
+      const handler = this.handlers[method];
+      if (!handler) {
+        reply = { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } };
+      } else {
+        try {
+          reply = { jsonrpc: '2.0', id, result: handler(params) };
+        } catch (error) {
+          reply = { jsonrpc: '2.0', id, error: { code: -32000, message: (error as Error).message } };
+        }
+      }
+
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(reply));
+    });
+  }
+}
@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+
+// One recorded accountNotification, keyed by the account it was captured for
+export interface RecordedNotification {
+  account: string;
+  message: {
+    jsonrpc: '2.0';
+    method: 'accountNotification';
+    params: { result: unknown; subscription: number };
+  };
+}
+
+/**
+ * Load recorded account notifications from tests/fixtures
+ */
+export function loadNotificationFixtures(fileName: string): RecordedNotification[] {
+  const filePath = path.join(__dirname, '..', 'fixtures', fileName);
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+/**
+ * Local stand-in for a Solana RPC WebSocket: answers account(Un)subscribe and
+ * replays recorded notifications to whichever socket subscribed to the account
+ */
+export class RpcWebSocketServer {
+  public subscribeRequests: Array<{ account: string; params: unknown[] }> = [];
+  public unsubscribeRequests: number[] = [];
+  private server: WebSocketServer;
+  private nextSubscriptionId = 1;
+  private subscribers: Map<string, Array<{ socket: WebSocket; subscription: number }>> = new Map();
+  private heldConfirmations: Array<() => void> | null = null; // Set while confirmations are held back
+
+  private constructor(server: WebSocketServer) {
+    this.server = server;
+    this.server.on('connection', socket => this.handleConnection(socket));
+  }
+
+  static async start(): Promise<RpcWebSocketServer> {
+    const server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise<void>(resolve => server.once('listening', () => resolve()));
+    return new RpcWebSocketServer(server);
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  get connectionCount(): number {
+    return this.server.clients.size;
+  }
+
+  /**
+   * Hold accountSubscribe confirmations back until releaseConfirmations()
+   */
+  holdConfirmations(): void {
+    this.heldConfirmations = this.heldConfirmations ?? [];
+  }
+
+  releaseConfirmations(): void {
+    const held = this.heldConfirmations ?? [];
+    this.heldConfirmations = null;
+    held.forEach(send => send());
+  }
+
+  /**
+   * Resolves once `count` subscriptions have been confirmed to the client
+   */
+  async waitForSubscriptions(count: number, timeoutMs: number = 2000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (this.subscriptionCount() < count) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${count} subscriptions, have ${this.subscriptionCount()}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    // Let the confirmations reach the client
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+
+  /**
+   * Send a recorded notification to every subscriber of its account, with their subscription id
+   */
+  replay(notification: RecordedNotification): number {
+    const subscribers = this.subscribers.get(notification.account) || [];
+    for (const { socket, subscription } of subscribers) {
+      socket.send(JSON.stringify({
+        ...notification.message,
+        params: { ...notification.message.params, subscription }
+      }));
+    }
+    return subscribers.length;
+  }
+
+  /**
+   * Drop every client connection, as a node restart would
+   */
+  disconnectAll(): void {
+    this.server.clients.forEach(socket => socket.terminate());
+    this.subscribers.clear();
+  }
+
+  async close(): Promise<void> {
+    this.disconnectAll();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private subscriptionCount(): number {
+    let count = 0;
+    this.subscribers.forEach(list => count += list.length);
+    return count;
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    socket.on('message', raw => {
+      const request = JSON.parse(raw.toString());
+      if (request.method === 'accountUnsubscribe') {
+        const [subscription] = request.params;
+        this.unsubscribeRequests.push(subscription);
+        this.subscribers.forEach((list, account) =>
+          this.subscribers.set(account, list.filter(entry => entry.subscription !== subscription))
+        );
+        socket.send(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: true }));
+        return;
+      }
+
+      if (request.method !== 'accountSubscribe') {
+        socket.send(JSON.stringify({
+          jsonrpc: '2.0',
+          id: request.id,
+          error: { code: -32601, message: 'Method not found' }
+        }));
+        return;
+      }
+
+      const [account] = request.params;
+      const subscription = this.nextSubscriptionId++;
+      this.subscribeRequests.push({ account, params: request.params });
+
+      const list = this.subscribers.get(account) || [];
+      list.push({ socket, subscription });
+      this.subscribers.set(account, list);
+
+      const confirm = () => socket.send(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: subscription }));
+      if (this.heldConfirmations) this.heldConfirmations.push(confirm);
+      else confirm();
+    });
+
+    socket.on('close', () => {
+      this.subscribers.forEach((list, account) =>
+        this.subscribers.set(account, list.filter(entry => entry.socket !== socket))
+      );
+    });
+  }
+}
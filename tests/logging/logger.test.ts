@@ -0,0 +1,97 @@
+import { Logger, currentLogContext, loggerFromEnv, severityFor, withLogContext } from '../../src/logging/logger';
+
+const jsonLogger = (lines: string[], level: 'debug' | 'info' | 'warn' = 'info') => new Logger({
+  level,
+  format: 'json',
+  write: line => lines.push(line),
+  now: () => new Date('2024-05-01T12:00:00.000Z')
+});
+
+describe('Logger', () => {
+  it('should write one JSON object per line with the bound fields of its children', () => {
+    const lines: string[] = [];
+    const collector = jsonLogger(lines).child({ component: 'collector' });
+
+    collector.info('✅ Collected SOL/USDC:', { sources: 3 });
+    collector.child({ venue: 'orca' }).warn('⚠️  Slow quote');
+
+    expect(lines.map(line => JSON.parse(line))).toEqual([
+      { time: '2024-05-01T12:00:00.000Z', level: 'info', msg: 'Collected SOL/USDC', component: 'collector', sources: 3 },
+      { time: '2024-05-01T12:00:00.000Z', level: 'warn', msg: 'Slow quote', component: 'collector', venue: 'orca' }
+    ]);
+  });
+
+  it('should drop lines below its level and let children choose another', () => {
+    const lines: string[] = [];
+    const logger = jsonLogger(lines, 'warn');
+
+    logger.info('hidden');
+    logger.error('shown');
+    logger.child({}, 'debug').debug('detail');
+
+    expect(lines.map(line => JSON.parse(line).msg)).toEqual(['shown', 'detail']);
+    expect(logger.isEnabled('info')).toBe(false);
+    expect(new Logger({ level: 'silent' }).isEnabled('error')).toBe(false);
+  });
+
+  it('should serialize errors with their name, message and stack', () => {
+    const lines: string[] = [];
+    jsonLogger(lines).error('❌ Error writing records:', { err: new TypeError('disk full') });
+
+    const entry = JSON.parse(lines[0]);
+    expect(entry.msg).toBe('Error writing records');
+    expect(entry.err).toMatchObject({ name: 'TypeError', message: 'disk full' });
+    expect(entry.err.stack).toContain('disk full');
+  });
+
+  it('should print the console messages unchanged in pretty mode', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const failure = new Error('closed');
+
+    try {
+      const logger = new Logger({ fields: { component: 'writer' } });
+      logger.info('📁 Records saved');
+      logger.error('❌ Error writing to opportunity store:', { err: failure });
+
+      expect(log).toHaveBeenCalledWith('📁 Records saved');
+      expect(error).toHaveBeenCalledWith('❌ Error writing to opportunity store:', failure);
+    } finally {
+      log.mockRestore();
+      error.mockRestore();
+    }
+  });
+
+  it('should tag everything logged inside a context, across awaits and concurrent work', async () => {
+    const lines: string[] = [];
+    const logger = jsonLogger(lines);
+    const quote = async (pair: string) => withLogContext({ pair }, async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      logger.info('quoted');
+      return currentLogContext();
+    });
+
+    const contexts = await withLogContext({ scanId: 'scan_1' }, () => Promise.all([quote('SOL/USDC'), quote('RAY/SOL')]));
+    logger.info('after');
+
+    expect(contexts).toEqual([{ scanId: 'scan_1', pair: 'SOL/USDC' }, { scanId: 'scan_1', pair: 'RAY/SOL' }]);
+    expect(lines.map(line => JSON.parse(line)).map(({ scanId, pair }) => ({ scanId, pair }))).toEqual([
+      { scanId: 'scan_1', pair: 'SOL/USDC' },
+      { scanId: 'scan_1', pair: 'RAY/SOL' },
+      { scanId: undefined, pair: undefined }
+    ]);
+  });
+
+  it('should map profile log levels and read LOG_LEVEL and LOG_FORMAT', () => {
+    expect(severityFor('verbose')).toBe('debug');
+    expect(severityFor('normal')).toBe('info');
+    expect(severityFor('quiet')).toBe('warn');
+
+    const logger = loggerFromEnv({ LOG_LEVEL: 'WARN', LOG_FORMAT: 'json' });
+    expect(logger.level).toBe('warn');
+    expect(logger.format).toBe('json');
+    expect(loggerFromEnv({}).level).toBe('info');
+    expect(() => loggerFromEnv({ LOG_LEVEL: 'loud' })).toThrow('Unknown LOG_LEVEL "loud"; expected one of debug, info, warn, error, silent');
+    expect(() => loggerFromEnv({ LOG_FORMAT: 'xml' })).toThrow('Unknown LOG_FORMAT "xml"; expected pretty or json');
+  });
+});
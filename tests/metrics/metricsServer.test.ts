@@ -0,0 +1,41 @@
+import axios from 'axios';
+import { MetricsServer } from '../../src/metrics/metricsServer';
+import { MetricsRegistry } from '../../src/metrics/registry';
+
+describe('MetricsServer', () => {
+  let registry: MetricsRegistry;
+  let server: MetricsServer;
+
+  beforeEach(async () => {
+    registry = new MetricsRegistry();
+    server = await MetricsServer.start(registry, 0, '127.0.0.1');
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should serve the current metrics at /metrics on every scrape', async () => {
+    const scans = registry.counter('arb_scans_total', 'Scans completed', ['scanner']);
+    scans.inc({ scanner: 'legitimate' });
+
+    const first = await axios.get(server.url);
+    expect(first.status).toBe(200);
+    expect(first.headers['content-type']).toBe('text/plain; version=0.0.4; charset=utf-8');
+    expect(first.data).toContain('arb_scans_total{scanner="legitimate"} 1');
+
+    scans.inc({ scanner: 'legitimate' });
+    expect((await axios.get(server.url)).data).toContain('arb_scans_total{scanner="legitimate"} 2');
+  });
+
+  it('should answer other paths and methods with errors', async () => {
+    const base = server.url.replace(/\/metrics$/, '');
+    expect((await axios.get(`${base}/`, { validateStatus: () => true })).status).toBe(404);
+    expect((await axios.post(server.url, {}, { validateStatus: () => true })).status).toBe(405);
+  });
+
+  it('should fail to start on a port already in use', async () => {
+    const port = Number(new URL(server.url).port);
+    await expect(MetricsServer.start(registry, port, '127.0.0.1')).rejects.toThrow('EADDRINUSE');
+  });
+});
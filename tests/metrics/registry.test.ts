@@ -0,0 +1,75 @@
+import { endpointLabel } from '../../src/metrics/arbMetrics';
+import { MetricsRegistry } from '../../src/metrics/registry';
+
+describe('MetricsRegistry', () => {
+  it('should render counters and gauges in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('arb_requests_total', 'Requests sent', ['venue', 'pair']);
+    const open = registry.gauge('arb_open', 'Open connections');
+
+    requests.inc({ pair: 'SOL/USDC', venue: 'Raydium' });
+    requests.inc({ venue: 'Raydium', pair: 'SOL/USDC' }, 2);
+    requests.inc({ venue: 'Orca "Whirlpool"', pair: 'SOL/USDC' });
+    open.set({}, 3);
+
+    expect(registry.render()).toBe([
+      '# HELP arb_requests_total Requests sent',
+      '# TYPE arb_requests_total counter',
+      'arb_requests_total{venue="Raydium",pair="SOL/USDC"} 3',
+      'arb_requests_total{venue="Orca \\"Whirlpool\\"",pair="SOL/USDC"} 1',
+      '# HELP arb_open Open connections',
+      '# TYPE arb_open gauge',
+      'arb_open 3',
+      ''
+    ].join('\n'));
+  });
+
+  it('should render cumulative histogram buckets with sum and count', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('arb_latency_seconds', 'Latency', ['venue'], [0.1, 1]);
+
+    [0.05, 0.5, 0.7, 3].forEach(value => latency.observe({ venue: 'Orca' }, value));
+
+    expect(registry.render().split('\n').filter(line => !line.startsWith('#'))).toEqual([
+      'arb_latency_seconds_bucket{venue="Orca",le="0.1"} 1',
+      'arb_latency_seconds_bucket{venue="Orca",le="1"} 3',
+      'arb_latency_seconds_bucket{venue="Orca",le="+Inf"} 4',
+      'arb_latency_seconds_sum{venue="Orca"} 4.25',
+      'arb_latency_seconds_count{venue="Orca"} 4',
+      ''
+    ]);
+    expect(latency.get({ venue: 'Orca' })).toEqual({ sum: 4.25, count: 4 });
+  });
+
+  it('should refresh collected values on every render', () => {
+    const registry = new MetricsRegistry();
+    const pools = registry.gauge('arb_pools', 'Pools', ['dex']);
+    let count = 1;
+    const remove = registry.addCollector(() => pools.set({ dex: 'raydium' }, count));
+
+    expect(registry.render()).toContain('arb_pools{dex="raydium"} 1');
+    count = 2;
+    expect(registry.render()).toContain('arb_pools{dex="raydium"} 2');
+    remove();
+    count = 3;
+    expect(registry.render()).toContain('arb_pools{dex="raydium"} 2');
+  });
+
+  it('should reject malformed metrics, wrong labels and decreasing counters', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('arb_total', 'Total', ['venue']);
+
+    expect(() => registry.counter('arb_total', 'Again')).toThrow('already registered');
+    expect(() => registry.counter('arb-total', 'Dashed')).toThrow('Invalid metric name');
+    expect(() => registry.histogram('arb_h', 'Reserved', ['le'])).toThrow('Invalid label name "le"');
+    expect(() => counter.inc({})).toThrow('Metric arb_total takes labels venue, got (none)');
+    expect(() => counter.inc({ venue: 'Orca', pair: 'SOL/USDC' })).toThrow('takes labels venue');
+    expect(() => counter.inc({ venue: 'Orca' }, -1)).toThrow('cannot decrease');
+  });
+
+  it('should keep API keys out of endpoint labels', () => {
+    expect(endpointLabel('wss://mainnet.helius-rpc.com/?api-key=secret')).toBe('wss://mainnet.helius-rpc.com');
+    expect(endpointLabel('https://example.solana-mainnet.quiknode.pro/secret/')).toBe('https://example.solana-mainnet.quiknode.pro');
+    expect(endpointLabel('not a url')).toBe('invalid');
+  });
+});
@@ -0,0 +1,271 @@
+import { once } from 'events';
+import Decimal from 'decimal.js';
+import { findPool } from '../../src/config/pools';
+import { ArbMetrics, createArbMetrics } from '../../src/metrics/arbMetrics';
+import { PoolMonitor, PoolUpdate } from '../../src/monitoring/poolMonitor';
+import { FixtureAccountFetcher } from '../helpers/fixtureAccountFetcher';
+import { RecordedNotification, RpcWebSocketServer, loadNotificationFixtures } from '../helpers/rpcWebSocketServer';
+
+describe('PoolMonitor account subscriptions', () => {
+  const fetcher = FixtureAccountFetcher.fromFiles(
+    'raydiumAmmSolUsdc.json',
+    'orcaWhirlpoolSolUsdc.json',
+    'phoenixSolUsdc.json',
+    'meteoraDlmmSolUsdc.json'
+  );
+  const notifications = loadNotificationFixtures('accountNotificationsSolUsdc.json');
+  const raydium = findPool('raydium', 'SOL', 'USDC')!.address.toBase58();
+  const orca = findPool('orca', 'SOL', 'USDC')!.address.toBase58();
+  const meteora = findPool('meteora', 'SOL', 'USDC')!.address.toBase58();
+
+  let server: RpcWebSocketServer;
+  let monitor: PoolMonitor;
+  let metrics: ArbMetrics;
+
+  const nextUpdate = async (notification: RecordedNotification): Promise<PoolUpdate> => {
+    const update = once(monitor, 'priceUpdate');
+    expect(server.replay(notification)).toBe(1);
+    const [poolUpdate] = await update;
+    return poolUpdate;
+  };
+
+  beforeEach(async () => {
+    server = await RpcWebSocketServer.start();
+    metrics = createArbMetrics();
+    monitor = new PoolMonitor({
+      wsEndpoint: server.url,
+      fetcher,
+      heartbeatInterval: 0,
+      reconnectDelay: 10,
+      handleSignals: false,
+      metrics
+    });
+  });
+
+  afterEach(async () => {
+    await monitor.shutdown();
+    await server.close();
+  });
+
+  it('should subscribe to the pool and its vaults over the RPC websocket', async () => {
+    await monitor.subscribeToPool(raydium, 'raydium', 'SOL', 'USDC');
+    await server.waitForSubscriptions(3);
+
+    expect(server.subscribeRequests.map(request => request.account)).toEqual([
+      raydium,
+      notifications[0].account,
+      notifications[1].account
+    ]);
+    expect(server.subscribeRequests[0].params[1]).toEqual({ encoding: 'base64', commitment: 'confirmed' });
+    expect(monitor.getActiveSubscriptions()).toHaveLength(1);
+  });
+
+  it('should re-price a Raydium pool as its vaults change', async () => {
+    await monitor.subscribeToPool(raydium, 'raydium', 'SOL', 'USDC');
+    await server.waitForSubscriptions(3);
+
+    // Base vault receives 10 SOL, then the quote vault pays out 1850 USDC
+    const afterBase = await nextUpdate(notifications[0]);
+    expect(afterBase.dex).toBe('Raydium');
+    expect(afterBase.pool).toBe(raydium);
+    expect(afterBase.baseTokenAmount.toNumber()).toBeCloseTo(50010, 6);
+    expect(afterBase.price.toNumber()).toBeCloseTo(9275000 / 50010, 6);
+
+    const afterQuote = await nextUpdate(notifications[1]);
+    expect(afterQuote.quoteTokenAmount.toNumber()).toBeCloseTo(9273150, 6);
+    expect(afterQuote.price.toNumber()).toBeCloseTo(9273150 / 50010, 6);
+    expect(afterQuote.transactionCount).toBe(2);
+    expect(afterQuote.liquidity.toNumber()).toBeCloseTo(9273150 * 2, 0);
+    expect(monitor.getMonitoringStats().messagesReceived).toBe(2);
+  });
+
+  it('should count messages, updates and subscription latency per connection', async () => {
+    await monitor.subscribeToPool(raydium, 'raydium', 'SOL', 'USDC');
+    await server.waitForSubscriptions(3);
+    await nextUpdate(notifications[0]);
+
+    const endpoint = { endpoint: server.url };
+    expect(metrics.connectionOpen.get(endpoint)).toBe(1);
+    expect(metrics.subscribeLatency.get(endpoint).count).toBe(3);
+    expect(metrics.connectionMessages.get(endpoint)).toBe(4); // Three confirmations and the notification
+    expect(metrics.poolUpdates.get({ ...endpoint, dex: 'raydium', pool: raydium })).toBe(1);
+  });
+
+  it('should orient the price to the requested base token', async () => {
+    await monitor.subscribeToPool(raydium, 'raydium', 'USDC', 'SOL');
+    await server.waitForSubscriptions(3);
+
+    const update = await nextUpdate(notifications[0]);
+    expect(update.price.toNumber()).toBeCloseTo(50010 / 9275000, 10);
+    expect(update.baseTokenAmount.toNumber()).toBeCloseTo(9275000, 6);
+  });
+
+  it('should follow concentrated liquidity price moves', async () => {
+    await monitor.subscribeToMultiplePools([
+      { address: orca, dex: 'orca', baseToken: 'SOL', quoteToken: 'USDC' },
+      { address: meteora, dex: 'meteora', baseToken: 'SOL', quoteToken: 'USDC' }
+    ]);
+    await server.waitForSubscriptions(6);
+
+    // Whirlpool tick -16848 -> -16912 moves SOL down about 0.64%
+    const orcaUpdate = await nextUpdate(notifications[2]);
+    expect(orcaUpdate.dex).toBe('Orca');
+    expect(orcaUpdate.price.toNumber()).toBeCloseTo(Math.pow(1.0001, -16912) * 1000, 2);
+
+    // DLMM active bin -1685 -> -1684 moves SOL up one bin step
+    const meteoraUpdate = await nextUpdate(notifications[3]);
+    expect(meteoraUpdate.dex).toBe('Meteora');
+    expect(meteoraUpdate.price.gt(new Decimal(180))).toBe(true);
+    expect(meteoraUpdate.price.lt(new Decimal(190))).toBe(true);
+  });
+
+  it('should resubscribe after the connection drops', async () => {
+    await monitor.subscribeToPool(raydium, 'raydium', 'SOL', 'USDC');
+    await server.waitForSubscriptions(3);
+
+    const reconnected = once(monitor, 'connected');
+    server.disconnectAll();
+    await reconnected;
+    await server.waitForSubscriptions(3);
+
+    const update = await nextUpdate(notifications[0]);
+    expect(update.price.toNumber()).toBeCloseTo(9275000 / 50010, 6);
+    expect(monitor.getMonitoringStats().reconnections).toBe(1);
+    expect(server.subscribeRequests).toHaveLength(6);
+  });
+
+  it('should reject DEXes without an account decoder', async () => {
+    await expect(monitor.subscribeToPool(raydium, 'jupiter', 'SOL', 'USDC'))
+      .rejects.toThrow('Unsupported DEX for account monitoring: jupiter');
+    expect(monitor.getMonitoringStats().totalSubscriptions).toBe(0);
+  });
+
+  it('should stop routing notifications after unsubscribing', async () => {
+    await monitor.subscribeToPool(raydium, 'raydium', 'SOL', 'USDC');
+    await server.waitForSubscriptions(3);
+
+    monitor.unsubscribeFromPool(raydium, 'raydium');
+    expect(monitor.getActiveSubscriptions()).toHaveLength(0);
+    expect(monitor.getMonitoringStats().activeConnections).toBe(0);
+  });
+
+  describe('connection multiplexing', () => {
+    const allPools = () => [
+      { address: raydium, dex: 'raydium', baseToken: 'SOL', quoteToken: 'USDC' },
+      { address: orca, dex: 'orca', baseToken: 'SOL', quoteToken: 'USDC' },
+      { address: meteora, dex: 'meteora', baseToken: 'SOL', quoteToken: 'USDC' }
+    ];
+
+    it('should share one connection per endpoint across pools', async () => {
+      await monitor.subscribeToMultiplePools(allPools());
+      await server.waitForSubscriptions(9);
+
+      expect(server.connectionCount).toBe(1);
+
+      const stats = monitor.getMonitoringStats();
+      expect(stats.activeConnections).toBe(1);
+      expect(stats.connections).toEqual([expect.objectContaining({
+        endpoint: server.url,
+        isOpen: true,
+        pools: 3,
+        accountSubscriptions: 9
+      })]);
+    });
+
+    it('should route each subscription id to its own pool', async () => {
+      await monitor.subscribeToMultiplePools(allPools());
+      await server.waitForSubscriptions(9);
+
+      const orcaUpdates: PoolUpdate[] = [];
+      monitor.on(`update_orca_${orca}`, update => orcaUpdates.push(update));
+
+      const raydiumUpdate = await nextUpdate(notifications[0]);
+      const orcaUpdate = await nextUpdate(notifications[2]);
+      const meteoraUpdate = await nextUpdate(notifications[3]);
+
+      expect([raydiumUpdate.pool, orcaUpdate.pool, meteoraUpdate.pool]).toEqual([raydium, orca, meteora]);
+      expect(orcaUpdates).toHaveLength(1);
+      expect(monitor.getMonitoringStats().connections[0].messagesReceived).toBe(12);
+    });
+
+    it('should resubscribe every pool on the shared connection after a reconnect', async () => {
+      await monitor.subscribeToMultiplePools(allPools());
+      await server.waitForSubscriptions(9);
+
+      const disconnected: string[] = [];
+      monitor.on('disconnected', event => disconnected.push(event.pool));
+      server.disconnectAll();
+      await server.waitForSubscriptions(9);
+
+      expect(disconnected.sort()).toEqual([raydium, orca, meteora].sort());
+      expect(server.subscribeRequests).toHaveLength(18);
+      expect(monitor.getActiveSubscriptions()).toHaveLength(3);
+
+      const update = await nextUpdate(notifications[3]);
+      expect(update.pool).toBe(meteora);
+    });
+
+    it('should unsubscribe a pool without dropping the connection', async () => {
+      await monitor.subscribeToMultiplePools(allPools());
+      await server.waitForSubscriptions(9);
+
+      monitor.unsubscribeFromPool(orca, 'orca');
+      const deadline = Date.now() + 2000;
+      while (server.unsubscribeRequests.length < 3 && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      expect(server.unsubscribeRequests).toHaveLength(3);
+      expect(server.replay(notifications[2])).toBe(0);
+      expect(monitor.getMonitoringStats().connections[0]).toEqual(expect.objectContaining({
+        isOpen: true,
+        pools: 2,
+        accountSubscriptions: 6
+      }));
+    });
+
+    it('should cancel subscriptions confirmed after their pool was unsubscribed', async () => {
+      server.holdConfirmations();
+      await monitor.subscribeToMultiplePools(allPools());
+      const deadline = Date.now() + 2000;
+      while (server.subscribeRequests.length < 9 && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      // Requested but not yet confirmed by the node
+      monitor.unsubscribeFromPool(orca, 'orca');
+      server.releaseConfirmations();
+      while (server.unsubscribeRequests.length < 3 && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      await server.waitForSubscriptions(6);
+
+      expect(server.unsubscribeRequests).toHaveLength(3);
+      expect(server.replay(notifications[2])).toBe(0);
+      expect(monitor.getMonitoringStats().connections[0]).toEqual(expect.objectContaining({ pools: 2, accountSubscriptions: 6 }));
+    });
+
+    it('should spread pools over several endpoints', async () => {
+      const second = await RpcWebSocketServer.start();
+      const spread = new PoolMonitor({
+        wsEndpoints: [server.url, second.url],
+        fetcher,
+        heartbeatInterval: 0,
+        handleSignals: false
+      });
+
+      try {
+        await spread.subscribeToMultiplePools(allPools());
+        await server.waitForSubscriptions(6);
+        await second.waitForSubscriptions(3);
+
+        const connections = spread.getMonitoringStats().connections;
+        expect(connections.map(connection => connection.pools)).toEqual([2, 1]);
+        expect(spread.getMonitoringStats().activeConnections).toBe(2);
+      } finally {
+        await spread.shutdown();
+        await second.close();
+      }
+    });
+  });
+});
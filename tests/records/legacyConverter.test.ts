@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseQuoteCsv } from '../../src/backtest/historicalQuotes';
+import { convertLegacyCsv, migrateRecordFiles, scannerForFile } from '../../src/records/legacyConverter';
+import { readRecords } from '../../src/records/recordReader';
+
+describe('Legacy Record Conversion', () => {
+  it('should tell the scanner from the file name prefix', () => {
+    expect(scannerForFile('data/real_dex_arbitrage_2025-06-03T02-49-16-508Z.csv')).toBe('real-dex');
+    expect(scannerForFile('quick_arbitrage_test_2025-06-03.csv')).toBe('quick-csv-test');
+    expect(scannerForFile('arbitrage_data_2025-06-03.csv')).toBe('enhanced');
+    expect(() => scannerForFile('prices.csv')).toThrow('Cannot tell which scanner wrote prices.csv');
+  });
+
+  it('should convert row-per-venue files and clear the placeholders of rows without arbitrage', () => {
+    const csv = [
+      'Timestamp,Scan Number,Trading Pair,DEX,Price,Input Amount,Output Amount,Price Impact (%),Has Arbitrage,Arbitrage Buy DEX,Arbitrage Sell DEX,Arbitrage Profit (%),Arbitrage Profit Amount,Best Arbitrage of Scan,Scan Duration (ms),Request ID',
+      '2025-06-03T02:21:21.311Z,1,SOL/USDC,Obric V2,161.41,1,161.41,0,true,Lifinity,Obric V2,0.248,0.4,true,87,1-SOL/USDC-Obric V2',
+      '2025-06-03T02:21:21.311Z,1,SOL/USDC,Orca,161.2,1,161.2,0,false,,,0,0,false,87,1-SOL/USDC-Orca',
+      'not a date,1,SOL/USDC,Orca,161.2,1,161.2,0,false,,,0,0,false,87,x'
+    ].join('\n');
+
+    const { scanner, layout, records, skippedRows } = convertLegacyCsv(csv, 'conservative_arbitrage_2025-06-03.csv');
+
+    expect([scanner, layout, skippedRows]).toEqual(['conservative', 'venue-rows', 1]);
+    expect(records[0]).toMatchObject({
+      kind: 'quote',
+      timestamp: '2025-06-03T02:21:21.311Z',
+      venue: 'Obric V2',
+      price: 161.41,
+      strategy: 'cross_dex',
+      buyVenue: 'Lifinity',
+      spreadPercent: 0.248,
+      grossProfit: 0.4,
+      bestOfScan: true,
+      scanDurationMs: 87,
+      notes: null
+    });
+    expect(records[1]).toMatchObject({ hasArbitrage: false, strategy: null, spreadPercent: null, grossProfit: null });
+  });
+
+  it('should map the legitimate scanner columns and keep its gas in SOL', () => {
+    const csv = [
+      'Timestamp,Scan Number,Trading Pair,DEX Name,Data Source,Exchange Rate,Input Amount,Output Amount,Price Impact (%),Liquidity Available,Arbitrage Available,Arbitrage Strategy,Profit (%),Profit Amount,Gas Cost (SOL),Net Profit,Confidence Level,Scan Duration (ms),Request ID',
+      '2025-06-04T23:00:36.026Z,1,SOL/USDC,Raydium,direct,153.6,1,153.6,0,true,true,jupiter_vs_direct,0.4,0.61,0.005,0.6,high,367,req_0001'
+    ].join('\n');
+
+    const [record] = convertLegacyCsv(csv, 'legitimate_arbitrage_2025-06-04.csv').records;
+
+    expect(record).toMatchObject({
+      scanner: 'legitimate',
+      venue: 'Raydium',
+      source: 'direct',
+      liquidityAvailable: true,
+      strategy: 'jupiter_vs_direct',
+      gasCost: 0.005,
+      gasCostToken: 'SOL',
+      confidence: 'high',
+      requestId: 'req_0001'
+    });
+  });
+
+  it('should expand per-pair summaries into one quote per venue column', () => {
+    const csv = [
+      'Timestamp,Scan Number,Trading Pair,Best Spread (%),Best Buy DEX,Best Sell DEX,Market Efficiency,Total Time (ms),Raydium Price,Raydium Response (ms),Orca Price,Orca Response (ms),Phoenix Price,Phoenix Response (ms)',
+      '2025-06-05T01:59:05.569Z,1,SOL/USDC,0.12,raydium,orca,0.9,246,153.1,129,153.3,49,,81'
+    ].join('\n');
+
+    const { layout, records } = convertLegacyCsv(csv, 'optimized_arbitrage_2025-06-05.csv');
+
+    expect(layout).toBe('pair-summary');
+    expect(records.map(record => [record.venue, record.price, record.responseTimeMs, record.hasArbitrage])).toEqual([
+      ['Raydium', 153.1, 129, true],
+      ['Orca', 153.3, 49, true]
+    ]);
+    expect(records[0]).toMatchObject({ spreadPercent: 0.12, scanDurationMs: 246, notes: 'Market Efficiency=0.9' });
+  });
+
+  it('should read real-time opportunity rows as opportunity records', () => {
+    const csv = [
+      'Timestamp,Trading Pair,Buy Source,Sell Source,Buy Price,Sell Price,Profit (%),Net Profit',
+      '2025-06-05T02:00:00.000Z,SOL/USDC,Raydium,Orca,153.1,153.3,0.13,0.19'
+    ].join('\n');
+
+    const { layout, records } = convertLegacyCsv(csv, 'realtime_arbitrage_2025-06-05.csv');
+
+    expect(layout).toBe('opportunity-rows');
+    expect(records[0]).toMatchObject({ kind: 'opportunity', hasArbitrage: true, buyVenue: 'Raydium', sellVenue: 'Orca', netProfit: 0.19 });
+  });
+
+  it('should reject files it cannot place', () => {
+    expect(() => convertLegacyCsv('Pair,Price\nSOL/USDC,1', 'real_dex_arbitrage_x.csv'))
+      .toThrow('Unrecognized legacy CSV format in real_dex_arbitrage_x.csv: missing Timestamp or Trading Pair');
+    expect(() => convertLegacyCsv('Timestamp,Trading Pair,Spread\n2025-06-05T02:00:00.000Z,SOL/USDC,1', 'optimized_arbitrage_x.csv'))
+      .toThrow('no venue column');
+  });
+
+  describe('migrating data/', () => {
+    const dataDir = path.join(__dirname, '..', '..', 'data');
+    let outDir: string;
+
+    beforeEach(() => {
+      outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrated-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outDir, { recursive: true, force: true });
+    });
+
+    it('should convert every legacy file and stay readable by the backtester', async () => {
+      const results = await migrateRecordFiles([dataDir], outDir, 'csv');
+
+      expect(results.length).toBe(fs.readdirSync(dataDir).filter(name => name.endsWith('.csv')).length);
+      for (const result of results) {
+        expect(result.records.length).toBeGreaterThan(0);
+        expect(path.dirname(result.output)).toBe(outDir);
+
+        const text = fs.readFileSync(result.output, 'utf8');
+        expect(await readRecords(result.output)).toEqual(result.records);
+        expect(parseQuoteCsv(text, result.output).length).toBeGreaterThan(0);
+      }
+    });
+
+    it('should not overwrite its own input', async () => {
+      const input = path.join(outDir, 'real_dex_arbitrage_x.csv');
+      fs.writeFileSync(input, 'Timestamp,Trading Pair,DEX,Price\n2025-06-05T02:00:00.000Z,SOL/USDC,Orca,1\n');
+
+      await expect(migrateRecordFiles([input], outDir, 'csv')).rejects.toThrow('Refusing to overwrite');
+    });
+  });
+});
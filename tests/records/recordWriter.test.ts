@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readRecords, recordFormatOf } from '../../src/records/recordReader';
+import { RECORD_FORMATS, createRecordWriter, openRecordWriter, toRecordFormat } from '../../src/records/recordWriter';
+import { RECORD_COLUMNS, RECORD_SCHEMA_VERSION, createRecord, parseRecord } from '../../src/records/schema';
+
+const quote = createRecord({
+  scanner: 'real-dex',
+  kind: 'quote',
+  timestamp: '2026-10-01T12:00:00.000Z',
+  scanNumber: 3,
+  pair: 'SOL/USDC',
+  venue: 'Raydium, CLMM', // Needs CSV quoting
+  price: 185.25,
+  inputAmount: 1,
+  outputAmount: 185.25,
+  priceImpactPercent: 0.02,
+  hasArbitrage: true,
+  strategy: 'cross_dex',
+  buyVenue: 'Raydium, CLMM',
+  sellVenue: 'Orca',
+  spreadPercent: 0.31,
+  scanDurationMs: 412.6,
+  requestId: '3-SOL/USDC-Raydium, CLMM',
+  notes: 'say "hi"'
+});
+
+const opportunity = createRecord({
+  scanner: 'real-dex',
+  kind: 'opportunity',
+  timestamp: '2026-10-01T12:00:00.000Z',
+  pair: 'SOL/USDC',
+  hasArbitrage: true,
+  netProfit: -0.0004,
+  bestOfScan: true
+});
+
+describe('Record Schema', () => {
+  it('should fill every column, defaulting to null and rounding integer fields', () => {
+    expect(Object.keys(quote)).toEqual(RECORD_COLUMNS);
+    expect(quote.schemaVersion).toBe(RECORD_SCHEMA_VERSION);
+    expect(quote.scanDurationMs).toBe(413);
+    expect(opportunity.venue).toBeNull();
+    expect(createRecord({ scanner: 'x', kind: 'quote', timestamp: quote.timestamp, pair: 'SOL/USDC' }).hasArbitrage).toBe(false);
+  });
+
+  it('should parse text fields back into typed values', () => {
+    const record = parseRecord({
+      schemaVersion: '1',
+      scanner: 'optimized',
+      kind: 'quote',
+      timestamp: quote.timestamp,
+      pair: 'SOL/USDC',
+      price: '185.5',
+      hasArbitrage: 'false',
+      liquidityAvailable: 'true',
+      venue: ''
+    });
+
+    expect(record.price).toBe(185.5);
+    expect(record.hasArbitrage).toBe(false);
+    expect(record.liquidityAvailable).toBe(true);
+    expect(record.venue).toBeNull();
+  });
+
+  it('should reject malformed text fields', () => {
+    const fields = { schemaVersion: '1', scanner: 'optimized', kind: 'quote', timestamp: quote.timestamp, pair: 'SOL/USDC' };
+
+    expect(() => parseRecord({ ...fields, pair: ' ' })).toThrow('Record field pair is required');
+    expect(() => parseRecord({ ...fields, hasArbitrage: 'yes' })).toThrow('Record field hasArbitrage must be true or false, got "yes"');
+    expect(() => parseRecord({ ...fields, hasArbitrage: 'true', price: 'n/a' })).toThrow('Record field price must be a number, got "n/a"');
+  });
+});
+
+describe('Record Writers', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'records-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it.each(RECORD_FORMATS)('should round-trip records through %s', async (format) => {
+    const writer = openRecordWriter(path.join(dir, `scan.${format}`), format);
+    await writer.write([quote]);
+    await writer.write([opportunity]);
+    await writer.close();
+
+    expect(recordFormatOf(writer.path)).toBe(format);
+    expect(await readRecords(writer.path)).toEqual([quote, opportunity]);
+  });
+
+  it('should keep concurrent writes in call order', async () => {
+    const writer = openRecordWriter(path.join(dir, 'scan.csv'), 'csv');
+    const batches = Array.from({ length: 5 }, (_, scanNumber) => [createRecord({ ...quote, scanNumber })]);
+
+    await Promise.all(batches.map(batch => writer.write(batch)));
+    await writer.close();
+
+    const text = fs.readFileSync(writer.path, 'utf8');
+    expect(text.split('\n').filter(line => line.startsWith('schemaVersion'))).toHaveLength(1);
+    expect((await readRecords(writer.path)).map(record => record.scanNumber)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it.each(RECORD_FORMATS)('should leave no %s file for a run without records', async (format) => {
+    const writer = openRecordWriter(path.join(dir, `empty.${format}`), format);
+    await writer.write([]);
+    await writer.close();
+
+    expect(fs.existsSync(writer.path)).toBe(false);
+  });
+
+  it('should refuse writes after close', async () => {
+    const writer = openRecordWriter(path.join(dir, 'scan.jsonl'), 'jsonl');
+    await writer.close();
+    await writer.close();
+
+    await expect(writer.write([quote])).rejects.toThrow(`Record writer for ${writer.path} is closed`);
+  });
+
+  it('should name files by scanner mode and start time', () => {
+    const writer = createRecordWriter({
+      scanner: 'legitimate',
+      format: 'jsonl',
+      directory: dir,
+      startedAt: new Date('2026-10-19T08:00:00.000Z')
+    });
+
+    expect(path.basename(writer.path)).toBe('legitimate_arbitrage_2026-10-19T08-00-00-000Z.jsonl');
+  });
+
+  it('should reject records from a newer schema version', async () => {
+    const file = path.join(dir, 'future.jsonl');
+    fs.writeFileSync(file, JSON.stringify({ ...quote, schemaVersion: RECORD_SCHEMA_VERSION + 1 }) + '\n');
+
+    await expect(readRecords(file)).rejects.toThrow(`uses record schema version ${RECORD_SCHEMA_VERSION + 1}`);
+  });
+
+  it('should validate format names', () => {
+    expect(toRecordFormat(' Parquet ')).toBe('parquet');
+    expect(() => toRecordFormat('xlsx')).toThrow('Unknown record format "xlsx"; expected one of csv, jsonl, parquet');
+    expect(() => recordFormatOf('scan.txt')).toThrow('Cannot tell the record format of scan.txt');
+  });
+});
@@ -0,0 +1,190 @@
+import Decimal from 'decimal.js';
+import { ArbitrageScanner } from '../../src/scanner/ArbitrageScanner';
+import { loadScannerConfig } from '../../src/config/configLoader';
+import { ScannerConfig } from '../../src/config/config';
+import { FeeEstimator } from '../../src/execution/feeEstimator';
+import { Logger } from '../../src/logging/logger';
+import { ScannerEvent } from '../../src/types';
+import { createPairId, getTokenBySymbol } from '../../src/utils/tokenUtils';
+
+describe('ArbitrageScanner.updateConfig', () => {
+  let config: ScannerConfig;
+  let scanner: ArbitrageScanner;
+  let performScan: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const base = loadScannerConfig({ env: {} }).config;
+    config = { ...base, monitoredPairs: ['SOL/USDC', 'RAY/SOL'], jupiter: { ...base.jupiter, enabled: false } };
+    scanner = new ArbitrageScanner(config, undefined, new FeeEstimator(null));
+    performScan = jest.spyOn(scanner as any, 'performScan').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    scanner.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should restart the scan timer at a new priceUpdateInterval', async () => {
+    await scanner.start();
+    performScan.mockClear();
+
+    scanner.updateConfig({ priceUpdateInterval: config.priceUpdateInterval * 2 });
+    jest.advanceTimersByTime(config.priceUpdateInterval);
+    expect(performScan).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(config.priceUpdateInterval);
+    expect(performScan).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit a STATUS_UPDATE listing what changed, and nothing when nothing did', () => {
+    const updates: any[] = [];
+    scanner.on('status_update', event => updates.push(event));
+
+    expect(scanner.updateConfig({ ...config })).toEqual([]);
+    const changes = scanner.updateConfig({
+      minProfitThreshold: 0.2,
+      dexes: { ...config.dexes, phoenix: { ...config.dexes.phoenix, enabled: false } }
+    });
+
+    expect(changes).toEqual([
+      { key: 'minProfitThreshold', from: config.minProfitThreshold, to: 0.2 },
+      { key: 'dexes.phoenix.enabled', from: true, to: false }
+    ]);
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ type: ScannerEvent.STATUS_UPDATE, data: { status: 'config_updated', changes } });
+  });
+
+  it('should keep cached prices only for pairs still monitored', () => {
+    const [sol, usdc, ray] = ['SOL', 'USDC', 'RAY'].map(symbol => getTokenBySymbol(symbol)!);
+    const priceCache: Map<string, unknown> = (scanner as any).priceCache;
+    priceCache.set(createPairId(sol, usdc), []);
+    priceCache.set(createPairId(ray, sol), []);
+
+    scanner.updateConfig({ monitoredPairs: ['SOL/USDC'] });
+
+    expect(Array.from(priceCache.keys())).toEqual([createPairId(sol, usdc)]);
+  });
+
+  describe('venue toggles', () => {
+    // SOL -> USDC on Raydium at 200, back on Orca at 199: a round trip that always profits
+    const getBestRoute = jest.fn(async (from: any, _to: any, amount: Decimal) => {
+      const label = from.symbol === 'SOL' ? 'Raydium' : 'Whirlpool';
+      return {
+        route: { routePlan: [{ swapInfo: { label } }] } as any,
+        outputAmount: from.symbol === 'SOL' ? amount.mul(200) : amount.div(199),
+        priceImpact: new Decimal(0)
+      };
+    });
+
+    const scan = async (client: object = { getBestRoute }) => {
+      const found: any[] = [];
+      scanner.on('opportunity_found', event => found.push(event.data));
+      performScan.mockRestore();
+      (scanner as any).jupiterClient = client;
+      await (scanner as any).performScan();
+      return found;
+    };
+
+    beforeEach(() => {
+      getBestRoute.mockClear();
+      scanner.updateConfig({ monitoredPairs: ['SOL/USDC'], jupiter: { ...config.jupiter, enabled: true } });
+    });
+
+    it('should skip routes through a DEX disabled on reload', async () => {
+      scanner.updateConfig({ dexes: { ...config.dexes, raydium: { ...config.dexes.raydium, enabled: false } } });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(await scan()).toEqual([]);
+      expect(getBestRoute).toHaveBeenCalled();
+    });
+
+    it('should quote nothing while Jupiter is disabled', async () => {
+      scanner.updateConfig({ jupiter: { ...config.jupiter, enabled: false } });
+
+      expect(await scan()).toEqual([]);
+      expect(getBestRoute).not.toHaveBeenCalled();
+
+      scanner.updateConfig({ jupiter: { ...config.jupiter, enabled: true } });
+      expect((await scan()).map(opportunity => [opportunity.buyDex, opportunity.sellDex])).toEqual([['Raydium', 'Whirlpool']]);
+    });
+
+    it('should not size a pair whose round trip loses at the smallest size', async () => {
+      // Back on Orca at 201: every size loses
+      const losing = jest.fn(async (from: any, _to: any, amount: Decimal) => ({
+        route: { routePlan: [{ swapInfo: { label: 'Raydium' } }] } as any,
+        outputAmount: from.symbol === 'SOL' ? amount.mul(200) : amount.div(201),
+        priceImpact: new Decimal(0)
+      }));
+
+      expect(await scan({ getBestRoute: losing })).toEqual([]);
+      expect(losing.mock.calls.map(([from, , amount]) => [from.symbol, amount.toNumber()])).toEqual([
+        ['SOL', config.tradeSizeRange.min],
+        ['USDC', config.tradeSizeRange.min * 200]
+      ]);
+    });
+
+    it('should keep each pair to a handful of Jupiter calls', async () => {
+      await scan();
+
+      // Two per round trip, six round trips with the pre-check's reused
+      expect(getBestRoute.mock.calls.length).toBeLessThanOrEqual(12);
+    });
+
+    it('should skip a scan while the previous one is still quoting', async () => {
+      let release!: () => void;
+      const released = new Promise<void>(resolve => { release = resolve; });
+      const slow = jest.fn(async (...args: [any, any, Decimal]) => {
+        await released;
+        return getBestRoute(...args);
+      });
+
+      performScan.mockRestore();
+      (scanner as any).jupiterClient = { getBestRoute: slow };
+      const first = (scanner as any).performScan();
+      await (scanner as any).performScan();
+      expect(slow).toHaveBeenCalledTimes(1);
+
+      release();
+      await first;
+      const calls = slow.mock.calls.length;
+      await (scanner as any).performScan();
+      expect(slow.mock.calls.length).toBeGreaterThan(calls);
+    });
+
+    it('should tag its log lines with the component, scan and pair', async () => {
+      const lines: string[] = [];
+      const logger = new Logger({ format: 'json', write: line => lines.push(line) });
+      const tagged = new ArbitrageScanner(
+        { ...config, monitoredPairs: ['SOL/USDC'], jupiter: { ...config.jupiter, enabled: true } },
+        undefined,
+        new FeeEstimator(null),
+        logger
+      );
+      (tagged as any).jupiterClient = { getBestRoute };
+
+      await (tagged as any).performScan();
+      await (tagged as any).performScan();
+
+      const entries = lines.map(line => JSON.parse(line));
+      expect(entries.every(entry => entry.component === 'scanner')).toBe(true);
+      const scans = entries.filter(entry => entry.msg.startsWith('Performing scan'));
+      expect(scans.map(entry => entry.scanId)).toEqual([expect.stringMatching(/^scan_1_\d+$/), expect.stringMatching(/^scan_2_\d+$/)]);
+      expect(scans[0].pair).toBeUndefined();
+      const found = entries.find(entry => entry.msg === 'ARBITRAGE OPPORTUNITY FOUND!');
+      expect(found).toMatchObject({ scanId: scans[0].scanId, pair: 'SOL/USDC', buyDex: 'Raydium', sellDex: 'Whirlpool' });
+    });
+
+    it('should price each round trip\'s gas with the fee estimator and size net of it', async () => {
+      const [opportunity] = await scan();
+
+      const sample = await new FeeEstimator(null).samplePriorityFee([]);
+      const gasCost = new FeeEstimator(null).estimateWith(sample, ['Jupiter', 'Jupiter'], null).costSol;
+      expect(opportunity.estimatedGasCost).toEqual(gasCost);
+      // SOL in, SOL out: gas is charged at face value
+      const grossProfit = opportunity.tradeSize.mul(200).div(199).sub(opportunity.tradeSize);
+      expect(opportunity.estimatedProfit.toNumber()).toBeCloseTo(grossProfit.sub(gasCost).toNumber(), 9);
+    });
+  });
+});
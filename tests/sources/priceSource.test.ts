@@ -0,0 +1,98 @@
+import Decimal from 'decimal.js';
+import { defaultConfig } from '../../src/config/config';
+import { PriceSource, PriceSourceRegistry, SourceQuote } from '../../src/sources/priceSource';
+import { DEFAULT_PRICE_SOURCE_IDS, createPriceSourceRegistry } from '../../src/sources/defaultSources';
+import { JupiterClient } from '../../src/utils/jupiterClient';
+import { OptimizedPriceCollector, TokenPair } from '../../src/utils/optimizedPriceCollector';
+import { FixtureAccountFetcher } from '../helpers/fixtureAccountFetcher';
+
+jest.mock('axios');
+
+class FixedPriceSource implements PriceSource {
+  readonly kind = 'direct';
+  constructor(readonly id: string, readonly name: string, private outputAmount: string) {}
+
+  async quote(tokenPair: TokenPair): Promise<SourceQuote> {
+    return { outputAmount: this.outputAmount, priceImpact: 0.001, liquidity: 2500000, fees: '0' };
+  }
+}
+
+describe('PriceSourceRegistry Tests', () => {
+  const fetcher = FixtureAccountFetcher.fromFiles(
+    'raydiumAmmSolUsdc.json',
+    'orcaWhirlpoolSolUsdc.json',
+    'phoenixSolUsdc.json',
+    'meteoraDlmmSolUsdc.json'
+  );
+  const solUsdc: TokenPair = { from: 'SOL', to: 'USDC', amount: new Decimal(1) };
+
+  describe('Registration', () => {
+    it('should keep sources in registration order', () => {
+      const registry = createPriceSourceRegistry(fetcher, new JupiterClient());
+
+      expect(registry.getAll().map(source => source.id))
+        .toEqual(['raydium', 'orca', 'phoenix', 'meteora', 'jupiter']);
+      expect(registry.getAll().map(source => source.id)).toEqual(DEFAULT_PRICE_SOURCE_IDS);
+    });
+
+    it('should reject duplicate source ids', () => {
+      const registry = new PriceSourceRegistry();
+      registry.register(new FixedPriceSource('lifinity', 'Lifinity', '1'));
+
+      expect(() => registry.register(new FixedPriceSource('lifinity', 'Lifinity', '2')))
+        .toThrow('Price source already registered: lifinity');
+    });
+
+    it('should reject toggling unknown sources', () => {
+      expect(() => new PriceSourceRegistry().setEnabled('aldrin', false)).toThrow('Unknown price source: aldrin');
+    });
+  });
+
+  describe('Configuration', () => {
+    it('should enable and disable venues from ScannerConfig.dexes', () => {
+      const config = {
+        ...defaultConfig,
+        dexes: { ...defaultConfig.dexes, orca: { ...defaultConfig.dexes.orca, enabled: false } },
+        jupiter: { ...defaultConfig.jupiter, enabled: false }
+      };
+      const registry = createPriceSourceRegistry(fetcher, new JupiterClient(), config);
+
+      expect(registry.getEnabled().map(source => source.id)).toEqual(['raydium', 'phoenix', 'meteora']);
+      expect(registry.isEnabled('orca')).toBe(false);
+    });
+
+    it('should leave sources without a config entry untouched', () => {
+      const registry = new PriceSourceRegistry();
+      registry.register(new FixedPriceSource('lifinity', 'Lifinity', '1'), false);
+      registry.applyConfig(defaultConfig);
+
+      expect(registry.isEnabled('lifinity')).toBe(false);
+    });
+  });
+
+  describe('Collection', () => {
+    it('should key consolidated prices by source id and skip disabled sources', async () => {
+      const collector = new OptimizedPriceCollector(fetcher);
+      collector.getSourceRegistry().setEnabled('phoenix', false);
+
+      const result = await collector.collectRealPrices(solUsdc, { includeJupiterAggregated: false });
+
+      expect(Array.from(result.prices.keys())).toEqual(['raydium', 'orca', 'meteora']);
+      expect(result.prices.get('raydium')?.dex).toBe('Raydium');
+      expect(result.metadata.successfulSources).toBe(3);
+    });
+
+    it('should price a newly registered venue without collector changes', async () => {
+      const registry = new PriceSourceRegistry();
+      registry.register(new FixedPriceSource('lifinity', 'Lifinity', '185600000'));
+      const collector = new OptimizedPriceCollector(fetcher, registry);
+
+      const result = await collector.collectRealPrices(solUsdc);
+      const lifinity = result.prices.get('lifinity');
+
+      expect(lifinity?.price.toNumber()).toBe(185.6);
+      expect(lifinity?.source).toBe('direct');
+      expect(lifinity?.liquidityAvailable).toBe(true);
+    });
+  });
+});
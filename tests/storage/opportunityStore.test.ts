@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { OpportunityRow, OpportunityStore, QuoteRow, ScanRecord } from '../../src/storage/opportunityStore';
+import {
+  findOpportunities,
+  findQuotes,
+  listScans,
+  summarizeScanners,
+  venueUptimeByHour
+} from '../../src/storage/queries';
+
+const HOUR = 3600000;
+const T0 = Date.UTC(2026, 9, 1, 12); // On the hour
+
+const quote = (overrides: Partial<QuoteRow>): QuoteRow => ({
+  timestamp: T0,
+  pair: 'SOL/USDC',
+  venue: 'Raydium',
+  inputAmount: 1,
+  outputAmount: 185,
+  price: 185,
+  priceImpact: 0.001,
+  responseTimeMs: 120,
+  ...overrides
+});
+
+const opportunity = (overrides: Partial<OpportunityRow>): OpportunityRow => ({
+  timestamp: T0,
+  pair: 'SOL/USDC',
+  strategy: 'direct_vs_direct',
+  buyVenue: 'Orca Whirlpool',
+  sellVenue: 'Raydium Direct',
+  buyPrice: 184.8,
+  sellPrice: 185.2,
+  spreadPercent: 0.216,
+  grossProfit: 0.4,
+  gasCost: 0.0000077,
+  netProfit: 0.3986,
+  confidence: 'medium',
+  viable: true,
+  ...overrides
+});
+
+const scan = (overrides: Partial<ScanRecord>): ScanRecord => ({
+  scanner: 'legitimate',
+  startedAt: T0,
+  finishedAt: T0 + 5000,
+  quotes: [],
+  opportunities: [],
+  sourceHealth: [],
+  ...overrides
+});
+
+describe('OpportunityStore', () => {
+  let store: OpportunityStore;
+
+  beforeEach(() => {
+    store = new OpportunityStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should record a scan with its quotes, opportunities and source health', () => {
+    const scanId = store.recordScan(scan({
+      quotes: [quote({}), quote({ venue: 'Orca Whirlpool', price: 184.8, responseTimeMs: null })],
+      opportunities: [opportunity({ viable: null })],
+      sourceHealth: [{ timestamp: T0, venue: 'Meteora DLMM', pair: 'SOL/USDC', success: false, latencyMs: 1500, error: 'Timed out' }],
+      error: 'Meteora unavailable'
+    }));
+
+    expect(listScans(store)).toEqual([{
+      id: scanId,
+      scanner: 'legitimate',
+      startedAt: T0,
+      finishedAt: T0 + 5000,
+      quoteCount: 2,
+      opportunityCount: 1,
+      error: 'Meteora unavailable'
+    }]);
+
+    const quotes = findQuotes(store, { pair: 'SOL/USDC' });
+    expect(quotes.map(row => row.venue)).toEqual(['Raydium', 'Orca Whirlpool']);
+    expect(quotes[1]).toMatchObject({ scanId, scanner: 'legitimate', price: 184.8, responseTimeMs: null });
+
+    const [stored] = findOpportunities(store);
+    expect(stored).toMatchObject({ ...opportunity({ viable: null }), scanId, scanner: 'legitimate' });
+  });
+
+  it('should roll back a scan whose rows fail to insert', () => {
+    const broken = scan({ quotes: [quote({}), quote({ price: null as unknown as number })] });
+
+    expect(() => store.recordScan(broken)).toThrow();
+    expect(listScans(store)).toHaveLength(0);
+    expect(findQuotes(store)).toHaveLength(0);
+  });
+
+  it('should persist to disk and refuse a newer schema', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'opportunity-store-'));
+    const filename = path.join(directory, 'nested', 'arbitrage.db');
+
+    try {
+      const first = new OpportunityStore(filename);
+      first.recordScan(scan({ opportunities: [opportunity({})] }));
+      first.close();
+
+      const reopened = new OpportunityStore(filename);
+      expect(findOpportunities(reopened)).toHaveLength(1);
+      reopened.close();
+
+      const raw = new Database(filename);
+      raw.pragma('user_version = 99');
+      raw.close();
+      expect(() => new OpportunityStore(filename)).toThrow('Store schema version 99 is newer than supported version 1');
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  describe('queries', () => {
+    beforeEach(() => {
+      store.recordScan(scan({
+        opportunities: [
+          opportunity({ timestamp: T0, spreadPercent: 0.2 }),
+          opportunity({ timestamp: T0 + 1000, spreadPercent: 0.8, viable: false }),
+          opportunity({ timestamp: T0 + 2000, pair: 'RAY/USDC', spreadPercent: 1.5 })
+        ],
+        sourceHealth: [
+          { timestamp: T0, venue: 'Raydium Direct', pair: 'SOL/USDC', success: true, latencyMs: 100, error: null },
+          { timestamp: T0 + 60000, venue: 'Raydium Direct', pair: 'SOL/USDC', success: false, latencyMs: 3000, error: '429' },
+          { timestamp: T0 + 120000, venue: 'Raydium Direct', pair: 'SOL/USDC', success: true, latencyMs: 200, error: null },
+          { timestamp: T0 + 120000, venue: 'Orca Whirlpool', pair: 'SOL/USDC', success: true, latencyMs: 50, error: null },
+          { timestamp: T0 + HOUR + 5, venue: 'Raydium Direct', pair: 'SOL/USDC', success: true, latencyMs: 80, error: null }
+        ]
+      }));
+      store.recordScan(scan({
+        scanner: 'optimized',
+        startedAt: T0 + HOUR,
+        finishedAt: T0 + HOUR + 900,
+        opportunities: [
+          opportunity({ timestamp: T0 + HOUR, strategy: 'direct_arbitrage', buyVenue: 'orca', sellVenue: 'meteora', spreadPercent: 0.6, netProfit: -0.1, viable: null })
+        ]
+      }));
+      store.recordScan(scan({ scanner: 'optimized', startedAt: T0 + 2 * HOUR, finishedAt: T0 + 2 * HOUR + 800 }));
+    });
+
+    it('should find opportunities for a pair between two timestamps above a spread', () => {
+      const found = findOpportunities(store, {
+        pair: 'SOL/USDC',
+        from: T0,
+        to: new Date(T0 + HOUR),
+        minSpreadPercent: 0.5
+      });
+
+      expect(found.map(row => row.spreadPercent)).toEqual([0.8]);
+      expect(found[0].viable).toBe(false);
+    });
+
+    it('should combine scanner, venue, profit and viability filters', () => {
+      expect(findOpportunities(store, { scanner: 'optimized' }).map(row => row.strategy)).toEqual(['direct_arbitrage']);
+      expect(findOpportunities(store, { venue: 'meteora' })).toHaveLength(1);
+      expect(findOpportunities(store, { venue: 'Orca Whirlpool' })).toHaveLength(3);
+      expect(findOpportunities(store, { minNetProfit: 0 })).toHaveLength(3);
+      expect(findOpportunities(store, { viableOnly: true }).map(row => row.pair)).toEqual(['RAY/USDC', 'SOL/USDC']);
+    });
+
+    it('should return the newest opportunities first up to the limit', () => {
+      const newest = findOpportunities(store, { limit: 2 });
+
+      expect(newest.map(row => row.timestamp)).toEqual([T0 + HOUR, T0 + 2000]);
+      expect(() => findOpportunities(store, { limit: 0 })).toThrow('Query limit must be a positive integer, got 0');
+    });
+
+    it('should report per-venue uptime by hour', () => {
+      expect(venueUptimeByHour(store, { pair: 'SOL/USDC' })).toEqual([
+        { venue: 'Orca Whirlpool', hour: T0, checks: 1, successes: 1, uptime: 1, averageLatencyMs: 50 },
+        { venue: 'Raydium Direct', hour: T0, checks: 3, successes: 2, uptime: 2 / 3, averageLatencyMs: 150 },
+        { venue: 'Raydium Direct', hour: T0 + HOUR, checks: 1, successes: 1, uptime: 1, averageLatencyMs: 80 }
+      ]);
+      expect(venueUptimeByHour(store, { venue: 'Raydium Direct', from: T0 + HOUR })).toHaveLength(1);
+    });
+
+    it('should list scans newest first and summarize each scanner mode', () => {
+      expect(listScans(store, { scanner: 'optimized' }).map(row => row.startedAt)).toEqual([T0 + 2 * HOUR, T0 + HOUR]);
+      expect(listScans(store, { to: T0 + HOUR })).toHaveLength(1);
+
+      expect(summarizeScanners(store)).toEqual([
+        {
+          scanner: 'legitimate',
+          scans: 1,
+          quotes: 0,
+          opportunities: 3,
+          bestSpreadPercent: 1.5,
+          firstScanAt: T0,
+          lastScanAt: T0
+        },
+        {
+          scanner: 'optimized',
+          scans: 2,
+          quotes: 0,
+          opportunities: 1,
+          bestSpreadPercent: 0.6,
+          firstScanAt: T0 + HOUR,
+          lastScanAt: T0 + 2 * HOUR
+        }
+      ]);
+      expect(summarizeScanners(store, { from: T0 + 2 * HOUR })[0].bestSpreadPercent).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import Decimal from 'decimal.js';
+import { OpportunityStore } from '../../src/storage/opportunityStore';
+import { findOpportunities, findQuotes, listScans, venueUptimeByHour } from '../../src/storage/queries';
+import { ScanRecorder, opportunityRows, priceMapRows, quoteRows, sourceCheck } from '../../src/storage/scanRecorder';
+import { DEXPrice, DEXPriceMap } from '../../src/utils/optimizedPriceCollector';
+
+const T0 = Date.UTC(2026, 9, 1, 12);
+
+const dexPrice = (dex: string, price: number, overrides: Partial<DEXPrice> = {}): DEXPrice => ({
+  dex,
+  price: new Decimal(price),
+  inputAmount: new Decimal(1),
+  outputAmount: new Decimal(price),
+  priceImpact: new Decimal(0.002),
+  liquidityAvailable: true,
+  source: 'direct',
+  responseTime: 90,
+  confidence: 0.9,
+  timestamp: T0,
+  ...overrides
+});
+
+describe('ScanRecorder', () => {
+  let store: OpportunityStore;
+
+  beforeEach(() => {
+    store = new OpportunityStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should convert scanner quotes and percent-spread opportunities', () => {
+    expect(quoteRows('SOL/USDC', [dexPrice('Raydium', 185)], T0)).toEqual([{
+      timestamp: T0,
+      pair: 'SOL/USDC',
+      venue: 'Raydium',
+      inputAmount: 1,
+      outputAmount: 185,
+      price: 185,
+      priceImpact: 0.002,
+      responseTimeMs: null
+    }]);
+
+    const [row] = opportunityRows('cross_dex', [{
+      pair: 'SOL/USDC',
+      buyDex: 'Orca',
+      sellDex: 'Raydium',
+      buyPrice: new Decimal(184),
+      sellPrice: new Decimal(185),
+      profit: new Decimal(1),
+      profitPercentage: new Decimal(0.5435)
+    }], T0);
+    expect(row).toMatchObject({ strategy: 'cross_dex', spreadPercent: 0.5435, gasCost: null, netProfit: null, viable: null });
+  });
+
+  it('should turn a collector run into quotes and per-source health', () => {
+    const priceMap: DEXPriceMap = {
+      prices: new Map([
+        ['raydium', dexPrice('raydium', 185)],
+        ['phoenix', dexPrice('phoenix', 0, { responseTime: 3000, error: 'Timeout' })]
+      ]),
+      metadata: { totalResponseTime: 3000, successfulSources: 1, failedSources: 1, timestamp: T0, requestId: 'r1' }
+    };
+
+    const { quotes, sourceHealth } = priceMapRows('SOL/USDC', priceMap);
+
+    expect(quotes.map(row => row.venue)).toEqual(['raydium']);
+    expect(quotes[0].responseTimeMs).toBe(90);
+    expect(sourceHealth).toEqual([
+      { timestamp: T0, venue: 'raydium', pair: 'SOL/USDC', success: true, latencyMs: 90, error: null },
+      { timestamp: T0, venue: 'phoenix', pair: 'SOL/USDC', success: false, latencyMs: 3000, error: 'Timeout' }
+    ]);
+  });
+
+  it('should write everything added between begin and finish as one scan', () => {
+    const recorder = new ScanRecorder(store, 'conservative');
+
+    recorder.begin(T0);
+    recorder.addQuotes(quoteRows('SOL/USDC', [dexPrice('Raydium', 185), dexPrice('Orca', 184)], T0));
+    recorder.addSourceHealth([
+      sourceCheck('Jupiter', 'SOL/USDC', T0),
+      sourceCheck('Jupiter', 'RAY/USDC', T0, new Error('Request failed with status code 429'))
+    ]);
+    const scanId = recorder.finish();
+
+    expect(listScans(store)).toEqual([expect.objectContaining({ id: scanId, scanner: 'conservative', quoteCount: 2 })]);
+    expect(findQuotes(store, { scanner: 'conservative' })).toHaveLength(2);
+    expect(venueUptimeByHour(store, { venue: 'Jupiter' })[0]).toMatchObject({ checks: 2, successes: 1, uptime: 0.5 });
+  });
+
+  it('should require a scan in progress and record nothing without a store', () => {
+    const recorder = new ScanRecorder(null, 'realtime');
+
+    expect(() => recorder.addOpportunities([])).toThrow('No realtime scan in progress; call begin() first');
+
+    recorder.begin();
+    expect(recorder.finish()).toBeNull();
+    expect(() => recorder.finish()).toThrow('No realtime scan in progress');
+  });
+
+  it('should log store failures instead of throwing them', () => {
+    const recorder = new ScanRecorder(store, 'professional');
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    store.close();
+
+    try {
+      recorder.begin();
+      expect(recorder.finish()).toBeNull();
+      expect(consoleError).toHaveBeenCalledWith(
+        '❌ Error writing to opportunity store:',
+        expect.objectContaining({ message: 'The database connection is not open' })
+      );
+    } finally {
+      consoleError.mockRestore();
+      store = new OpportunityStore(':memory:');
+    }
+  });
+
+  it('should store gas and net profit when the scanner estimated them', () => {
+    const recorder = new ScanRecorder(store, 'legitimate');
+
+    recorder.begin(T0);
+    recorder.addOpportunities(opportunityRows('cross_dex', [{
+      pair: 'SOL/USDC',
+      buyDex: 'Orca',
+      sellDex: 'Raydium',
+      buyPrice: new Decimal(184),
+      sellPrice: new Decimal(185),
+      profit: new Decimal(1),
+      profitPercentage: new Decimal(0.5435),
+      estimatedGasCost: new Decimal(0.0014),
+      netProfitAfterGas: new Decimal(0.9986)
+    }], T0));
+    recorder.finish();
+
+    expect(findOpportunities(store, { minSpreadPercent: 0.5 })[0]).toMatchObject({ gasCost: 0.0014, netProfit: 0.9986 });
+  });
+});
@@ -0,0 +1,244 @@
+import Decimal from 'decimal.js';
+import { ArbitrageAnalyzer } from '../../src/utils/arbitrageAnalyzer';
+import { FeeEstimator } from '../../src/execution/feeEstimator';
+import { OptimizedPriceCollector, TokenPair } from '../../src/utils/optimizedPriceCollector';
+import { PriceSource, PriceSourceRegistry, SourceQuote } from '../../src/sources/priceSource';
+import { FixtureAccountFetcher } from '../helpers/fixtureAccountFetcher';
+
+jest.mock('axios');
+
+const DECIMALS: Record<string, number> = { SOL: 9, USDC: 6, USDT: 6, RAY: 6 };
+
+/**
+ * Venue with fixed exchange rates and a 0.3% fee in the input token
+ */
+class RateTableSource implements PriceSource {
+  readonly kind = 'direct';
+  constructor(readonly id: string, readonly name: string, private rates: Record<string, number>) {}
+
+  async quote(tokenPair: TokenPair): Promise<SourceQuote> {
+    const rate = this.rates[`${tokenPair.from}/${tokenPair.to}`];
+    if (!rate) {
+      throw new Error(`No ${this.name} market for ${tokenPair.from}/${tokenPair.to}`);
+    }
+
+    return {
+      outputAmount: tokenPair.amount.mul(rate).mul(new Decimal(10).pow(DECIMALS[tokenPair.to])).floor().toFixed(),
+      priceImpact: 0.001,
+      fees: tokenPair.amount.mul(0.003).toString(),
+      confidence: 0.9
+    };
+  }
+}
+
+describe('ArbitrageAnalyzer Tests', () => {
+  let analyzer: ArbitrageAnalyzer;
+
+  beforeEach(() => {
+    const accountFetcher = FixtureAccountFetcher.fromFiles(
+      'raydiumAmmSolUsdc.json',
+      'orcaWhirlpoolSolUsdc.json',
+      'phoenixSolUsdc.json',
+      'meteoraDlmmSolUsdc.json'
+    );
+    analyzer = new ArbitrageAnalyzer(new OptimizedPriceCollector(accountFetcher), new FeeEstimator());
+  });
+
+  it('should compare Meteora against the other direct venues', async () => {
+    const result = await analyzer.analyzeArbitrageOpportunities(
+      { from: 'SOL', to: 'USDC', amount: new Decimal(1) },
+      { includeGasCosts: false, minProfitThreshold: new Decimal(0) }
+    );
+
+    expect(result.priceData.prices.get('meteora')?.error).toBeUndefined();
+
+    const meteoraLegs = result.opportunities.filter(opp =>
+      opp.buyDex === 'meteora' || opp.sellDex === 'meteora'
+    );
+    expect(meteoraLegs.length).toBeGreaterThan(0);
+
+    // Orca fills 1 SOL at the lowest price, Meteora at one of the highest
+    const orcaToMeteora = result.opportunities.find(opp => opp.buyDex === 'orca' && opp.sellDex === 'meteora');
+    expect(orcaToMeteora?.netProfit.gt(0)).toBe(true);
+  });
+
+  describe('Triangular Arbitrage', () => {
+    const createAnalyzer = (...sources: PriceSource[]) => {
+      const registry = new PriceSourceRegistry();
+      sources.forEach(source => registry.register(source));
+      return new ArbitrageAnalyzer(new OptimizedPriceCollector(undefined, registry), new FeeEstimator());
+    };
+
+    const alpha = new RateTableSource('alpha', 'Alpha', {
+      'SOL/USDC': 185, 'USDC/RAY': 0.4, 'RAY/SOL': 0.0136,
+      'SOL/RAY': 73, 'RAY/USDC': 2.49, 'USDC/SOL': 1 / 186
+    });
+    const beta = new RateTableSource('beta', 'Beta', { 'SOL/USDC': 184.5, 'RAY/SOL': 0.0137 });
+
+    it('should find a profitable SOL→USDC→RAY→SOL cycle through the best venue per leg', async () => {
+      const result = await createAnalyzer(alpha, beta).analyzeTriangularOpportunities(
+        'SOL', ['USDC', 'RAY'], new Decimal(1), { includeGasCosts: false }
+      );
+
+      expect(result.opportunities).toHaveLength(1);
+      const cycle = result.opportunities[0];
+
+      expect(cycle.strategy).toBe('triangular_arbitrage');
+      expect(cycle.pair).toBe('SOL→USDC→RAY→SOL');
+      expect(cycle.legs!.map(leg => leg.dex)).toEqual(['alpha', 'alpha', 'beta']);
+      expect(cycle.legs!.map(leg => leg.amountOut.toNumber())).toEqual([185, 74, 1.0138]);
+      expect(cycle.buyDex).toBe('alpha');
+      expect(cycle.sellDex).toBe('beta');
+      expect(cycle.netProfit.toNumber()).toBeCloseTo(0.0138, 10);
+      expect(cycle.spreadPercentage.toNumber()).toBeCloseTo(0.0138, 10);
+    });
+
+    it('should report per-leg fees and compound price impact', async () => {
+      const result = await createAnalyzer(alpha).analyzeTriangularOpportunities(
+        'SOL', ['USDC', 'RAY'], new Decimal(1), { includeGasCosts: false }
+      );
+      const legs = result.opportunities[0].legs!;
+
+      expect(legs.map(leg => leg.fees.toNumber())).toEqual([0.003, 0.555, 0.222]);
+      expect(legs.map(leg => leg.feeToken)).toEqual(['SOL', 'USDC', 'RAY']);
+      expect(result.opportunities[0].priceImpactTotal.toNumber()).toBeCloseTo(1 - Math.pow(0.999, 3), 12);
+    });
+
+    it('should expose the quoted token graph', async () => {
+      const result = await createAnalyzer(alpha).analyzeTriangularOpportunities(
+        'SOL', ['USDC', 'RAY'], new Decimal(2)
+      );
+
+      expect(Array.from(result.tokenGraph!.get('SOL')!.keys()).sort()).toEqual(['RAY', 'USDC']);
+      // Cross legs are sized at what the opening leg returned
+      expect(result.tokenGraph!.get('USDC')!.get('RAY')!.prices.get('alpha')!.inputAmount.toNumber()).toBe(370);
+    });
+
+    it('should discard cycles that lose value', async () => {
+      const flat = new RateTableSource('flat', 'Flat', {
+        'SOL/USDC': 185, 'USDC/RAY': 0.4, 'RAY/SOL': 0.0135,
+        'SOL/RAY': 74, 'RAY/USDC': 2.5, 'USDC/SOL': 1 / 185.5
+      });
+      const result = await createAnalyzer(flat).analyzeTriangularOpportunities(
+        'SOL', ['USDC', 'RAY'], new Decimal(1), { includeGasCosts: false }
+      );
+
+      expect(result.opportunities).toHaveLength(0);
+      expect(result.recommendations[0]).toContain('No arbitrage opportunities found');
+    });
+
+    it('should warn when no cycle can be closed', async () => {
+      const oneWay = new RateTableSource('oneway', 'One Way', { 'SOL/USDC': 185, 'SOL/RAY': 74 });
+      const result = await createAnalyzer(oneWay).analyzeTriangularOpportunities(
+        'SOL', ['USDC', 'RAY'], new Decimal(1)
+      );
+
+      expect(result.warnings).toContain('No complete three-leg cycle could be priced');
+    });
+
+    it('should require two distinct intermediate tokens', async () => {
+      const result = await createAnalyzer(alpha).analyzeTriangularOpportunities(
+        'SOL', ['USDC', 'SOL'], new Decimal(1)
+      );
+
+      expect(result.opportunities).toHaveLength(0);
+      expect(result.warnings[0]).toContain('needs at least two intermediate tokens');
+    });
+  });
+
+  describe('N-hop Cycle Search', () => {
+    // A ring with no shortcuts: only the 4-hop loop SOL→USDC→USDT→RAY→SOL gains value
+    const ring = new RateTableSource('ring', 'Ring', {
+      'SOL/USDC': 185, 'USDC/USDT': 1.004, 'USDT/RAY': 0.4, 'RAY/SOL': 0.0135,
+      'USDC/SOL': 1 / 185.5, 'USDT/USDC': 0.997, 'RAY/USDT': 2.49, 'SOL/RAY': 73.5
+    });
+
+    const createAnalyzer = () => {
+      const registry = new PriceSourceRegistry();
+      registry.register(ring);
+      return new ArbitrageAnalyzer(new OptimizedPriceCollector(undefined, registry), new FeeEstimator());
+    };
+
+    it('should find cycles longer than three hops', async () => {
+      const result = await createAnalyzer().analyzeCycleOpportunities('SOL', new Decimal(1), {
+        tokens: ['USDC', 'USDT', 'RAY'],
+        maxHops: 4,
+        includeGasCosts: false
+      });
+
+      expect(result.opportunities).toHaveLength(1);
+      const cycle = result.opportunities[0];
+
+      expect(cycle.strategy).toBe('cycle_arbitrage');
+      expect(cycle.pair).toBe('SOL→USDC→USDT→RAY→SOL');
+      expect(cycle.legs!.map(leg => leg.amountOut.toNumber())).toEqual([185, 185.74, 74.296, 1.002996]);
+      expect(cycle.netProfit.toNumber()).toBeCloseTo(0.002996, 10);
+      expect(result.analysis.totalOpportunities).toBe(1);
+    });
+
+    it('should respect the hop limit', async () => {
+      const result = await createAnalyzer().analyzeCycleOpportunities('SOL', new Decimal(1), {
+        tokens: ['USDC', 'USDT', 'RAY'],
+        maxHops: 3,
+        includeGasCosts: false
+      });
+
+      expect(result.opportunities).toHaveLength(0);
+    });
+
+    it('should drop cycles that gas makes unprofitable', async () => {
+      const result = await createAnalyzer().analyzeCycleOpportunities('SOL', new Decimal(1), {
+        tokens: ['USDC', 'USDT', 'RAY'],
+        estimatedGasPrice: new Decimal(0.005)
+      });
+
+      expect(result.opportunities).toHaveLength(0);
+    });
+
+    it('should charge the estimated fee for the route when no fixed gas price is set', async () => {
+      const result = await createAnalyzer().analyzeCycleOpportunities('SOL', new Decimal(1), {
+        tokens: ['USDC', 'USDT', 'RAY'],
+        maxHops: 4
+      });
+
+      // Four unprofiled swaps at the 10,000 µlamport fallback: 5000 + ceil(0.01 * 825,000) lamports
+      const cycle = result.opportunities[0];
+      expect(cycle.estimatedGas.toNumber()).toBe(0.00001325);
+      expect(cycle.netProfit.toNumber()).toBeCloseTo(0.002996 - 0.00001325, 10);
+    });
+
+    it('should cap the quotes in flight while building the graph', async () => {
+      let inFlight = 0;
+      let peak = 0;
+      const registry = new PriceSourceRegistry();
+      registry.register({
+        id: 'slow',
+        name: 'Slow',
+        kind: 'direct',
+        quote: async tokenPair => {
+          peak = Math.max(peak, ++inFlight);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          inFlight--;
+          throw new Error(`No Slow market for ${tokenPair.from}/${tokenPair.to}`);
+        }
+      });
+      const tokens = ['USDC', 'USDT', 'RAY', 'ORCA', 'JUP', 'BONK', 'STEP', 'SAMO', 'FIDA', 'SRM'];
+
+      await new ArbitrageAnalyzer(new OptimizedPriceCollector(undefined, registry), new FeeEstimator())
+        .analyzeCycleOpportunities('SOL', new Decimal(1), { tokens, includeGasCosts: false });
+
+      expect(peak).toBeGreaterThan(1);
+      expect(peak).toBeLessThanOrEqual(4);
+    });
+
+    it('should report an invalid hop limit as a failed analysis', async () => {
+      const result = await createAnalyzer().analyzeCycleOpportunities('SOL', new Decimal(1), {
+        tokens: ['USDC'],
+        maxHops: 1
+      });
+
+      expect(result.warnings[0]).toContain('maxHops must be at least 2');
+      expect(result.analysis.dataQuality).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import Decimal from 'decimal.js';
+import { TokenGraph } from '../../src/utils/arbitrageAnalyzer';
+import { PriceEdge, buildLogPriceEdges, findNegativeCycles, rotateCycle } from '../../src/utils/cycleFinder';
+import { DEXPrice, DEXPriceMap } from '../../src/utils/optimizedPriceCollector';
+
+const edge = (from: string, to: string, price: number, dex: string = 'alpha'): PriceEdge => ({
+  from, to, dex, weight: -Math.log(price)
+});
+
+const priceMap = (prices: Record<string, number | string>): DEXPriceMap => {
+  const map = new Map<string, DEXPrice>();
+  Object.entries(prices).forEach(([dex, price]) => map.set(dex, {
+    dex,
+    price: new Decimal(typeof price === 'number' ? price : 0),
+    outputAmount: new Decimal(0),
+    inputAmount: new Decimal(1),
+    priceImpact: new Decimal(0),
+    liquidityAvailable: true,
+    source: 'direct',
+    responseTime: 0,
+    confidence: 1,
+    timestamp: 0,
+    error: typeof price === 'string' ? price : undefined
+  }));
+  return { prices: map, metadata: { totalResponseTime: 0, successfulSources: 0, failedSources: 0, timestamp: 0, requestId: 'test' } };
+};
+
+describe('Cycle Finder Tests', () => {
+  // SOL -> USDC -> RAY -> SOL returns 1.0064; every other loop loses value
+  const triangle = [
+    edge('SOL', 'USDC', 185), edge('USDC', 'SOL', 1 / 186),
+    edge('USDC', 'RAY', 0.4), edge('RAY', 'USDC', 2.49),
+    edge('RAY', 'SOL', 0.0136), edge('SOL', 'RAY', 73)
+  ];
+
+  it('should find a profitable cycle once, whichever token it is reached from', () => {
+    const cycles = findNegativeCycles(triangle, 3);
+
+    expect(cycles).toHaveLength(1);
+    expect(cycles[0].path).toHaveLength(4);
+    expect(cycles[0].path[0]).toBe(cycles[0].path[3]);
+    expect(cycles[0].rate).toBeCloseTo(1.0064, 10);
+    expect(cycles[0].weight).toBeLessThan(0);
+  });
+
+  it('should not return cycles longer than maxHops', () => {
+    expect(findNegativeCycles(triangle, 2)).toHaveLength(0);
+  });
+
+  it('should route each hop through the cheapest venue', () => {
+    const cycles = findNegativeCycles([...triangle, edge('RAY', 'SOL', 0.0137, 'beta')], 3);
+
+    const rotated = rotateCycle(cycles[0], 'SOL');
+    expect(rotated.path).toEqual(['SOL', 'USDC', 'RAY', 'SOL']);
+    expect(rotated.dexes).toEqual(['alpha', 'alpha', 'beta']);
+  });
+
+  it('should rank longer cycles by their compounded return', () => {
+    // A 4-hop ring with no shortcut, alongside the triangle
+    const ring = [
+      edge('SOL', 'USDT', 186), edge('USDT', 'ORCA', 0.5), edge('ORCA', 'RAY', 0.8), edge('RAY', 'SOL', 0.0136, 'beta')
+    ];
+    const cycles = findNegativeCycles([...triangle, ...ring], 4);
+
+    expect(cycles.map(cycle => cycle.path.length - 1)).toEqual([4, 3]);
+    expect(cycles[0].rate).toBeGreaterThan(cycles[1].rate);
+  });
+
+  it('should take the simple cycle out of a non-simple walk', () => {
+    // USDC <-> USDT is profitable on its own; SOL may not ride it twice
+    const cycles = findNegativeCycles([
+      edge('SOL', 'USDC', 185), edge('USDC', 'SOL', 1 / 185.2),
+      edge('USDC', 'USDT', 1.01), edge('USDT', 'USDC', 1.0)
+    ], 6);
+
+    expect(cycles.every(cycle => new Set(cycle.path.slice(1)).size === cycle.path.length - 1)).toBe(true);
+    expect(cycles).toHaveLength(1);
+    expect(rotateCycle(cycles[0], 'USDC').path).toEqual(['USDC', 'USDT', 'USDC']);
+    expect(cycles[0].rate).toBeCloseTo(1.01, 10);
+  });
+
+  it('should reject hop limits below two', () => {
+    expect(() => findNegativeCycles(triangle, 1)).toThrow('maxHops must be at least 2');
+  });
+
+  it('should build one edge per valid venue quote', () => {
+    const graph: TokenGraph = new Map([
+      ['SOL', new Map([['USDC', priceMap({ alpha: 185, beta: 184.9, gamma: 'Timeout after 5000ms' })]])]
+    ]);
+    const edges = buildLogPriceEdges(graph);
+
+    expect(edges.map(e => e.dex)).toEqual(['alpha', 'beta']);
+    expect(edges[0].weight).toBeCloseTo(-Math.log(185), 12);
+  });
+});
@@ -1,5 +1,6 @@
 import { OptimizedPriceCollector, TokenPair, DEXPriceMap, DEXPrice } from '../../src/utils/optimizedPriceCollector';
 import Decimal from 'decimal.js';
+import { FixtureAccountFetcher } from '../helpers/fixtureAccountFetcher';
 
 // Mock axios for testing
 jest.mock('axios');
@@ -9,7 +10,14 @@ describe('OptimizedPriceCollector Tests', () => {
   let mockTokenPair: TokenPair;
 
   beforeEach(() => {
-    priceCollector = new OptimizedPriceCollector();
+    // Recorded pool accounts with a small simulated RPC round trip
+    const accountFetcher = FixtureAccountFetcher.fromFiles(
+      'raydiumAmmSolUsdc.json',
+      'orcaWhirlpoolSolUsdc.json',
+      'phoenixSolUsdc.json',
+      'meteoraDlmmSolUsdc.json'
+    ).withLatency(20);
+    priceCollector = new OptimizedPriceCollector(accountFetcher);
     mockTokenPair = {
       from: 'SOL',
       to: 'USDC',
@@ -41,7 +49,7 @@ describe('OptimizedPriceCollector Tests', () => {
 
       // Should attempt all sources
       const attemptedSources = result.metadata.successfulSources + result.metadata.failedSources;
-      expect(attemptedSources).toBe(4); // Raydium, Orca, Phoenix, Jupiter
+      expect(attemptedSources).toBe(5); // Raydium, Orca, Phoenix, Meteora, Jupiter
 
       console.log(`✅ Performance: Parallel collection in ${executionTime}ms`);
       console.log(`📊 Sources: ${result.metadata.successfulSources} successful, ${result.metadata.failedSources} failed`);
@@ -60,10 +68,11 @@ describe('OptimizedPriceCollector Tests', () => {
 
       // Failed sources should not have valid price data
       const failedSources: string[] = [];
-      if (result.raydium?.error) failedSources.push('raydium');
-      if (result.orca?.error) failedSources.push('orca');
-      if (result.phoenix?.error) failedSources.push('phoenix');
-      if (result.jupiter?.error) failedSources.push('jupiter');
+      if (result.prices.get('raydium')?.error) failedSources.push('raydium');
+      if (result.prices.get('orca')?.error) failedSources.push('orca');
+      if (result.prices.get('phoenix')?.error) failedSources.push('phoenix');
+      if (result.prices.get('meteora')?.error) failedSources.push('meteora');
+      if (result.prices.get('jupiter')?.error) failedSources.push('jupiter');
 
       expect(failedSources.length).toBeGreaterThan(0);
 
@@ -76,25 +85,12 @@ describe('OptimizedPriceCollector Tests', () => {
       // Check individual response times
       const responseTimes: number[] = [];
       
-      if (result.raydium && !result.raydium.error) {
-        expect(result.raydium.responseTime).toBeGreaterThan(0);
-        responseTimes.push(result.raydium.responseTime);
-      }
-      
-      if (result.orca && !result.orca.error) {
-        expect(result.orca.responseTime).toBeGreaterThan(0);
-        responseTimes.push(result.orca.responseTime);
-      }
-      
-      if (result.phoenix && !result.phoenix.error) {
-        expect(result.phoenix.responseTime).toBeGreaterThan(0);
-        responseTimes.push(result.phoenix.responseTime);
-      }
-      
-      if (result.jupiter && !result.jupiter.error) {
-        expect(result.jupiter.responseTime).toBeGreaterThan(0);
-        responseTimes.push(result.jupiter.responseTime);
-      }
+      result.prices.forEach(price => {
+        if (!price.error) {
+          expect(price.responseTime).toBeGreaterThan(0);
+          responseTimes.push(price.responseTime);
+        }
+      });
 
       if (responseTimes.length > 0) {
         const avgResponseTime = responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length;
@@ -116,11 +112,8 @@ describe('OptimizedPriceCollector Tests', () => {
       const validSources: string[] = [];
 
       // Validate each successful source
-      Object.entries(result).forEach(([key, value]) => {
-        if (key === 'metadata') return;
-
-        const price = value as DEXPrice;
-        if (price && !price.error) {
+      result.prices.forEach((price, key) => {
+        if (!price.error) {
           validSources.push(key);
 
           // Basic structure validation
@@ -150,6 +143,49 @@ describe('OptimizedPriceCollector Tests', () => {
       console.log(`✅ Validation: ${validSources.length} sources returned valid data`);
     });
 
+    it('should price Raydium from on-chain pool state', async () => {
+      const result = await priceCollector.collectRealPrices(mockTokenPair);
+
+      expect(result.prices.get('raydium')?.error).toBeUndefined();
+      expect(result.prices.get('raydium')?.outputAmount.toString()).toBe('185032558');
+      expect(result.prices.get('raydium')?.price.toNumber()).toBeCloseTo(185.032558, 6);
+      expect(result.prices.get('raydium')?.priceImpact.toNumber()).toBeCloseTo(0.00001995, 8);
+      expect(result.prices.get('raydium')?.liquidityAvailable).toBe(true);
+    });
+
+    it('should price Orca from the Whirlpool and its tick arrays', async () => {
+      const result = await priceCollector.collectRealPrices(mockTokenPair);
+
+      expect(result.prices.get('orca')?.error).toBeUndefined();
+      expect(result.prices.get('orca')?.outputAmount.toString()).toBe('184942507');
+      expect(result.prices.get('orca')?.liquidityAvailable).toBe(true);
+    });
+
+    it('should price Phoenix by walking the order book net of the taker fee', async () => {
+      const result = await priceCollector.collectRealPrices(mockTokenPair);
+
+      expect(result.prices.get('phoenix')?.error).toBeUndefined();
+      expect(result.prices.get('phoenix')?.outputAmount.toString()).toBe('185452902');
+      expect(result.prices.get('phoenix')?.price.toNumber()).toBeCloseTo(185.452902, 6);
+    });
+
+    it('should price Meteora across DLMM bins with the variable fee', async () => {
+      const result = await priceCollector.collectRealPrices(mockTokenPair);
+
+      expect(result.prices.get('meteora')?.error).toBeUndefined();
+      expect(result.prices.get('meteora')?.outputAmount.toString()).toBe('185414287');
+      expect(result.prices.get('meteora')?.source).toBe('direct');
+    });
+
+    it('should report pairs without a configured Raydium pool as errors', async () => {
+      const result = await priceCollector.collectRealPrices({
+        from: 'BONK', to: 'USDC', amount: new Decimal(1000)
+      });
+
+      expect(result.prices.get('raydium')?.error).toContain('No Raydium pool configured');
+      expect(result.prices.get('raydium')?.liquidityAvailable).toBe(false);
+    });
+
     it('should handle invalid token pairs gracefully', async () => {
       const invalidPair: TokenPair = {
         from: 'INVALID',
@@ -168,11 +204,8 @@ describe('OptimizedPriceCollector Tests', () => {
       const validPrices: Decimal[] = [];
 
       // Collect valid prices
-      Object.entries(result).forEach(([key, value]) => {
-        if (key === 'metadata') return;
-
-        const price = value as DEXPrice;
-        if (price && !price.error && price.price.gt(0)) {
+      result.prices.forEach(price => {
+        if (!price.error && price.price.gt(0)) {
           validPrices.push(price.price);
         }
       });
@@ -255,7 +288,7 @@ describe('OptimizedPriceCollector Tests', () => {
       expect(totalTime).toBeLessThan(shortTimeout * 5); // Within 5x timeout
 
       // Should attempt all sources
-      expect(result.metadata.failedSources + result.metadata.successfulSources).toBe(4);
+      expect(result.metadata.failedSources + result.metadata.successfulSources).toBe(5);
 
       console.log(`⏱️ Timeout: Completed in ${totalTime}ms with ${shortTimeout}ms timeout`);
     });
@@ -272,8 +305,8 @@ describe('OptimizedPriceCollector Tests', () => {
       });
 
       // Should have different source counts
-      expect(withJupiter.metadata.successfulSources + withJupiter.metadata.failedSources).toBe(4);
-      expect(withoutJupiter.metadata.successfulSources + withoutJupiter.metadata.failedSources).toBe(3);
+      expect(withJupiter.metadata.successfulSources + withJupiter.metadata.failedSources).toBe(5);
+      expect(withoutJupiter.metadata.successfulSources + withoutJupiter.metadata.failedSources).toBe(4);
 
       console.log(`🎛️ Configuration: Jupiter inclusion works correctly`);
     });
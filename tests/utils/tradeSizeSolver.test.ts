@@ -0,0 +1,98 @@
+import Decimal from 'decimal.js';
+import { QuoteFunction, solveOptimalTradeSize } from '../../src/utils/tradeSizeSolver';
+
+/**
+ * Constant-product pool quote with a fee taken from the input
+ */
+const constantProduct = (reserveIn: number, reserveOut: number, feeRate: number): QuoteFunction =>
+  async amountIn => {
+    const netIn = amountIn.mul(1 - feeRate);
+    return netIn.mul(reserveOut).div(netIn.add(reserveIn));
+  };
+
+describe('Trade Size Solver Tests', () => {
+  // Pool A sells SOL at ~180 USDC, pool B buys it at ~186 USDC
+  const buyOnA = constantProduct(1800000, 10000, 0.0025);
+  const sellOnB = constantProduct(5000, 930000, 0.0025);
+
+  const bruteForce = async (gas: number, max: number) => {
+    let best = -Infinity;
+    for (let size = 1; size <= max; size += 1) {
+      const out = await sellOnB(await buyOnA(new Decimal(size)));
+      best = Math.max(best, out.toNumber() - size - gas);
+    }
+    return best;
+  };
+
+  it('should find the profit-maximizing size on two constant-product curves', async () => {
+    const solution = await solveOptimalTradeSize(buyOnA, sellOnB, {
+      minAmount: new Decimal(1),
+      maxAmount: new Decimal(100000)
+    });
+
+    expect(solution).not.toBeNull();
+    // Analytic optimum for these reserves is ~8,428 USDC
+    expect(solution!.amountIn.toNumber()).toBeCloseTo(8428.3, 0);
+    expect(solution!.netProfit.toNumber()).toBeGreaterThanOrEqual(await bruteForce(0, 12000) - 1e-6);
+    expect(solution!.evaluations).toBeLessThanOrEqual(40);
+  });
+
+  it('should net gas out of the profit', async () => {
+    const withoutGas = await solveOptimalTradeSize(buyOnA, sellOnB, {
+      minAmount: new Decimal(1),
+      maxAmount: new Decimal(100000)
+    });
+    const withGas = await solveOptimalTradeSize(buyOnA, sellOnB, {
+      minAmount: new Decimal(1),
+      maxAmount: new Decimal(100000),
+      gasCost: new Decimal(25)
+    });
+
+    expect(withGas!.grossProfit.sub(withGas!.netProfit).toNumber()).toBe(25);
+    expect(withGas!.netProfit.toNumber()).toBeCloseTo(withoutGas!.netProfit.toNumber() - 25, 2);
+  });
+
+  it('should stay within the range that can be filled', async () => {
+    // Sell side is an order book with 40 SOL of bids at 186
+    const bookSell: QuoteFunction = async amountIn => {
+      if (amountIn.gt(40)) throw new Error('Order exceeds bid depth');
+      return amountIn.mul(186);
+    };
+    const solution = await solveOptimalTradeSize(buyOnA, bookSell, {
+      minAmount: new Decimal(1),
+      maxAmount: new Decimal(100000)
+    });
+
+    expect(solution!.intermediateAmount.lte(40)).toBe(true);
+    expect(solution!.intermediateAmount.toNumber()).toBeGreaterThan(39);
+  });
+
+  it('should report a negative best case when no size is profitable', async () => {
+    // Reverse direction: buy where SOL is dear, sell where it is cheap
+    const buyOnB = constantProduct(930000, 5000, 0.0025);
+    const sellOnA = constantProduct(10000, 1800000, 0.0025);
+    const solution = await solveOptimalTradeSize(buyOnB, sellOnA, {
+      minAmount: new Decimal(1),
+      maxAmount: new Decimal(1000)
+    });
+
+    expect(solution!.netProfit.lt(0)).toBe(true);
+  });
+
+  it('should return null when nothing can be filled', async () => {
+    const unfillable: QuoteFunction = async () => { throw new Error('Pool is disabled'); };
+    const solution = await solveOptimalTradeSize(unfillable, sellOnB, {
+      minAmount: new Decimal(1),
+      maxAmount: new Decimal(1000)
+    });
+
+    expect(solution).toBeNull();
+  });
+
+  it('should reject empty size ranges', async () => {
+    await expect(solveOptimalTradeSize(buyOnA, sellOnB, {
+      minAmount: new Decimal(10),
+      maxAmount: new Decimal(5)
+    })).rejects.toThrow('Invalid trade size range');
+  });
+});